@@ -1,5 +0,0 @@
-// import { Warehouse } from "@/components/inventory/warehouse";
-
-export default function LagerPage() {
-  return null; // <Warehouse />;
-}
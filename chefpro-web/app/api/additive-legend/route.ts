@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { loadKitchenItems } from "@/lib/kitchen-items";
+import { computeInheritedAdditives } from "@/lib/recipe-calculation";
+import { buildAdditiveLegend } from "@/lib/additives";
+
+// Additive footnotes for a menu: the numbers per recipe and the legend of
+// all numbers used, for ?itemIds=a,b,c in menu order
+export async function GET(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const itemIds = Array.from(
+    new Set(
+      (searchParams.get("itemIds") ?? "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter((id) => id.length > 0)
+    )
+  );
+
+  if (itemIds.length === 0) {
+    return NextResponse.json(
+      { error: "itemIds ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const items = await loadKitchenItems(client, kitchen.kitchenId);
+    const itemsById = new Map(items.map((item) => [item.id, item]));
+    const missingIds = itemIds.filter((id) => !itemsById.has(id));
+
+    if (missingIds.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Artikel wurde nicht gefunden.",
+          missingIds,
+        },
+        { status: 404 }
+      );
+    }
+
+    const recipes = itemIds.map((id) => {
+      const item = itemsById.get(id) as (typeof items)[number];
+      return {
+        id: item.id,
+        name: item.name,
+        additives:
+          item.type === "eigenproduktion"
+            ? [
+                ...(item.additives ?? []),
+                ...computeInheritedAdditives(item, itemsById),
+              ]
+            : item.additives ?? [],
+      };
+    });
+
+    return NextResponse.json(buildAdditiveLegend(recipes));
+  } catch (error) {
+    console.error("Supabase additive legend error", {
+      error: error instanceof Error ? error.message : error,
+      itemIds,
+    });
+    const message =
+      error instanceof Error ? error.message : "Unbekannter Fehler";
+    return NextResponse.json(
+      { error: `Fehler beim Erstellen der Fußnoten: ${message}` },
+      { status: 500 }
+    );
+  }
+}
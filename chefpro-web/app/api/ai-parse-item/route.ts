@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { normalizeAllergens, toAllergenList } from "@/lib/allergens";
 
 type StandardPreparationComponent = {
   name: string;
@@ -35,6 +36,8 @@ type ParsedItem = {
   preparationText?: string | null;
   nutritionPerUnit?: NutritionTotals | null;
   dosageInstructions?: string | null;
+  allergens?: string[];
+  allergenTraces?: string[];
   isBio?: boolean;
   isDeklarationsfrei?: boolean;
   isAllergenfrei?: boolean;
@@ -102,6 +105,8 @@ Extrahiere folgende Daten als JSON:
 - preparationText: Zubereitungsschritte als Text (optional, Fließtext)
 - nutritionPerUnit: { energyKcal, fat, saturatedFat, carbs, sugar, protein, salt, fiber (Ballaststoffe), sodium (Natrium), breadUnits (BE), cholesterol (Cholesterin) } (optional, Werte als numbers oder null wenn k.A.)
 - dosageInstructions: Dosieranweisungen als Text (optional, falls nicht als components parsbar)
+- allergens: Array der enthaltenen Allergene als kurze Einträge; glutenhaltige Getreide und Schalenfrüchte einzeln benennen (z.B. "Weizen", "Haselnüsse")
+- allergenTraces: Array der Allergene aus Hinweisen wie "Kann Spuren von … enthalten" (nicht in allergens aufnehmen)
 - Boolean Flags (true/false, default false): isBio, isDeklarationsfrei, isAllergenfrei, isCookChill, isFreezeThawStable, isPalmOilFree, isYeastFree (Hefefrei), isLactoseFree (Laktosefrei), isGlutenFree (Glutenfrei), isVegan, isVegetarian.
 
 Berechne 'calculated_price_per_unit' = purchase_price / quantity.
@@ -212,6 +217,11 @@ Antworte NUR mit dem JSON-Objekt.
     const calculated =
       quantity > 0 ? purchasePrice / quantity : 0;
 
+    const normalizedAllergens = normalizeAllergens(
+      toAllergenList(parsedRaw.allergens),
+      toAllergenList(parsedRaw.allergenTraces)
+    );
+
     let standardPreparation: StandardPreparation | null = null;
     const rawStd = parsedRaw.standardPreparation;
     if (rawStd && Array.isArray(rawStd.components)) {
@@ -268,6 +278,8 @@ Antworte NUR mit dem JSON-Objekt.
         typeof parsedRaw.dosageInstructions === "string"
           ? parsedRaw.dosageInstructions
           : null,
+      allergens: normalizedAllergens.allergens,
+      allergenTraces: normalizedAllergens.traces,
       isBio: !!parsedRaw.isBio,
       isDeklarationsfrei: !!parsedRaw.isDeklarationsfrei,
       isAllergenfrei: !!parsedRaw.isAllergenfrei,
@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server";
+import {
+  computeProductionForecast,
+  formatProductionForecast,
+  type ProductionForecast,
+  type ProductionForecastInput,
+} from "@/lib/production-forecast";
+
+type ForecastEnrichment = {
+  settings?: string;
+  cleaningEffort?: string;
+};
+
+async function enrichForecast(
+  apiKey: string,
+  input: ProductionForecastInput,
+  forecast: ProductionForecast
+): Promise<ForecastEnrichment | null> {
+  const systemPrompt =
+    "Du bist Küchenchef in einer Großküche und ergänzt eine berechnete Produktionsprognose. Gerät, Menge, Laufzeit, Energie, Wasser und Ausbeute sind bereits berechnet und dürfen nicht verändert werden. Antworte immer als JSON-Objekt mit den Feldern: settings (string, konkrete Geräteeinstellung wie Programm, Temperatur, Feuchte, Stufe für das angegebene Gerät) und cleaningEffort (string, kurzer Hinweis zum Reinigungsaufwand). Falls du nichts Sinnvolles ergänzen kannst, setze das Feld auf einen leeren String.";
+
+  const userText = JSON.stringify({
+    artikel: input.name,
+    dosierung: input.dosageInstructions ?? "",
+    zubereitung: input.standardPreparation?.components ?? [],
+    prognose: forecast,
+  });
+
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: "gpt-4o-mini",
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userText },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    console.error("OpenAI production forecast error", {
+      status: response.status,
+      statusText: response.statusText,
+    });
+    return null;
+  }
+
+  const completionJson = (await response.json()) as {
+    choices: {
+      message: {
+        content: string | null;
+      };
+    }[];
+  };
+
+  const content = completionJson.choices[0]?.message?.content;
+
+  if (!content) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(content) as ForecastEnrichment;
+  } catch {
+    console.error("OpenAI production forecast returned invalid JSON");
+    return null;
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json()) as Partial<ProductionForecastInput>;
+
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return NextResponse.json(
+        { error: "name ist erforderlich" },
+        { status: 400 }
+      );
+    }
+
+    const input: ProductionForecastInput = {
+      name: body.name.trim(),
+      dosageInstructions:
+        typeof body.dosageInstructions === "string"
+          ? body.dosageInstructions
+          : null,
+      standardPreparation:
+        body.standardPreparation &&
+        Array.isArray(body.standardPreparation.components)
+          ? body.standardPreparation
+          : null,
+    };
+
+    const forecast = formatProductionForecast(
+      computeProductionForecast(input)
+    );
+
+    const apiKey = process.env.OPENAI_API_KEY;
+
+    if (!apiKey) {
+      return NextResponse.json({ ...forecast, source: "rules" });
+    }
+
+    let enrichment: ForecastEnrichment | null = null;
+
+    try {
+      enrichment = await enrichForecast(apiKey, input, forecast);
+    } catch (error) {
+      console.error("OpenAI production forecast request failed", error);
+    }
+
+    if (!enrichment) {
+      return NextResponse.json({ ...forecast, source: "rules" });
+    }
+
+    return NextResponse.json({
+      ...forecast,
+      settings:
+        typeof enrichment.settings === "string" &&
+        enrichment.settings.trim().length > 0
+          ? enrichment.settings.trim()
+          : forecast.settings,
+      cleaningEffort:
+        typeof enrichment.cleaningEffort === "string" &&
+        enrichment.cleaningEffort.trim().length > 0
+          ? enrichment.cleaningEffort.trim()
+          : forecast.cleaningEffort,
+      source: "ai",
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unbekannter Fehler";
+    return NextResponse.json(
+      {
+        error: `Unerwarteter Fehler bei der Produktionsprognose: ${message}`,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext, getKitchenObjectPath } from "@/lib/kitchen";
+import {
+  PRODUCT_EXTRACTION_SYSTEM_PROMPT,
+  type VisionExtracted,
+} from "@/lib/product-extraction";
+import { normalizeAllergens, toAllergenList } from "@/lib/allergens";
+import { detectAdditives } from "@/lib/additives";
+import { getStorageFileUrl } from "@/lib/storage-files";
+import {
+  buildWebScanPromptText,
+  getProductGtin,
+  parseScanUrl,
+  scanProductPage,
+  type ScannedProductPage,
+} from "@/lib/web-scan";
+
+type WebScanExtracted = VisionExtracted & {
+  ean?: string | null;
+};
+
+const STORAGE_BUCKET = "product-documents" as const;
+
+export async function POST(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  if (!apiKey) {
+    return NextResponse.json(
+      {
+        error:
+          "OPENAI_API_KEY ist nicht konfiguriert (Bitte .env oder Vercel-Environment prüfen)",
+      },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const body = (await request.json()) as { url?: unknown };
+    const url = parseScanUrl(body.url);
+
+    if (!url) {
+      return NextResponse.json(
+        { error: "Bitte eine gültige http(s)-URL angeben." },
+        { status: 400 }
+      );
+    }
+
+    let page: ScannedProductPage;
+
+    try {
+      page = await scanProductPage(url.toString());
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unbekannter Fehler";
+      return NextResponse.json(
+        { error: `Webseite konnte nicht gelesen werden: ${message}` },
+        { status: 502 }
+      );
+    }
+
+    if (page.text.length === 0 && page.products.length === 0) {
+      return NextResponse.json(
+        { error: "Auf der Webseite wurde kein lesbarer Inhalt gefunden." },
+        { status: 422 }
+      );
+    }
+
+    const objectPath = getKitchenObjectPath(kitchen.kitchenId, "html");
+
+    const uploadResult = await client.storage
+      .from(STORAGE_BUCKET)
+      .upload(objectPath, Buffer.from(page.html, "utf-8"), {
+        contentType: "text/html; charset=utf-8",
+        upsert: false,
+      });
+
+    if (uploadResult.error) {
+      return NextResponse.json(
+        {
+          error: `Fehler beim Archivieren der Webseite in Supabase Storage: ${uploadResult.error.message}`,
+        },
+        { status: 500 }
+      );
+    }
+
+    const fileUrl = getStorageFileUrl(STORAGE_BUCKET, objectPath);
+
+    const completionResponse = await fetch(
+      "https://api.openai.com/v1/chat/completions",
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "gpt-4o-mini",
+          response_format: { type: "json_object" },
+          messages: [
+            {
+              role: "system",
+              content: PRODUCT_EXTRACTION_SYSTEM_PROMPT,
+            },
+            {
+              role: "user",
+              content: buildWebScanPromptText(page),
+            },
+          ],
+        }),
+      }
+    );
+
+    if (!completionResponse.ok) {
+      let details = "";
+      try {
+        details = await completionResponse.text();
+      } catch {
+        details = "";
+      }
+      return NextResponse.json(
+        {
+          error: `OpenAI Fehler: ${completionResponse.statusText} (Status: ${completionResponse.status})`,
+          details,
+          fileUrl,
+        },
+        { status: 500 }
+      );
+    }
+
+    const completionJson = (await completionResponse.json()) as {
+      choices: {
+        message: {
+          content: string | null;
+        };
+      }[];
+    };
+
+    const content = completionJson.choices[0]?.message?.content;
+
+    if (!content) {
+      return NextResponse.json(
+        {
+          error: "Leere Antwort von OpenAI.",
+          fileUrl,
+        },
+        { status: 500 }
+      );
+    }
+
+    let parsed: WebScanExtracted;
+
+    try {
+      parsed = JSON.parse(content) as WebScanExtracted;
+    } catch {
+      return NextResponse.json(
+        {
+          error: "Antwort von OpenAI konnte nicht als JSON gelesen werden.",
+          fileUrl,
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!parsed.name) {
+      return NextResponse.json(
+        {
+          error: "Antwort von OpenAI ist unvollständig.",
+          raw: parsed,
+          fileUrl,
+        },
+        { status: 500 }
+      );
+    }
+
+    const gtin =
+      page.products
+        .map((product) => getProductGtin(product))
+        .find((value): value is string => value !== null) ?? null;
+
+    const { allergens, traces: allergenTraces } = normalizeAllergens(
+      toAllergenList(parsed.allergens),
+      toAllergenList(parsed.allergen_traces)
+    );
+
+    const extracted: WebScanExtracted = {
+      ...parsed,
+      allergens,
+      allergen_traces: allergenTraces,
+      additives: detectAdditives(parsed.ingredients),
+      ean:
+        typeof parsed.ean === "string" && parsed.ean.trim().length > 0
+          ? parsed.ean.trim()
+          : gtin,
+    };
+
+    return NextResponse.json({
+      extracted,
+      fileUrl,
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unbekannter Fehler";
+    return NextResponse.json(
+      {
+        error: `Unerwarteter Fehler beim Web-Scan: ${message}`,
+      },
+      { status: 500 }
+    );
+  }
+}
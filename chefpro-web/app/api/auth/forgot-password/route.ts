@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAuthClient } from "@/lib/supabase-server";
+
+export async function POST(request: Request) {
+  const client = getSupabaseAuthClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const body = (await request.json()) as { email?: string };
+  const email = typeof body.email === "string" ? body.email.trim() : "";
+
+  if (!email) {
+    return NextResponse.json(
+      { error: "E-Mail ist erforderlich." },
+      { status: 400 }
+    );
+  }
+
+  const { origin } = new URL(request.url);
+
+  const { error } = await client.auth.resetPasswordForEmail(email, {
+    redirectTo: `${origin}/reset-password`,
+  });
+
+  if (error) {
+    // Do not reveal whether the address exists
+    console.error("Supabase password reset error", {
+      email,
+      error: error.message,
+    });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAuthClient } from "@/lib/supabase-server";
+import { setSessionCookies } from "@/lib/auth-session";
+
+export async function POST(request: Request) {
+  const client = getSupabaseAuthClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const body = (await request.json()) as {
+    email?: string;
+    password?: string;
+  };
+
+  const email = typeof body.email === "string" ? body.email.trim() : "";
+  const password = typeof body.password === "string" ? body.password : "";
+
+  if (!email || !password) {
+    return NextResponse.json(
+      { error: "E-Mail und Passwort sind erforderlich." },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await client.auth.signInWithPassword({
+    email,
+    password,
+  });
+
+  if (error || !data.session) {
+    console.error("Supabase sign-in error", {
+      email,
+      error: error?.message,
+    });
+    return NextResponse.json(
+      { error: "E-Mail-Adresse oder Passwort ist falsch." },
+      { status: 401 }
+    );
+  }
+
+  const response = NextResponse.json({
+    user: {
+      id: data.user.id,
+      email: data.user.email ?? email,
+    },
+  });
+  setSessionCookies(response, data.session);
+  return response;
+}
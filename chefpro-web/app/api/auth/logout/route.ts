@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getSupabaseAuthClient } from "@/lib/supabase-server";
+import { ACCESS_TOKEN_COOKIE, clearSessionCookies } from "@/lib/auth-session";
+
+export async function POST() {
+  const client = getSupabaseAuthClient();
+  const cookieStore = await cookies();
+  const accessToken = cookieStore.get(ACCESS_TOKEN_COOKIE)?.value;
+
+  if (client && accessToken) {
+    const { error } = await client.auth.admin.signOut(accessToken);
+    if (error) {
+      console.error("Supabase sign-out error", { error: error.message });
+    }
+  }
+
+  const response = NextResponse.json({ success: true });
+  clearSessionCookies(response);
+  return response;
+}
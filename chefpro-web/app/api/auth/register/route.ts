@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAuthClient } from "@/lib/supabase-server";
+import { setSessionCookies } from "@/lib/auth-session";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export async function POST(request: Request) {
+  const client = getSupabaseAuthClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const body = (await request.json()) as {
+    name?: string;
+    email?: string;
+    password?: string;
+  };
+
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  const email = typeof body.email === "string" ? body.email.trim() : "";
+  const password = typeof body.password === "string" ? body.password : "";
+
+  if (!email || !password) {
+    return NextResponse.json(
+      { error: "E-Mail und Passwort sind erforderlich." },
+      { status: 400 }
+    );
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return NextResponse.json(
+      {
+        error: `Das Passwort muss mindestens ${MIN_PASSWORD_LENGTH} Zeichen lang sein.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const { origin } = new URL(request.url);
+
+  const { data, error } = await client.auth.signUp({
+    email,
+    password,
+    options: {
+      data: name ? { full_name: name } : undefined,
+      emailRedirectTo: `${origin}/login`,
+    },
+  });
+
+  if (error) {
+    console.error("Supabase sign-up error", {
+      email,
+      error: error.message,
+    });
+    return NextResponse.json(
+      { error: `Registrierung fehlgeschlagen: ${error.message}` },
+      { status: 400 }
+    );
+  }
+
+  // Without e-mail confirmation Supabase returns a session right away
+  const response = NextResponse.json(
+    {
+      user: data.user
+        ? { id: data.user.id, email: data.user.email ?? email }
+        : null,
+      requiresConfirmation: !data.session,
+    },
+    { status: 201 }
+  );
+  if (data.session) {
+    setSessionCookies(response, data.session);
+  }
+  return response;
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { getSupabaseAuthClient } from "@/lib/supabase-server";
+import { setSessionCookies } from "@/lib/auth-session";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export async function POST(request: Request) {
+  const client = getSupabaseAuthClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const body = (await request.json()) as {
+    accessToken?: string;
+    refreshToken?: string;
+    password?: string;
+  };
+
+  const password = typeof body.password === "string" ? body.password : "";
+
+  if (!body.accessToken || !body.refreshToken) {
+    return NextResponse.json(
+      {
+        error:
+          "Der Link zum Zurücksetzen ist ungültig oder abgelaufen. Bitte fordern Sie einen neuen an.",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return NextResponse.json(
+      {
+        error: `Das Passwort muss mindestens ${MIN_PASSWORD_LENGTH} Zeichen lang sein.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const sessionResult = await client.auth.setSession({
+    access_token: body.accessToken,
+    refresh_token: body.refreshToken,
+  });
+
+  if (sessionResult.error || !sessionResult.data.session) {
+    return NextResponse.json(
+      {
+        error:
+          "Der Link zum Zurücksetzen ist ungültig oder abgelaufen. Bitte fordern Sie einen neuen an.",
+      },
+      { status: 401 }
+    );
+  }
+
+  const updateResult = await client.auth.updateUser({ password });
+
+  if (updateResult.error) {
+    console.error("Supabase password update error", {
+      error: updateResult.error.message,
+    });
+    return NextResponse.json(
+      {
+        error: `Passwort konnte nicht geändert werden: ${updateResult.error.message}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const response = NextResponse.json({ success: true });
+  setSessionCookies(response, sessionResult.data.session);
+  return response;
+}
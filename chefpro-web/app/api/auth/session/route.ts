@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getSupabaseAuthClient } from "@/lib/supabase-server";
+import { ACCESS_TOKEN_COOKIE } from "@/lib/auth-session";
+
+export async function GET() {
+  const client = getSupabaseAuthClient();
+  const cookieStore = await cookies();
+  const accessToken = cookieStore.get(ACCESS_TOKEN_COOKIE)?.value;
+
+  if (!client || !accessToken) {
+    return NextResponse.json({ user: null });
+  }
+
+  const { data, error } = await client.auth.getUser(accessToken);
+
+  if (error || !data.user) {
+    return NextResponse.json({ user: null });
+  }
+
+  const metadata = data.user.user_metadata as { full_name?: unknown };
+
+  return NextResponse.json({
+    user: {
+      id: data.user.id,
+      email: data.user.email ?? null,
+      name: typeof metadata.full_name === "string" ? metadata.full_name : null,
+    },
+  });
+}
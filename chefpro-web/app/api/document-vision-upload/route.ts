@@ -1,53 +1,16 @@
 import { NextResponse } from "next/server";
 import pdfParse from "pdf-parse";
 import { getSupabaseServerClient } from "@/lib/supabase-server";
-
-type VisionNutritionPer100 = {
-  energy_kcal: number;
-  fat: number;
-  saturated_fat: number;
-  carbs: number;
-  sugar: number;
-  protein: number;
-  salt: number;
-  fiber?: number;
-  sodium?: number;
-  bread_units?: number;
-  cholesterol?: number;
-};
-
-type VisionExtracted = {
-  name: string;
-  brand?: string | null;
-  unit: string;
-  purchase_price: number;
-  allergens: string[];
-  ingredients?: string | null;
-  dosage_instructions?: string | null;
-  yield_info?: string | null;
-  yield_volume?: string | null;
-  preparation_steps?: string | null;
-  nutrition_per_100?: VisionNutritionPer100 | null;
-  manufacturer_article_number?: string | null;
-  is_bio?: boolean;
-  is_deklarationsfrei?: boolean;
-  is_allergenfrei?: boolean;
-  is_cook_chill?: boolean;
-  is_freeze_thaw_stable?: boolean;
-  is_palm_oil_free?: boolean;
-  is_yeast_free?: boolean;
-  is_lactose_free?: boolean;
-  is_gluten_free?: boolean;
-  is_vegan?: boolean;
-  is_vegetarian?: boolean;
-  standard_preparation?: {
-    components: {
-      name: string;
-      quantity: number;
-      unit: string;
-    }[];
-  } | null;
-};
+import { getKitchenContext, getKitchenObjectPath } from "@/lib/kitchen";
+import {
+  PRODUCT_EXTRACTION_SYSTEM_PROMPT,
+  PRODUCT_EXTRACTION_USER_PROMPT,
+  type VisionExtracted,
+} from "@/lib/product-extraction";
+import { normalizeAllergens, toAllergenList } from "@/lib/allergens";
+import { detectAdditives } from "@/lib/additives";
+import { parseYieldAmount } from "@/lib/recipe-costing";
+import { createSignedFileUrl, getStorageFileUrl } from "@/lib/storage-files";
 
 type InventoryType = "zukauf" | "eigenproduktion";
 
@@ -97,21 +60,30 @@ type SupabaseItemRow = {
   } | null;
 };
 
-const STORAGE_BUCKET = "product-documents";
+const STORAGE_BUCKET = "product-documents" as const;
 
 export async function POST(request: Request) {
-  const client = getSupabaseServerClient();
+  const client = await getSupabaseServerClient();
 
   if (!client) {
     return NextResponse.json(
       {
         error:
-          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY oder NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
       },
       { status: 500 }
     );
   }
 
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
   const apiKey = process.env.OPENAI_API_KEY;
 
   if (!apiKey) {
@@ -152,9 +124,7 @@ export async function POST(request: Request) {
         ? "jpg"
         : "bin");
 
-    const objectPath = `${Date.now()}-${Math.random()
-      .toString(36)
-      .slice(2)}.${safeExtension}`;
+    const objectPath = getKitchenObjectPath(kitchen.kitchenId, safeExtension);
 
     const arrayBuffer = await file.arrayBuffer();
     const fileBuffer = Buffer.from(arrayBuffer);
@@ -175,11 +145,7 @@ export async function POST(request: Request) {
       );
     }
 
-    const publicUrlResult = client.storage
-      .from(STORAGE_BUCKET)
-      .getPublicUrl(objectPath);
-
-    const publicUrl = publicUrlResult.data.publicUrl;
+    const fileUrl = getStorageFileUrl(STORAGE_BUCKET, objectPath);
 
     const isImage = file.type.startsWith("image/");
     const isPdf =
@@ -187,7 +153,7 @@ export async function POST(request: Request) {
       file.type === "application/x-pdf" ||
       file.type.endsWith("+pdf");
 
-    const imagePublicUrl = isImage ? publicUrl : null;
+    const imageFileUrl = isImage ? fileUrl : null;
 
     let promptInputText: string | null = null;
     let useImage: boolean = false;
@@ -202,18 +168,15 @@ export async function POST(request: Request) {
         {
           error:
             "Nur Bild- und PDF-Dokumente werden für die KI-Analyse unterstützt. Das Dokument wurde im Storage gespeichert.",
-          fileUrl: publicUrl,
+          fileUrl,
         },
         { status: 400 }
       );
     }
 
-    const systemPrompt =
-      "Du analysierst Produktdatenblätter und extrahierst strukturierte Einkaufs- und Nährwertdaten für eine Küchen-Software. Antworte immer als JSON-Objekt mit den Feldern: name (string), brand (string), unit (string), purchase_price (number), allergens (array of strings), ingredients (string), dosage_instructions (string), standard_preparation (object), yield_info (string), yield_volume (string), preparation_steps (string), nutrition_per_100 (object), manufacturer_article_number (string), is_bio (boolean), is_deklarationsfrei (boolean), is_allergenfrei (boolean), is_cook_chill (boolean), is_freeze_thaw_stable (boolean), is_palm_oil_free (boolean), is_yeast_free (boolean), is_lactose_free (boolean), is_gluten_free (boolean), is_vegan (boolean), is_vegetarian (boolean). nutrition_per_100 beschreibt die Nährwerte pro 100 g bzw. 100 ml und enthält die Felder: energy_kcal (number), fat (number), saturated_fat (number), carbs (number), sugar (number), protein (number), salt (number), fiber (number), sodium (number), bread_units (number), cholesterol (number). Die Währung ist immer EUR und muss nicht angegeben werden. purchase_price ist der Gesamt-Einkaufspreis für die auf dem Datenblatt ausgewiesene Gebindegröße. allergens enthält alle deklarierten Allergene als kurze Klartexteinträge. ingredients sind die Zutaten in der Reihenfolge der Deklaration. dosage_instructions beschreibt ausschließlich Mischverhältnisse, Basismengen und Dosierungen als Text (z.B. '100g auf 1l' oder '10%'). standard_preparation enthält strukturierte Dosierungsdaten in 'components' (Array). Jeder Eintrag in components hat: name (string), quantity (number), unit (string). Falls im Text 'Produkt', 'Basisprodukt' oder 'Basis' steht, ersetze dies durch den Artikelnamen oder 'Hauptartikel'. preparation_steps beschreibt die eigentliche Zubereitung und Kochanleitung, jedoch OHNE die reinen Mengenangaben. yield_info beschreibt Ausbeute oder Fertig-Gewicht, yield_volume beschreibt explizit das End-Volumen (z.B. ml, l). manufacturer_article_number ist die Hersteller-Artikelnummer des Herstellers (nicht die EAN/GTIN) und kann z.B. als „Art.-Nr.“ oder „Artikelnummer“ gekennzeichnet sein. brand ist der Markenname des Produkts (z.B. 'Knorr', 'Maggi', 'Lukull'). Falls ein Feld nicht im Dokument zu finden ist, setze es auf null (bei Zahlen) oder einen leeren String (bei Text). Setze boolean-Flags nur auf true, wenn es explizit im Text steht (z.B. 'Bio', 'Vegan', 'Hefefrei').";
+    const systemPrompt = PRODUCT_EXTRACTION_SYSTEM_PROMPT;
 
-    const userText =
-      promptInputText ??
-      "Analysiere dieses Produktdatenblatt und gib die Felder name, brand, unit, purchase_price, allergens, ingredients, dosage_instructions, standard_preparation, yield_info, yield_volume, preparation_steps, nutrition_per_100, manufacturer_article_number sowie alle boolean-Flags is_bio, is_deklarationsfrei, is_allergenfrei, is_cook_chill, is_freeze_thaw_stable, is_palm_oil_free, is_yeast_free, is_lactose_free, is_gluten_free, is_vegan, is_vegetarian zurück. nutrition_per_100 sind die Nährwerte pro 100 g bzw. 100 ml mit energy_kcal, fat, saturated_fat, carbs, sugar, protein, salt, fiber, sodium, bread_units, cholesterol.";
+    const userText = promptInputText ?? PRODUCT_EXTRACTION_USER_PROMPT;
 
     const messages = [
       {
@@ -231,7 +194,11 @@ export async function POST(request: Request) {
               {
                 type: "image_url" as const,
                 image_url: {
-                  url: publicUrl,
+                  url: await createSignedFileUrl(
+                    client,
+                    STORAGE_BUCKET,
+                    objectPath
+                  ),
                 },
               },
             ]
@@ -266,7 +233,7 @@ export async function POST(request: Request) {
         {
           error: `OpenAI Vision Fehler: ${visionResponse.statusText} (Status: ${visionResponse.status})`,
           details,
-          fileUrl: publicUrl,
+          fileUrl,
         },
         { status: 500 }
       );
@@ -286,7 +253,7 @@ export async function POST(request: Request) {
       return NextResponse.json(
         {
           error: "Leere Antwort von OpenAI Vision.",
-          fileUrl: publicUrl,
+          fileUrl,
         },
         { status: 500 }
       );
@@ -301,7 +268,7 @@ export async function POST(request: Request) {
         {
           error:
             "Antwort von OpenAI Vision konnte nicht als JSON gelesen werden.",
-          fileUrl: publicUrl,
+          fileUrl,
         },
         { status: 500 }
       );
@@ -316,19 +283,20 @@ export async function POST(request: Request) {
         {
           error: "Antwort von OpenAI Vision ist unvollständig.",
           raw: parsed,
-          fileUrl: publicUrl,
+          fileUrl,
         },
         { status: 500 }
       );
     }
 
-    const allergens =
-      Array.isArray(parsed.allergens) && parsed.allergens.length > 0
-        ? parsed.allergens.map((value) => String(value))
-        : [];
+    const { allergens, traces: allergenTraces } = normalizeAllergens(
+      toAllergenList(parsed.allergens),
+      toAllergenList(parsed.allergen_traces)
+    );
 
     const ingredients =
       typeof parsed.ingredients === "string" ? parsed.ingredients : null;
+    const additives = detectAdditives(ingredients);
     const dosageInstructions =
       typeof parsed.dosage_instructions === "string"
         ? parsed.dosage_instructions
@@ -344,6 +312,11 @@ export async function POST(request: Request) {
         ? parsed.preparation_steps
         : null;
 
+    const yieldWeightGrams = parseYieldAmount(yieldInfo, "mass");
+    const yieldVolumeMl =
+      parseYieldAmount(yieldVolume, "volume") ??
+      parseYieldAmount(yieldInfo, "volume");
+
     if (yieldVolume && yieldVolume.trim().length > 0) {
       const base = yieldInfo && yieldInfo.trim().length > 0 ? yieldInfo : "";
       if (base.length > 0) {
@@ -408,16 +381,21 @@ export async function POST(request: Request) {
     const insertItemResponse = await client
       .from("items")
       .insert({
+        kitchen_id: kitchen.kitchenId,
         name: parsed.name,
         item_type: "zukauf",
         unit: parsed.unit,
         purchase_price: parsed.purchase_price,
         nutrition_per_unit: nutritionPerUnit,
         allergens,
+        allergen_traces: allergenTraces,
+        additives,
         ingredients,
         dosage_instructions: dosageInstructions,
         standard_preparation: parsed.standard_preparation,
         yield_info: yieldInfo,
+        yield_weight_grams: yieldWeightGrams,
+        yield_volume_ml: yieldVolumeMl,
         preparation_steps: preparationSteps,
         manufacturer_article_number: manufacturerArticleNumber,
         is_bio: isBio,
@@ -431,8 +409,8 @@ export async function POST(request: Request) {
         is_gluten_free: isGlutenFree,
         is_vegan: isVegan,
         is_vegetarian: isVegetarian,
-          file_url: publicUrl,
-          image_url: imagePublicUrl,
+          file_url: fileUrl,
+          image_url: imageFileUrl,
           brand: parsed.brand || null,
         })
         .select("*")
@@ -444,12 +422,14 @@ export async function POST(request: Request) {
           error:
             insertItemResponse.error?.message ??
             'Fehler beim Speichern des Artikels in Tabelle "items"',
-          fileUrl: publicUrl,
+          fileUrl,
           extracted: {
             name: parsed.name,
             unit: parsed.unit,
             purchase_price: parsed.purchase_price,
             allergens,
+            allergen_traces: allergenTraces,
+            additives,
             ingredients,
             dosage_instructions: dosageInstructions,
             standard_preparation: parsed.standard_preparation,
@@ -457,7 +437,9 @@ export async function POST(request: Request) {
             preparation_steps: preparationSteps,
             manufacturer_article_number: manufacturerArticleNumber,
             yield_volume: yieldVolume,
-            image_url: imagePublicUrl,
+            yield_weight_grams: yieldWeightGrams,
+            yield_volume_ml: yieldVolumeMl,
+            image_url: imageFileUrl,
           },
         },
         { status: 500 }
@@ -496,6 +478,8 @@ export async function POST(request: Request) {
         purchase_price: parsed.purchase_price,
         nutrition_per_100: parsed.nutrition_per_100,
         allergens,
+        allergen_traces: allergenTraces,
+        additives,
         ingredients,
         dosage_instructions: dosageInstructions,
         standard_preparation: parsed.standard_preparation,
@@ -503,6 +487,8 @@ export async function POST(request: Request) {
         preparation_steps: preparationSteps,
         manufacturer_article_number: manufacturerArticleNumber,
         yield_volume: yieldVolume,
+        yield_weight_grams: yieldWeightGrams,
+        yield_volume_ml: yieldVolumeMl,
         is_bio: isBio,
         is_deklarationsfrei: isDeklarationsfrei,
         is_allergenfrei: isAllergenfrei,
@@ -512,9 +498,9 @@ export async function POST(request: Request) {
         is_yeast_free: isYeastFree,
         is_lactose_free: isLactoseFree,
         is_gluten_free: isGlutenFree,
-        image_url: imagePublicUrl,
+        image_url: imageFileUrl,
       },
-      fileUrl: publicUrl,
+      fileUrl,
     });
   } catch (error) {
     const message =
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { loadKitchenItems } from "@/lib/kitchen-items";
+import { computeIngredientDeclaration } from "@/lib/ingredient-declaration";
+
+// Ingredient list of a recipe for labelling. ?quidItemIds=a,b adds
+// percentages for ingredients beyond those named in the recipe name.
+export async function GET(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const itemId = searchParams.get("itemId");
+  const quidItemIds = new Set(
+    (searchParams.get("quidItemIds") ?? "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter((id) => id.length > 0)
+  );
+
+  if (!itemId) {
+    return NextResponse.json(
+      { error: "itemId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const items = await loadKitchenItems(client, kitchen.kitchenId);
+    const itemsById = new Map(items.map((item) => [item.id, item]));
+    const item = itemsById.get(itemId);
+
+    if (!item) {
+      return NextResponse.json(
+        { error: "Artikel wurde nicht gefunden." },
+        { status: 404 }
+      );
+    }
+
+    if (item.type !== "eigenproduktion") {
+      return NextResponse.json(
+        {
+          error:
+            "Ein Zutatenverzeichnis kann nur für Rezepte (Eigenproduktion) erstellt werden.",
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      itemId: item.id,
+      itemName: item.name,
+      ...computeIngredientDeclaration(item, itemsById, quidItemIds),
+    });
+  } catch (error) {
+    console.error("Supabase ingredient declaration error", {
+      error: error instanceof Error ? error.message : error,
+      itemId,
+    });
+    const message =
+      error instanceof Error ? error.message : "Unbekannter Fehler";
+    return NextResponse.json(
+      { error: `Fehler beim Erstellen des Zutatenverzeichnisses: ${message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,16 @@
 import { NextResponse } from "next/server";
 import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { recordItemRevision } from "@/lib/item-revisions";
+import { listItemUsages } from "@/lib/item-usage";
+import type { DietFlagOverrides } from "@/lib/diet-flags";
+import { normalizeAllergens } from "@/lib/allergens";
+import { sortAdditiveKeys } from "@/lib/additives";
+import {
+  getEffectivePurchasePrice,
+  loadPreferredSupplierPrices,
+  type PreferredSupplierPrice,
+} from "@/lib/suppliers";
 
 type InventoryType = "zukauf" | "eigenproduktion";
 
@@ -7,6 +18,7 @@ type InventoryComponent = {
   itemId: string | null;
   quantity: number;
   unit: string;
+  deletedItemName?: string | null;
   hasSubIngredients?: boolean;
 };
 
@@ -26,6 +38,17 @@ type StandardPreparation = {
   components: StandardPreparationComponent[];
 };
 
+type DeviceSetting = {
+  quantity: string;
+  device: string;
+  settings?: string;
+  runtime: string;
+  energy: string;
+  water?: string;
+  outputYield?: string;
+  cleaningEffort?: string;
+};
+
 type NutritionTotals = {
   energyKcal: number | null;
   fat: number | null;
@@ -57,9 +80,15 @@ type InventoryItem = {
   manufacturerArticleNumber?: string | null;
   ean?: string | null;
   allergens?: string[];
+  allergenTraces?: string[];
+  additives?: string[];
   ingredients?: string | null;
   dosageInstructions?: string | null;
   yieldInfo?: string | null;
+  yieldWeightGrams?: number | null;
+  yieldVolumeMl?: number | null;
+  usableYieldPercent?: number | null;
+  cookingFactor?: number | null;
   preparationSteps?: PreparationStep[] | null;
   fileUrl?: string | null;
   imageUrl?: string | null;
@@ -76,11 +105,28 @@ type InventoryItem = {
   isGlutenFree?: boolean;
   isVegan?: boolean;
   isVegetarian?: boolean;
+  isFairtrade?: boolean;
+  isPowder?: boolean;
+  isGranulate?: boolean;
+  isPaste?: boolean;
+  isLiquid?: boolean;
+  storageArea?: string | null;
+  parLevel?: number | null;
+  reorderQuantity?: number | null;
+  preferredSupplierId?: string | null;
+  dietFlagOverrides?: DietFlagOverrides;
+  fruitVegetableShare?: number | null;
+  onHand?: number;
+  warengruppe?: string | null;
+  bioControlNumber?: string | null;
+  deviceSettings?: DeviceSetting[] | null;
   hasGhostComponents?: boolean;
   components?: InventoryComponent[];
   packshotX?: number | null;
   packshotY?: number | null;
   packshotZoom?: number | null;
+  version?: number;
+  updatedAt?: string;
 };
 
 type SupabaseItemRow = {
@@ -100,9 +146,15 @@ type SupabaseItemRow = {
   manufacturer_article_number: string | null;
   ean: string | null;
   allergens: string[] | null;
+  allergen_traces: string[] | null;
+  additives: string[] | null;
   ingredients: string | null;
   dosage_instructions: string | null;
   yield_info: string | null;
+  yield_weight_grams: number | null;
+  yield_volume_ml: number | null;
+  usable_yield_percent: number | null;
+  cooking_factor: number | null;
   preparation_steps: string | null;
   file_url: string | null;
   image_url: string | null;
@@ -119,9 +171,26 @@ type SupabaseItemRow = {
   is_gluten_free: boolean | null;
   is_vegan: boolean | null;
   is_vegetarian: boolean | null;
+  is_fairtrade: boolean | null;
+  is_powder: boolean | null;
+  is_granulate: boolean | null;
+  is_paste: boolean | null;
+  is_liquid: boolean | null;
+  storage_area: string | null;
+  par_level: number | null;
+  reorder_quantity: number | null;
+  preferred_supplier_id: string | null;
+  diet_flag_overrides: DietFlagOverrides | null;
+  fruit_vegetable_share: number | null;
+  warengruppe: string | null;
+  bio_control_number: string | null;
+  device_settings: DeviceSetting[] | null;
   packshot_x: number | null;
   packshot_y: number | null;
   packshot_zoom: number | null;
+  version: number;
+  updated_at: string;
+  deleted_at: string | null;
 };
 
 type SupabaseRecipeStructureRow = {
@@ -141,28 +210,34 @@ type SupabasePreparationStepRow = {
 
 export async function GET() {
   try {
-    // Check Env Vars for debugging
-    const hasServiceRole = !!(process.env.NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY);
-    const hasAnonKey = !!(process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || process.env.SUPABASE_ANON_KEY);
-    
-    console.log(`[Inventory API] Init Supabase. ServiceRole: ${hasServiceRole}, Anon: ${hasAnonKey}`);
-
-    const client = getSupabaseServerClient();
+    const client = await getSupabaseServerClient();
 
     if (!client) {
       console.error(
-        "Supabase client initialization failed: Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY/SUPABASE_ANON_KEY"
+        "Supabase client initialization failed: Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY"
       );
       return NextResponse.json(
         {
           error:
-            'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY oder SUPABASE_ANON_KEY)',
+            'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
         },
         { status: 500 }
       );
     }
 
-    const itemsResponse = await client.from("items").select("*");
+    const kitchen = await getKitchenContext(client);
+
+    if (!kitchen) {
+      return NextResponse.json(
+        { error: "Ihrem Konto ist keine Küche zugeordnet." },
+        { status: 403 }
+      );
+    }
+
+    const itemsResponse = await client
+      .from("items")
+      .select("*")
+      .eq("kitchen_id", kitchen.kitchenId);
 
     if (itemsResponse.error) {
       console.error("Supabase items query error", {
@@ -181,7 +256,8 @@ export async function GET() {
 
     const recipeResponse = await client
       .from("recipe_structure")
-      .select("*");
+      .select("*")
+      .eq("kitchen_id", kitchen.kitchenId);
 
     if (recipeResponse.error) {
       console.error("Supabase recipe_structure query error", {
@@ -201,6 +277,7 @@ export async function GET() {
     const stepsResponse = await client
       .from("preparation_steps")
       .select("*")
+      .eq("kitchen_id", kitchen.kitchenId)
       .order("step_order");
 
     if (stepsResponse.error) {
@@ -211,6 +288,44 @@ export async function GET() {
       // We don't fail hard here, just log
     }
 
+    const stockResponse = await client
+      .from("stock_levels")
+      .select("item_id, quantity")
+      .eq("kitchen_id", kitchen.kitchenId);
+
+    if (stockResponse.error) {
+      console.error("Supabase stock_levels query error", {
+        table: "stock_levels",
+        error: stockResponse.error.message,
+      });
+      // Without stock the on-hand count is simply 0
+    }
+
+    let preferredPrices = new Map<string, PreferredSupplierPrice>();
+    try {
+      preferredPrices = await loadPreferredSupplierPrices(
+        client,
+        kitchen.kitchenId
+      );
+    } catch (error) {
+      console.error("Supabase current_preferred_supplier_prices query error", {
+        table: "current_preferred_supplier_prices",
+        error: error instanceof Error ? error.message : error,
+      });
+      // Falls back to the stored purchase prices
+    }
+
+    const onHandByItem = new Map<string, number>();
+    for (const level of (stockResponse.data ?? []) as {
+      item_id: string;
+      quantity: number;
+    }[]) {
+      onHandByItem.set(
+        level.item_id,
+        (onHandByItem.get(level.item_id) ?? 0) + Number(level.quantity)
+      );
+    }
+
     const items = (itemsResponse.data ?? []) as SupabaseItemRow[];
     const relations =
       (recipeResponse.data ?? []) as SupabaseRecipeStructureRow[];
@@ -233,9 +348,19 @@ export async function GET() {
       stepsByItem.set(step.item_id, existing);
     }
 
+    // Deleted items are only needed to name ghost components
+    const deletedItemNames = new Map(
+      items
+        .filter((row) => row.deleted_at)
+        .map((row) => [row.id, row.name] as const)
+    );
+
     const itemsById = new Map<string, InventoryItem>();
 
     for (const row of items) {
+      if (row.deleted_at) {
+        continue;
+      }
       itemsById.set(row.id, {
         id: row.id,
         internalId: row.internal_id,
@@ -244,7 +369,10 @@ export async function GET() {
         unit: row.unit,
         brand: row.brand,
         currency: row.currency ?? "EUR",
-        purchasePrice: row.purchase_price,
+        purchasePrice: getEffectivePurchasePrice(
+          { unit: row.unit, purchasePrice: row.purchase_price },
+          preferredPrices.get(row.id)
+        ),
         targetPortions: row.target_portions,
         targetSalesPrice: row.target_sales_price,
         category: row.category,
@@ -253,9 +381,23 @@ export async function GET() {
         manufacturerArticleNumber: row.manufacturer_article_number,
         ean: row.ean,
         allergens: row.allergens ?? undefined,
+        allergenTraces: row.allergen_traces ?? [],
+        additives: row.additives ?? [],
         ingredients: row.ingredients,
         dosageInstructions: row.dosage_instructions,
         yieldInfo: row.yield_info,
+        yieldWeightGrams:
+          row.yield_weight_grams != null
+            ? Number(row.yield_weight_grams)
+            : null,
+        yieldVolumeMl:
+          row.yield_volume_ml != null ? Number(row.yield_volume_ml) : null,
+        usableYieldPercent:
+          row.usable_yield_percent != null
+            ? Number(row.usable_yield_percent)
+            : null,
+        cookingFactor:
+          row.cooking_factor != null ? Number(row.cooking_factor) : null,
         preparationSteps: stepsByItem.get(row.id) || null, // Use fetched steps
         fileUrl: row.file_url,
         imageUrl: row.image_url,
@@ -272,9 +414,29 @@ export async function GET() {
         isGlutenFree: row.is_gluten_free ?? false,
         isVegan: row.is_vegan ?? false,
         isVegetarian: row.is_vegetarian ?? false,
+        isFairtrade: row.is_fairtrade ?? false,
+        isPowder: row.is_powder ?? false,
+        isGranulate: row.is_granulate ?? false,
+        isPaste: row.is_paste ?? false,
+        isLiquid: row.is_liquid ?? false,
+        storageArea: row.storage_area,
+        parLevel: row.par_level,
+        reorderQuantity: row.reorder_quantity,
+        preferredSupplierId: row.preferred_supplier_id,
+        dietFlagOverrides: row.diet_flag_overrides ?? {},
+        fruitVegetableShare:
+          row.fruit_vegetable_share != null
+            ? Number(row.fruit_vegetable_share)
+            : null,
+        onHand: onHandByItem.get(row.id) ?? 0,
+        warengruppe: row.warengruppe,
+        bioControlNumber: row.bio_control_number,
+        deviceSettings: row.device_settings,
         packshotX: row.packshot_x,
         packshotY: row.packshot_y,
         packshotZoom: row.packshot_zoom,
+        version: row.version,
+        updatedAt: row.updated_at,
       });
     }
 
@@ -284,8 +446,11 @@ export async function GET() {
       const existing = componentsByParent.get(rel.parent_item_id) ?? [];
       existing.push({
         itemId: rel.child_item_id,
-        quantity: (rel as any).amount ?? (rel as any).quantity,
+        quantity: rel.amount,
         unit: rel.unit,
+        deletedItemName: rel.child_item_id
+          ? deletedItemNames.get(rel.child_item_id) ?? null
+          : null,
         hasSubIngredients: rel.child_item_id ? recipeItemIds.has(rel.child_item_id) : false,
       });
       componentsByParent.set(rel.parent_item_id, existing);
@@ -297,16 +462,9 @@ export async function GET() {
         continue;
       }
       item.components = components;
-      /* Ghost components logic deprecated
-      const hasGhost = components.some(
-        (component) =>
-          !component.itemId && !!component.deletedItemName
+      item.hasGhostComponents = components.some(
+        (component) => !!component.deletedItemName
       );
-      if (hasGhost) {
-        (item as InventoryItem & { hasGhostComponents?: boolean }).hasGhostComponents =
-          true;
-      }
-      */
     }
 
     const result = Array.from(itemsById.values());
@@ -354,28 +512,56 @@ export async function POST(request: Request) {
       preparationSteps?: PreparationStep[] | null;
       nutritionPerUnit?: NutritionTotals | null;
       dosageInstructions?: string | null;
+      allergens?: string[];
+      allergenTraces?: string[];
+      additives?: string[];
       isVegan?: boolean;
       isVegetarian?: boolean;
+      isFairtrade?: boolean;
+      isPowder?: boolean;
+      isGranulate?: boolean;
+      isPaste?: boolean;
+      isLiquid?: boolean;
+      storageArea?: string | null;
+      warengruppe?: string | null;
+      bioControlNumber?: string | null;
+      deviceSettings?: DeviceSetting[] | null;
     };
 
-    const client = getSupabaseServerClient();
+    const client = await getSupabaseServerClient();
 
     if (!client) {
       console.error(
-        "Supabase client initialization failed in POST: Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY/SUPABASE_ANON_KEY"
+        "Supabase client initialization failed in POST: Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY"
       );
       return NextResponse.json(
         {
           error:
-            'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY oder SUPABASE_ANON_KEY)',
+            'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
         },
         { status: 500 }
       );
     }
 
+    const kitchen = await getKitchenContext(client);
+
+    if (!kitchen) {
+      return NextResponse.json(
+        { error: "Ihrem Konto ist keine Küche zugeordnet." },
+        { status: 403 }
+      );
+    }
+
+    // Extracted allergens outside the catalogue are dropped on creation
+    const normalizedAllergens = normalizeAllergens(
+      body.allergens ?? [],
+      body.allergenTraces ?? []
+    );
+
     const insertItemResponse = await client
       .from("items")
       .insert({
+        kitchen_id: kitchen.kitchenId,
         name: body.name,
         item_type: body.type,
         unit: body.unit,
@@ -402,8 +588,34 @@ export async function POST(request: Request) {
           body.standardPreparation && typeof body.standardPreparation === "object"
             ? body.standardPreparation
             : null,
+        allergens: normalizedAllergens.allergens,
+        allergen_traces: normalizedAllergens.traces,
+        additives: sortAdditiveKeys(body.additives ?? []),
         is_vegan: body.isVegan ?? false,
         is_vegetarian: body.isVegetarian ?? false,
+        is_fairtrade: body.isFairtrade ?? false,
+        is_powder: body.isPowder ?? false,
+        is_granulate: body.isGranulate ?? false,
+        is_paste: body.isPaste ?? false,
+        is_liquid: body.isLiquid ?? false,
+        storage_area:
+          typeof body.storageArea === "string" &&
+          body.storageArea.trim().length > 0
+            ? body.storageArea.trim()
+            : null,
+        warengruppe:
+          typeof body.warengruppe === "string" &&
+          body.warengruppe.trim().length > 0
+            ? body.warengruppe.trim()
+            : null,
+        bio_control_number:
+          typeof body.bioControlNumber === "string" &&
+          body.bioControlNumber.trim().length > 0
+            ? body.bioControlNumber.trim()
+            : null,
+        device_settings: Array.isArray(body.deviceSettings)
+          ? body.deviceSettings
+          : null,
       })
       .select("*")
       .single();
@@ -440,6 +652,7 @@ export async function POST(request: Request) {
         .from("recipe_structure")
         .insert(
           body.components.map((component) => ({
+            kitchen_id: kitchen.kitchenId,
             parent_item_id: createdItemRow.id,
             child_item_id: component.itemId, // Renamed from component_item_id
             amount: component.quantity,      // Renamed from quantity
@@ -473,6 +686,7 @@ export async function POST(request: Request) {
 
     if (body.preparationSteps && Array.isArray(body.preparationSteps) && body.preparationSteps.length > 0) {
        const stepsToInsert = body.preparationSteps.map((step, index) => ({
+         kitchen_id: kitchen.kitchenId,
          item_id: createdItemRow.id,
          step_order: step.stepOrder ?? index + 1,
          instruction: step.instruction,
@@ -498,6 +712,12 @@ export async function POST(request: Request) {
        }
     }
 
+    await recordItemRevision(
+      client,
+      kitchen.kitchenId,
+      createdItemRow.id,
+      "create"
+    );
 
     const resultItem: InventoryItem = {
       id: createdItemRow.id,
@@ -513,11 +733,26 @@ export async function POST(request: Request) {
       category: createdItemRow.category,
       portionUnit: createdItemRow.portion_unit,
       nutritionTags: createdItemRow.nutrition_tags ?? undefined,
+      allergens: createdItemRow.allergens ?? undefined,
+      allergenTraces: createdItemRow.allergen_traces ?? [],
+      additives: createdItemRow.additives ?? [],
       manufacturerArticleNumber: createdItemRow.manufacturer_article_number,
       ean: createdItemRow.ean,
       ingredients: createdItemRow.ingredients,
       dosageInstructions: createdItemRow.dosage_instructions,
       yieldInfo: createdItemRow.yield_info,
+      yieldWeightGrams:
+        createdItemRow.yield_weight_grams != null
+          ? Number(createdItemRow.yield_weight_grams)
+          : null,
+      yieldVolumeMl:
+        createdItemRow.yield_volume_ml != null ? Number(createdItemRow.yield_volume_ml) : null,
+      usableYieldPercent:
+        createdItemRow.usable_yield_percent != null
+          ? Number(createdItemRow.usable_yield_percent)
+          : null,
+      cookingFactor:
+        createdItemRow.cooking_factor != null ? Number(createdItemRow.cooking_factor) : null,
       preparationSteps: preparationSteps ?? null, // Use the newly saved steps
       fileUrl: createdItemRow.file_url,
       standardPreparation: createdItemRow.standard_preparation,
@@ -533,9 +768,29 @@ export async function POST(request: Request) {
       isGlutenFree: createdItemRow.is_gluten_free ?? false,
       isVegan: createdItemRow.is_vegan ?? false,
       isVegetarian: createdItemRow.is_vegetarian ?? false,
+      isFairtrade: createdItemRow.is_fairtrade ?? false,
+      isPowder: createdItemRow.is_powder ?? false,
+      isGranulate: createdItemRow.is_granulate ?? false,
+      isPaste: createdItemRow.is_paste ?? false,
+      isLiquid: createdItemRow.is_liquid ?? false,
+      storageArea: createdItemRow.storage_area,
+      parLevel: createdItemRow.par_level,
+      reorderQuantity: createdItemRow.reorder_quantity,
+      preferredSupplierId: createdItemRow.preferred_supplier_id,
+      dietFlagOverrides: createdItemRow.diet_flag_overrides ?? {},
+      fruitVegetableShare:
+        createdItemRow.fruit_vegetable_share != null
+          ? Number(createdItemRow.fruit_vegetable_share)
+          : null,
+      onHand: 0,
+      warengruppe: createdItemRow.warengruppe,
+      bioControlNumber: createdItemRow.bio_control_number,
+      deviceSettings: createdItemRow.device_settings,
       packshotX: createdItemRow.packshot_x,
       packshotY: createdItemRow.packshot_y,
       packshotZoom: createdItemRow.packshot_zoom,
+      version: createdItemRow.version,
+      updatedAt: createdItemRow.updated_at,
       components,
     };
 
@@ -568,21 +823,30 @@ export async function POST(request: Request) {
 
 export async function DELETE(request: Request) {
   try {
-    const client = getSupabaseServerClient();
+    const client = await getSupabaseServerClient();
 
     if (!client) {
       console.error(
-        "Supabase client initialization failed in DELETE: Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY/SUPABASE_ANON_KEY"
+        "Supabase client initialization failed in DELETE: Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY"
       );
       return NextResponse.json(
         {
           error:
-            'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY oder SUPABASE_ANON_KEY)',
+            'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
         },
         { status: 500 }
       );
     }
 
+    const kitchen = await getKitchenContext(client);
+
+    if (!kitchen) {
+      return NextResponse.json(
+        { error: "Ihrem Konto ist keine Küche zugeordnet." },
+        { status: 403 }
+      );
+    }
+
     const body = (await request.json()) as {
       id: string;
     };
@@ -598,6 +862,8 @@ export async function DELETE(request: Request) {
       .from("items")
       .select("id,name")
       .eq("id", body.id)
+      .eq("kitchen_id", kitchen.kitchenId)
+      .is("deleted_at", null)
       .single();
 
     if (itemResponse.error || !itemResponse.data) {
@@ -613,56 +879,19 @@ export async function DELETE(request: Request) {
       );
     }
 
-    const itemName =
-      (itemResponse.data as { name: string }).name;
-
-    const deleteParentRelationsResponse = await client
-      .from("recipe_structure")
-      .delete()
-      .eq("parent_item_id", body.id);
-
-    if (deleteParentRelationsResponse.error) {
-      console.error("Supabase delete recipe_structure error", {
-        table: "recipe_structure",
-        error: deleteParentRelationsResponse.error,
-      });
-      return NextResponse.json(
-        {
-          error:
-            deleteParentRelationsResponse.error.message ??
-            'Fehler beim Löschen der Komponenten in Tabelle "recipe_structure"',
-        },
-        { status: 500 }
-      );
-    }
-
-    // If we delete an item that is used in other recipes, we should probably update those recipes
-    // to remove the reference.
-    // User requested "Delete old -> Insert new" for SAVING recipes, but for DELETING items:
-    // "Wenn ich ein Item in eine Matrix einfüge, speichere NUR die Verknüpfung (ID und Menge)."
-    // If ID is gone, we should remove the link or set it to null.
-    // Since we don't have "deleted_item_name" anymore, we'll just set child_item_id to null
-    // or delete the row. Deleting the row is cleaner for strict schema.
-    
-    const updateComponentRelationsResponse = await client
-      .from("recipe_structure")
-      .delete()
-      .eq("child_item_id", body.id);
-
-    if (updateComponentRelationsResponse.error) {
-       console.error("Supabase delete child relations error", {
-         table: "recipe_structure",
-         error: updateComponentRelationsResponse.error,
-       });
-       // Log error but proceed? Or fail? Usually we want to ensure cleanup.
-       // But if cascade delete is set on DB, this might be redundant.
-       // Assuming no cascade for now.
-    }
+    const affectedRecipes = await listItemUsages(
+      client,
+      kitchen.kitchenId,
+      body.id
+    );
 
+    // Soft delete: recipes keep their recipe_structure rows and show the
+    // item as a ghost component until a replacement is chosen
     const deleteItemResponse = await client
       .from("items")
-      .delete()
+      .update({ deleted_at: new Date().toISOString() })
       .eq("id", body.id)
+      .eq("kitchen_id", kitchen.kitchenId)
       .select("id")
       .single();
 
@@ -685,8 +914,10 @@ export async function DELETE(request: Request) {
       );
     }
 
+    await recordItemRevision(client, kitchen.kitchenId, body.id, "delete");
+
     return NextResponse.json(
-      { success: true },
+      { success: true, affectedRecipes },
       { status: 200 }
     );
   } catch (error) {
@@ -1,5 +1,15 @@
 import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { recordItemRevision } from "@/lib/item-revisions";
+import { validateRecipeComponents } from "@/lib/recipe-cycles";
+import { normalizeAllergens } from "@/lib/allergens";
+import { detectAdditives, parseAdditiveKeys } from "@/lib/additives";
+import {
+  parseDietFlagOverrides,
+  type DietFlagOverrides,
+} from "@/lib/diet-flags";
 
 type InventoryType = "zukauf" | "eigenproduktion";
 
@@ -13,6 +23,17 @@ type StandardPreparation = {
   components: StandardPreparationComponent[];
 };
 
+type DeviceSetting = {
+  quantity: string;
+  device: string;
+  settings?: string;
+  runtime: string;
+  energy: string;
+  water?: string;
+  outputYield?: string;
+  cleaningEffort?: string;
+};
+
 type NutritionTotals = {
   energyKcal: number | null;
   fat: number | null;
@@ -45,10 +66,16 @@ type SupabaseItemRow = {
   manufacturer_article_number: string | null;
   ean: string | null;
   allergens: string[] | null;
+  allergen_traces: string[] | null;
+  additives: string[] | null;
   ingredients: string | null;
   dosage_instructions: string | null;
   yield_info: string | null;
   yield_volume: string | null;
+  yield_weight_grams: number | null;
+  yield_volume_ml: number | null;
+  usable_yield_percent: number | null;
+  cooking_factor: number | null;
   preparation_steps: string | null;
   standard_preparation: StandardPreparation | null;
   is_bio: boolean | null;
@@ -62,11 +89,27 @@ type SupabaseItemRow = {
   is_gluten_free: boolean | null;
   is_vegan: boolean | null;
   is_vegetarian: boolean | null;
+  is_fairtrade: boolean | null;
+  is_powder: boolean | null;
+  is_granulate: boolean | null;
+  is_paste: boolean | null;
+  is_liquid: boolean | null;
+  storage_area: string | null;
+  par_level: number | null;
+  reorder_quantity: number | null;
+  preferred_supplier_id: string | null;
+  diet_flag_overrides: DietFlagOverrides | null;
+  fruit_vegetable_share: number | null;
+  warengruppe: string | null;
+  bio_control_number: string | null;
+  device_settings: DeviceSetting[] | null;
   packshot_x: number | null;
   packshot_y: number | null;
   packshot_zoom: number | null;
   file_url: string | null;
   image_url: string | null;
+  version: number;
+  updated_at: string;
 };
 
 type SupabaseRecipeStructureRow = {
@@ -88,6 +131,7 @@ type InventoryComponent = {
   itemId: string | null;
   quantity: number;
   unit: string;
+  deletedItemName?: string | null;
   hasSubIngredients?: boolean;
 };
 
@@ -114,10 +158,16 @@ type InventoryItem = {
   manufacturerArticleNumber?: string | null;
   ean?: string | null;
   allergens?: string[];
+  allergenTraces?: string[];
+  additives?: string[];
   ingredients?: string | null;
   dosageInstructions?: string | null;
   yieldInfo?: string | null;
   yieldVolume?: string | null;
+  yieldWeightGrams?: number | null;
+  yieldVolumeMl?: number | null;
+  usableYieldPercent?: number | null;
+  cookingFactor?: number | null;
   preparationSteps?: PreparationStep[]; // Changed from string | null
   nutritionPerUnit?: NutritionTotals | null;
   standardPreparation?: StandardPreparation | null;
@@ -132,6 +182,20 @@ type InventoryItem = {
   isGlutenFree?: boolean;
   isVegan?: boolean;
   isVegetarian?: boolean;
+  isFairtrade?: boolean;
+  isPowder?: boolean;
+  isGranulate?: boolean;
+  isPaste?: boolean;
+  isLiquid?: boolean;
+  storageArea?: string | null;
+  parLevel?: number | null;
+  reorderQuantity?: number | null;
+  preferredSupplierId?: string | null;
+  dietFlagOverrides?: DietFlagOverrides;
+  fruitVegetableShare?: number | null;
+  warengruppe?: string | null;
+  bioControlNumber?: string | null;
+  deviceSettings?: DeviceSetting[] | null;
   hasGhostComponents?: boolean;
   components?: InventoryComponent[];
   packshotX?: number | null;
@@ -139,21 +203,189 @@ type InventoryItem = {
   packshotZoom?: number | null;
   imageUrl?: string | null;
   fileUrl?: string | null;
+  version?: number;
+  updatedAt?: string;
 };
 
+async function loadItemDetails(
+  client: SupabaseClient,
+  kitchenId: string,
+  row: SupabaseItemRow
+): Promise<InventoryItem> {
+  let components: InventoryComponent[] | undefined;
+  let hasGhostComponents = false;
+
+  const relationsResponse = await client
+    .from("recipe_structure")
+    .select("*")
+    .eq("parent_item_id", row.id)
+    .eq("kitchen_id", kitchenId);
+
+  if (relationsResponse.error) {
+    throw new Error(
+      relationsResponse.error.message ??
+        'Fehler beim Laden der Komponenten aus Tabelle "recipe_structure"'
+    );
+  } else {
+    const relations =
+      (relationsResponse.data ??
+        []) as SupabaseRecipeStructureRow[];
+
+    // Fetch sub-recipe info for icons (is this efficient? maybe separate query or view later)
+    // For now, simple check if child items have their own recipe structure
+    // Optimization: Get all child IDs
+    const childIds = relations.map(r => r.child_item_id).filter(Boolean);
+    let subRecipeMap = new Set<string>();
+    const deletedItemNames = new Map<string, string>();
+    
+    if (childIds.length > 0) {
+        const deletedChildrenResponse = await client
+            .from("items")
+            .select("id, name")
+            .eq("kitchen_id", kitchenId)
+            .in("id", childIds)
+            .not("deleted_at", "is", null);
+
+        if (deletedChildrenResponse.data) {
+            deletedChildrenResponse.data.forEach(r => deletedItemNames.set(r.id, r.name));
+        }
+
+        const subRecipesCheck = await client
+            .from("recipe_structure")
+            .select("parent_item_id")
+            .eq("kitchen_id", kitchenId)
+            .in("parent_item_id", childIds);
+            
+        if (subRecipesCheck.data) {
+            subRecipesCheck.data.forEach(r => subRecipeMap.add(r.parent_item_id));
+        }
+    }
+
+    components = relations.map((rel) => ({
+      itemId: rel.child_item_id,
+      quantity: rel.amount,
+      unit: rel.unit,
+      deletedItemName: deletedItemNames.get(rel.child_item_id) ?? null,
+      hasSubIngredients: subRecipeMap.has(rel.child_item_id)
+    }));
+    hasGhostComponents = deletedItemNames.size > 0;
+  }
+
+  // Fetch Preparation Steps for Response
+  const stepsResponse = await client
+    .from("preparation_steps")
+    .select("id, step_order, instruction")
+    .eq("item_id", row.id)
+    .eq("kitchen_id", kitchenId)
+    .order("step_order", { ascending: true });
+    
+  let preparationSteps: PreparationStep[] = [];
+  if (stepsResponse.data) {
+    preparationSteps = stepsResponse.data.map(s => ({
+        id: s.id,
+        stepOrder: s.step_order,
+        instruction: s.instruction
+    }));
+  }
+
+  return {
+    id: row.id,
+    internalId: row.internal_id,
+    name: row.name,
+    type: row.item_type,
+    unit: row.unit,
+    brand: row.brand,
+    currency: row.currency ?? "EUR",
+    purchasePrice: row.purchase_price,
+    targetPortions: row.target_portions,
+    targetSalesPrice: row.target_sales_price,
+    category: row.category,
+    portionUnit: row.portion_unit,
+    nutritionTags: row.nutrition_tags ?? undefined,
+    manufacturerArticleNumber: row.manufacturer_article_number,
+    ean: row.ean,
+    allergens: row.allergens ?? undefined,
+    allergenTraces: row.allergen_traces ?? [],
+    additives: row.additives ?? [],
+    ingredients: row.ingredients,
+    dosageInstructions: row.dosage_instructions,
+    yieldInfo: row.yield_info,
+    yieldVolume: row.yield_volume,
+    yieldWeightGrams:
+      row.yield_weight_grams != null ? Number(row.yield_weight_grams) : null,
+    yieldVolumeMl:
+      row.yield_volume_ml != null ? Number(row.yield_volume_ml) : null,
+    usableYieldPercent:
+      row.usable_yield_percent != null
+        ? Number(row.usable_yield_percent)
+        : null,
+    cookingFactor:
+      row.cooking_factor != null ? Number(row.cooking_factor) : null,
+    preparationSteps: preparationSteps, // Use the fetched array
+    standardPreparation: row.standard_preparation,
+    nutritionPerUnit: row.nutrition_per_unit,
+    isBio: row.is_bio ?? false,
+    isDeklarationsfrei: row.is_deklarationsfrei ?? false,
+    isAllergenfrei: row.is_allergenfrei ?? false,
+    isCookChill: row.is_cook_chill ?? false,
+    isFreezeThawStable: row.is_freeze_thaw_stable ?? false,
+    isPalmOilFree: row.is_palm_oil_free ?? false,
+    isYeastFree: row.is_yeast_free ?? false,
+    isLactoseFree: row.is_lactose_free ?? false,
+    isGlutenFree: row.is_gluten_free ?? false,
+    isVegan: row.is_vegan ?? false,
+    isVegetarian: row.is_vegetarian ?? false,
+    isFairtrade: row.is_fairtrade ?? false,
+    isPowder: row.is_powder ?? false,
+    isGranulate: row.is_granulate ?? false,
+    isPaste: row.is_paste ?? false,
+    isLiquid: row.is_liquid ?? false,
+    storageArea: row.storage_area,
+    parLevel: row.par_level,
+    reorderQuantity: row.reorder_quantity,
+    preferredSupplierId: row.preferred_supplier_id,
+    dietFlagOverrides: row.diet_flag_overrides ?? {},
+    fruitVegetableShare:
+      row.fruit_vegetable_share != null
+        ? Number(row.fruit_vegetable_share)
+        : null,
+    warengruppe: row.warengruppe,
+    bioControlNumber: row.bio_control_number,
+    deviceSettings: row.device_settings,
+    packshotX: row.packshot_x,
+    packshotY: row.packshot_y,
+    packshotZoom: row.packshot_zoom,
+    hasGhostComponents,
+    components,
+    imageUrl: row.image_url,
+    fileUrl: row.file_url,
+    version: row.version,
+    updatedAt: row.updated_at,
+  };
+}
+
 export async function POST(request: Request) {
-  const client = getSupabaseServerClient();
+  const client = await getSupabaseServerClient();
 
   if (!client) {
     return NextResponse.json(
       {
         error:
-          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY oder NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
       },
       { status: 500 }
     );
   }
 
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
   const body = (await request.json()) as {
     id: string;
     name?: string;
@@ -161,9 +393,15 @@ export async function POST(request: Request) {
     currency?: string;
     manufacturerArticleNumber?: string;
     allergens?: string[];
+    allergenTraces?: string[];
+    additives?: string[];
     ingredients?: string;
     dosageInstructions?: string;
     yieldInfo?: string;
+    yieldWeightGrams?: number | null;
+    yieldVolumeMl?: number | null;
+    usableYieldPercent?: number | null;
+    cookingFactor?: number | null;
     preparationSteps?: PreparationStep[]; // Updated type
     targetPortions?: number | null;
     targetSalesPrice?: number | null;
@@ -185,12 +423,26 @@ export async function POST(request: Request) {
     isGlutenFree?: boolean;
     isVegan?: boolean;
     isVegetarian?: boolean;
+    isFairtrade?: boolean;
+    isPowder?: boolean;
+    isGranulate?: boolean;
+    isPaste?: boolean;
+    isLiquid?: boolean;
+    storageArea?: string | null;
+    parLevel?: number | null;
+    reorderQuantity?: number | null;
+    dietFlagOverrides?: unknown;
+    fruitVegetableShare?: number | null;
+    warengruppe?: string | null;
+    bioControlNumber?: string | null;
+    deviceSettings?: DeviceSetting[] | null;
     packshotX?: number | null;
     packshotY?: number | null;
     packshotZoom?: number | null;
     imageUrl?: string | null;
     fileUrl?: string | null;
     components?: InventoryComponent[]; // Add components to body
+    expectedVersion?: number;
   };
 
   if (!body.id) {
@@ -215,9 +467,15 @@ export async function POST(request: Request) {
     currency?: string;
     manufacturer_article_number?: string | null;
     allergens?: string[] | null;
+    allergen_traces?: string[];
+    additives?: string[];
     ingredients?: string | null;
     dosage_instructions?: string | null;
     yield_info?: string | null;
+    yield_weight_grams?: number | null;
+    yield_volume_ml?: number | null;
+    usable_yield_percent?: number | null;
+    cooking_factor?: number | null;
     // preparation_steps removed from updates object as it's now a separate table
     target_portions?: number | null;
     target_sales_price?: number | null;
@@ -238,6 +496,19 @@ export async function POST(request: Request) {
     is_gluten_free?: boolean;
     is_vegan?: boolean;
     is_vegetarian?: boolean;
+    is_fairtrade?: boolean;
+    is_powder?: boolean;
+    is_granulate?: boolean;
+    is_paste?: boolean;
+    is_liquid?: boolean;
+    storage_area?: string | null;
+    par_level?: number | null;
+    reorder_quantity?: number | null;
+    diet_flag_overrides?: DietFlagOverrides;
+    fruit_vegetable_share?: number | null;
+    warengruppe?: string | null;
+    bio_control_number?: string | null;
+    device_settings?: DeviceSetting[] | null;
     packshot_x?: number | null;
     packshot_y?: number | null;
     packshot_zoom?: number | null;
@@ -283,9 +554,28 @@ export async function POST(request: Request) {
     }
   }
 
-  if (body.allergens) {
-    updates.allergens =
-      body.allergens.length > 0 ? body.allergens : [];
+  let unmatchedAllergens: string[] = [];
+
+  if (body.allergens || body.allergenTraces) {
+    const normalized = normalizeAllergens(
+      body.allergens ?? [],
+      body.allergenTraces ?? []
+    );
+    // Entries outside the catalogue, e.g. legacy values, are kept as typed
+    // and reported back as a warning
+    unmatchedAllergens = [
+      ...normalized.unmatched,
+      ...normalized.unmatchedTraces,
+    ];
+    if (body.allergens) {
+      updates.allergens = [...normalized.allergens, ...normalized.unmatched];
+    }
+    if (body.allergenTraces || normalized.traces.length > 0) {
+      updates.allergen_traces = [
+        ...normalized.traces,
+        ...normalized.unmatchedTraces,
+      ];
+    }
   }
 
   if (typeof body.ingredients === "string") {
@@ -295,6 +585,17 @@ export async function POST(request: Request) {
         : null;
   }
 
+  // Without an explicit selection, additives follow the ingredient list
+  if (body.additives !== undefined) {
+    const parsed = parseAdditiveKeys(body.additives);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    updates.additives = parsed.additives;
+  } else if (updates.ingredients !== undefined) {
+    updates.additives = detectAdditives(updates.ingredients);
+  }
+
   if (typeof body.dosageInstructions === "string") {
     updates.dosage_instructions =
       body.dosageInstructions.trim().length > 0
@@ -309,6 +610,45 @@ export async function POST(request: Request) {
         : null;
   }
 
+  if (body.usableYieldPercent === null) {
+    updates.usable_yield_percent = null;
+  } else if (typeof body.usableYieldPercent === "number") {
+    if (
+      !Number.isFinite(body.usableYieldPercent) ||
+      body.usableYieldPercent <= 0 ||
+      body.usableYieldPercent > 100
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Die nutzbare Ausbeute muss größer als 0 und höchstens 100 % sein.",
+        },
+        { status: 400 }
+      );
+    }
+    updates.usable_yield_percent = body.usableYieldPercent;
+  }
+
+  const positiveYieldFields = [
+    ["cookingFactor", "cooking_factor", "Der Garfaktor"],
+    ["yieldWeightGrams", "yield_weight_grams", "Die Ergiebigkeit in g"],
+    ["yieldVolumeMl", "yield_volume_ml", "Die Ergiebigkeit in ml"],
+  ] as const;
+  for (const [field, column, label] of positiveYieldFields) {
+    const value = body[field];
+    if (value === null) {
+      updates[column] = null;
+    } else if (typeof value === "number") {
+      if (!Number.isFinite(value) || value <= 0) {
+        return NextResponse.json(
+          { error: `${label} muss größer als 0 sein.` },
+          { status: 400 }
+        );
+      }
+      updates[column] = value;
+    }
+  }
+
   // preparation_steps removed from updates block
 
   if (typeof body.imageUrl === "string") {
@@ -392,6 +732,90 @@ export async function POST(request: Request) {
   if (typeof body.isVegetarian === "boolean") {
     updates.is_vegetarian = body.isVegetarian;
   }
+  if (typeof body.isFairtrade === "boolean") {
+    updates.is_fairtrade = body.isFairtrade;
+  }
+  if (typeof body.isPowder === "boolean") {
+    updates.is_powder = body.isPowder;
+  }
+  if (typeof body.isGranulate === "boolean") {
+    updates.is_granulate = body.isGranulate;
+  }
+  if (typeof body.isPaste === "boolean") {
+    updates.is_paste = body.isPaste;
+  }
+  if (typeof body.isLiquid === "boolean") {
+    updates.is_liquid = body.isLiquid;
+  }
+
+  if (typeof body.storageArea === "string") {
+    const trimmed = body.storageArea.trim();
+    updates.storage_area = trimmed.length > 0 ? trimmed : null;
+  }
+
+  if (Object.prototype.hasOwnProperty.call(body, "parLevel")) {
+    updates.par_level =
+      typeof body.parLevel === "number" &&
+      Number.isFinite(body.parLevel) &&
+      body.parLevel >= 0
+        ? body.parLevel
+        : null;
+  }
+
+  if (Object.prototype.hasOwnProperty.call(body, "reorderQuantity")) {
+    updates.reorder_quantity =
+      typeof body.reorderQuantity === "number" &&
+      Number.isFinite(body.reorderQuantity) &&
+      body.reorderQuantity > 0
+        ? body.reorderQuantity
+        : null;
+  }
+
+  if (Object.prototype.hasOwnProperty.call(body, "dietFlagOverrides")) {
+    const parsed = parseDietFlagOverrides(body.dietFlagOverrides);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    updates.diet_flag_overrides = parsed.overrides;
+  }
+
+  if (body.fruitVegetableShare === null) {
+    updates.fruit_vegetable_share = null;
+  } else if (typeof body.fruitVegetableShare === "number") {
+    if (
+      !Number.isFinite(body.fruitVegetableShare) ||
+      body.fruitVegetableShare < 0 ||
+      body.fruitVegetableShare > 100
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Der Anteil an Obst, Gemüse und Hülsenfrüchten muss zwischen 0 und 100 % liegen.",
+        },
+        { status: 400 }
+      );
+    }
+    updates.fruit_vegetable_share = body.fruitVegetableShare;
+  }
+
+  if (typeof body.warengruppe === "string") {
+    const trimmed = body.warengruppe.trim();
+    updates.warengruppe = trimmed.length > 0 ? trimmed : null;
+  }
+
+  if (typeof body.bioControlNumber === "string") {
+    const trimmed = body.bioControlNumber.trim();
+    updates.bio_control_number = trimmed.length > 0 ? trimmed : null;
+  }
+
+  if (Object.prototype.hasOwnProperty.call(body, "deviceSettings")) {
+    const value = body.deviceSettings;
+    if (value === null) {
+      updates.device_settings = null;
+    } else if (Array.isArray(value)) {
+      updates.device_settings = value.length > 0 ? value : null;
+    }
+  }
 
   if (typeof body.packshotX === "number") {
     updates.packshot_x = body.packshotX;
@@ -412,232 +836,128 @@ export async function POST(request: Request) {
     }
   }
 
-  const updateResponse = await client
-    .from("items")
-    .update(updates)
-    .eq("id", body.id)
-    .select("*")
-    .single();
-
-  if (updateResponse.error) {
-    console.error("❌ Fehler beim Update in /api/item-details:", updateResponse.error);
-    return NextResponse.json(
-      {
-        error:
-          updateResponse.error?.message ??
-          'Fehler beim Aktualisieren des Artikels in Tabelle "items"',
-      },
-      { status: 500 }
-    );
-  }
-
-  console.log("✅ Update erfolgreich:", {
-    id: updateResponse.data.id,
-    nutrition_per_unit_saved: !!updateResponse.data.nutrition_per_unit
-  });
-
-  const row = updateResponse.data as SupabaseItemRow;
-
-  // --- Atomic Save for Recipe Structure ---
   if (body.components) {
-    // 1. Delete existing relations
-    const deleteRelations = await client
-      .from("recipe_structure")
-      .delete()
-      .eq("parent_item_id", row.id);
-
-    if (deleteRelations.error) {
-      console.error("❌ Fehler beim Löschen der Rezept-Struktur:", deleteRelations.error);
+    let structureIssue: Awaited<ReturnType<typeof validateRecipeComponents>>;
+    try {
+      structureIssue = await validateRecipeComponents(
+        client,
+        kitchen.kitchenId,
+        body.id,
+        body.components
+          .map((comp) => comp.itemId)
+          .filter((itemId): itemId is string => Boolean(itemId))
+      );
+    } catch (error) {
+      console.error("Supabase recipe structure check error", {
+        table: "recipe_structure",
+        error: error instanceof Error ? error.message : error,
+        id: body.id,
+      });
       return NextResponse.json(
-        { error: `Fehler beim Löschen der Rezept-Struktur: ${deleteRelations.error.message}` },
+        { error: "Fehler beim Prüfen der Rezeptstruktur" },
         { status: 500 }
       );
     }
 
-    // 2. Insert new relations
-    if (body.components.length > 0) {
-      // Try insert with 'amount'; if it fails due to missing column, retry with 'quantity'
-      let insertRelations = await client
-        .from("recipe_structure")
-        .insert(
-          body.components.map((comp) => ({
-            parent_item_id: row.id,
-            child_item_id: comp.itemId!, // Assumes valid ID
-            amount: comp.quantity,
-            unit: comp.unit,
-          }))
-        );
-
-      if (insertRelations.error && typeof insertRelations.error.message === "string" && insertRelations.error.message.toLowerCase().includes("amount")) {
-        insertRelations = await client
-          .from("recipe_structure")
-          .insert(
-            body.components.map((comp) => ({
-              parent_item_id: row.id,
-              child_item_id: comp.itemId!, // Assumes valid ID
-              quantity: comp.quantity,
-              unit: comp.unit,
-            }))
-          );
-      }
-
-      if (insertRelations.error) {
-        console.error("❌ Fehler beim Speichern der Rezept-Struktur:", insertRelations.error);
-        return NextResponse.json(
-          { error: `Fehler beim Speichern der Rezept-Struktur: ${insertRelations.error.message}` },
-          { status: 500 }
-        );
-      }
-    }
-  }
-
-  // --- Atomic Save for Preparation Steps ---
-  if (body.preparationSteps) {
-    // 1. Delete existing steps
-    const deleteSteps = await client
-      .from("preparation_steps")
-      .delete()
-      .eq("item_id", row.id);
-
-    if (deleteSteps.error) {
-      console.error("❌ Fehler beim Löschen der Zubereitungsschritte:", deleteSteps.error);
+    if (structureIssue) {
       return NextResponse.json(
-        { error: `Fehler beim Löschen der Zubereitungsschritte: ${deleteSteps.error.message}` },
-        { status: 500 }
+        { error: structureIssue.message, path: structureIssue.path },
+        { status: 422 }
       );
     }
+  }
 
-    // 2. Insert new steps
-    if (body.preparationSteps.length > 0) {
-      const newSteps = body.preparationSteps.map((step, index) => ({
-        item_id: row.id,
-        step_order: index + 1,
-        instruction: step.instruction,
-      }));
-
-      const insertSteps = await client
-        .from("preparation_steps")
-        .insert(newSteps);
+  const saveResponse = await client
+    .rpc("save_recipe", {
+      p_kitchen_id: kitchen.kitchenId,
+      p_item_id: body.id,
+      p_updates: updates,
+      p_components: body.components
+        ? body.components.map((comp) => ({
+            child_item_id: comp.itemId,
+            amount: comp.quantity,
+            unit: comp.unit,
+          }))
+        : null,
+      p_steps: body.preparationSteps
+        ? body.preparationSteps.map((step) => ({
+            instruction: step.instruction,
+          }))
+        : null,
+      p_expected_version:
+        typeof body.expectedVersion === "number" ? body.expectedVersion : null,
+    })
+    .single();
 
-      if (insertSteps.error) {
-        console.error("❌ Fehler beim Speichern der Zubereitungsschritte:", insertSteps.error);
-        return NextResponse.json(
-          { error: `Fehler beim Speichern der Zubereitungsschritte: ${insertSteps.error.message}` },
-          { status: 500 }
+  if (saveResponse.error?.code === "PT409") {
+    const currentResponse = await client
+      .from("items")
+      .select("*")
+      .eq("id", body.id)
+      .eq("kitchen_id", kitchen.kitchenId)
+      .single();
+
+    let serverItem: InventoryItem | null = null;
+    if (currentResponse.data) {
+      try {
+        serverItem = await loadItemDetails(
+          client,
+          kitchen.kitchenId,
+          currentResponse.data as SupabaseItemRow
         );
+      } catch {
+        serverItem = null;
       }
     }
+
+    return NextResponse.json(
+      {
+        error:
+          "Der Artikel wurde zwischenzeitlich von jemand anderem geändert.",
+        serverItem,
+      },
+      { status: 409 }
+    );
   }
 
-  let components: InventoryComponent[] | undefined;
-  let hasGhostComponents = false;
+  if (saveResponse.error || !saveResponse.data) {
+    console.error("❌ Fehler beim Speichern in /api/item-details:", saveResponse.error);
+    const code = saveResponse.error?.code;
+    const status = code === "P0002" ? 404 : code === "23503" ? 400 : 500;
+    return NextResponse.json(
+      {
+        error:
+          saveResponse.error?.message ??
+          'Fehler beim Aktualisieren des Artikels in Tabelle "items"',
+      },
+      { status }
+    );
+  }
 
-  const relationsResponse = await client
-    .from("recipe_structure")
-    .select("*")
-    .eq("parent_item_id", row.id);
+  const row = saveResponse.data as SupabaseItemRow;
 
-  if (relationsResponse.error) {
-    return NextResponse.json(
-        {
-          error:
-            relationsResponse.error.message ??
-            'Fehler beim Laden der Komponenten aus Tabelle "recipe_structure"',
-        },
-        { status: 500 }
-      );
-  } else {
-    const relations =
-      (relationsResponse.data ??
-        []) as SupabaseRecipeStructureRow[];
+  await recordItemRevision(client, kitchen.kitchenId, row.id, "update");
 
-    // Fetch sub-recipe info for icons (is this efficient? maybe separate query or view later)
-    // For now, simple check if child items have their own recipe structure
-    // Optimization: Get all child IDs
-    const childIds = relations.map(r => r.child_item_id).filter(Boolean);
-    let subRecipeMap = new Set<string>();
-    
-    if (childIds.length > 0) {
-        const subRecipesCheck = await client
-            .from("recipe_structure")
-            .select("parent_item_id")
-            .in("parent_item_id", childIds);
-            
-        if (subRecipesCheck.data) {
-            subRecipesCheck.data.forEach(r => subRecipeMap.add(r.parent_item_id));
-        }
-    }
+  console.log("✅ Update erfolgreich:", {
+    id: row.id,
+    nutrition_per_unit_saved: !!row.nutrition_per_unit
+  });
 
-    components = relations.map((rel: any) => {
-      const qty = (rel as any).amount ?? (rel as any).quantity;
-      return {
-        itemId: rel.child_item_id,
-        quantity: qty,
-        unit: rel.unit,
-        hasSubIngredients: subRecipeMap.has(rel.child_item_id)
-      };
-    });
-  }
+  let item: InventoryItem;
 
-  // Fetch Preparation Steps for Response
-  const stepsResponse = await client
-    .from("preparation_steps")
-    .select("id, step_order, instruction")
-    .eq("item_id", row.id)
-    .order("step_order", { ascending: true });
-    
-  let preparationSteps: PreparationStep[] = [];
-  if (stepsResponse.data) {
-    preparationSteps = stepsResponse.data.map(s => ({
-        id: s.id,
-        stepOrder: s.step_order,
-        instruction: s.instruction
-    }));
+  try {
+    item = await loadItemDetails(client, kitchen.kitchenId, row);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Fehler beim Laden der Komponenten aus Tabelle "recipe_structure"',
+      },
+      { status: 500 }
+    );
   }
 
-  const item: InventoryItem = {
-    id: row.id,
-    internalId: row.internal_id,
-    name: row.name,
-    type: row.item_type,
-    unit: row.unit,
-    brand: row.brand,
-    currency: row.currency ?? "EUR",
-    purchasePrice: row.purchase_price,
-    targetPortions: row.target_portions,
-    targetSalesPrice: row.target_sales_price,
-    category: row.category,
-    portionUnit: row.portion_unit,
-    nutritionTags: row.nutrition_tags ?? undefined,
-    manufacturerArticleNumber: row.manufacturer_article_number,
-    ean: row.ean,
-    allergens: row.allergens ?? undefined,
-    ingredients: row.ingredients,
-    dosageInstructions: row.dosage_instructions,
-    yieldInfo: row.yield_info,
-    yieldVolume: row.yield_volume,
-    preparationSteps: preparationSteps, // Use the fetched array
-    standardPreparation: row.standard_preparation,
-    nutritionPerUnit: row.nutrition_per_unit,
-    isBio: row.is_bio ?? false,
-    isDeklarationsfrei: row.is_deklarationsfrei ?? false,
-    isAllergenfrei: row.is_allergenfrei ?? false,
-    isCookChill: row.is_cook_chill ?? false,
-    isFreezeThawStable: row.is_freeze_thaw_stable ?? false,
-    isPalmOilFree: row.is_palm_oil_free ?? false,
-    isYeastFree: row.is_yeast_free ?? false,
-    isLactoseFree: row.is_lactose_free ?? false,
-    isGlutenFree: row.is_gluten_free ?? false,
-    isVegan: row.is_vegan ?? false,
-    isVegetarian: row.is_vegetarian ?? false,
-    packshotX: row.packshot_x,
-    packshotY: row.packshot_y,
-    packshotZoom: row.packshot_zoom,
-    hasGhostComponents: undefined, // Concept removed? Or needs check?
-    components,
-    imageUrl: row.image_url,
-    fileUrl: row.file_url,
-  };
-
-  return NextResponse.json({ item });
+  return NextResponse.json({ item, unmatchedAllergens });
 }
@@ -0,0 +1,214 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import {
+  getSnapshotSaveArguments,
+  mapItemRevisionRow,
+  recordItemRevision,
+  type SupabaseItemRevisionRow,
+} from "@/lib/item-revisions";
+import { validateRecipeComponents } from "@/lib/recipe-cycles";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const itemId = searchParams.get("itemId");
+
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  if (!itemId) {
+    return NextResponse.json(
+      { error: "itemId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await client
+    .from("item_revisions")
+    .select("*")
+    .eq("item_id", itemId)
+    .eq("kitchen_id", kitchen.kitchenId)
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error("Supabase item_revisions GET error", {
+      table: "item_revisions",
+      error: error.message,
+      code: error.code,
+      itemId,
+    });
+    return NextResponse.json(
+      {
+        error:
+          error.message ??
+          'Fehler beim Laden der Historie aus Tabelle "item_revisions"',
+      },
+      { status: 500 }
+    );
+  }
+
+  const revisions = ((data ?? []) as SupabaseItemRevisionRow[]).map(
+    mapItemRevisionRow
+  );
+
+  return NextResponse.json({ revisions });
+}
+
+export async function POST(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json()) as {
+    revisionId?: string;
+    expectedVersion?: number;
+  };
+
+  if (!body.revisionId) {
+    return NextResponse.json(
+      { error: "revisionId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const revisionResponse = await client
+    .from("item_revisions")
+    .select("*")
+    .eq("id", body.revisionId)
+    .eq("kitchen_id", kitchen.kitchenId)
+    .single();
+
+  if (revisionResponse.error || !revisionResponse.data) {
+    const status =
+      revisionResponse.error?.code === "PGRST116" ? 404 : 500;
+    return NextResponse.json(
+      {
+        error:
+          status === 404
+            ? "Version wurde nicht gefunden."
+            : revisionResponse.error?.message ??
+              'Fehler beim Laden der Version aus Tabelle "item_revisions"',
+      },
+      { status }
+    );
+  }
+
+  const revision = mapItemRevisionRow(
+    revisionResponse.data as SupabaseItemRevisionRow
+  );
+
+  // The components of an old version can close a loop with recipes that
+  // changed since, so they go through the same check as a normal save
+  let structureIssue: Awaited<ReturnType<typeof validateRecipeComponents>>;
+  try {
+    structureIssue = await validateRecipeComponents(
+      client,
+      kitchen.kitchenId,
+      revision.itemId,
+      revision.snapshot.components
+        .map((component) => component.child_item_id)
+        .filter((itemId): itemId is string => Boolean(itemId))
+    );
+  } catch (error) {
+    console.error("Supabase recipe structure check error", {
+      table: "recipe_structure",
+      error: error instanceof Error ? error.message : error,
+      revisionId: revision.id,
+      itemId: revision.itemId,
+    });
+    return NextResponse.json(
+      { error: "Fehler beim Prüfen der Rezeptstruktur" },
+      { status: 500 }
+    );
+  }
+
+  if (structureIssue) {
+    return NextResponse.json(
+      { error: structureIssue.message, path: structureIssue.path },
+      { status: 422 }
+    );
+  }
+
+  const saveResponse = await client
+    .rpc("save_recipe", {
+      p_kitchen_id: kitchen.kitchenId,
+      p_item_id: revision.itemId,
+      ...getSnapshotSaveArguments(revision.snapshot),
+      p_expected_version:
+        typeof body.expectedVersion === "number" ? body.expectedVersion : null,
+    })
+    .single();
+
+  if (saveResponse.error) {
+    console.error("Supabase save_recipe error", {
+      table: "items",
+      error: saveResponse.error.message,
+      code: saveResponse.error.code,
+      revisionId: revision.id,
+      itemId: revision.itemId,
+    });
+    const code = saveResponse.error.code;
+    const status =
+      code === "PT409"
+        ? 409
+        : code === "P0002"
+        ? 404
+        : code === "23503"
+        ? 400
+        : 500;
+    const message =
+      status === 409
+        ? "Der Artikel wurde zwischenzeitlich von jemand anderem geändert."
+        : status === 404
+        ? "Der Artikel existiert nicht mehr und kann nicht wiederhergestellt werden."
+        : status === 400
+        ? "Mindestens eine Zutat dieser Version existiert nicht mehr."
+        : saveResponse.error.message ?? "Fehler beim Wiederherstellen";
+    return NextResponse.json({ error: message }, { status });
+  }
+
+  await recordItemRevision(
+    client,
+    kitchen.kitchenId,
+    revision.itemId,
+    "restore"
+  );
+
+  return NextResponse.json({ itemId: revision.itemId });
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import {
+  KITCHEN_COOKIE,
+  getKitchenContext,
+  listKitchenMemberships,
+} from "@/lib/kitchen";
+
+export async function GET() {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchens = await listKitchenMemberships(client);
+  const current = await getKitchenContext(client);
+
+  return NextResponse.json({
+    kitchens,
+    currentKitchenId: current?.kitchenId ?? null,
+  });
+}
+
+export async function POST(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const body = (await request.json()) as { kitchenId?: string };
+
+  if (!body.kitchenId) {
+    return NextResponse.json(
+      { error: "kitchenId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const kitchens = await listKitchenMemberships(client);
+  const kitchen = kitchens.find(
+    (membership) => membership.kitchenId === body.kitchenId
+  );
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Sie sind kein Mitglied dieser Küche." },
+      { status: 403 }
+    );
+  }
+
+  const response = NextResponse.json({ kitchen });
+  response.cookies.set(KITCHEN_COOKIE, kitchen.kitchenId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: 60 * 60 * 24 * 365,
+  });
+  return response;
+}
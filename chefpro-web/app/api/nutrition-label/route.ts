@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { loadKitchenItems } from "@/lib/kitchen-items";
+import { computeRecipeNutrition } from "@/lib/recipe-calculation";
+import {
+  buildNutritionLabel,
+  NUTRITION_LABEL_FORMATS,
+  renderNutritionLabel,
+  type NutritionLabelFormat,
+} from "@/lib/nutrition-label";
+
+// Nutrition declaration of a recipe per 100 g and per portion as
+// ?format=html (default), svg or pdf
+export async function GET(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const itemId = searchParams.get("itemId");
+  const format = (searchParams.get("format") ?? "html") as NutritionLabelFormat;
+
+  if (!itemId) {
+    return NextResponse.json(
+      { error: "itemId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  if (!NUTRITION_LABEL_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: "format muss html, svg oder pdf sein" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const items = await loadKitchenItems(client, kitchen.kitchenId);
+    const itemsById = new Map(items.map((item) => [item.id, item]));
+    const item = itemsById.get(itemId);
+
+    if (!item) {
+      return NextResponse.json(
+        { error: "Artikel wurde nicht gefunden." },
+        { status: 404 }
+      );
+    }
+
+    if (item.type !== "eigenproduktion") {
+      return NextResponse.json(
+        {
+          error:
+            "Eine Nährwertkennzeichnung kann nur für Rezepte (Eigenproduktion) erstellt werden.",
+        },
+        { status: 400 }
+      );
+    }
+
+    const label = buildNutritionLabel(
+      item.name,
+      computeRecipeNutrition(item, itemsById)
+    );
+
+    if (!label) {
+      return NextResponse.json(
+        { error: "Für die Zutaten sind noch keine Nährwerte hinterlegt." },
+        { status: 422 }
+      );
+    }
+
+    const { body, contentType } = renderNutritionLabel(label, format);
+    const fileName = `naehrwerte-${item.id}.${format}`;
+
+    return new Response(body as BodyInit, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `${
+          format === "pdf" ? "attachment" : "inline"
+        }; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Supabase nutrition label error", {
+      error: error instanceof Error ? error.message : error,
+      itemId,
+    });
+    const message =
+      error instanceof Error ? error.message : "Unbekannter Fehler";
+    return NextResponse.json(
+      { error: `Fehler beim Erstellen der Nährwertkennzeichnung: ${message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import {
+  mapPriceHistoryRow,
+  type SupabasePriceHistoryRow,
+} from "@/lib/price-history";
+
+export async function GET(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const itemId = searchParams.get("itemId");
+
+  if (!itemId) {
+    return NextResponse.json(
+      { error: "itemId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await client
+    .from("price_history")
+    .select("id, item_id, purchase_price, previous_price, unit, changed_at")
+    .eq("kitchen_id", kitchen.kitchenId)
+    .eq("item_id", itemId)
+    .order("changed_at", { ascending: true });
+
+  if (error) {
+    console.error("Supabase price_history query error", {
+      table: "price_history",
+      error: error.message,
+      code: error.code,
+      itemId,
+    });
+    return NextResponse.json(
+      { error: `Datenbankfehler in Tabelle "price_history": ${error.message}` },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    entries: ((data ?? []) as SupabasePriceHistoryRow[]).map(
+      mapPriceHistoryRow
+    ),
+  });
+}
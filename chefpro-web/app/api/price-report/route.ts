@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { loadKitchenItems } from "@/lib/kitchen-items";
+import {
+  computeRecipeCostChanges,
+  mapPriceHistoryRow,
+  type PriceHistoryEntry,
+  type SupabasePriceHistoryRow,
+} from "@/lib/price-history";
+
+function parseReportDate(value: string | null, endOfDay: boolean) {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const date = new Date(
+    `${value}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`
+  );
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Recipe costs at two dates, recomputed from the price history
+export async function GET(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const from = parseReportDate(searchParams.get("from"), true);
+  const to = parseReportDate(searchParams.get("to"), true);
+
+  if (!from || !to) {
+    return NextResponse.json(
+      { error: "from und to müssen als Datum (JJJJ-MM-TT) angegeben werden" },
+      { status: 400 }
+    );
+  }
+
+  if (from > to) {
+    return NextResponse.json(
+      { error: "Das Startdatum muss vor dem Enddatum liegen." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const items = await loadKitchenItems(client, kitchen.kitchenId);
+
+    const { data, error } = await client
+      .from("price_history")
+      .select("id, item_id, purchase_price, previous_price, unit, changed_at")
+      .eq("kitchen_id", kitchen.kitchenId)
+      .order("changed_at", { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const historyByItem = new Map<string, PriceHistoryEntry[]>();
+    for (const row of (data ?? []) as SupabasePriceHistoryRow[]) {
+      const existing = historyByItem.get(row.item_id) ?? [];
+      existing.push(mapPriceHistoryRow(row));
+      historyByItem.set(row.item_id, existing);
+    }
+
+    return NextResponse.json({
+      from: searchParams.get("from"),
+      to: searchParams.get("to"),
+      recipes: computeRecipeCostChanges(items, historyByItem, from, to),
+    });
+  } catch (error) {
+    console.error("Supabase price report error", {
+      error: error instanceof Error ? error.message : error,
+    });
+    const message =
+      error instanceof Error ? error.message : "Unbekannter Fehler";
+    return NextResponse.json(
+      { error: `Fehler beim Berechnen des Preisberichts: ${message}` },
+      { status: 500 }
+    );
+  }
+}
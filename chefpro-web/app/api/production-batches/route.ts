@@ -0,0 +1,299 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { loadKitchenItems } from "@/lib/kitchen-items";
+import {
+  scaleRecipe,
+  type ProductionBatch,
+  type ScaledComponent,
+  type ScaleMode,
+} from "@/lib/recipe-scaling";
+
+type SupabaseProductionBatchRow = {
+  id: string;
+  item_id: string;
+  scale_mode: ScaleMode;
+  target_value: number;
+  scale_factor: number;
+  portions: number | null;
+  output_grams: number | null;
+  estimated_cost: number | null;
+  components: ScaledComponent[] | null;
+  note: string | null;
+  created_at: string;
+};
+
+const SCALE_MODES: ScaleMode[] = ["portions", "weight"];
+
+function parseTargetValue(value: unknown) {
+  const parsed =
+    typeof value === "string" ? Number(value.replace(",", ".")) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : null;
+}
+
+function mapProductionBatchRow(
+  row: SupabaseProductionBatchRow
+): ProductionBatch {
+  return {
+    id: row.id,
+    itemId: row.item_id,
+    scaleMode: row.scale_mode,
+    targetValue: Number(row.target_value),
+    scaleFactor: Number(row.scale_factor),
+    portions: row.portions === null ? null : Number(row.portions),
+    outputGrams: row.output_grams === null ? null : Number(row.output_grams),
+    estimatedCost:
+      row.estimated_cost === null ? null : Number(row.estimated_cost),
+    components: row.components ?? [],
+    note: row.note,
+    createdAt: row.created_at,
+  };
+}
+
+// Saved batches of a recipe, newest first
+export async function GET(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const itemId = searchParams.get("itemId");
+
+  if (!itemId) {
+    return NextResponse.json(
+      { error: "itemId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await client
+    .from("production_batches")
+    .select("*")
+    .eq("kitchen_id", kitchen.kitchenId)
+    .eq("item_id", itemId)
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  if (error) {
+    console.error("Supabase production_batches GET error", {
+      table: "production_batches",
+      error: error.message,
+      code: error.code,
+      itemId,
+    });
+    return NextResponse.json(
+      {
+        error: `Datenbankfehler beim Laden der Produktionschargen: ${error.message}`,
+      },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(
+    ((data ?? []) as SupabaseProductionBatchRow[]).map(mapProductionBatchRow)
+  );
+}
+
+// Scales the saved master recipe and stores the result as a batch. The
+// recipe itself is not changed.
+export async function POST(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json()) as {
+    itemId?: string;
+    scaleMode?: string;
+    targetValue?: unknown;
+    note?: string | null;
+  };
+
+  if (!body.itemId) {
+    return NextResponse.json(
+      { error: "itemId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const scaleMode = SCALE_MODES.find((mode) => mode === body.scaleMode);
+
+  if (!scaleMode) {
+    return NextResponse.json(
+      { error: 'scaleMode muss "portions" oder "weight" sein' },
+      { status: 400 }
+    );
+  }
+
+  const targetValue = parseTargetValue(body.targetValue);
+
+  if (targetValue === null || targetValue <= 0) {
+    return NextResponse.json(
+      { error: "Der Zielwert muss größer als 0 sein." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const items = await loadKitchenItems(client, kitchen.kitchenId);
+    const itemsById = new Map(items.map((item) => [item.id, item]));
+    const item = itemsById.get(body.itemId);
+
+    if (!item) {
+      return NextResponse.json(
+        { error: "Artikel wurde nicht gefunden." },
+        { status: 404 }
+      );
+    }
+
+    if (item.type !== "eigenproduktion") {
+      return NextResponse.json(
+        { error: "Nur Rezepte (Eigenproduktion) können skaliert werden." },
+        { status: 400 }
+      );
+    }
+
+    const scaling = scaleRecipe(item, itemsById, {
+      mode: scaleMode,
+      value: targetValue,
+    });
+
+    if (!scaling) {
+      return NextResponse.json(
+        {
+          error:
+            scaleMode === "portions"
+              ? "Für das Rezept sind keine Portionen hinterlegt."
+              : "Das Rezept hat kein Ausbeute-Gewicht, nach dem skaliert werden kann.",
+        },
+        { status: 422 }
+      );
+    }
+
+    const { data, error } = await client
+      .from("production_batches")
+      .insert({
+        kitchen_id: kitchen.kitchenId,
+        item_id: item.id,
+        scale_mode: scaleMode,
+        target_value: targetValue,
+        scale_factor: scaling.factor,
+        portions: scaling.portions,
+        output_grams: scaling.outputGrams,
+        estimated_cost: Math.round(scaling.estimatedCost * 100) / 100,
+        components: scaling.components,
+        note:
+          typeof body.note === "string" && body.note.trim().length > 0
+            ? body.note.trim()
+            : null,
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message ?? "Keine Daten zurückgegeben");
+    }
+
+    return NextResponse.json(
+      mapProductionBatchRow(data as SupabaseProductionBatchRow)
+    );
+  } catch (error) {
+    console.error("Supabase production batch error", {
+      error: error instanceof Error ? error.message : error,
+      itemId: body.itemId,
+    });
+    const message =
+      error instanceof Error ? error.message : "Unbekannter Fehler";
+    return NextResponse.json(
+      { error: `Fehler beim Speichern der Produktionscharge: ${message}` },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "id ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const { error } = await client
+    .from("production_batches")
+    .delete()
+    .eq("kitchen_id", kitchen.kitchenId)
+    .eq("id", id);
+
+  if (error) {
+    console.error("Supabase production_batches delete error", {
+      table: "production_batches",
+      error: error.message,
+      code: error.code,
+      batchId: id,
+    });
+    return NextResponse.json(
+      { error: `Fehler beim Löschen der Produktionscharge: ${error.message}` },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { loadKitchenItems } from "@/lib/kitchen-items";
+import { calculateRecipe } from "@/lib/recipe-calculation";
+
+// Cost, allergens and nutrition of a recipe, as shown in the recipe view
+export async function GET(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const itemId = searchParams.get("itemId");
+
+  if (!itemId) {
+    return NextResponse.json(
+      { error: "itemId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const items = await loadKitchenItems(client, kitchen.kitchenId);
+    const itemsById = new Map(items.map((item) => [item.id, item]));
+    const item = itemsById.get(itemId);
+
+    if (!item) {
+      return NextResponse.json(
+        { error: "Artikel wurde nicht gefunden." },
+        { status: 404 }
+      );
+    }
+
+    if (item.type !== "eigenproduktion") {
+      return NextResponse.json(
+        { error: "Nur Rezepte (Eigenproduktion) können berechnet werden." },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      itemId: item.id,
+      itemName: item.name,
+      targetPortions: item.targetPortions ?? null,
+      targetSalesPrice: item.targetSalesPrice ?? null,
+      ...calculateRecipe(item, itemsById),
+    });
+  } catch (error) {
+    console.error("Supabase recipe calculation error", {
+      error: error instanceof Error ? error.message : error,
+      itemId,
+    });
+    const message =
+      error instanceof Error ? error.message : "Unbekannter Fehler";
+    return NextResponse.json(
+      { error: `Fehler beim Berechnen des Rezepts: ${message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,21 +1,32 @@
 import { NextResponse } from "next/server";
 import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext, getKitchenObjectPath } from "@/lib/kitchen";
+import { getStorageFileUrl } from "@/lib/storage-files";
 
-const STORAGE_BUCKET = "recipe-images";
+const STORAGE_BUCKET = "recipe-images" as const;
 
 export async function POST(request: Request) {
-  const client = getSupabaseServerClient();
+  const client = await getSupabaseServerClient();
 
   if (!client) {
     return NextResponse.json(
       {
         error:
-          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY oder NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
       },
       { status: 500 }
     );
   }
 
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
   try {
     const formData = await request.formData();
     const file = formData.get("file");
@@ -48,9 +59,7 @@ export async function POST(request: Request) {
         ? "png"
         : "bin");
 
-    const objectPath = `${Date.now()}-${Math.random()
-      .toString(36)
-      .slice(2)}.${safeExtension}`;
+    const objectPath = getKitchenObjectPath(kitchen.kitchenId, safeExtension);
 
     const arrayBuffer = await file.arrayBuffer();
     const fileBuffer = Buffer.from(arrayBuffer);
@@ -75,7 +84,7 @@ export async function POST(request: Request) {
         return NextResponse.json(
           {
             error:
-              'Admin-Aktion erforderlich: Storage-Bucket "recipe-images" existiert nicht. Bitte in Supabase im Bereich "Storage" einen öffentlichen Bucket mit dem Namen "recipe-images" anlegen.',
+              'Admin-Aktion erforderlich: Storage-Bucket "recipe-images" existiert nicht. Bitte in Supabase im Bereich "Storage" einen privaten Bucket mit dem Namen "recipe-images" anlegen.',
             code: "BUCKET_NOT_FOUND",
           },
           { status: 500 }
@@ -90,17 +99,14 @@ export async function POST(request: Request) {
       );
     }
 
-    const publicUrlResult = client.storage
-      .from(STORAGE_BUCKET)
-      .getPublicUrl(objectPath);
-
-    const publicUrl = publicUrlResult.data.publicUrl;
+    const imageUrl = getStorageFileUrl(STORAGE_BUCKET, objectPath);
 
     if (itemId && itemId.trim().length > 0) {
       const updateResponse = await client
         .from("items")
-        .update({ image_url: publicUrl })
+        .update({ image_url: imageUrl })
         .eq("id", itemId)
+        .eq("kitchen_id", kitchen.kitchenId)
         .select("id")
         .single();
 
@@ -116,7 +122,7 @@ export async function POST(request: Request) {
       }
     }
 
-    return NextResponse.json({ imageUrl: publicUrl });
+    return NextResponse.json({ imageUrl });
   } catch (error) {
     const message =
       error instanceof Error ? error.message : "Unbekannter Fehler";
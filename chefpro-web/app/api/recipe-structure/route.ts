@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
 import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { recordItemRevision } from "@/lib/item-revisions";
+import { validateRecipeComponents } from "@/lib/recipe-cycles";
 
 type InventoryComponent = {
   itemId: string | null;
@@ -11,7 +14,7 @@ export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const parentItemId = searchParams.get("parentItemId");
 
-  const client = getSupabaseServerClient();
+  const client = await getSupabaseServerClient();
 
   if (!client) {
     return NextResponse.json(
@@ -20,6 +23,15 @@ export async function GET(request: Request) {
     );
   }
 
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
   if (!parentItemId) {
     return NextResponse.json(
       { error: "parentItemId ist erforderlich" },
@@ -30,7 +42,8 @@ export async function GET(request: Request) {
   const { data, error } = await client
     .from("recipe_structure")
     .select("*")
-    .eq("parent_item_id", parentItemId);
+    .eq("parent_item_id", parentItemId)
+    .eq("kitchen_id", kitchen.kitchenId);
 
   if (error) {
     console.error("Supabase recipe_structure GET error", {
@@ -47,20 +60,17 @@ export async function GET(request: Request) {
     );
   }
 
-  const components: InventoryComponent[] = (data || []).map((row: any) => {
-    const qty = row.amount ?? row.quantity ?? null;
-    return {
-      itemId: row.child_item_id ?? null,
-      quantity: qty,
-      unit: row.unit,
-    };
-  });
+  const components: InventoryComponent[] = (data || []).map((row: any) => ({
+    itemId: row.child_item_id ?? null,
+    quantity: row.amount ?? null,
+    unit: row.unit,
+  }));
 
   return NextResponse.json(components);
 }
 
 export async function POST(request: Request) {
-  const client = getSupabaseServerClient();
+  const client = await getSupabaseServerClient();
 
   if (!client) {
     return NextResponse.json(
@@ -69,9 +79,19 @@ export async function POST(request: Request) {
     );
   }
 
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
   const body = (await request.json()) as {
     parentItemId: string;
     components: InventoryComponent[];
+    expectedVersion?: number;
   };
 
   if (!body.parentItemId) {
@@ -81,90 +101,101 @@ export async function POST(request: Request) {
     );
   }
 
-  // Atomic Save: First delete all existing components for this parent
-  const deleteResponse = await client
-    .from("recipe_structure")
-    .delete()
-    .eq("parent_item_id", body.parentItemId);
+  const components = body.components ?? [];
 
-  if (deleteResponse.error) {
-    console.error("Supabase recipe_structure DELETE error", {
+  let structureIssue: Awaited<ReturnType<typeof validateRecipeComponents>>;
+  try {
+    structureIssue = await validateRecipeComponents(
+      client,
+      kitchen.kitchenId,
+      body.parentItemId,
+      components
+        .map((component) => component.itemId)
+        .filter((itemId): itemId is string => Boolean(itemId))
+    );
+  } catch (error) {
+    console.error("Supabase recipe structure check error", {
       table: "recipe_structure",
-      error: deleteResponse.error.message,
-      details: (deleteResponse.error as any)?.details,
-      code: (deleteResponse.error as any)?.code,
-      hint: (deleteResponse.error as any)?.hint,
+      error: error instanceof Error ? error.message : error,
       parentItemId: body.parentItemId,
     });
     return NextResponse.json(
-      { error: deleteResponse.error.message },
+      { error: "Fehler beim Prüfen der Rezeptstruktur" },
       { status: 500 }
     );
   }
 
-  const components = body.components ?? [];
-
-  if (components.length === 0) {
-    return NextResponse.json<InventoryComponent[]>([]);
+  if (structureIssue) {
+    return NextResponse.json(
+      { error: structureIssue.message, path: structureIssue.path },
+      { status: 422 }
+    );
   }
 
-  // Then insert the new components
-  // First try with 'amount' column (older schema)
-  let insertResponse = await client
-    .from("recipe_structure")
-    .insert(
-      components.map((component) => ({
-        parent_item_id: body.parentItemId,
-        child_item_id: component.itemId,
-        amount: component.quantity,
-        unit: component.unit,
-      }))
-    )
-    .select("*");
-
-  // If column 'amount' doesn't exist, retry with 'quantity'
-  if (
-    insertResponse.error &&
-    typeof insertResponse.error.message === "string" &&
-    insertResponse.error.message.toLowerCase().includes("amount")
-  ) {
-    insertResponse = await client
-      .from("recipe_structure")
-      .insert(
-        components.map((component) => ({
-          parent_item_id: body.parentItemId,
-          child_item_id: component.itemId,
-          quantity: component.quantity,
-          unit: component.unit,
-        }))
-      )
-      .select("*");
-  }
+  // Replaces all components of the parent in a single transaction
+  const saveResponse = await client.rpc("save_recipe", {
+    p_kitchen_id: kitchen.kitchenId,
+    p_item_id: body.parentItemId,
+    p_updates: {},
+    p_components: components.map((component) => ({
+      child_item_id: component.itemId,
+      amount: component.quantity,
+      unit: component.unit,
+    })),
+    p_steps: null,
+    p_expected_version:
+      typeof body.expectedVersion === "number" ? body.expectedVersion : null,
+  });
 
-  if (insertResponse.error || !insertResponse.data) {
-    console.error("Supabase recipe_structure INSERT error", {
+  if (saveResponse.error) {
+    console.error("Supabase save_recipe error", {
       table: "recipe_structure",
-      error: insertResponse.error?.message,
-      details: (insertResponse.error as any)?.details,
-      code: (insertResponse.error as any)?.code,
-      hint: (insertResponse.error as any)?.hint,
+      error: saveResponse.error.message,
+      details: saveResponse.error.details,
+      code: saveResponse.error.code,
+      hint: saveResponse.error.hint,
       parentItemId: body.parentItemId,
       componentsCount: components.length,
     });
+    const status =
+      saveResponse.error.code === "PT409"
+        ? 409
+        : saveResponse.error.code === "P0002"
+        ? 404
+        : saveResponse.error.code === "23503"
+        ? 400
+        : 500;
+    return NextResponse.json(
+      { error: saveResponse.error.message ?? "Fehler beim Speichern" },
+      { status }
+    );
+  }
+
+  await recordItemRevision(
+    client,
+    kitchen.kitchenId,
+    body.parentItemId,
+    "update"
+  );
+
+  const { data, error } = await client
+    .from("recipe_structure")
+    .select("*")
+    .eq("parent_item_id", body.parentItemId)
+    .eq("kitchen_id", kitchen.kitchenId);
+
+  if (error) {
     return NextResponse.json(
-      { error: insertResponse.error?.message ?? "Fehler beim Speichern" },
+      { error: error.message },
       { status: 500 }
     );
   }
 
-  const saved: InventoryComponent[] = insertResponse.data.map((row: any) => {
-    const qty = row.amount ?? row.quantity ?? null;
-    return {
-      itemId: row.child_item_id,
-      quantity: qty,
-      unit: row.unit,
-    };
-  });
+  const saved: InventoryComponent[] = (data || []).map((row: any) => ({
+    itemId: row.child_item_id,
+    quantity: row.amount,
+    unit: row.unit,
+  }));
 
   return NextResponse.json(saved);
 }
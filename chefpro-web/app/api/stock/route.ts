@@ -0,0 +1,350 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import {
+  getStockValue,
+  isLowStock,
+  type StockEntry,
+  type StockMovement,
+  type StockMovementType,
+} from "@/lib/stock";
+
+type SupabaseStockLevelRow = {
+  id: string;
+  item_id: string;
+  storage_area: string;
+  quantity: number;
+  min_quantity: number | null;
+  updated_at: string;
+};
+
+type SupabaseStockMovementRow = {
+  id: string;
+  item_id: string;
+  storage_area: string;
+  movement_type: StockMovementType;
+  quantity: number;
+  unit_price: number | null;
+  note: string | null;
+  created_at: string;
+};
+
+type SupabaseStockItemRow = {
+  id: string;
+  name: string;
+  unit: string;
+  purchase_price: number | null;
+};
+
+const MOVEMENT_TYPES: StockMovementType[] = ["receipt", "withdrawal"];
+
+function parseQuantity(value: unknown) {
+  const parsed =
+    typeof value === "string" ? Number(value.replace(",", ".")) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : null;
+}
+
+export async function GET() {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const [levelsResponse, itemsResponse, movementsResponse] =
+    await Promise.all([
+      client
+        .from("stock_levels")
+        .select("*")
+        .eq("kitchen_id", kitchen.kitchenId),
+      client
+        .from("items")
+        .select("id, name, unit, purchase_price")
+        .eq("kitchen_id", kitchen.kitchenId)
+        .is("deleted_at", null),
+      client
+        .from("stock_movements")
+        .select("*")
+        .eq("kitchen_id", kitchen.kitchenId)
+        .order("created_at", { ascending: false })
+        .limit(50),
+    ]);
+
+  const failed = [levelsResponse, itemsResponse, movementsResponse].find(
+    (response) => response.error
+  );
+
+  if (failed?.error) {
+    console.error("Supabase stock GET error", {
+      error: failed.error.message,
+      code: failed.error.code,
+    });
+    return NextResponse.json(
+      { error: `Datenbankfehler beim Laden des Lagers: ${failed.error.message}` },
+      { status: 500 }
+    );
+  }
+
+  const itemsById = new Map(
+    ((itemsResponse.data ?? []) as SupabaseStockItemRow[]).map((item) => [
+      item.id,
+      item,
+    ])
+  );
+
+  const entries: StockEntry[] = [];
+
+  for (const level of (levelsResponse.data ?? []) as SupabaseStockLevelRow[]) {
+    const item = itemsById.get(level.item_id);
+    if (!item) {
+      continue;
+    }
+    const quantity = Number(level.quantity);
+    const minQuantity =
+      level.min_quantity === null ? null : Number(level.min_quantity);
+    const purchasePrice = item.purchase_price ?? 0;
+    entries.push({
+      id: level.id,
+      itemId: item.id,
+      itemName: item.name,
+      unit: item.unit,
+      storageArea: level.storage_area,
+      quantity,
+      minQuantity,
+      purchasePrice,
+      value: getStockValue(quantity, purchasePrice),
+      isLow: isLowStock(quantity, minQuantity),
+      updatedAt: level.updated_at,
+    });
+  }
+
+  const movements: StockMovement[] = (
+    (movementsResponse.data ?? []) as SupabaseStockMovementRow[]
+  ).map((movement) => ({
+    id: movement.id,
+    itemId: movement.item_id,
+    itemName: itemsById.get(movement.item_id)?.name ?? "Gelöschter Artikel",
+    storageArea: movement.storage_area,
+    movementType: movement.movement_type,
+    quantity: Number(movement.quantity),
+    unitPrice: movement.unit_price === null ? null : Number(movement.unit_price),
+    note: movement.note,
+    createdAt: movement.created_at,
+  }));
+
+  const totalValue =
+    Math.round(entries.reduce((sum, entry) => sum + entry.value, 0) * 100) /
+    100;
+
+  return NextResponse.json({ entries, movements, totalValue });
+}
+
+// Books a goods receipt or a withdrawal
+export async function POST(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json()) as {
+    itemId?: string;
+    storageArea?: string | null;
+    movementType?: string;
+    quantity?: unknown;
+    note?: string | null;
+  };
+
+  if (!body.itemId) {
+    return NextResponse.json(
+      { error: "itemId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const movementType = MOVEMENT_TYPES.find(
+    (type) => type === body.movementType
+  );
+
+  if (!movementType) {
+    return NextResponse.json(
+      { error: 'movementType muss "receipt" oder "withdrawal" sein' },
+      { status: 400 }
+    );
+  }
+
+  const quantity = parseQuantity(body.quantity);
+
+  if (quantity === null || quantity <= 0) {
+    return NextResponse.json(
+      { error: "Die Menge muss größer als 0 sein." },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await client
+    .rpc("book_stock_movement", {
+      p_kitchen_id: kitchen.kitchenId,
+      p_item_id: body.itemId,
+      p_storage_area: body.storageArea ?? "",
+      p_movement_type: movementType,
+      p_quantity: quantity,
+      p_note: body.note ?? null,
+    })
+    .single();
+
+  if (error || !data) {
+    console.error("Supabase book_stock_movement error", {
+      table: "stock_movements",
+      error: error?.message,
+      code: error?.code,
+      itemId: body.itemId,
+    });
+    const code = error?.code;
+    const status =
+      code === "P0002"
+        ? 404
+        : code === "23514"
+        ? 422
+        : code === "22023"
+        ? 400
+        : code === "42501"
+        ? 403
+        : 500;
+    return NextResponse.json(
+      { error: error?.message ?? "Fehler beim Buchen der Lagerbewegung" },
+      { status }
+    );
+  }
+
+  const level = data as SupabaseStockLevelRow;
+
+  return NextResponse.json({
+    itemId: level.item_id,
+    storageArea: level.storage_area,
+    quantity: Number(level.quantity),
+  });
+}
+
+// Sets the minimum stock used for the low-stock warning
+export async function PATCH(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json()) as {
+    itemId?: string;
+    storageArea?: string | null;
+    minQuantity?: unknown;
+  };
+
+  if (!body.itemId) {
+    return NextResponse.json(
+      { error: "itemId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const minQuantity =
+    body.minQuantity === null || body.minQuantity === ""
+      ? null
+      : parseQuantity(body.minQuantity);
+
+  if (minQuantity !== null && minQuantity < 0) {
+    return NextResponse.json(
+      { error: "Der Mindestbestand darf nicht negativ sein." },
+      { status: 400 }
+    );
+  }
+
+  // Stock levels are read-only for members, so this goes through a function
+  const { data, error } = await client
+    .rpc("set_stock_min_quantity", {
+      p_kitchen_id: kitchen.kitchenId,
+      p_item_id: body.itemId,
+      p_storage_area: body.storageArea ?? "",
+      p_min_quantity: minQuantity,
+    })
+    .single();
+
+  if (error || !data) {
+    console.error("Supabase set_stock_min_quantity error", {
+      table: "stock_levels",
+      error: error?.message,
+      code: error?.code,
+      itemId: body.itemId,
+    });
+    const code = error?.code;
+    const status =
+      code === "P0002"
+        ? 404
+        : code === "22023"
+        ? 400
+        : code === "42501"
+        ? 403
+        : 500;
+    return NextResponse.json(
+      {
+        error:
+          error?.message ??
+          'Fehler beim Speichern des Mindestbestands in Tabelle "stock_levels"',
+      },
+      { status }
+    );
+  }
+
+  const level = data as SupabaseStockLevelRow;
+
+  return NextResponse.json({
+    itemId: level.item_id,
+    storageArea: level.storage_area,
+    minQuantity: level.min_quantity === null ? null : Number(level.min_quantity),
+  });
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { createSignedFileUrl, isStorageBucket } from "@/lib/storage-files";
+
+type StorageFileRouteContext = {
+  params: Promise<{ bucket: string; path: string[] }>;
+};
+
+// Files that a browser would render on the storage domain are downloaded
+const DOWNLOAD_EXTENSIONS = ["html", "htm", "svg", "xml"];
+
+// Redirects to a short-lived signed URL. Storage RLS only signs objects in
+// the caller's kitchens, so other kitchens' files answer with 404.
+export async function GET(_request: Request, context: StorageFileRouteContext) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { bucket, path } = await context.params;
+  const objectPath = path.join("/");
+
+  if (!isStorageBucket(bucket) || objectPath.length === 0) {
+    return NextResponse.json(
+      { error: "Datei wurde nicht gefunden." },
+      { status: 404 }
+    );
+  }
+
+  const extension = objectPath.split(".").pop()?.toLowerCase() ?? "";
+
+  try {
+    const signedUrl = await createSignedFileUrl(client, bucket, objectPath, {
+      download: DOWNLOAD_EXTENSIONS.includes(extension),
+    });
+    const response = NextResponse.redirect(signedUrl, 302);
+    response.headers.set("Cache-Control", "private, no-store");
+    return response;
+  } catch (error) {
+    console.error("Supabase storage signed URL error", {
+      bucket,
+      objectPath,
+      error: error instanceof Error ? error.message : error,
+    });
+    return NextResponse.json(
+      { error: "Datei wurde nicht gefunden." },
+      { status: 404 }
+    );
+  }
+}
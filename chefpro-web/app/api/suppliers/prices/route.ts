@@ -0,0 +1,372 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { recordItemRevision } from "@/lib/item-revisions";
+import {
+  mapSupplierPriceRows,
+  syncPreferredSupplierPrice,
+  type PreferredPriceSync,
+  type SupabaseSupplierPriceRow,
+  type SupabaseSupplierRow,
+} from "@/lib/suppliers";
+
+function parsePrice(value: unknown) {
+  const parsed =
+    typeof value === "string" ? Number(value.replace(",", ".")) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : null;
+}
+
+async function syncItemPrice(
+  client: SupabaseClient,
+  kitchenId: string,
+  itemId: string
+): Promise<PreferredPriceSync | null> {
+  try {
+    return await syncPreferredSupplierPrice(client, kitchenId, itemId);
+  } catch (error) {
+    // The price itself is saved, the item keeps its old purchase price
+    console.error("Supabase preferred supplier price sync error", {
+      table: "items",
+      error: error instanceof Error ? error.message : error,
+      itemId,
+    });
+    return null;
+  }
+}
+
+export async function GET(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const itemId = searchParams.get("itemId");
+
+  if (!itemId) {
+    return NextResponse.json(
+      { error: "itemId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const [itemResponse, suppliersResponse, pricesResponse] = await Promise.all([
+    client
+      .from("items")
+      .select("id, unit, preferred_supplier_id")
+      .eq("kitchen_id", kitchen.kitchenId)
+      .eq("id", itemId)
+      .maybeSingle(),
+    client
+      .from("suppliers")
+      .select("*")
+      .eq("kitchen_id", kitchen.kitchenId),
+    client
+      .from("supplier_prices")
+      .select("*")
+      .eq("kitchen_id", kitchen.kitchenId)
+      .eq("item_id", itemId)
+      .order("valid_from", { ascending: false })
+      .order("created_at", { ascending: false }),
+  ]);
+
+  const failed = [itemResponse, suppliersResponse, pricesResponse].find(
+    (response) => response.error
+  );
+
+  if (failed?.error) {
+    console.error("Supabase supplier prices GET error", {
+      error: failed.error.message,
+      code: failed.error.code,
+      itemId,
+    });
+    return NextResponse.json(
+      { error: `Datenbankfehler beim Laden der Lieferantenpreise: ${failed.error.message}` },
+      { status: 500 }
+    );
+  }
+
+  const item = itemResponse.data as {
+    id: string;
+    unit: string;
+    preferred_supplier_id: string | null;
+  } | null;
+
+  if (!item) {
+    return NextResponse.json(
+      { error: "Artikel wurde nicht gefunden." },
+      { status: 404 }
+    );
+  }
+
+  const suppliersById = new Map(
+    ((suppliersResponse.data ?? []) as SupabaseSupplierRow[]).map(
+      (supplier) => [supplier.id, supplier]
+    )
+  );
+
+  return NextResponse.json({
+    preferredSupplierId: item.preferred_supplier_id,
+    prices: mapSupplierPriceRows(
+      (pricesResponse.data ?? []) as SupabaseSupplierPriceRow[],
+      suppliersById,
+      item.unit
+    ),
+  });
+}
+
+export async function POST(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json()) as {
+    itemId?: string;
+    supplierId?: string;
+    articleNumber?: string | null;
+    packUnit?: string;
+    price?: unknown;
+    currency?: string;
+    validFrom?: string | null;
+  };
+
+  if (!body.itemId || !body.supplierId) {
+    return NextResponse.json(
+      { error: "itemId und supplierId sind erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const packUnit = typeof body.packUnit === "string" ? body.packUnit.trim() : "";
+
+  if (!packUnit) {
+    return NextResponse.json(
+      { error: "Bitte die Gebindegröße angeben." },
+      { status: 400 }
+    );
+  }
+
+  const price = parsePrice(body.price);
+
+  if (price === null || price < 0) {
+    return NextResponse.json(
+      { error: "Bitte einen gültigen Preis angeben." },
+      { status: 400 }
+    );
+  }
+
+  const validFrom =
+    typeof body.validFrom === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(body.validFrom)
+      ? body.validFrom
+      : new Date().toISOString().slice(0, 10);
+
+  const { error } = await client.from("supplier_prices").insert({
+    kitchen_id: kitchen.kitchenId,
+    item_id: body.itemId,
+    supplier_id: body.supplierId,
+    article_number:
+      typeof body.articleNumber === "string" && body.articleNumber.trim()
+        ? body.articleNumber.trim()
+        : null,
+    pack_unit: packUnit,
+    price,
+    currency: body.currency?.trim() || "EUR",
+    valid_from: validFrom,
+  });
+
+  if (error) {
+    console.error("Supabase supplier_prices insert error", {
+      table: "supplier_prices",
+      error: error.message,
+      code: error.code,
+      itemId: body.itemId,
+    });
+    return NextResponse.json(
+      {
+        error: `Fehler beim Speichern des Lieferantenpreises: ${error.message}`,
+      },
+      { status: error.code === "23503" ? 400 : 500 }
+    );
+  }
+
+  const item = await syncItemPrice(client, kitchen.kitchenId, body.itemId);
+
+  return NextResponse.json({ item }, { status: 201 });
+}
+
+// Sets or clears the preferred supplier of an item
+export async function PATCH(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json()) as {
+    itemId?: string;
+    preferredSupplierId?: string | null;
+  };
+
+  if (!body.itemId) {
+    return NextResponse.json(
+      { error: "itemId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await client
+    .from("items")
+    .update({ preferred_supplier_id: body.preferredSupplierId || null })
+    .eq("kitchen_id", kitchen.kitchenId)
+    .eq("id", body.itemId)
+    .select("id, purchase_price, preferred_supplier_id, version, updated_at")
+    .single();
+
+  if (error || !data) {
+    console.error("Supabase preferred supplier update error", {
+      table: "items",
+      error: error?.message,
+      code: error?.code,
+      itemId: body.itemId,
+    });
+    return NextResponse.json(
+      {
+        error:
+          error?.message ?? "Fehler beim Speichern des bevorzugten Lieferanten",
+      },
+      { status: error?.code === "23503" ? 400 : 500 }
+    );
+  }
+
+  await recordItemRevision(client, kitchen.kitchenId, body.itemId, "update");
+
+  const row = data as {
+    id: string;
+    purchase_price: number;
+    preferred_supplier_id: string | null;
+    version: number;
+    updated_at: string;
+  };
+  const synced = await syncItemPrice(client, kitchen.kitchenId, body.itemId);
+
+  return NextResponse.json({
+    item: synced ?? {
+      id: row.id,
+      purchasePrice: Number(row.purchase_price),
+      preferredSupplierId: row.preferred_supplier_id,
+      version: row.version,
+      updatedAt: row.updated_at,
+    },
+  });
+}
+
+export async function DELETE(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "id ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await client
+    .from("supplier_prices")
+    .delete()
+    .eq("kitchen_id", kitchen.kitchenId)
+    .eq("id", id)
+    .select("item_id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Supabase supplier_prices delete error", {
+      table: "supplier_prices",
+      error: error.message,
+      code: error.code,
+      priceId: id,
+    });
+    return NextResponse.json(
+      { error: `Fehler beim Löschen des Lieferantenpreises: ${error.message}` },
+      { status: 500 }
+    );
+  }
+
+  const itemId = (data as { item_id: string } | null)?.item_id;
+  const item = itemId
+    ? await syncItemPrice(client, kitchen.kitchenId, itemId)
+    : null;
+
+  return NextResponse.json({ success: true, item });
+}
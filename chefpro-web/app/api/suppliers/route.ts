@@ -0,0 +1,284 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { mapSupplierRow, type SupabaseSupplierRow } from "@/lib/suppliers";
+
+type SupplierBody = {
+  id?: string;
+  name?: string;
+  customerNumber?: string | null;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+};
+
+function toOptionalText(value: unknown) {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function getSupplierUpdates(body: SupplierBody) {
+  const updates: Record<string, string | null> = {};
+  if (typeof body.name === "string") {
+    updates.name = body.name.trim();
+  }
+  if (body.customerNumber !== undefined) {
+    updates.customer_number = toOptionalText(body.customerNumber);
+  }
+  if (body.contactName !== undefined) {
+    updates.contact_name = toOptionalText(body.contactName);
+  }
+  if (body.email !== undefined) {
+    updates.email = toOptionalText(body.email);
+  }
+  if (body.phone !== undefined) {
+    updates.phone = toOptionalText(body.phone);
+  }
+  if (body.notes !== undefined) {
+    updates.notes = toOptionalText(body.notes);
+  }
+  return updates;
+}
+
+function getSupplierErrorStatus(code: string | undefined) {
+  return code === "23505" ? 409 : code === "PGRST116" ? 404 : 500;
+}
+
+export async function GET() {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { data, error } = await client
+    .from("suppliers")
+    .select("*")
+    .eq("kitchen_id", kitchen.kitchenId)
+    .order("name");
+
+  if (error) {
+    console.error("Supabase suppliers query error", {
+      table: "suppliers",
+      error: error.message,
+      code: error.code,
+    });
+    return NextResponse.json(
+      { error: `Datenbankfehler in Tabelle "suppliers": ${error.message}` },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    suppliers: ((data ?? []) as SupabaseSupplierRow[]).map(mapSupplierRow),
+  });
+}
+
+export async function POST(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json()) as SupplierBody;
+  const updates = getSupplierUpdates(body);
+
+  if (!updates.name) {
+    return NextResponse.json(
+      { error: "Der Lieferantenname ist erforderlich." },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await client
+    .from("suppliers")
+    .insert({ ...updates, kitchen_id: kitchen.kitchenId })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    console.error("Supabase suppliers insert error", {
+      table: "suppliers",
+      error: error?.message,
+      code: error?.code,
+    });
+    return NextResponse.json(
+      {
+        error:
+          error?.code === "23505"
+            ? `Lieferant "${updates.name}" existiert bereits.`
+            : error?.message ?? "Fehler beim Anlegen des Lieferanten",
+      },
+      { status: getSupplierErrorStatus(error?.code) }
+    );
+  }
+
+  return NextResponse.json(
+    { supplier: mapSupplierRow(data as SupabaseSupplierRow) },
+    { status: 201 }
+  );
+}
+
+export async function PATCH(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json()) as SupplierBody;
+
+  if (!body.id) {
+    return NextResponse.json(
+      { error: "id ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const updates = getSupplierUpdates(body);
+
+  if (updates.name !== undefined && !updates.name) {
+    return NextResponse.json(
+      { error: "Der Lieferantenname darf nicht leer sein." },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await client
+    .from("suppliers")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("kitchen_id", kitchen.kitchenId)
+    .eq("id", body.id)
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    console.error("Supabase suppliers update error", {
+      table: "suppliers",
+      error: error?.message,
+      code: error?.code,
+      supplierId: body.id,
+    });
+    return NextResponse.json(
+      {
+        error:
+          error?.code === "23505"
+            ? `Lieferant "${updates.name}" existiert bereits.`
+            : error?.code === "PGRST116"
+            ? "Lieferant wurde nicht gefunden."
+            : error?.message ?? "Fehler beim Speichern des Lieferanten",
+      },
+      { status: getSupplierErrorStatus(error?.code) }
+    );
+  }
+
+  return NextResponse.json({
+    supplier: mapSupplierRow(data as SupabaseSupplierRow),
+  });
+}
+
+// Deleting a supplier removes its prices; items that preferred it fall back
+// to their last purchase price.
+export async function DELETE(request: Request) {
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "id ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const { error } = await client
+    .from("suppliers")
+    .delete()
+    .eq("kitchen_id", kitchen.kitchenId)
+    .eq("id", id);
+
+  if (error) {
+    console.error("Supabase suppliers delete error", {
+      table: "suppliers",
+      error: error.message,
+      code: error.code,
+      supplierId: id,
+    });
+    return NextResponse.json(
+      { error: `Fehler beim Löschen des Lieferanten: ${error.message}` },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
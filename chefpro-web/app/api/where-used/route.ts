@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { getSupabaseServerClient } from "@/lib/supabase-server";
+import { getKitchenContext } from "@/lib/kitchen";
+import { listItemUsageTree } from "@/lib/item-usage";
+
+// Every recipe affected by a change of the item, including nested ones
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const itemId = searchParams.get("itemId");
+
+  const client = await getSupabaseServerClient();
+
+  if (!client) {
+    return NextResponse.json(
+      {
+        error:
+          'Supabase ist nicht konfiguriert (Bitte env-Variablen prüfen: NEXT_PUBLIC_SUPABASE_URL und NEXT_PUBLIC_SUPABASE_ANON_KEY)',
+      },
+      { status: 500 }
+    );
+  }
+
+  const kitchen = await getKitchenContext(client);
+
+  if (!kitchen) {
+    return NextResponse.json(
+      { error: "Ihrem Konto ist keine Küche zugeordnet." },
+      { status: 403 }
+    );
+  }
+
+  if (!itemId) {
+    return NextResponse.json(
+      { error: "itemId ist erforderlich" },
+      { status: 400 }
+    );
+  }
+
+  const itemResponse = await client
+    .from("items")
+    .select("id, name")
+    .eq("id", itemId)
+    .eq("kitchen_id", kitchen.kitchenId)
+    .is("deleted_at", null)
+    .single();
+
+  if (itemResponse.error || !itemResponse.data) {
+    const status = itemResponse.error?.code === "PGRST116" ? 404 : 500;
+    return NextResponse.json(
+      {
+        error:
+          status === 404
+            ? "Artikel wurde nicht gefunden."
+            : itemResponse.error?.message ??
+              'Fehler beim Laden des Artikels aus Tabelle "items"',
+      },
+      { status }
+    );
+  }
+
+  try {
+    const usages = await listItemUsageTree(client, kitchen.kitchenId, itemId);
+
+    return NextResponse.json({
+      itemId,
+      itemName: (itemResponse.data as { name: string }).name,
+      usages,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Fehler beim Laden der Verwendungen aus Tabelle "recipe_structure"',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { Metadata } from "next";
+
+import { AuthCardShell } from "@/components/auth/auth-card";
+import { ForgotPasswordForm } from "@/components/auth/forgot-password-form";
+
+export const metadata: Metadata = {
+  title: "Passwort vergessen | Recetui",
+  description: "Setzen Sie das Passwort Ihres Recetui-Kontos zurück.",
+};
+
+export default function ForgotPasswordPage() {
+  return (
+    <AuthCardShell>
+      <ForgotPasswordForm />
+    </AuthCardShell>
+  );
+}
@@ -0,0 +1,5 @@
+import { InventoryManager } from "@/components/inventory/inventory-manager";
+
+export default function LagerPage() {
+  return <InventoryManager />;
+}
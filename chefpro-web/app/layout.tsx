@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { SidebarNav } from "@/components/layout/sidebar-nav";
+import { UserMenu } from "@/components/layout/user-menu";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -54,12 +55,7 @@ export default function RootLayout({
                 <img src="/recetui-logo-header-frei.png" alt="Recetui" className="h-24 w-auto object-contain" />
               </div>
               <div className="flex items-center gap-4">
-                <div className="flex items-center gap-2 rounded-md bg-card px-3 py-1.5 text-sm font-medium text-card-foreground shadow-sm">
-                  <div className="flex h-6 w-6 items-center justify-center rounded-full bg-primary text-[10px] text-primary-foreground">
-                    MM
-                  </div>
-                  <span className="hidden sm:inline-block">Max Mustermann</span>
-                </div>
+                <UserMenu />
               </div>
             </header>
             {children}
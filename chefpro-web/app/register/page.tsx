@@ -0,0 +1,17 @@
+import { Metadata } from "next";
+
+import { AuthCardShell } from "@/components/auth/auth-card";
+import { RegisterForm } from "@/components/auth/register-form";
+
+export const metadata: Metadata = {
+  title: "Registrieren | Recetui",
+  description: "Legen Sie ein neues Recetui-Konto an.",
+};
+
+export default function RegisterPage() {
+  return (
+    <AuthCardShell>
+      <RegisterForm />
+    </AuthCardShell>
+  );
+}
@@ -0,0 +1,17 @@
+import { Metadata } from "next";
+
+import { AuthCardShell } from "@/components/auth/auth-card";
+import { ResetPasswordForm } from "@/components/auth/reset-password-form";
+
+export const metadata: Metadata = {
+  title: "Neues Passwort | Recetui",
+  description: "Vergeben Sie ein neues Passwort für Ihr Recetui-Konto.",
+};
+
+export default function ResetPasswordPage() {
+  return (
+    <AuthCardShell>
+      <ResetPasswordForm />
+    </AuthCardShell>
+  );
+}
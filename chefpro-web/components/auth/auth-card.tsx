@@ -0,0 +1,39 @@
+import Image from "next/image";
+
+export function AuthCardShell({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-muted/40 p-4">
+      <div className="mb-8">
+        <Image
+          src="/recetui-logo-frei.png"
+          alt="Recetui Logo"
+          width={200}
+          height={60}
+          className="h-16 w-auto object-contain"
+          priority
+        />
+      </div>
+      {children}
+    </div>
+  );
+}
+
+export function AuthMessage({
+  variant,
+  children,
+}: {
+  variant: "error" | "success";
+  children: React.ReactNode;
+}) {
+  return (
+    <div
+      className={
+        variant === "error"
+          ? "rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 text-xs text-destructive"
+          : "rounded-md border border-emerald-300 bg-emerald-50 px-3 py-2 text-xs text-emerald-800"
+      }
+    >
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { AuthMessage } from "@/components/auth/auth-card";
+
+export function ForgotPasswordForm() {
+  const [email, setEmail] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSent, setIsSent] = useState(false);
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+
+      if (!response.ok) {
+        let message = "Anfrage fehlgeschlagen.";
+        try {
+          const payload = (await response.json()) as { error?: unknown };
+          if (payload && typeof payload.error === "string") {
+            message = payload.error;
+          }
+        } catch {
+        }
+        throw new Error(message);
+      }
+
+      setIsSent(true);
+    } catch (submitError) {
+      setError(
+        submitError instanceof Error
+          ? submitError.message
+          : "Anfrage fehlgeschlagen."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold">Passwort vergessen</CardTitle>
+        <CardDescription>
+          Wir senden Ihnen einen Link zum Zurücksetzen Ihres Passworts.
+        </CardDescription>
+      </CardHeader>
+      {isSent ? (
+        <CardContent>
+          <AuthMessage variant="success">
+            Falls ein Konto mit dieser E-Mail-Adresse existiert, ist der Link
+            unterwegs. Bitte prüfen Sie Ihr Postfach.
+          </AuthMessage>
+        </CardContent>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            {error && <AuthMessage variant="error">{error}</AuthMessage>}
+            <div className="space-y-2">
+              <Label htmlFor="email">E-Mail</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                placeholder="name@example.com"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                required
+              />
+            </div>
+            <Button className="w-full" type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Senden..." : "Link anfordern"}
+            </Button>
+          </CardContent>
+        </form>
+      )}
+      <CardFooter>
+        <div className="text-sm text-muted-foreground text-center w-full">
+          <Link href="/login" className="underline underline-offset-4 hover:text-primary">
+            Zurück zur Anmeldung
+          </Link>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { AuthMessage } from "@/components/auth/auth-card";
+
+export function LoginForm({ nextPath }: { nextPath: string }) {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+
+      if (!response.ok) {
+        let message = "Anmeldung fehlgeschlagen.";
+        try {
+          const payload = (await response.json()) as { error?: unknown };
+          if (payload && typeof payload.error === "string") {
+            message = payload.error;
+          }
+        } catch {
+        }
+        throw new Error(message);
+      }
+
+      router.replace(nextPath);
+      router.refresh();
+    } catch (submitError) {
+      setError(
+        submitError instanceof Error
+          ? submitError.message
+          : "Anmeldung fehlgeschlagen."
+      );
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold">Anmelden</CardTitle>
+        <CardDescription>
+          Geben Sie Ihre E-Mail-Adresse und Ihr Passwort ein.
+        </CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSubmit}>
+        <CardContent className="space-y-4">
+          {error && <AuthMessage variant="error">{error}</AuthMessage>}
+          <div className="space-y-2">
+            <Label htmlFor="email">E-Mail</Label>
+            <Input
+              id="email"
+              type="email"
+              autoComplete="email"
+              placeholder="name@example.com"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="password">Passwort</Label>
+              <Link
+                href="/forgot-password"
+                className="text-xs text-muted-foreground underline-offset-4 hover:underline"
+              >
+                Passwort vergessen?
+              </Link>
+            </div>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              required
+            />
+          </div>
+          <Button className="w-full" type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Anmelden..." : "Anmelden"}
+          </Button>
+        </CardContent>
+      </form>
+      <CardFooter>
+        <div className="text-sm text-muted-foreground text-center w-full">
+          Noch kein Konto?{" "}
+          <Link href="/register" className="underline underline-offset-4 hover:text-primary">
+            Registrieren
+          </Link>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { AuthMessage } from "@/components/auth/auth-card";
+
+export function RegisterForm() {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [passwordRepeat, setPasswordRepeat] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [requiresConfirmation, setRequiresConfirmation] = useState(false);
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+
+    if (password !== passwordRepeat) {
+      setError("Die Passwörter stimmen nicht überein.");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, email, password }),
+      });
+
+      const payload = (await response.json()) as {
+        error?: unknown;
+        requiresConfirmation?: boolean;
+      };
+
+      if (!response.ok) {
+        throw new Error(
+          typeof payload.error === "string"
+            ? payload.error
+            : "Registrierung fehlgeschlagen."
+        );
+      }
+
+      if (payload.requiresConfirmation) {
+        setRequiresConfirmation(true);
+        setIsSubmitting(false);
+        return;
+      }
+
+      router.replace("/artikel");
+      router.refresh();
+    } catch (submitError) {
+      setError(
+        submitError instanceof Error
+          ? submitError.message
+          : "Registrierung fehlgeschlagen."
+      );
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold">Registrieren</CardTitle>
+        <CardDescription>
+          Legen Sie ein neues Recetui-Konto an.
+        </CardDescription>
+      </CardHeader>
+      {requiresConfirmation ? (
+        <CardContent>
+          <AuthMessage variant="success">
+            Fast geschafft: Wir haben Ihnen eine E-Mail geschickt. Bitte
+            bestätigen Sie Ihre Adresse über den Link und melden Sie sich
+            anschließend an.
+          </AuthMessage>
+        </CardContent>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            {error && <AuthMessage variant="error">{error}</AuthMessage>}
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                autoComplete="name"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email">E-Mail</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                placeholder="name@example.com"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Passwort</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="new-password"
+                minLength={8}
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password-repeat">Passwort wiederholen</Label>
+              <Input
+                id="password-repeat"
+                type="password"
+                autoComplete="new-password"
+                minLength={8}
+                value={passwordRepeat}
+                onChange={(event) => setPasswordRepeat(event.target.value)}
+                required
+              />
+            </div>
+            <Button className="w-full" type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Registrieren..." : "Konto anlegen"}
+            </Button>
+          </CardContent>
+        </form>
+      )}
+      <CardFooter>
+        <div className="text-sm text-muted-foreground text-center w-full">
+          Bereits registriert?{" "}
+          <Link href="/login" className="underline underline-offset-4 hover:text-primary">
+            Anmelden
+          </Link>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+}
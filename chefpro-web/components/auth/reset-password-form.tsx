@@ -0,0 +1,138 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { AuthMessage } from "@/components/auth/auth-card";
+
+function subscribeToHash(onChange: () => void) {
+  window.addEventListener("hashchange", onChange);
+  return () => window.removeEventListener("hashchange", onChange);
+}
+
+export function ResetPasswordForm() {
+  const router = useRouter();
+  // Supabase puts the recovery session into the URL fragment
+  const hash = useSyncExternalStore(
+    subscribeToHash,
+    () => window.location.hash,
+    () => ""
+  );
+  const hashParams = new URLSearchParams(hash.replace(/^#/, ""));
+  const accessToken = hashParams.get("access_token");
+  const refreshToken = hashParams.get("refresh_token");
+  const linkError = hashParams.get("error_description");
+
+  const [password, setPassword] = useState("");
+  const [passwordRepeat, setPasswordRepeat] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+
+    if (password !== passwordRepeat) {
+      setError("Die Passwörter stimmen nicht überein.");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accessToken, refreshToken, password }),
+      });
+
+      if (!response.ok) {
+        let message = "Passwort konnte nicht geändert werden.";
+        try {
+          const payload = (await response.json()) as { error?: unknown };
+          if (payload && typeof payload.error === "string") {
+            message = payload.error;
+          }
+        } catch {
+        }
+        throw new Error(message);
+      }
+
+      router.replace("/artikel");
+      router.refresh();
+    } catch (submitError) {
+      setError(
+        submitError instanceof Error
+          ? submitError.message
+          : "Passwort konnte nicht geändert werden."
+      );
+      setIsSubmitting(false);
+    }
+  }
+
+  const hasRecoverySession = Boolean(accessToken && refreshToken);
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold">Neues Passwort</CardTitle>
+        <CardDescription>
+          Vergeben Sie ein neues Passwort für Ihr Konto.
+        </CardDescription>
+      </CardHeader>
+      {hasRecoverySession ? (
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            {error && <AuthMessage variant="error">{error}</AuthMessage>}
+            <div className="space-y-2">
+              <Label htmlFor="password">Neues Passwort</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="new-password"
+                minLength={8}
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password-repeat">Passwort wiederholen</Label>
+              <Input
+                id="password-repeat"
+                type="password"
+                autoComplete="new-password"
+                minLength={8}
+                value={passwordRepeat}
+                onChange={(event) => setPasswordRepeat(event.target.value)}
+                required
+              />
+            </div>
+            <Button className="w-full" type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Speichern..." : "Passwort speichern"}
+            </Button>
+          </CardContent>
+        </form>
+      ) : (
+        <CardContent>
+          <AuthMessage variant="error">
+            {linkError ??
+              "Der Link zum Zurücksetzen ist ungültig oder abgelaufen. Bitte fordern Sie einen neuen an."}
+          </AuthMessage>
+        </CardContent>
+      )}
+      <CardFooter>
+        <div className="text-sm text-muted-foreground text-center w-full">
+          <Link href="/forgot-password" className="underline underline-offset-4 hover:text-primary">
+            Neuen Link anfordern
+          </Link>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+}
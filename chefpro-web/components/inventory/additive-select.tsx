@@ -0,0 +1,67 @@
+"use client";
+
+import { Wand2 } from "lucide-react";
+import {
+  ADDITIVE_CLASSES,
+  detectAdditives,
+  sortAdditiveKeys,
+} from "@/lib/additives";
+
+type AdditiveSelectProps = {
+  value: string[];
+  onChange: (value: string[]) => void;
+  // Ingredient list the detection runs on
+  ingredients: string;
+};
+
+export function AdditiveSelect({
+  value,
+  onChange,
+  ingredients,
+}: AdditiveSelectProps) {
+  const detected = detectAdditives(ingredients);
+  const differsFromIngredients =
+    detected.join(",") !== sortAdditiveKeys(value).join(",");
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <div className="text-[11px] text-muted-foreground">
+          Zusatzstoffe (Kennzeichnung)
+        </div>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 text-[10px] text-primary hover:underline disabled:text-muted-foreground disabled:no-underline"
+          onClick={() => onChange(detected)}
+          disabled={!differsFromIngredients}
+        >
+          <Wand2 className="h-3 w-3" />
+          Aus Zutaten erkennen
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[11px]">
+        {ADDITIVE_CLASSES.map((additive) => (
+          <label key={additive.key} className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              className="h-3 w-3 rounded border-gray-300"
+              checked={value.includes(additive.key)}
+              onChange={(event) =>
+                onChange(
+                  sortAdditiveKeys(
+                    event.target.checked
+                      ? [...value, additive.key]
+                      : value.filter((key) => key !== additive.key)
+                  )
+                )
+              }
+            />
+            <span>
+              {additive.footnote} {additive.label}
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -28,6 +28,7 @@ import {
   Clipboard,
   ChevronDown,
   ChevronUp,
+  History,
   Sparkles,
   Maximize2,
   X,
@@ -49,6 +50,54 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
+import {
+  computeInheritedAllergenTraces,
+  computeInheritedAdditives,
+  computeInheritedAllergens,
+  computeRecipeCalculation,
+  computeRecipeNutrition,
+  type NutritionTotals,
+  type RecipeCalculation,
+  type RecipeNutritionSummary,
+} from "@/lib/recipe-calculation";
+import type { PreferredPriceSync } from "@/lib/suppliers";
+import { getItemIdsClosingCycle } from "@/lib/recipe-cycles";
+import { normalizeAllergens, parseAllergenInput } from "@/lib/allergens";
+import { findAdditiveClass } from "@/lib/additives";
+import { computeIngredientDeclaration } from "@/lib/ingredient-declaration";
+import {
+  computeFruitVegetableShare,
+  computeItemNutriScore,
+  computeNutriScore,
+  type NutriScoreResult,
+} from "@/lib/nutri-score";
+import {
+  DIET_FLAG_KEYS,
+  DIET_FLAG_LABELS,
+  computeInheritedDietFlags,
+  findDietFlagConflicts,
+  formatDietFlagConflict,
+  resolveDietFlags,
+  type DietFlagConflict,
+  type DietFlagKey,
+  type DietFlagOverrides,
+} from "@/lib/diet-flags";
+import {
+  ItemConflictDialog,
+  getConflictingFields,
+  type ConflictField,
+} from "@/components/inventory/item-conflict-dialog";
+import { ItemHistoryPanel } from "@/components/inventory/item-history-panel";
+import { Warehouse } from "@/components/inventory/warehouse";
+import { SupplierPricesPanel } from "@/components/inventory/supplier-prices-panel";
+import { PriceHistoryChart } from "@/components/inventory/price-history-chart";
+import { WhereUsedTree } from "@/components/inventory/where-used-tree";
+import { AdditiveSelect } from "@/components/inventory/additive-select";
+import { MenuFootnotes } from "@/components/inventory/menu-footnotes";
+import { NutritionLabelPanel } from "@/components/inventory/nutrition-label-panel";
+import { NutriScoreBadge } from "@/components/inventory/nutri-score-badge";
+import { RecipeScalingPanel } from "@/components/inventory/recipe-scaling-panel";
+import { STORAGE_AREAS } from "@/lib/stock";
 
 if (typeof window !== "undefined") {
   pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
@@ -116,34 +165,6 @@ type PreparationStep = {
   videoUrl?: string | null;
 };
 
-type NutritionTotals = {
-  energyKcal: number | null;
-  fat: number | null;
-  saturatedFat: number | null;
-  carbs: number | null;
-  sugar: number | null;
-  protein: number | null;
-  salt: number | null;
-  fiber: number | null;
-  sodium: number | null;
-  breadUnits: number | null;
-  cholesterol: number | null;
-};
-
-type RecipeCalculation = {
-  totalCost: number;
-  costPerPortion: number | null;
-  marginPerPortion: number | null;
-  goodsSharePercent: number | null;
-  hasMissingPrices: boolean;
-};
-
-type RecipeNutritionSummary = {
-  perRecipe: NutritionTotals | null;
-  perPortion: NutritionTotals | null;
-  hasMissingData: boolean;
-};
-
 type PdfJsViewport = { width: number; height: number };
 type PdfJsPage = {
   getViewport: (opts: { scale: number }) => PdfJsViewport;
@@ -177,10 +198,16 @@ type InventoryItem = {
   manufacturerArticleNumber?: string | null;
   ean?: string | null;
   allergens?: string[];
+  allergenTraces?: string[];
+  additives?: string[];
   ingredients?: string | null;
   dosageInstructions?: string | null;
   yieldInfo?: string | null;
   yieldVolume?: string | null;
+  yieldWeightGrams?: number | null;
+  yieldVolumeMl?: number | null;
+  usableYieldPercent?: number | null;
+  cookingFactor?: number | null;
   preparationSteps?: PreparationStep[] | null;
   nutritionPerUnit?: NutritionTotals | null;
   standardPreparation?: StandardPreparation | null;
@@ -208,9 +235,30 @@ type InventoryItem = {
   packshotY?: number | null;
   packshotZoom?: number | null;
   storageArea?: string | null;
+  parLevel?: number | null;
+  reorderQuantity?: number | null;
+  onHand?: number;
+  preferredSupplierId?: string | null;
+  dietFlagOverrides?: DietFlagOverrides;
+  fruitVegetableShare?: number | null;
   warengruppe?: string | null;
   bioControlNumber?: string | null;
   deviceSettings?: DeviceSetting[] | null;
+  version?: number;
+  updatedAt?: string;
+};
+
+type SaveConflict = {
+  item: InventoryItem;
+  body: Record<string, unknown>;
+  serverItem: InventoryItem;
+  fields: ConflictField[];
+};
+
+type ItemDetailsResponse = {
+  error?: unknown;
+  item?: InventoryItem;
+  serverItem?: InventoryItem | null;
 };
 
 type ParsedAiItem = {
@@ -226,6 +274,8 @@ type ParsedAiItem = {
   dosageInstructions?: string | null;
   warengruppe?: string | null;
   storageArea?: string | null;
+  allergens?: string[];
+  allergenTraces?: string[];
   isBio?: boolean;
   isDeklarationsfrei?: boolean;
   isAllergenfrei?: boolean;
@@ -364,6 +414,20 @@ function renderTaggedText(
   return <span className="whitespace-pre-line">{parts}</span>;
 }
 
+// Decimal input with comma or point, null if empty or not a number
+function parseDecimalInput(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const parsed = Number(trimmed.replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function formatDecimalInput(value: number | null | undefined) {
+  return typeof value === "number" ? String(value).replace(".", ",") : "";
+}
+
 function normalizeName(value: string) {
   return value
     .toLowerCase()
@@ -480,6 +544,12 @@ export function InventoryManager() {
   const [isDetailView, setIsDetailView] = useState(false);
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
   const lastGenRef = useRef<string>("");
+  const [saveConflict, setSaveConflict] = useState<SaveConflict | null>(null);
+  const [isResolvingConflict, setIsResolvingConflict] = useState(false);
+  const [inputsResetKey, setInputsResetKey] = useState(0);
+  // Versions returned by our own saves, so consecutive saves of the same
+  // item do not conflict with each other before the list is reloaded
+  const savedVersionsRef = useRef(new Map<string, number>());
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [newItemName, setNewItemName] = useState("");
@@ -524,11 +594,15 @@ export function InventoryManager() {
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [previewImageItemId, setPreviewImageItemId] = useState<string | null>(null);
   const [proAllergensInput, setProAllergensInput] = useState("");
+  const [proAllergenTracesInput, setProAllergenTracesInput] = useState("");
+  const [proAdditivesInput, setProAdditivesInput] = useState<string[]>([]);
   const [specItem, setSpecItem] = useState<InventoryItem | null>(null);
   const [proIngredientsInput, setProIngredientsInput] = useState("");
   const [proDosageInput, setProDosageInput] = useState("");
   const [proYieldWeightInput, setProYieldWeightInput] = useState("");
   const [proYieldVolumeInput, setProYieldVolumeInput] = useState("");
+  const [usableYieldInput, setUsableYieldInput] = useState("");
+  const [cookingFactorInput, setCookingFactorInput] = useState("");
   const [proPreparationInput, setProPreparationInput] = useState("");
   const [manufacturerArticleNumberInput, setManufacturerArticleNumberInput] = useState("");
   // Legacy alias for compatibility with existing code
@@ -540,6 +614,8 @@ export function InventoryManager() {
   const [nameInput, setNameInput] = useState("");
   const [categoryInput, setCategoryInput] = useState("");
   const [storageAreaInput, setStorageAreaInput] = useState("");
+  const [parLevelInput, setParLevelInput] = useState("");
+  const [reorderQuantityInput, setReorderQuantityInput] = useState("");
   const [warengruppeInput, setWarengruppeInput] = useState("");
   const [openSections, setOpenSections] = useState<string[]>(["Obst & Gemüse", "Molkerei & Eier", "Trockensortiment", "Getränke", "Zusatz- & Hilfsstoffe", "Unkategorisiert"]);
   const [portionUnitInput, setPortionUnitInput] = useState("");
@@ -565,6 +641,9 @@ export function InventoryManager() {
   const [isGranulateInput, setIsGranulateInput] = useState(false);
   const [isPasteInput, setIsPasteInput] = useState(false);
   const [isLiquidInput, setIsLiquidInput] = useState(false);
+  const [dietFlagOverridesInput, setDietFlagOverridesInput] =
+    useState<DietFlagOverrides>({});
+  const [fruitVegetableShareInput, setFruitVegetableShareInput] = useState("");
   const [proEnergyKcalInput, setProEnergyKcalInput] = useState("");
   const [proFatInput, setProFatInput] = useState("");
   const [proSaturatedFatInput, setProSaturatedFatInput] = useState("");
@@ -622,6 +701,7 @@ export function InventoryManager() {
     useState<string | null>(null);
   const [isRecipePresentationMode, setIsRecipePresentationMode] =
     useState(false);
+  const [isHistoryView, setIsHistoryView] = useState(false);
   const [imageUrlInput, setImageUrlInput] = useState("");
   const [imageIsUploading, setImageIsUploading] = useState(false);
   const [imageUploadError, setImageUploadError] = useState<string | null>(null);
@@ -679,10 +759,13 @@ export function InventoryManager() {
         
         // Allergens & Ingredients
         setProAllergensInput(Array.isArray(extracted.allergens) ? extracted.allergens.join(", ") : extracted.allergens || "");
+        setProAllergenTracesInput(Array.isArray(extracted.allergen_traces) ? extracted.allergen_traces.join(", ") : "");
+        setProAdditivesInput(Array.isArray(extracted.additives) ? extracted.additives : []);
         setProIngredientsInput(extracted.ingredients || "");
         
         // Yield Info
-        setProYieldWeightInput(extracted.yield_info || "");
+        setProYieldWeightInput(formatDecimalInput(extracted.yield_weight_grams));
+        setProYieldVolumeInput(formatDecimalInput(extracted.yield_volume_ml));
 
         // Boolean Flags
         setIsBioInput(extracted.is_bio || false);
@@ -1395,6 +1478,11 @@ export function InventoryManager() {
     return map;
   }, [effectiveItems]);
 
+  const getItemName = useCallback(
+    (itemId: string) => itemsById.get(itemId)?.name,
+    [itemsById]
+  );
+
   const filteredItems = useMemo(() => {
     return effectiveItems.filter((item) => {
       if (activeSection === "zutaten") {
@@ -1651,45 +1739,12 @@ export function InventoryManager() {
         ? editingComponents
         : selectedItem.components,
     };
-    const visited = new Set<string>();
-    const allergensSet = new Set<string>();
-
-    function visit(item: InventoryItem) {
-      if (visited.has(item.id)) {
-        return;
-      }
-      visited.add(item.id);
-      const components = item.components ?? [];
-      for (const component of components) {
-        if (!component.itemId) {
-          continue;
-        }
-        const child = itemsById.get(component.itemId);
-        if (!child) {
-          continue;
-        }
-        for (const value of child.allergens ?? []) {
-          const trimmed = value.trim();
-          if (trimmed.length > 0) {
-            allergensSet.add(trimmed);
-          }
-        }
-        if (child.components && child.components.length > 0) {
-          visit(child);
-        }
-      }
-    }
-
-    visit(rootItem);
-
-    return Array.from(allergensSet).sort((a, b) =>
-      a.localeCompare(b, "de")
-    );
+    return computeInheritedAllergens(rootItem, itemsById);
   }, [editingComponents, isEditingComponents, itemsById, selectedItem]);
 
-  const recipeCalculation = useMemo<RecipeCalculation | null>(() => {
+  const inheritedAllergenTraces = useMemo(() => {
     if (!selectedItem || selectedItem.type !== "eigenproduktion") {
-      return null;
+      return [];
     }
     const rootItem: InventoryItem = {
       ...selectedItem,
@@ -1697,387 +1752,218 @@ export function InventoryManager() {
         ? editingComponents
         : selectedItem.components,
     };
-    if (!rootItem.components || rootItem.components.length === 0) {
-      return {
-        totalCost: 0,
-        costPerPortion: null as number | null,
-        marginPerPortion: null as number | null,
-        goodsSharePercent: null as number | null,
-        hasMissingPrices: true,
-      };
-    }
-
-    const visited = new Set<string>();
-
-    function computeItemCost(
-      item: InventoryItem
-    ): { cost: number; missing: boolean } {
-      if (visited.has(item.id)) {
-        return { cost: 0, missing: true };
-      }
-      visited.add(item.id);
-
-      if (!item.components || item.components.length === 0) {
-        const price = Number(item.purchasePrice);
-        if (!Number.isFinite(price) || price <= 0) {
-          return { cost: 0, missing: true };
-        }
-        return { cost: price, missing: false };
-      }
-
-      let total = 0;
-      let missing = false;
-
-      for (const component of item.components ?? []) {
-        if (!component.itemId) {
-          missing = true;
-          continue;
-        }
-        const componentItem = itemsById.get(component.itemId);
-        if (!componentItem) {
-          missing = true;
-          continue;
-        }
-        const quantity = Number(
-          String(component.quantity).toString().replace(",", ".")
-        );
-        if (!Number.isFinite(quantity) || quantity <= 0) {
-          missing = true;
-          continue;
-        }
-        const child = computeItemCost(componentItem);
-        if (child.missing) {
-          missing = true;
-        }
-        total += child.cost * quantity;
-      }
+    return computeInheritedAllergenTraces(rootItem, itemsById);
+  }, [editingComponents, isEditingComponents, itemsById, selectedItem]);
 
-      return { cost: total, missing };
+  const inheritedAdditives = useMemo(() => {
+    if (!selectedItem || selectedItem.type !== "eigenproduktion") {
+      return [];
     }
-
-    const { cost: totalCost, missing } = computeItemCost(rootItem);
-
-    const portions = selectedItem.targetPortions ?? null;
-    const validPortions =
-      portions != null && Number.isFinite(portions) && portions > 0
-        ? portions
-        : null;
-
-    const costPerPortion =
-      validPortions != null ? totalCost / validPortions : null;
-
-    const sales = selectedItem.targetSalesPrice ?? null;
-    const validSales =
-      sales != null && Number.isFinite(sales) && sales > 0 ? sales : null;
-
-    const marginPerPortion =
-      costPerPortion != null && validSales != null
-        ? validSales - costPerPortion
-        : null;
-
-    const goodsSharePercent =
-      costPerPortion != null && validSales != null && validSales > 0
-        ? (costPerPortion / validSales) * 100
-        : null;
-
-    return {
-      totalCost,
-      costPerPortion,
-      marginPerPortion,
-      goodsSharePercent,
-      hasMissingPrices: missing,
+    const rootItem: InventoryItem = {
+      ...selectedItem,
+      components: isEditingComponents
+        ? editingComponents
+        : selectedItem.components,
     };
+    return computeInheritedAdditives(rootItem, itemsById);
   }, [editingComponents, isEditingComponents, itemsById, selectedItem]);
 
-  const nutritionSummary = useMemo<RecipeNutritionSummary | null>(() => {
+  const ingredientDeclaration = useMemo(() => {
     if (!selectedItem || selectedItem.type !== "eigenproduktion") {
       return null;
     }
-
     const rootItem: InventoryItem = {
       ...selectedItem,
       components: isEditingComponents
         ? editingComponents
         : selectedItem.components,
     };
+    return computeIngredientDeclaration(rootItem, itemsById);
+  }, [editingComponents, isEditingComponents, itemsById, selectedItem]);
 
-    if (!rootItem.components || rootItem.components.length === 0) {
-      return {
-        perRecipe: null as NutritionTotals | null,
-        perPortion: null as NutritionTotals | null,
-        hasMissingData: true,
-      };
-    }
+  const menuFootnoteRecipes = useMemo(
+    () =>
+      Array.from(itemsById.values())
+        .filter((item) => item.type === "eigenproduktion")
+        .sort((first, second) => first.name.localeCompare(second.name, "de")),
+    [itemsById]
+  );
 
-    const visited = new Set<string>();
+  // Entries that match none of the 14 allergens are saved as typed
+  const unmatchedAllergenInputs = useMemo(() => {
+    const { unmatched, unmatchedTraces } = normalizeAllergens(
+      parseAllergenInput(proAllergensInput),
+      parseAllergenInput(proAllergenTracesInput)
+    );
+    return [...unmatched, ...unmatchedTraces];
+  }, [proAllergensInput, proAllergenTracesInput]);
 
-    function getUnitConversion(
-      unit: string | null | undefined
-    ): { kind: "mass" | "volume"; toBase: number } | null {
-      if (!unit) {
-        return null;
-      }
-      const normalized = unit.trim().toLowerCase();
-      if (!normalized) {
-        return null;
-      }
-      if (
-        normalized === "g" ||
-        normalized === "gramm" ||
-        normalized === "gram" ||
-        normalized === "gr"
-      ) {
-        return { kind: "mass", toBase: 1 };
-      }
-      if (normalized === "kg" || normalized === "kilogramm") {
-        return { kind: "mass", toBase: 1000 };
-      }
-      if (normalized === "mg") {
-        return { kind: "mass", toBase: 0.001 };
-      }
-      if (normalized === "ml") {
-        return { kind: "volume", toBase: 1 };
-      }
-      if (
-        normalized === "l" ||
-        normalized === "lt" ||
-        normalized === "liter"
-      ) {
-        return { kind: "volume", toBase: 1000 };
-      }
+  const inheritedDietFlags = useMemo(() => {
+    if (!selectedItem || selectedItem.type !== "eigenproduktion") {
       return null;
     }
+    const rootItem: InventoryItem = {
+      ...selectedItem,
+      components: isEditingComponents
+        ? editingComponents
+        : selectedItem.components,
+    };
+    return computeInheritedDietFlags(rootItem, itemsById);
+  }, [editingComponents, isEditingComponents, itemsById, selectedItem]);
 
-    function parseYieldWeightToGrams(input: string): number | null {
-      const trimmed = input.trim();
-      if (!trimmed) {
-        return null;
-      }
-      const firstLine = trimmed.split("\n")[0];
-      const match = firstLine.match(/^([\d.,]+)\s*([a-zA-Z]*)/);
-      if (!match) {
-        return null;
-      }
-      const rawValue = match[1].replace(",", ".");
-      const value = Number(rawValue);
-      if (!Number.isFinite(value) || value <= 0) {
-        return null;
-      }
-      const unitRaw = match[2]?.toLowerCase() ?? "";
-      if (
-        unitRaw === "" ||
-        unitRaw === "g" ||
-        unitRaw === "gramm" ||
-        unitRaw === "gram" ||
-        unitRaw === "gr"
-      ) {
-        return value;
-      }
-      if (unitRaw === "kg" || unitRaw === "kilogramm") {
-        return value * 1000;
-      }
-      if (unitRaw === "mg") {
-        return value * 0.001;
+  // Recipes take their diet flags from the ingredients unless overridden
+  const effectiveDietFlags = useMemo(
+    () =>
+      inheritedDietFlags
+        ? resolveDietFlags(inheritedDietFlags, dietFlagOverridesInput)
+        : null,
+    [dietFlagOverridesInput, inheritedDietFlags]
+  );
+
+  const nutriScoresById = useMemo(() => {
+    const map = new Map<string, NutriScoreResult>();
+    for (const item of itemsById.values()) {
+      const result = computeItemNutriScore(item, itemsById);
+      if (result) {
+        map.set(item.id, result);
       }
-      return value;
     }
+    return map;
+  }, [itemsById]);
 
-    function computeItemProfile(
-      item: InventoryItem
-    ): {
-      perGram: NutritionTotals | null;
-      mass: number | null;
-      missing: boolean;
-    } {
-      if (visited.has(item.id)) {
-        return { perGram: null, mass: null, missing: true };
-      }
-      visited.add(item.id);
+  // Share the recipe would get from its components without an own value
+  const derivedFruitVegetableShare = useMemo(() => {
+    if (!selectedItem || selectedItem.type !== "eigenproduktion") {
+      return null;
+    }
+    const rootItem: InventoryItem = {
+      ...selectedItem,
+      fruitVegetableShare: null,
+      components: isEditingComponents
+        ? editingComponents
+        : selectedItem.components,
+    };
+    return computeFruitVegetableShare(rootItem, itemsById);
+  }, [editingComponents, isEditingComponents, itemsById, selectedItem]);
 
-      if (!item.components || item.components.length === 0) {
-        const base = item.nutritionPerUnit;
-        if (!base) {
-          return { perGram: null, mass: null, missing: true };
-        }
-        const perGram: NutritionTotals = {
-          energyKcal: (base.energyKcal ?? 0) / 100,
-          fat: (base.fat ?? 0) / 100,
-          saturatedFat: (base.saturatedFat ?? 0) / 100,
-          carbs: (base.carbs ?? 0) / 100,
-          sugar: (base.sugar ?? 0) / 100,
-          protein: (base.protein ?? 0) / 100,
-          salt: (base.salt ?? 0) / 100,
-          fiber: (base.fiber ?? 0) / 100,
-          sodium: (base.sodium ?? 0) / 100,
-          breadUnits: (base.breadUnits ?? 0) / 100,
-          cholesterol: (base.cholesterol ?? 0) / 100,
-        };
-        return { perGram, mass: 100, missing: false };
+  const dietFlagConflictsById = useMemo(() => {
+    const map = new Map<string, DietFlagConflict[]>();
+    for (const item of itemsById.values()) {
+      if (item.type !== "eigenproduktion") {
+        continue;
       }
-
-      let totalMass = 0;
-      const batchTotals: NutritionTotals = {
-        energyKcal: 0,
-        fat: 0,
-        saturatedFat: 0,
-        carbs: 0,
-        sugar: 0,
-        protein: 0,
-        salt: 0,
-        fiber: 0,
-        sodium: 0,
-        breadUnits: 0,
-        cholesterol: 0,
-      };
-      let missing = false;
-
-      for (const component of item.components ?? []) {
-        if (!component.itemId) {
-          missing = true;
-          continue;
-        }
-        const componentItem = itemsById.get(component.itemId);
-        if (!componentItem) {
-          missing = true;
-          continue;
-        }
-        const quantity = Number(
-          String(component.quantity).toString().replace(",", ".")
-        );
-        if (!Number.isFinite(quantity) || quantity <= 0) {
-          missing = true;
-          continue;
-        }
-        const child = computeItemProfile(componentItem);
-        if (!child.perGram) {
-          missing = true;
-          continue;
-        }
-        const unitInfo =
-          getUnitConversion(component.unit) ??
-          getUnitConversion(componentItem.unit);
-        if (!unitInfo) {
-          missing = true;
-          continue;
-        }
-        const mass = quantity * unitInfo.toBase;
-        if (!Number.isFinite(mass) || mass <= 0) {
-          missing = true;
-          continue;
-        }
-        totalMass += mass;
-        batchTotals.energyKcal = (batchTotals.energyKcal ?? 0) + (child.perGram.energyKcal ?? 0) * mass;
-        batchTotals.fat = (batchTotals.fat ?? 0) + (child.perGram.fat ?? 0) * mass;
-        batchTotals.saturatedFat = (batchTotals.saturatedFat ?? 0) + (child.perGram.saturatedFat ?? 0) * mass;
-        batchTotals.carbs = (batchTotals.carbs ?? 0) + (child.perGram.carbs ?? 0) * mass;
-        batchTotals.sugar = (batchTotals.sugar ?? 0) + (child.perGram.sugar ?? 0) * mass;
-        batchTotals.protein = (batchTotals.protein ?? 0) + (child.perGram.protein ?? 0) * mass;
-        batchTotals.salt = (batchTotals.salt ?? 0) + (child.perGram.salt ?? 0) * mass;
-        batchTotals.fiber = (batchTotals.fiber ?? 0) + (child.perGram.fiber ?? 0) * mass;
-        batchTotals.sodium = (batchTotals.sodium ?? 0) + (child.perGram.sodium ?? 0) * mass;
-        batchTotals.breadUnits = (batchTotals.breadUnits ?? 0) + (child.perGram.breadUnits ?? 0) * mass;
-        batchTotals.cholesterol = (batchTotals.cholesterol ?? 0) + (child.perGram.cholesterol ?? 0) * mass;
+      const conflicts = findDietFlagConflicts(item, itemsById);
+      if (conflicts.length > 0) {
+        map.set(item.id, conflicts);
       }
-
-      if (!Number.isFinite(totalMass) || totalMass <= 0) {
-        return { perGram: null, mass: null, missing: true };
-      }
-
-      const perGram: NutritionTotals = {
-        energyKcal: (batchTotals.energyKcal ?? 0) / totalMass,
-        fat: (batchTotals.fat ?? 0) / totalMass,
-        saturatedFat: (batchTotals.saturatedFat ?? 0) / totalMass,
-        carbs: (batchTotals.carbs ?? 0) / totalMass,
-        sugar: (batchTotals.sugar ?? 0) / totalMass,
-        protein: (batchTotals.protein ?? 0) / totalMass,
-        salt: (batchTotals.salt ?? 0) / totalMass,
-        fiber: (batchTotals.fiber ?? 0) / totalMass,
-        sodium: (batchTotals.sodium ?? 0) / totalMass,
-        breadUnits: (batchTotals.breadUnits ?? 0) / totalMass,
-        cholesterol: (batchTotals.cholesterol ?? 0) / totalMass,
-      };
-
-      return { perGram, mass: totalMass, missing };
     }
+    return map;
+  }, [itemsById]);
 
-    const { perGram, mass, missing } = computeItemProfile(rootItem);
+  const selectedDietFlagConflicts = selectedItem
+    ? dietFlagConflictsById.get(selectedItem.id) ?? []
+    : [];
 
-    if (!perGram || !mass || !Number.isFinite(mass) || mass <= 0) {
-      return {
-        perRecipe: null as NutritionTotals | null,
-        perPortion: null as NutritionTotals | null,
-        hasMissingData: true,
-      };
+  const recipeCalculation = useMemo<RecipeCalculation | null>(() => {
+    if (!selectedItem || selectedItem.type !== "eigenproduktion") {
+      return null;
     }
-
-    const yieldWeightGrams = parseYieldWeightToGrams(proYieldWeightInput);
-    const recipeMass =
-      yieldWeightGrams && yieldWeightGrams > 0 ? yieldWeightGrams : mass;
-
-    const perRecipe: NutritionTotals = {
-      energyKcal: (perGram.energyKcal ?? 0) * recipeMass,
-      fat: (perGram.fat ?? 0) * recipeMass,
-      saturatedFat: (perGram.saturatedFat ?? 0) * recipeMass,
-      carbs: (perGram.carbs ?? 0) * recipeMass,
-      sugar: (perGram.sugar ?? 0) * recipeMass,
-      protein: (perGram.protein ?? 0) * recipeMass,
-      salt: (perGram.salt ?? 0) * recipeMass,
-      fiber: (perGram.fiber ?? 0) * recipeMass,
-      sodium: (perGram.sodium ?? 0) * recipeMass,
-      breadUnits: (perGram.breadUnits ?? 0) * recipeMass,
-      cholesterol: (perGram.cholesterol ?? 0) * recipeMass,
+    const rootItem: InventoryItem = {
+      ...selectedItem,
+      components: isEditingComponents
+        ? editingComponents
+        : selectedItem.components,
     };
+    return computeRecipeCalculation(rootItem, itemsById);
+  }, [editingComponents, isEditingComponents, itemsById, selectedItem]);
 
-    const portions = selectedItem.targetPortions ?? null;
-    const validPortions =
-      portions != null && Number.isFinite(portions) && portions > 0
-        ? portions
-        : null;
-
-    const perPortion =
-      validPortions != null
-        ? {
-            energyKcal: (perRecipe.energyKcal ?? 0) / validPortions,
-            fat: (perRecipe.fat ?? 0) / validPortions,
-            saturatedFat: (perRecipe.saturatedFat ?? 0) / validPortions,
-            carbs: (perRecipe.carbs ?? 0) / validPortions,
-            sugar: (perRecipe.sugar ?? 0) / validPortions,
-            protein: (perRecipe.protein ?? 0) / validPortions,
-            salt: (perRecipe.salt ?? 0) / validPortions,
-            fiber: (perRecipe.fiber ?? 0) / validPortions,
-            sodium: (perRecipe.sodium ?? 0) / validPortions,
-            breadUnits: (perRecipe.breadUnits ?? 0) / validPortions,
-            cholesterol: (perRecipe.cholesterol ?? 0) / validPortions,
-          }
-        : null;
-
+  // Scaling previews the components on screen; saved batches use the
+  // stored recipe
+  const scalingRootItem = useMemo<InventoryItem | null>(() => {
+    if (!selectedItem || selectedItem.type !== "eigenproduktion") {
+      return null;
+    }
     return {
-      perRecipe,
-      perPortion,
-      hasMissingData: missing,
+      ...selectedItem,
+      components: isEditingComponents
+        ? editingComponents
+        : selectedItem.components,
     };
+  }, [editingComponents, isEditingComponents, selectedItem]);
+
+  const nutritionSummary = useMemo<RecipeNutritionSummary | null>(() => {
+    if (!selectedItem || selectedItem.type !== "eigenproduktion") {
+      return null;
+    }
+    // The yield inputs are used directly so the values update while typing
+    const rootItem: InventoryItem = {
+      ...selectedItem,
+      yieldWeightGrams: parseDecimalInput(proYieldWeightInput),
+      yieldVolumeMl: parseDecimalInput(proYieldVolumeInput),
+      cookingFactor: parseDecimalInput(cookingFactorInput),
+      components: isEditingComponents
+        ? editingComponents
+        : selectedItem.components,
+    };
+    return computeRecipeNutrition(rootItem, itemsById);
   }, [
+    cookingFactorInput,
     editingComponents,
     isEditingComponents,
     itemsById,
+    proYieldVolumeInput,
     proYieldWeightInput,
     selectedItem,
   ]);
 
+  // Live while editing: recipes use the values on screen, purchased items
+  // their saved nutrition
+  const selectedNutriScore = useMemo(() => {
+    if (!selectedItem) {
+      return null;
+    }
+    if (selectedItem.type !== "eigenproduktion") {
+      return nutriScoresById.get(selectedItem.id) ?? null;
+    }
+    if (!nutritionSummary?.per100g) {
+      return null;
+    }
+    const parsedShare = Number(fruitVegetableShareInput.replace(",", "."));
+    return computeNutriScore(
+      nutritionSummary.per100g,
+      fruitVegetableShareInput.trim().length > 0 && Number.isFinite(parsedShare)
+        ? parsedShare
+        : derivedFruitVegetableShare
+    );
+  }, [
+    derivedFruitVegetableShare,
+    fruitVegetableShareInput,
+    nutriScoresById,
+    nutritionSummary,
+    selectedItem,
+  ]);
+
   useEffect(() => {
     setSpecItem(null);
     setIsRecipePresentationMode(false);
     if (!selectedItem) {
       setManufacturerInput("");
       setProAllergensInput("");
+      setProAllergenTracesInput("");
+      setProAdditivesInput([]);
       setProIngredientsInput("");
       setProDosageInput("");
       setProYieldWeightInput("");
       setProYieldVolumeInput("");
+      setUsableYieldInput("");
+      setCookingFactorInput("");
       setProPreparationInput("");
       setNameInput("");
       setCategoryInput("");
       setStorageAreaInput("");
+      setParLevelInput("");
+      setFruitVegetableShareInput("");
+      setReorderQuantityInput("");
       setWarengruppeInput("");
       setPortionUnitInput("");
       setNutritionTagsInput([]);
@@ -2123,6 +2009,21 @@ export function InventoryManager() {
     setImageUrlInput(selectedItem.imageUrl ?? "");
     setCategoryInput(selectedItem.category ?? "");
     setStorageAreaInput(selectedItem.storageArea ?? "");
+    setParLevelInput(
+      typeof selectedItem.parLevel === "number"
+        ? String(selectedItem.parLevel).replace(".", ",")
+        : ""
+    );
+    setFruitVegetableShareInput(
+      typeof selectedItem.fruitVegetableShare === "number"
+        ? String(selectedItem.fruitVegetableShare).replace(".", ",")
+        : ""
+    );
+    setReorderQuantityInput(
+      typeof selectedItem.reorderQuantity === "number"
+        ? String(selectedItem.reorderQuantity).replace(".", ",")
+        : ""
+    );
     setWarengruppeInput(selectedItem.warengruppe ?? "");
     setPortionUnitInput(selectedItem.portionUnit ?? "");
     setNutritionTagsInput(selectedItem.nutritionTags ?? []);
@@ -2155,12 +2056,15 @@ export function InventoryManager() {
     setIsGranulateInput(selectedItem.isGranulate ?? false);
     setIsPasteInput(selectedItem.isPaste ?? false);
     setIsLiquidInput(selectedItem.isLiquid ?? false);
+    setDietFlagOverridesInput(selectedItem.dietFlagOverrides ?? {});
     const allergensText = (selectedItem.allergens ?? []).join(", ");
     setProAllergensInput(
       allergensText.length > 0
         ? allergensText
         : "keine rezeptorisch enthaltenen Allergene"
     );
+    setProAllergenTracesInput((selectedItem.allergenTraces ?? []).join(", "));
+    setProAdditivesInput(selectedItem.additives ?? []);
     if (selectedItem.nutritionPerUnit) {
       const fmt = (val: number | null | undefined) =>
         val !== null && val !== undefined ? String(val) : "k.A.";
@@ -2191,19 +2095,10 @@ export function InventoryManager() {
     }
     setProIngredientsInput(selectedItem.ingredients ?? "");
     setProDosageInput(selectedItem.dosageInstructions ?? "");
-    const yieldText = selectedItem.yieldInfo ?? "";
-    if (yieldText.includes("|")) {
-      const [weightRaw, volumeRaw] = yieldText.split("|");
-      setProYieldWeightInput(weightRaw.trim());
-      setProYieldVolumeInput((volumeRaw ?? "").trim());
-    } else if (yieldText.includes("\n")) {
-      const [line1, line2] = yieldText.split("\n");
-      setProYieldWeightInput(line1.trim());
-      setProYieldVolumeInput((line2 ?? "").trim());
-    } else {
-      setProYieldWeightInput(yieldText);
-      setProYieldVolumeInput("");
-    }
+    setProYieldWeightInput(formatDecimalInput(selectedItem.yieldWeightGrams));
+    setProYieldVolumeInput(formatDecimalInput(selectedItem.yieldVolumeMl));
+    setUsableYieldInput(formatDecimalInput(selectedItem.usableYieldPercent));
+    setCookingFactorInput(formatDecimalInput(selectedItem.cookingFactor));
     if (selectedItem.type === "eigenproduktion") {
       const raw = selectedItem.preparationSteps as unknown;
       let source: unknown = raw;
@@ -2359,7 +2254,15 @@ export function InventoryManager() {
         ? String(selectedItem.targetSalesPrice)
         : ""
     );
-  }, [selectedItem?.id]);
+  }, [selectedItem?.id, inputsResetKey]);
+
+  const cycleClosingItemIds = useMemo(
+    () =>
+      selectedItem
+        ? getItemIdsClosingCycle(selectedItem.id, itemsById)
+        : new Set<string>(),
+    [selectedItem, itemsById]
+  );
 
   const componentSearchResults = useMemo(() => {
     if (!componentSearch.trim() || !selectedItem) {
@@ -2367,7 +2270,7 @@ export function InventoryManager() {
     }
     const term = componentSearch.toLowerCase();
     return effectiveItems.filter((item) => {
-      if (item.id === selectedItem.id) {
+      if (cycleClosingItemIds.has(item.id)) {
         return false;
       }
       if (item.type !== "zukauf") {
@@ -2385,7 +2288,13 @@ export function InventoryManager() {
         item.unit.toLowerCase().includes(term)
       );
     });
-  }, [componentSearch, effectiveItems, editingComponents, selectedItem]);
+  }, [
+    componentSearch,
+    cycleClosingItemIds,
+    effectiveItems,
+    editingComponents,
+    selectedItem,
+  ]);
 
   const adHocSuggestions = useMemo(() => {
     const term = adHocName.trim().toLowerCase();
@@ -2417,12 +2326,15 @@ export function InventoryManager() {
       return null;
     }
     for (const item of effectiveItems) {
+      if (cycleClosingItemIds.has(item.id)) {
+        continue;
+      }
       if (item.name.trim().toLowerCase() === value) {
         return item;
       }
     }
     return null;
-  }, [adHocName, effectiveItems]);
+  }, [adHocName, cycleClosingItemIds, effectiveItems]);
 
   const ingredientTagOptions = useMemo(() => {
     if (!selectedItem || selectedItem.type !== "eigenproduktion") {
@@ -2716,6 +2628,162 @@ export function InventoryManager() {
     }
   }
 
+  function getExpectedVersion(item: InventoryItem) {
+    const savedVersion = savedVersionsRef.current.get(item.id);
+    if (savedVersion === undefined) {
+      return item.version;
+    }
+    return Math.max(savedVersion, item.version ?? 0);
+  }
+
+  function mergeSavedItem(updated: InventoryItem) {
+    setItems((previous) =>
+      previous.map((item) => {
+        if (item.id !== updated.id) {
+          return item;
+        }
+        return {
+          ...item,
+          ...updated,
+          components: updated.components ?? item.components,
+        };
+      })
+    );
+  }
+
+  async function postItemDetails(
+    item: InventoryItem,
+    body: Record<string, unknown>,
+    expectedVersion = getExpectedVersion(item)
+  ) {
+    const response = await fetch("/api/item-details", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        ...body,
+        id: item.id,
+        expectedVersion,
+      }),
+    });
+    const payload = (await response.json()) as ItemDetailsResponse;
+    if (response.ok && typeof payload.item?.version === "number") {
+      savedVersionsRef.current.set(item.id, payload.item.version);
+    }
+    return { response, payload };
+  }
+
+  // Returns null when the save ran into a conflict the user has to resolve
+  async function saveItemDetails(
+    item: InventoryItem,
+    body: Record<string, unknown>
+  ) {
+    const result = await postItemDetails(item, body);
+    const serverItem = result.payload.serverItem;
+    if (result.response.status !== 409 || !serverItem) {
+      return result;
+    }
+    const fields = getConflictingFields(body, item, serverItem);
+    if (fields.length === 0) {
+      // Only fields outside this save were changed, so nothing gets lost
+      return postItemDetails(item, body, serverItem.version);
+    }
+    setSaveConflict({ item, body, serverItem, fields });
+    return null;
+  }
+
+  async function handleKeepMyChanges() {
+    if (!saveConflict) {
+      return;
+    }
+    const { item, body, serverItem } = saveConflict;
+    try {
+      setIsResolvingConflict(true);
+      const { response, payload } = await postItemDetails(
+        item,
+        body,
+        serverItem.version
+      );
+      if (!response.ok) {
+        let message = "Fehler beim Speichern.";
+        if (payload && typeof payload.error === "string") {
+          message = payload.error;
+        }
+        throw new Error(message);
+      }
+      if (payload.item) {
+        mergeSavedItem(payload.item);
+        if ("components" in body) {
+          setEditingComponents(payload.item.components ?? []);
+          setIsEditingComponents(false);
+        }
+      }
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Fehler beim Speichern.";
+      setError(message);
+    } finally {
+      setIsResolvingConflict(false);
+      setSaveConflict(null);
+    }
+  }
+
+  function handleTakeServerVersion() {
+    if (!saveConflict) {
+      return;
+    }
+    const { serverItem } = saveConflict;
+    if (typeof serverItem.version === "number") {
+      savedVersionsRef.current.set(serverItem.id, serverItem.version);
+    }
+    setItems((previous) =>
+      previous.map((item) =>
+        item.id === serverItem.id ? { ...item, ...serverItem } : item
+      )
+    );
+    setEditingComponents(serverItem.components ?? []);
+    setInputsResetKey((previous) => previous + 1);
+    setSaveConflict(null);
+  }
+
+  function handleSupplierPriceSynced(updated: PreferredPriceSync) {
+    savedVersionsRef.current.set(updated.id, updated.version);
+    setItems((previous) =>
+      previous.map((item) =>
+        item.id === updated.id ? { ...item, ...updated } : item
+      )
+    );
+  }
+
+  async function handleItemRestored(itemId: string) {
+    try {
+      const response = await fetch("/api/inventory");
+      const payload = (await response.json()) as
+        | InventoryItem[]
+        | { error?: unknown };
+      if (!response.ok || !Array.isArray(payload)) {
+        let message = "Fehler beim Laden der Artikel.";
+        if (!Array.isArray(payload) && typeof payload.error === "string") {
+          message = payload.error;
+        }
+        throw new Error(message);
+      }
+      const restored = payload.find((item) => item.id === itemId);
+      savedVersionsRef.current.delete(itemId);
+      setItems(payload);
+      setEditingComponents(restored?.components ?? []);
+      setInputsResetKey((previous) => previous + 1);
+      setIsHistoryView(false);
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Fehler beim Laden der Artikel.";
+      setError(message);
+    }
+  }
+
   async function handleSaveComponents() {
     if (!selectedItem || selectedItem.type !== "eigenproduktion") {
       return;
@@ -2741,21 +2809,15 @@ export function InventoryManager() {
       setIsSaving(true);
       setError(null);
 
-      const response = await fetch("/api/item-details", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          id: selectedItem.id,
-          components: cleanedComponents,
-        }),
+      const result = await saveItemDetails(selectedItem, {
+        components: cleanedComponents,
       });
 
-      const payload = (await response.json()) as {
-        error?: unknown;
-        item?: InventoryItem;
-      };
+      if (!result) {
+        return;
+      }
+
+      const { response, payload } = result;
 
       if (!response.ok) {
         let message = "Fehler beim Speichern der Komponenten.";
@@ -2991,6 +3053,8 @@ export function InventoryManager() {
             cholesterol?: number;
           } | null;
           allergens: string[];
+          allergen_traces?: string[];
+          additives?: string[];
           ingredients?: string | null;
           dosage_instructions?: string | null;
           standard_preparation?: {
@@ -3002,6 +3066,8 @@ export function InventoryManager() {
           } | null;
           yield_info?: string | null;
           yield_volume?: string | null;
+          yield_weight_grams?: number | null;
+          yield_volume_ml?: number | null;
           preparation_steps?: string | null;
           manufacturer_article_number?: string | null;
           ean?: string | null;
@@ -3229,6 +3295,16 @@ export function InventoryManager() {
             ? allergensText
             : "keine rezeptorisch enthaltenen Allergene"
         );
+        setProAllergenTracesInput(
+          Array.isArray(payload.extracted.allergen_traces)
+            ? payload.extracted.allergen_traces.join(", ")
+            : ""
+        );
+        setProAdditivesInput(
+          Array.isArray(payload.extracted.additives)
+            ? payload.extracted.additives
+            : []
+        );
         setProIngredientsInput(
           typeof payload.extracted.ingredients === "string"
             ? payload.extracted.ingredients
@@ -3290,34 +3366,10 @@ export function InventoryManager() {
             payload.extracted.standard_preparation.components
           );
         }
-        let yieldWeight = "";
-        let yieldVolume = "";
-        const extractedYieldInfo =
-          typeof payload.extracted.yield_info === "string"
-            ? payload.extracted.yield_info
-            : "";
-        if (extractedYieldInfo.includes("|")) {
-          const [weightRaw, volumeRaw] =
-            extractedYieldInfo.split("|");
-          yieldWeight = weightRaw.trim();
-          yieldVolume = (volumeRaw ?? "").trim();
-        } else if (extractedYieldInfo.includes("\n")) {
-          const [line1, line2] =
-            extractedYieldInfo.split("\n");
-          yieldWeight = line1.trim();
-          yieldVolume = (line2 ?? "").trim();
-        } else {
-          yieldWeight = extractedYieldInfo.trim();
-        }
-        if (
-          typeof payload.extracted.yield_volume ===
-            "string" &&
-          payload.extracted.yield_volume.trim().length > 0
-        ) {
-          // yieldVolume = payload.extracted.yield_volume.trim(); // User wants to fill this manually
-        }
-        setProYieldWeightInput(yieldWeight);
-        // setProYieldVolumeInput(yieldVolume); // User wants to fill this manually
+        setProYieldWeightInput(
+          formatDecimalInput(payload.extracted.yield_weight_grams)
+        );
+        // The volume yield is filled in manually
         if (
           typeof payload.extracted
             .manufacturer_article_number === "string"
@@ -3483,6 +3535,44 @@ export function InventoryManager() {
     }
   }
 
+  function handleDietFlagChange(key: DietFlagKey, checked: boolean) {
+    const setters: Record<DietFlagKey, (value: boolean) => void> = {
+      isVegan: setIsVeganInput,
+      isVegetarian: setIsVegetarianInput,
+      isGlutenFree: setIsGlutenFreeInput,
+      isLactoseFree: setIsLactoseFreeInput,
+      isPalmOilFree: setIsPalmOilFreeInput,
+      isYeastFree: setIsYeastFreeInput,
+    };
+    if (!inheritedDietFlags) {
+      setters[key](checked);
+      return;
+    }
+    if (checked === inheritedDietFlags[key].value) {
+      setDietFlagOverridesInput((previous) => {
+        const next = { ...previous };
+        delete next[key];
+        return next;
+      });
+      return;
+    }
+    const blocking = inheritedDietFlags[key].blockingIngredients;
+    const reason = window.prompt(
+      checked
+        ? `„${DIET_FLAG_LABELS[key]}“ widerspricht den Zutaten (${blocking.join(
+            ", "
+          )}). Begründung für die Abweichung:`
+        : `Alle Zutaten sind „${DIET_FLAG_LABELS[key]}“. Begründung für die Abweichung:`
+    );
+    if (!reason || !reason.trim()) {
+      return;
+    }
+    setDietFlagOverridesInput((previous) => ({
+      ...previous,
+      [key]: { value: checked, reason: reason.trim() },
+    }));
+  }
+
   async function handleSaveProfiData(
     overrideDosageInstructions?: string | null
   ) {
@@ -3516,6 +3606,28 @@ export function InventoryManager() {
         parsedTargetSalesPrice > 0
           ? parsedTargetSalesPrice
           : null;
+      const parsedParLevel = Number(parLevelInput.replace(",", "."));
+      const parLevel =
+        parLevelInput.trim().length > 0 &&
+        Number.isFinite(parsedParLevel) &&
+        parsedParLevel >= 0
+          ? parsedParLevel
+          : null;
+      const parsedFruitVegetableShare = Number(
+        fruitVegetableShareInput.replace(",", ".")
+      );
+      // Empty clears the value; recipes then derive it from their components
+      const fruitVegetableShare =
+        fruitVegetableShareInput.trim().length > 0
+          ? parsedFruitVegetableShare
+          : null;
+      const parsedReorderQuantity = Number(
+        reorderQuantityInput.replace(",", ".")
+      );
+      const reorderQuantity =
+        Number.isFinite(parsedReorderQuantity) && parsedReorderQuantity > 0
+          ? parsedReorderQuantity
+          : null;
       const nameValue =
         selectedItem.type === "eigenproduktion"
           ? nameInput.trim()
@@ -3639,67 +3751,69 @@ export function InventoryManager() {
             }
           : null;
 
-      const response = await fetch("/api/item-details", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          id: selectedItem.id,
-          name: nameValue,
-          unit: selectedItem.unit,
-          purchasePrice: selectedItem.purchasePrice,
-          brand: brandInput.trim(),
-          currency: selectedItem.currency,
-          manufacturerArticleNumber: manufacturerInput.trim(),
-          ean: eanInput.trim(),
-          allergens: allergensArray,
-          ingredients: proIngredientsInput.trim(),
-          dosageInstructions:
-            overrideDosageInstructions ?? proDosageInput.trim(),
-          yieldInfo: [proYieldWeightInput.trim(), proYieldVolumeInput.trim()]
-            .filter((value) => value.length > 0)
-            .join(" | "),
-          preparationSteps: preparationStepsValue,
-          targetPortions,
-          targetSalesPrice,
-          storageArea: storageAreaInput,
-          warengruppe: warengruppeInput,
-          category: categoryValue,
-          portionUnit: portionUnitValue,
-          nutritionTags: nutritionTagsValue,
-          nutritionPerUnit: nutritionPerUnitValue,
-          standardPreparation:
-            selectedItem.type !== "eigenproduktion"
-              ? parsedStandardPreparation
-              : undefined,
-          isBio: isBioInput,
-          isDeklarationsfrei: isDeklarationsfreiInput,
-          isAllergenfrei: isAllergenfreiInput,
-          isCookChill: isCookChillInput,
-          isFreezeThawStable: isFreezeThawStableInput,
-          isPalmOilFree: isPalmOilFreeInput,
-          isYeastFree: isYeastFreeInput,
-          isLactoseFree: isLactoseFreeInput,
-          isGlutenFree: isGlutenFreeInput,
-          isVegan: isVeganInput,
-          isVegetarian: isVegetarianInput,
-          isFairtrade: isFairtradeInput,
-          isPowder: isPowderInput,
-          isGranulate: isGranulateInput,
-          isPaste: isPasteInput,
-          isLiquid: isLiquidInput,
-          deviceSettings: deviceSettingsInput,
-          imageUrl: imageUrlValue,
-          packshotX: packshotPan.x,
-          packshotY: packshotPan.y,
-          packshotZoom: packshotZoom,
-        }),
+      const result = await saveItemDetails(selectedItem, {
+        name: nameValue,
+        unit: selectedItem.unit,
+        purchasePrice: selectedItem.purchasePrice,
+        brand: brandInput.trim(),
+        currency: selectedItem.currency,
+        manufacturerArticleNumber: manufacturerInput.trim(),
+        ean: eanInput.trim(),
+        allergens: allergensArray,
+        allergenTraces: parseAllergenInput(proAllergenTracesInput),
+        additives: proAdditivesInput,
+        ingredients: proIngredientsInput.trim(),
+        dosageInstructions:
+          overrideDosageInstructions ?? proDosageInput.trim(),
+        yieldWeightGrams: parseDecimalInput(proYieldWeightInput),
+        yieldVolumeMl: parseDecimalInput(proYieldVolumeInput),
+        usableYieldPercent: parseDecimalInput(usableYieldInput),
+        cookingFactor: parseDecimalInput(cookingFactorInput),
+        preparationSteps: preparationStepsValue,
+        targetPortions,
+        targetSalesPrice,
+        storageArea: storageAreaInput,
+        parLevel,
+        reorderQuantity,
+        fruitVegetableShare,
+        warengruppe: warengruppeInput,
+        category: categoryValue,
+        portionUnit: portionUnitValue,
+        nutritionTags: nutritionTagsValue,
+        nutritionPerUnit: nutritionPerUnitValue,
+        standardPreparation:
+          selectedItem.type !== "eigenproduktion"
+            ? parsedStandardPreparation
+            : undefined,
+        isBio: isBioInput,
+        isDeklarationsfrei: isDeklarationsfreiInput,
+        isAllergenfrei: isAllergenfreiInput,
+        isCookChill: isCookChillInput,
+        isFreezeThawStable: isFreezeThawStableInput,
+        isPalmOilFree: effectiveDietFlags?.isPalmOilFree ?? isPalmOilFreeInput,
+        isYeastFree: effectiveDietFlags?.isYeastFree ?? isYeastFreeInput,
+        isLactoseFree: effectiveDietFlags?.isLactoseFree ?? isLactoseFreeInput,
+        isGlutenFree: effectiveDietFlags?.isGlutenFree ?? isGlutenFreeInput,
+        isVegan: effectiveDietFlags?.isVegan ?? isVeganInput,
+        isVegetarian: effectiveDietFlags?.isVegetarian ?? isVegetarianInput,
+        isFairtrade: isFairtradeInput,
+        isPowder: isPowderInput,
+        isGranulate: isGranulateInput,
+        isPaste: isPasteInput,
+        isLiquid: isLiquidInput,
+        dietFlagOverrides: inheritedDietFlags
+          ? dietFlagOverridesInput
+          : undefined,
+        deviceSettings: deviceSettingsInput,
+        imageUrl: imageUrlValue,
+        packshotX: packshotPan.x,
+        packshotY: packshotPan.y,
+        packshotZoom: packshotZoom,
       });
-      const payload = (await response.json()) as {
-        error?: unknown;
-        item?: InventoryItem;
-      };
+      if (!result) {
+        return;
+      }
+      const { response, payload } = result;
       if (!response.ok) {
         let message = "Fehler beim Speichern der Profi-Daten.";
         if (payload && typeof payload.error === "string") {
@@ -3752,21 +3866,59 @@ export function InventoryManager() {
   async function handleDelete() {
     if (!selectedItem) return;
 
+    let usages: { recipeId: string; recipeName: string }[] = [];
+
+    try {
+      const impactResponse = await fetch(
+        `/api/item-impact?itemId=${encodeURIComponent(selectedItem.id)}`
+      );
+      const impact = (await impactResponse.json()) as {
+        error?: unknown;
+        recipes?: { recipeId: string; recipeName: string }[];
+      };
+      if (!impactResponse.ok) {
+        throw new Error(
+          typeof impact.error === "string"
+            ? impact.error
+            : "Fehler beim Prüfen der Verwendungen"
+        );
+      }
+      usages = impact.recipes ?? [];
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Fehler beim Prüfen der Verwendungen";
+      setError(errorMessage);
+      return;
+    }
+
+    const usageNames = Array.from(
+      new Set(usages.map((usage) => usage.recipeName))
+    );
+    const impactText =
+      usageNames.length > 0
+        ? `\n\nDer Artikel wird in ${usageNames.length} Rezept(en) verwendet:\n- ${usageNames.join(
+            "\n- "
+          )}\n\nDort bleibt er als entfernte Zutat stehen, bis ein Ersatz gewählt wird.`
+        : "\n\nDer Artikel wird in keinem Rezept verwendet.";
+
     if (
       !window.confirm(
-        `Möchten Sie den Artikel "${selectedItem.name}" wirklich löschen? Diese Aktion kann nicht rückgängig gemacht werden.`
+        `Möchten Sie den Artikel "${selectedItem.name}" wirklich löschen?${impactText}`
       )
     ) {
       return;
     }
 
+    const deletedId = selectedItem.id;
+    const deletedName = selectedItem.name;
+
     try {
       setIsDeleting(true);
       setError(null);
       const response = await fetch("/api/inventory", {
         method: "DELETE",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ id: selectedItem.id }),
+        body: JSON.stringify({ id: deletedId }),
       });
 
       if (!response.ok) {
@@ -3774,7 +3926,28 @@ export function InventoryManager() {
         throw new Error(data.error || "Fehler beim Löschen");
       }
 
-      setItems((prev) => prev.filter((i) => i.id !== selectedItem.id));
+      setItems((prev) =>
+        prev
+          .filter((i) => i.id !== deletedId)
+          .map((item) => {
+            if (
+              !item.components?.some(
+                (component) => component.itemId === deletedId
+              )
+            ) {
+              return item;
+            }
+            return {
+              ...item,
+              hasGhostComponents: true,
+              components: item.components.map((component) =>
+                component.itemId === deletedId
+                  ? { ...component, deletedItemName: deletedName }
+                  : component
+              ),
+            };
+          })
+      );
       setSelectedItemId(null);
       alert("Artikel erfolgreich gelöscht.");
     } catch (err) {
@@ -3920,20 +4093,13 @@ export function InventoryManager() {
     try {
       setImageIsUploading(true);
       setImageUploadError(null);
-      const response = await fetch("/api/item-details", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          id: selectedItem.id,
-          imageUrl: trimmed,
-        }),
+      const result = await saveItemDetails(selectedItem, {
+        imageUrl: trimmed,
       });
-      const payload = (await response.json()) as {
-        error?: unknown;
-        item?: InventoryItem;
-      };
+      if (!result) {
+        return;
+      }
+      const { response, payload } = result;
       if (!response.ok) {
         let message = "Fehler beim Speichern des Bild-Links.";
         if (payload && typeof payload.error === "string") {
@@ -4015,6 +4181,8 @@ export function InventoryManager() {
         dosageInstructions?: string | null;
         warengruppe?: string | null;
         storageArea?: string | null;
+        allergens?: string[];
+        allergenTraces?: string[];
       };
       setAiParsed({
         name: data.name,
@@ -4028,6 +4196,8 @@ export function InventoryManager() {
         dosageInstructions: data.dosageInstructions ?? null,
         warengruppe: data.warengruppe ?? null,
         storageArea: data.storageArea ?? null,
+        allergens: data.allergens ?? [],
+        allergenTraces: data.allergenTraces ?? [],
       });
     } catch (error) {
       const message =
@@ -4064,6 +4234,8 @@ export function InventoryManager() {
           dosageInstructions: aiParsed.dosageInstructions ?? null,
           warengruppe: aiParsed.warengruppe ?? null,
           storageArea: aiParsed.storageArea ?? null,
+          allergens: aiParsed.allergens ?? [],
+          allergenTraces: aiParsed.allergenTraces ?? [],
           isBio: aiParsed.isBio,
           isDeklarationsfrei: aiParsed.isDeklarationsfrei,
           isAllergenfrei: aiParsed.isAllergenfrei,
@@ -4224,6 +4396,20 @@ export function InventoryManager() {
                             )}
                           >
                             <span className="truncate">{item.name}</span>
+                            {nutriScoresById.has(item.id) && (
+                              <NutriScoreBadge
+                                result={nutriScoresById.get(item.id) as NutriScoreResult}
+                              />
+                            )}
+                            {dietFlagConflictsById.has(item.id) && (
+                              <span
+                                title={(dietFlagConflictsById.get(item.id) ?? [])
+                                  .map(formatDietFlagConflict)
+                                  .join("\n")}
+                              >
+                                <AlertTriangle className="h-3 w-3 shrink-0 text-amber-500" />
+                              </span>
+                            )}
                           </button>
                         ))}
                       </AccordionContent>
@@ -4239,7 +4425,9 @@ export function InventoryManager() {
       <main className="flex flex-1 flex-col min-w-0 overflow-hidden bg-[#F6F7F5]">
         <header className="flex items-center justify-between border-b border-[#6B7176] bg-[#1F2326] px-6 py-3 text-white">
           <div>
-            <h1 className="text-lg font-semibold">Zutaten-Datenbank</h1>
+            <h1 className="text-lg font-semibold">
+              {activeSection === "lager" ? "Lager" : "Zutaten-Datenbank"}
+            </h1>
           </div>
           <div className="flex items-center gap-2">
             
@@ -4289,19 +4477,7 @@ export function InventoryManager() {
               </CardContent>
             </Card>
             )}
-          {activeSection === "lager" && (
-            <Card className="col-span-full flex flex-col" key="lager-placeholder">
-              <CardHeader>
-                <CardTitle>Platzhalter</CardTitle>
-                <CardDescription>Mehr Funktionen folgen.</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="rounded-md border bg-muted/40 px-3 py-3 text-sm text-muted-foreground">
-                  Lagerverwaltung wird hier bereitgestellt.
-                </div>
-              </CardContent>
-            </Card>
-          )}
+          {activeSection === "lager" && <Warehouse items={effectiveItems} />}
 
           {activeSection === "zutaten" ? (
             <div className="flex h-full flex-col gap-4 overflow-hidden bg-[#F6F7F5] p-6">
@@ -4445,6 +4621,18 @@ export function InventoryManager() {
                       <div className="flex items-center gap-2">
                          <CardTitle className="text-base text-[#1F2326]">Stammdaten</CardTitle>
                       </div>
+                      {selectedItem && (
+                        <Button
+                          type="button"
+                          variant={isHistoryView ? "default" : "outline"}
+                          size="sm"
+                          className="h-7 px-2 text-[11px]"
+                          onClick={() => setIsHistoryView((previous) => !previous)}
+                        >
+                          <History className="mr-1 h-3.5 w-3.5" />
+                          Historie
+                        </Button>
+                      )}
 
                    </CardHeader>
                    <CardContent className="flex-1 overflow-y-auto p-4">
@@ -4453,7 +4641,14 @@ export function InventoryManager() {
                           {error}
                         </div>
                       )}
-                      {selectedItem ? (
+                      {selectedItem && isHistoryView ? (
+                        <ItemHistoryPanel
+                          itemId={selectedItem.id}
+                          itemVersion={selectedItem.version}
+                          getItemName={getItemName}
+                          onRestored={handleItemRestored}
+                        />
+                      ) : selectedItem ? (
                          <div className="space-y-4">
                             <div className="flex flex-col items-center mb-4">
                                 <div className="text-[10px] font-medium text-[#6B7176] mb-1 w-full text-left">Packshot-Fokus</div>
@@ -4729,14 +4924,40 @@ export function InventoryManager() {
                                    className="flex h-9 w-full rounded-md border border-[#E5E7EB] bg-white px-3 py-1 text-xs shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 text-[#1F2326]"
                                  >
                                    <option value="">Bitte wählen...</option>
-                                   <option value="Frischwaren">Frischwaren</option>
-                                   <option value="Kühlwaren">Kühlwaren</option>
-                                   <option value="Tiefkühlwaren">Tiefkühlwaren</option>
-                                   <option value="Trockenwaren">Trockenwaren</option>
-                                   <option value="Non Food">Non Food</option>
+                                   {STORAGE_AREAS.map((area) => (
+                                     <option key={area} value={area}>{area}</option>
+                                   ))}
                                  </select>
                                </div>
 
+                               <div className="grid grid-cols-2 gap-4">
+                                 <div className="grid gap-2">
+                                   <label className="text-xs font-medium text-[#1F2326]">Sollbestand</label>
+                                   <Input
+                                     type="text"
+                                     inputMode="decimal"
+                                     value={parLevelInput}
+                                     onChange={(e) => setParLevelInput(e.target.value)}
+                                     placeholder={`in ${selectedItem.unit}`}
+                                     className="border-[#E5E7EB] bg-white text-[#1F2326]"
+                                   />
+                                 </div>
+                                 <div className="grid gap-2">
+                                   <label className="text-xs font-medium text-[#1F2326]">Bestellmenge</label>
+                                   <Input
+                                     type="text"
+                                     inputMode="decimal"
+                                     value={reorderQuantityInput}
+                                     onChange={(e) => setReorderQuantityInput(e.target.value)}
+                                     placeholder="Gebindegröße"
+                                     className="border-[#E5E7EB] bg-white text-[#1F2326]"
+                                   />
+                                 </div>
+                               </div>
+                               <p className="text-[11px] text-[#6B7280]">
+                                 Aktueller Bestand: {(selectedItem.onHand ?? 0).toLocaleString("de-DE")} {selectedItem.unit}
+                               </p>
+
                                <div className="grid grid-cols-2 gap-4">
                                   <div className="grid gap-2">
                                     <label className="text-xs font-medium text-[#1F2326]">Gewicht (netto)/Abtropfgewicht</label>
@@ -4772,6 +4993,28 @@ export function InventoryManager() {
                                   </div>
                                </div>
 
+                               {selectedItem.type !== "eigenproduktion" && (
+                                 <>
+                                   <SupplierPricesPanel
+                                     itemId={selectedItem.id}
+                                     itemUnit={selectedItem.unit}
+                                     onItemUpdated={handleSupplierPriceSynced}
+                                   />
+                                   <PriceHistoryChart
+                                     itemId={selectedItem.id}
+                                     itemVersion={selectedItem.version}
+                                     unit={selectedItem.unit}
+                                     currency={selectedItem.currency}
+                                   />
+                                 </>
+                               )}
+
+                               <WhereUsedTree
+                                 itemId={selectedItem.id}
+                                 itemVersion={selectedItem.version}
+                                 onSelectRecipe={setSelectedItemId}
+                               />
+
                                <div className="grid gap-2">
                                  <div className="flex items-center justify-between">
                                    <label className="text-xs font-medium text-[#1F2326]">Dosierungsangaben</label>
@@ -5134,10 +5377,11 @@ export function InventoryManager() {
                         <div className="grid grid-cols-2 gap-2">
                           <div className="space-y-1">
                             <div className="text-[11px] text-muted-foreground">
-                              Ergiebigkeit / Gebinde
+                              Ergiebigkeit / Gebinde (g)
                             </div>
                             <Input
                               type="text"
+                              inputMode="decimal"
                               value={proYieldWeightInput}
                               onChange={(event) =>
                                 setProYieldWeightInput(event.target.value)
@@ -5147,10 +5391,11 @@ export function InventoryManager() {
                           </div>
                           <div className="space-y-1">
                             <div className="text-[11px] text-muted-foreground">
-                              Volumen-Ergiebigkeit
+                              Volumen-Ergiebigkeit (ml)
                             </div>
                             <Input
                               type="text"
+                              inputMode="decimal"
                               value={proYieldVolumeInput}
                               onChange={(event) =>
                                 setProYieldVolumeInput(event.target.value)
@@ -5158,6 +5403,39 @@ export function InventoryManager() {
                               className="h-7 w-full px-2 py-1 text-[11px]"
                             />
                           </div>
+                          {selectedItem.type === "eigenproduktion" ? (
+                            <div className="space-y-1">
+                              <div className="text-[11px] text-muted-foreground">
+                                Garfaktor (gegart / roh)
+                              </div>
+                              <Input
+                                type="text"
+                                inputMode="decimal"
+                                value={cookingFactorInput}
+                                onChange={(event) =>
+                                  setCookingFactorInput(event.target.value)
+                                }
+                                className="h-7 w-full px-2 py-1 text-[11px]"
+                                placeholder="1"
+                              />
+                            </div>
+                          ) : (
+                            <div className="space-y-1">
+                              <div className="text-[11px] text-muted-foreground">
+                                Nutzbare Ausbeute (%)
+                              </div>
+                              <Input
+                                type="text"
+                                inputMode="decimal"
+                                value={usableYieldInput}
+                                onChange={(event) =>
+                                  setUsableYieldInput(event.target.value)
+                                }
+                                className="h-7 w-full px-2 py-1 text-[11px]"
+                                placeholder="100"
+                              />
+                            </div>
+                          )}
                         </div>
 
 
@@ -5226,9 +5504,9 @@ export function InventoryManager() {
                           <div className="flex items-center gap-1.5">
                             <input
                               type="checkbox"
-                              checked={isPalmOilFreeInput}
+                              checked={effectiveDietFlags?.isPalmOilFree ?? isPalmOilFreeInput}
                               onChange={(e) =>
-                                setIsPalmOilFreeInput(e.target.checked)
+                                handleDietFlagChange("isPalmOilFree", e.target.checked)
                               }
                               id="check-palm"
                               className="h-3 w-3 rounded border-gray-300"
@@ -5238,9 +5516,9 @@ export function InventoryManager() {
                           <div className="flex items-center gap-1.5">
                             <input
                               type="checkbox"
-                              checked={isYeastFreeInput}
+                              checked={effectiveDietFlags?.isYeastFree ?? isYeastFreeInput}
                               onChange={(e) =>
-                                setIsYeastFreeInput(e.target.checked)
+                                handleDietFlagChange("isYeastFree", e.target.checked)
                               }
                               id="check-yeast"
                               className="h-3 w-3 rounded border-gray-300"
@@ -5250,9 +5528,9 @@ export function InventoryManager() {
                           <div className="flex items-center gap-1.5">
                             <input
                               type="checkbox"
-                              checked={isLactoseFreeInput}
+                              checked={effectiveDietFlags?.isLactoseFree ?? isLactoseFreeInput}
                               onChange={(e) =>
-                                setIsLactoseFreeInput(e.target.checked)
+                                handleDietFlagChange("isLactoseFree", e.target.checked)
                               }
                               id="check-lactose"
                               className="h-3 w-3 rounded border-gray-300"
@@ -5262,9 +5540,9 @@ export function InventoryManager() {
                           <div className="flex items-center gap-1.5">
                             <input
                               type="checkbox"
-                              checked={isGlutenFreeInput}
+                              checked={effectiveDietFlags?.isGlutenFree ?? isGlutenFreeInput}
                               onChange={(e) =>
-                                setIsGlutenFreeInput(e.target.checked)
+                                handleDietFlagChange("isGlutenFree", e.target.checked)
                               }
                               id="check-gluten"
                               className="h-3 w-3 rounded border-gray-300"
@@ -5274,9 +5552,9 @@ export function InventoryManager() {
                           <div className="flex items-center gap-1.5">
                             <input
                               type="checkbox"
-                              checked={isVeganInput}
+                              checked={effectiveDietFlags?.isVegan ?? isVeganInput}
                               onChange={(e) =>
-                                setIsVeganInput(e.target.checked)
+                                handleDietFlagChange("isVegan", e.target.checked)
                               }
                               id="check-vegan"
                               className="h-3 w-3 rounded border-gray-300"
@@ -5286,9 +5564,9 @@ export function InventoryManager() {
                           <div className="flex items-center gap-1.5">
                             <input
                               type="checkbox"
-                              checked={isVegetarianInput}
+                              checked={effectiveDietFlags?.isVegetarian ?? isVegetarianInput}
                               onChange={(e) =>
-                                setIsVegetarianInput(e.target.checked)
+                                handleDietFlagChange("isVegetarian", e.target.checked)
                               }
                               id="check-vegetarian"
                               className="h-3 w-3 rounded border-gray-300"
@@ -5385,6 +5663,49 @@ export function InventoryManager() {
                             }
                             className="w-full rounded-md border border-input bg-background px-2 py-1 text-[11px] text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
                           />
+                          <div className="text-[11px] text-muted-foreground">
+                            Kann Spuren enthalten von (kommagetrennt)
+                          </div>
+                          <textarea
+                            rows={1}
+                            value={proAllergenTracesInput}
+                            onChange={(event) =>
+                              setProAllergenTracesInput(event.target.value)
+                            }
+                            className="w-full rounded-md border border-input bg-background px-2 py-1 text-[11px] text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
+                          />
+                          {unmatchedAllergenInputs.length > 0 && (
+                            <div className="flex items-center gap-1 text-[10px] text-amber-700">
+                              <AlertTriangle className="h-3 w-3 shrink-0" />
+                              Kein LMIV-Allergen: {unmatchedAllergenInputs.join(", ")}
+                            </div>
+                          )}
+                        </div>
+                        <AdditiveSelect
+                          value={proAdditivesInput}
+                          onChange={setProAdditivesInput}
+                          ingredients={proIngredientsInput}
+                        />
+                        <div className="flex items-center gap-2">
+                          <label className="w-40 shrink-0 text-[11px] text-muted-foreground">
+                            Obst/Gemüse/Hülsenfrüchte (%)
+                          </label>
+                          <Input
+                            value={fruitVegetableShareInput}
+                            onChange={(event) =>
+                              setFruitVegetableShareInput(event.target.value)
+                            }
+                            className="h-7 w-24 px-2 py-1 text-[11px]"
+                            inputMode="decimal"
+                            placeholder={
+                              derivedFruitVegetableShare !== null
+                                ? `${Math.round(derivedFruitVegetableShare)} (aus Zutaten)`
+                                : "0"
+                            }
+                          />
+                          {selectedNutriScore && (
+                            <NutriScoreBadge result={selectedNutriScore} />
+                          )}
                         </div>
                         <div className="space-y-1 pt-2">
                           <div className="text-[11px] font-medium text-muted-foreground">
@@ -5612,7 +5933,7 @@ export function InventoryManager() {
                          </div>
                       )}
                    </CardContent>
-                   {selectedItem && (
+                   {selectedItem && !isHistoryView && (
                      <div className="flex justify-end gap-2 px-6 pb-6">
                        <Button
                          type="button"
@@ -6118,6 +6439,12 @@ export function InventoryManager() {
                         )}
                       >
                         <span className="truncate">{item.name}</span>
+                        {nutriScoresById.has(item.id) && (
+                          <NutriScoreBadge
+                            result={nutriScoresById.get(item.id) as NutriScoreResult}
+                            className="ml-auto"
+                          />
+                        )}
                       </button>
                     ))}
                   </div>
@@ -6144,28 +6471,44 @@ export function InventoryManager() {
                   <CardTitle>Artikeldetails</CardTitle>
                 </div>
               </div>
-              {selectedItem && selectedItem.type === "eigenproduktion" && (
-                <div className="inline-flex rounded-md border bg-muted/40 p-1 text-[11px]">
-                  <Button
-                    type="button"
-                    variant={isRecipePresentationMode ? "outline" : "default"}
-                    size="sm"
-                    className="h-7 px-2"
-                    onClick={() => setIsRecipePresentationMode(false)}
-                  >
-                    Bearbeiten
-                  </Button>
+              <div className="flex items-center gap-2">
+                {selectedItem && (
                   <Button
                     type="button"
-                    variant={isRecipePresentationMode ? "default" : "outline"}
+                    variant={isHistoryView ? "default" : "outline"}
                     size="sm"
-                    className="h-7 px-2"
-                    onClick={() => setIsRecipePresentationMode(true)}
+                    className="h-7 px-2 text-[11px]"
+                    onClick={() => setIsHistoryView((previous) => !previous)}
                   >
-                    Präsentation
+                    <History className="mr-1 h-3.5 w-3.5" />
+                    Historie
                   </Button>
-                </div>
-              )}
+                )}
+                {selectedItem &&
+                  selectedItem.type === "eigenproduktion" &&
+                  !isHistoryView && (
+                  <div className="inline-flex rounded-md border bg-muted/40 p-1 text-[11px]">
+                    <Button
+                      type="button"
+                      variant={isRecipePresentationMode ? "outline" : "default"}
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => setIsRecipePresentationMode(false)}
+                    >
+                      Bearbeiten
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={isRecipePresentationMode ? "default" : "outline"}
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => setIsRecipePresentationMode(true)}
+                    >
+                      Präsentation
+                    </Button>
+                  </div>
+                )}
+              </div>
             </CardHeader>
             <CardContent className="flex flex-1 flex-col gap-4">
               {!selectedItem && (
@@ -6173,7 +6516,16 @@ export function InventoryManager() {
                   Wähle links einen Artikel aus, um Details zu sehen.
                 </div>
               )}
+              {selectedItem && isHistoryView && (
+                <ItemHistoryPanel
+                  itemId={selectedItem.id}
+                  itemVersion={selectedItem.version}
+                  getItemName={getItemName}
+                  onRestored={handleItemRestored}
+                />
+              )}
               {selectedItem &&
+                !isHistoryView &&
                 selectedItem.type === "eigenproduktion" &&
                 isRecipePresentationMode && (
                     <div className="space-y-6 text-xs">
@@ -6438,6 +6790,7 @@ export function InventoryManager() {
                   </div>
                 )}
               {selectedItem &&
+                !isHistoryView &&
                 !(selectedItem.type === "eigenproduktion" &&
                   isRecipePresentationMode) && (
                 <>
@@ -6838,6 +7191,20 @@ export function InventoryManager() {
                           ))}
                         </div>
                       )}
+                    {selectedDietFlagConflicts.length > 0 && (
+                      <div className="space-y-1">
+                        {selectedDietFlagConflicts.map((conflict) => (
+                          <Badge
+                            key={conflict.key}
+                            variant="outline"
+                            className="mr-1 gap-1 border-amber-500/60 bg-amber-50 text-[10px] text-amber-900"
+                          >
+                            <AlertTriangle className="h-3 w-3" />
+                            {formatDietFlagConflict(conflict)}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                     {selectedItem.type === "eigenproduktion" &&
                       inheritedAllergens.length > 0 && (
                         <div className="text-[11px] text-muted-foreground">
@@ -6847,6 +7214,66 @@ export function InventoryManager() {
                           </span>
                         </div>
                       )}
+                    {selectedItem.type === "eigenproduktion" &&
+                      inheritedAllergenTraces.length > 0 && (
+                        <div className="text-[11px] text-muted-foreground">
+                          Kann Spuren enthalten von:{" "}
+                          <span className="font-medium">
+                            {inheritedAllergenTraces.join(", ")}
+                          </span>
+                        </div>
+                      )}
+                    {selectedItem.type === "eigenproduktion" &&
+                      inheritedAdditives.length > 0 && (
+                        <div className="text-[11px] text-muted-foreground">
+                          Zusatzstoffe (aus Zutaten):{" "}
+                          <span className="font-medium">
+                            {inheritedAdditives
+                              .map((key) => {
+                                const additive = findAdditiveClass(key);
+                                return additive
+                                  ? `${additive.footnote} ${additive.label}`
+                                  : key;
+                              })
+                              .join(", ")}
+                          </span>
+                        </div>
+                      )}
+                    {ingredientDeclaration &&
+                      ingredientDeclaration.entries.length > 0 && (
+                        <div className="space-y-0.5 text-[11px] text-muted-foreground">
+                          <div>
+                            Zutaten:{" "}
+                            <span className="text-foreground">
+                              {ingredientDeclaration.segments.map(
+                                (segment, index) =>
+                                  segment.isAllergen ? (
+                                    <span
+                                      key={`a-${index}`}
+                                      className="font-semibold"
+                                    >
+                                      {segment.text}
+                                    </span>
+                                  ) : (
+                                    <span key={`t-${index}`}>
+                                      {segment.text}
+                                    </span>
+                                  )
+                              )}
+                            </span>
+                          </div>
+                          {ingredientDeclaration.hasMissingWeights && (
+                            <div className="flex items-center gap-1 text-[10px] text-amber-700">
+                              <AlertTriangle className="h-3 w-3 shrink-0" />
+                              Nicht alle Mengen lassen sich in Gramm umrechnen,
+                              die Reihenfolge ist daher unvollständig.
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    {selectedNutriScore && (
+                      <NutriScoreBadge result={selectedNutriScore} size="full" />
+                    )}
                     <div className="text-xs text-muted-foreground">
                       Einheit: {selectedItem.unit}
                     </div>
@@ -7008,10 +7435,11 @@ export function InventoryManager() {
                         <div className="grid grid-cols-2 gap-2">
                           <div className="space-y-1">
                             <div className="text-[11px] text-muted-foreground">
-                              Ergiebigkeit / Gebinde
+                              Ergiebigkeit / Gebinde (g)
                             </div>
                             <Input
                               type="text"
+                              inputMode="decimal"
                               value={proYieldWeightInput}
                               onChange={(event) =>
                                 setProYieldWeightInput(event.target.value)
@@ -7021,10 +7449,11 @@ export function InventoryManager() {
                           </div>
                           <div className="space-y-1">
                             <div className="text-[11px] text-muted-foreground">
-                              Volumen-Ergiebigkeit
+                              Volumen-Ergiebigkeit (ml)
                             </div>
                             <Input
                               type="text"
+                              inputMode="decimal"
                               value={proYieldVolumeInput}
                               onChange={(event) =>
                                 setProYieldVolumeInput(event.target.value)
@@ -7032,6 +7461,39 @@ export function InventoryManager() {
                               className="h-7 w-full px-2 py-1 text-[11px]"
                             />
                           </div>
+                          {selectedItem.type === "eigenproduktion" ? (
+                            <div className="space-y-1">
+                              <div className="text-[11px] text-muted-foreground">
+                                Garfaktor (gegart / roh)
+                              </div>
+                              <Input
+                                type="text"
+                                inputMode="decimal"
+                                value={cookingFactorInput}
+                                onChange={(event) =>
+                                  setCookingFactorInput(event.target.value)
+                                }
+                                className="h-7 w-full px-2 py-1 text-[11px]"
+                                placeholder="1"
+                              />
+                            </div>
+                          ) : (
+                            <div className="space-y-1">
+                              <div className="text-[11px] text-muted-foreground">
+                                Nutzbare Ausbeute (%)
+                              </div>
+                              <Input
+                                type="text"
+                                inputMode="decimal"
+                                value={usableYieldInput}
+                                onChange={(event) =>
+                                  setUsableYieldInput(event.target.value)
+                                }
+                                className="h-7 w-full px-2 py-1 text-[11px]"
+                                placeholder="100"
+                              />
+                            </div>
+                          )}
                         </div>
 
                         <div className="space-y-1">
@@ -7112,9 +7574,9 @@ export function InventoryManager() {
                           <div className="flex items-center gap-1.5">
                             <input
                               type="checkbox"
-                              checked={isPalmOilFreeInput}
+                              checked={effectiveDietFlags?.isPalmOilFree ?? isPalmOilFreeInput}
                               onChange={(e) =>
-                                setIsPalmOilFreeInput(e.target.checked)
+                                handleDietFlagChange("isPalmOilFree", e.target.checked)
                               }
                               id="check-palm"
                               className="h-3 w-3 rounded border-gray-300"
@@ -7124,9 +7586,9 @@ export function InventoryManager() {
                           <div className="flex items-center gap-1.5">
                             <input
                               type="checkbox"
-                              checked={isYeastFreeInput}
+                              checked={effectiveDietFlags?.isYeastFree ?? isYeastFreeInput}
                               onChange={(e) =>
-                                setIsYeastFreeInput(e.target.checked)
+                                handleDietFlagChange("isYeastFree", e.target.checked)
                               }
                               id="check-yeast"
                               className="h-3 w-3 rounded border-gray-300"
@@ -7136,9 +7598,9 @@ export function InventoryManager() {
                           <div className="flex items-center gap-1.5">
                             <input
                               type="checkbox"
-                              checked={isLactoseFreeInput}
+                              checked={effectiveDietFlags?.isLactoseFree ?? isLactoseFreeInput}
                               onChange={(e) =>
-                                setIsLactoseFreeInput(e.target.checked)
+                                handleDietFlagChange("isLactoseFree", e.target.checked)
                               }
                               id="check-lactose"
                               className="h-3 w-3 rounded border-gray-300"
@@ -7148,9 +7610,9 @@ export function InventoryManager() {
                           <div className="flex items-center gap-1.5">
                             <input
                               type="checkbox"
-                              checked={isGlutenFreeInput}
+                              checked={effectiveDietFlags?.isGlutenFree ?? isGlutenFreeInput}
                               onChange={(e) =>
-                                setIsGlutenFreeInput(e.target.checked)
+                                handleDietFlagChange("isGlutenFree", e.target.checked)
                               }
                               id="check-gluten"
                               className="h-3 w-3 rounded border-gray-300"
@@ -7158,6 +7620,44 @@ export function InventoryManager() {
                             <label htmlFor="check-gluten">Glutenfrei</label>
                           </div>
                         </div>
+                        {inheritedDietFlags && (
+                          <div className="space-y-1 text-[10px] text-muted-foreground">
+                            <div>
+                              Ernährungsmerkmale werden aus den Zutaten
+                              abgeleitet.
+                            </div>
+                            {DIET_FLAG_KEYS.map((key) => {
+                              const override = dietFlagOverridesInput[key];
+                              if (!override) {
+                                return null;
+                              }
+                              return (
+                                <div
+                                  key={key}
+                                  className="flex items-center justify-between gap-2 rounded bg-amber-50 px-2 py-1 text-amber-900"
+                                >
+                                  <span>
+                                    {DIET_FLAG_LABELS[key]} manuell{" "}
+                                    {override.value ? "gesetzt" : "entfernt"}:{" "}
+                                    {override.reason}
+                                  </span>
+                                  <button
+                                    type="button"
+                                    className="underline-offset-2 hover:underline"
+                                    onClick={() =>
+                                      handleDietFlagChange(
+                                        key,
+                                        inheritedDietFlags[key].value
+                                      )
+                                    }
+                                  >
+                                    Zurücksetzen
+                                  </button>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
 
 
 
@@ -7251,7 +7751,8 @@ export function InventoryManager() {
                             </span>
                           </div>
                         </div>
-                        {recipeCalculation?.hasMissingPrices && (
+                        {recipeCalculation?.hasMissingPrices &&
+                          recipeCalculation.unitIssues.length === 0 && (
                           <div className="mt-1 flex items-center gap-1 text-[11px] text-red-600">
                             <AlertTriangle className="h-3 w-3" />
                             <span>
@@ -7260,7 +7761,39 @@ export function InventoryManager() {
                             </span>
                           </div>
                         )}
+                        {recipeCalculation &&
+                          recipeCalculation.unitIssues.length > 0 && (
+                          <div className="mt-1 space-y-0.5 text-[11px] text-red-600">
+                            <div className="flex items-center gap-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              <span>
+                                Achtung: Einheiten passen nicht zum Gebinde.
+                                Diese Komponenten sind nicht kalkuliert:
+                              </span>
+                            </div>
+                            <ul className="ml-4 list-disc">
+                              {recipeCalculation.unitIssues.map((issue, index) => (
+                                <li key={`${issue.itemId}-${index}`}>
+                                  {issue.itemName}: „{issue.componentUnit}“ →
+                                  Gebinde „{issue.packUnit}“
+                                  {issue.status === "unknown-unit"
+                                    ? " (unbekannte Einheit)"
+                                    : issue.status === "invalid-quantity"
+                                    ? " (ungültige Menge)"
+                                    : " (nicht umrechenbar)"}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
                       </div>
+                      {scalingRootItem && (
+                        <RecipeScalingPanel
+                          rootItem={scalingRootItem}
+                          itemsById={itemsById}
+                          hasUnsavedChanges={isEditingComponents}
+                        />
+                      )}
                       <div className="flex items-center justify-between gap-2">
                         <h3 className="text-sm font-semibold">Zutaten</h3>
                         <Button
@@ -7280,6 +7813,15 @@ export function InventoryManager() {
                             : "Zutaten bearbeiten"}
                         </Button>
                       </div>
+                      {selectedItem.hasGhostComponents && !isEditingComponents && (
+                        <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+                          <AlertTriangle className="h-4 w-4 shrink-0" />
+                          <span>
+                            Mindestens eine Zutat dieses Rezepts wurde gelöscht.
+                            Über „Zutaten bearbeiten“ einen Ersatz auswählen.
+                          </span>
+                        </div>
+                      )}
                       {selectedItem.components &&
                       selectedItem.components.length > 0 ? (
                         <ComponentTree
@@ -7611,20 +8153,39 @@ export function InventoryManager() {
                                           <span>
                                             {component.quantity} {component.unit}
                                           </span>
-                                          <button
-                                            type="button"
-                                            className="underline"
-                                            onClick={() => {
-                                              setIsSwapMode(true);
-                                              setSwapGhostName(
-                                                component.deletedItemName ??
-                                                  ""
-                                              );
-                                              setComponentSearch("");
-                                            }}
-                                          >
-                                            Ersatz auswählen
-                                          </button>
+                                          {isSwapMode &&
+                                          swapGhostName ===
+                                            component.deletedItemName ? (
+                                            <button
+                                              type="button"
+                                              className="underline"
+                                              onClick={() => {
+                                                setIsSwapMode(false);
+                                                setSwapGhostName("");
+                                                setComponentSearch("");
+                                              }}
+                                            >
+                                              Ersatzsuche abbrechen
+                                            </button>
+                                          ) : (
+                                            <button
+                                              type="button"
+                                              className="underline"
+                                              onClick={() => {
+                                                setIsSwapMode(true);
+                                                setSwapGhostName(
+                                                  component.deletedItemName ??
+                                                    ""
+                                                );
+                                                setComponentSearch(
+                                                  component.deletedItemName ??
+                                                    ""
+                                                );
+                                              }}
+                                            >
+                                              Ersatz auswählen
+                                            </button>
+                                          )}
                                         </div>
                                       </div>
                                     )}
@@ -7657,6 +8218,22 @@ export function InventoryManager() {
                                       </Button>
                                     </div>
                                   )}
+                                  {!item && (
+                                    <Button
+                                      type="button"
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() =>
+                                        setEditingComponents((components) =>
+                                          components.filter(
+                                            (_, current) => current !== index
+                                          )
+                                        )
+                                      }
+                                    >
+                                      Entfernen
+                                    </Button>
+                                  )}
                                 </div>
                               );
                             })}
@@ -7718,6 +8295,49 @@ export function InventoryManager() {
                             }
                             className="w-full rounded-md border border-input bg-background px-2 py-1 text-[11px] text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
                           />
+                          <div className="text-[11px] text-muted-foreground">
+                            Kann Spuren enthalten von (kommagetrennt)
+                          </div>
+                          <textarea
+                            rows={1}
+                            value={proAllergenTracesInput}
+                            onChange={(event) =>
+                              setProAllergenTracesInput(event.target.value)
+                            }
+                            className="w-full rounded-md border border-input bg-background px-2 py-1 text-[11px] text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
+                          />
+                          {unmatchedAllergenInputs.length > 0 && (
+                            <div className="flex items-center gap-1 text-[10px] text-amber-700">
+                              <AlertTriangle className="h-3 w-3 shrink-0" />
+                              Kein LMIV-Allergen: {unmatchedAllergenInputs.join(", ")}
+                            </div>
+                          )}
+                        </div>
+                        <AdditiveSelect
+                          value={proAdditivesInput}
+                          onChange={setProAdditivesInput}
+                          ingredients={proIngredientsInput}
+                        />
+                        <div className="flex items-center gap-2">
+                          <label className="w-40 shrink-0 text-[11px] text-muted-foreground">
+                            Obst/Gemüse/Hülsenfrüchte (%)
+                          </label>
+                          <Input
+                            value={fruitVegetableShareInput}
+                            onChange={(event) =>
+                              setFruitVegetableShareInput(event.target.value)
+                            }
+                            className="h-7 w-24 px-2 py-1 text-[11px]"
+                            inputMode="decimal"
+                            placeholder={
+                              derivedFruitVegetableShare !== null
+                                ? `${Math.round(derivedFruitVegetableShare)} (aus Zutaten)`
+                                : "0"
+                            }
+                          />
+                          {selectedNutriScore && (
+                            <NutriScoreBadge result={selectedNutriScore} />
+                          )}
                         </div>
                       </div>
 
@@ -8356,6 +8976,10 @@ export function InventoryManager() {
                                   </div>
                                 </>
                               )}
+                              <NutritionLabelPanel
+                                title={nameInput.trim() || selectedItem.name}
+                                summary={nutritionSummary}
+                              />
                             </>
                           ) : (
                             <div className="text-[11px] text-muted-foreground">
@@ -8410,33 +9034,111 @@ export function InventoryManager() {
                             }
                             className="w-full rounded-md border border-input bg-background px-2 py-1 text-[11px] text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
                           />
+                          <div className="text-[11px] text-muted-foreground">
+                            Kann Spuren enthalten von (kommagetrennt)
+                          </div>
+                          <textarea
+                            rows={1}
+                            value={proAllergenTracesInput}
+                            onChange={(event) =>
+                              setProAllergenTracesInput(event.target.value)
+                            }
+                            className="w-full rounded-md border border-input bg-background px-2 py-1 text-[11px] text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
+                          />
+                          {unmatchedAllergenInputs.length > 0 && (
+                            <div className="flex items-center gap-1 text-[10px] text-amber-700">
+                              <AlertTriangle className="h-3 w-3 shrink-0" />
+                              Kein LMIV-Allergen: {unmatchedAllergenInputs.join(", ")}
+                            </div>
+                          )}
+                        </div>
+                        <AdditiveSelect
+                          value={proAdditivesInput}
+                          onChange={setProAdditivesInput}
+                          ingredients={proIngredientsInput}
+                        />
+                        <div className="flex items-center gap-2">
+                          <label className="w-40 shrink-0 text-[11px] text-muted-foreground">
+                            Obst/Gemüse/Hülsenfrüchte (%)
+                          </label>
+                          <Input
+                            value={fruitVegetableShareInput}
+                            onChange={(event) =>
+                              setFruitVegetableShareInput(event.target.value)
+                            }
+                            className="h-7 w-24 px-2 py-1 text-[11px]"
+                            inputMode="decimal"
+                            placeholder={
+                              derivedFruitVegetableShare !== null
+                                ? `${Math.round(derivedFruitVegetableShare)} (aus Zutaten)`
+                                : "0"
+                            }
+                          />
+                          {selectedNutriScore && (
+                            <NutriScoreBadge result={selectedNutriScore} />
+                          )}
                         </div>
                         <div className="space-y-1">
                           <div className="text-[11px] text-muted-foreground">
-                            Ergiebigkeit / Gebinde
+                            Ergiebigkeit / Gebinde (g)
                           </div>
-                          <textarea
-                            rows={2}
+                          <Input
+                            type="text"
+                            inputMode="decimal"
                             value={proYieldWeightInput}
                             onChange={(event) =>
                               setProYieldWeightInput(event.target.value)
                             }
-                            className="w-full rounded-md border border-input bg-background px-2 py-1 text-[11px] text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
+                            className="h-7 w-full px-2 py-1 text-[11px]"
                           />
                         </div>
                         <div className="space-y-1">
                           <div className="text-[11px] text-muted-foreground">
-                              Volumen-Ergiebigkeit
-                            </div>
-                          <textarea
-                            rows={2}
+                            Volumen-Ergiebigkeit (ml)
+                          </div>
+                          <Input
+                            type="text"
+                            inputMode="decimal"
                             value={proYieldVolumeInput}
                             onChange={(event) =>
                               setProYieldVolumeInput(event.target.value)
                             }
-                            className="w-full rounded-md border border-input bg-background px-2 py-1 text-[11px] text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
+                            className="h-7 w-full px-2 py-1 text-[11px]"
                           />
                         </div>
+                        {selectedItem.type === "eigenproduktion" ? (
+                          <div className="space-y-1">
+                            <div className="text-[11px] text-muted-foreground">
+                              Garfaktor (gegart / roh)
+                            </div>
+                            <Input
+                              type="text"
+                              inputMode="decimal"
+                              value={cookingFactorInput}
+                              onChange={(event) =>
+                                setCookingFactorInput(event.target.value)
+                              }
+                              className="h-7 w-full px-2 py-1 text-[11px]"
+                              placeholder="1"
+                            />
+                          </div>
+                        ) : (
+                          <div className="space-y-1">
+                            <div className="text-[11px] text-muted-foreground">
+                              Nutzbare Ausbeute (%)
+                            </div>
+                            <Input
+                              type="text"
+                              inputMode="decimal"
+                              value={usableYieldInput}
+                              onChange={(event) =>
+                                setUsableYieldInput(event.target.value)
+                              }
+                              className="h-7 w-full px-2 py-1 text-[11px]"
+                              placeholder="100"
+                            />
+                          </div>
+                        )}
                       </div>
                       <div className="space-y-2">
                         <div className="space-y-1">
@@ -8832,6 +9534,16 @@ export function InventoryManager() {
               )}
             </CardContent>
           </Card>
+          {activeSection === "rezepte" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Speisekarten-Fußnoten</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <MenuFootnotes recipes={menuFootnoteRecipes} />
+              </CardContent>
+            </Card>
+          )}
             </>
           )}
         </div>
@@ -8862,6 +9574,16 @@ export function InventoryManager() {
           </div>
         </div>
       ) : null}
+      {saveConflict ? (
+        <ItemConflictDialog
+          itemName={saveConflict.serverItem.name}
+          fields={saveConflict.fields}
+          isSaving={isResolvingConflict}
+          onKeepMine={handleKeepMyChanges}
+          onTakeServer={handleTakeServerVersion}
+          onCancel={() => setSaveConflict(null)}
+        />
+      ) : null}
     </div>
   );
 }
@@ -9015,6 +9737,12 @@ function ComponentTree({ rootItem, itemsById, onSelectItem }: ComponentTreeProps
                     {displayName}
                   </button>
                   {item && <TypeBadge type={item.type} />}
+                  {!item && component.deletedItemName && (
+                    <span className="inline-flex items-center gap-1 text-[10px] text-red-600">
+                      <AlertTriangle className="h-3 w-3" />
+                      entfernt
+                    </span>
+                  )}
                   {linkedRecipe && onSelectItem && (
                     <button
                       type="button"
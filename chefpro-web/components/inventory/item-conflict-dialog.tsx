@@ -0,0 +1,239 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+export type ConflictField = {
+  field: string;
+  label: string;
+  mine: string;
+  server: string;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  unit: "Einheit",
+  purchasePrice: "Einkaufspreis",
+  brand: "Marke",
+  currency: "Währung",
+  manufacturerArticleNumber: "Hersteller-Art.-Nr.",
+  ean: "EAN",
+  allergens: "Allergene",
+  allergenTraces: "Spuren von Allergenen",
+  additives: "Zusatzstoffe",
+  ingredients: "Zutaten",
+  dosageInstructions: "Dosierung",
+  yieldInfo: "Ausbeute",
+  yieldWeightGrams: "Ergiebigkeit (g)",
+  yieldVolumeMl: "Ergiebigkeit (ml)",
+  usableYieldPercent: "Nutzbare Ausbeute",
+  cookingFactor: "Garfaktor",
+  preparationSteps: "Zubereitung",
+  targetPortions: "Portionen",
+  targetSalesPrice: "Verkaufspreis",
+  storageArea: "Lagerbereich",
+  parLevel: "Sollbestand",
+  reorderQuantity: "Bestellmenge",
+  warengruppe: "Warengruppe",
+  category: "Kategorie",
+  portionUnit: "Portionseinheit",
+  nutritionTags: "Ernährungs-Tags",
+  nutritionPerUnit: "Nährwerte",
+  standardPreparation: "Standard-Zubereitung",
+  isBio: "Bio",
+  isDeklarationsfrei: "Deklarationsfrei",
+  isAllergenfrei: "Allergenfrei",
+  isCookChill: "Cook & Chill",
+  isFreezeThawStable: "Gefrier-/Taustabil",
+  isPalmOilFree: "Palmölfrei",
+  isYeastFree: "Hefefrei",
+  isLactoseFree: "Laktosefrei",
+  isGlutenFree: "Glutenfrei",
+  isVegan: "Vegan",
+  isVegetarian: "Vegetarisch",
+  isFairtrade: "Fairtrade",
+  isPowder: "Pulver",
+  isGranulate: "Granulat",
+  isPaste: "Paste",
+  isLiquid: "Flüssig",
+  dietFlagOverrides: "Manuelle Ernährungsmerkmale",
+  fruitVegetableShare: "Obst-/Gemüseanteil",
+  deviceSettings: "Geräteeinstellungen",
+  imageUrl: "Bild",
+  packshotX: "Packshot-Ausschnitt",
+  packshotY: "Packshot-Ausschnitt",
+  packshotZoom: "Packshot-Zoom",
+  components: "Zutaten der Rezeptur",
+};
+
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0 ? null : value.map(normalizeValue);
+  }
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .map(([key, entry]) => [key, normalizeValue(entry)] as const)
+      .filter(([, entry]) => entry !== null)
+      .sort(([first], [second]) => first.localeCompare(second));
+    return entries.length === 0 ? null : Object.fromEntries(entries);
+  }
+  return value;
+}
+
+function isSameValue(first: unknown, second: unknown) {
+  return (
+    JSON.stringify(normalizeValue(first)) ===
+    JSON.stringify(normalizeValue(second))
+  );
+}
+
+function formatValue(field: string, value: unknown): string {
+  const normalized = normalizeValue(value);
+  if (normalized === null) {
+    return "–";
+  }
+  if (typeof normalized === "boolean") {
+    return normalized ? "Ja" : "Nein";
+  }
+  if (field === "components" && Array.isArray(normalized)) {
+    return `${normalized.length} Zutat(en)`;
+  }
+  if (Array.isArray(normalized)) {
+    return normalized
+      .map((entry) =>
+        typeof entry === "object" ? JSON.stringify(entry) : String(entry)
+      )
+      .join(", ");
+  }
+  if (typeof normalized === "object") {
+    return JSON.stringify(normalized);
+  }
+  return String(normalized);
+}
+
+/**
+ * Lists the fields of a save request that someone else changed on the
+ * server since `baseItem` was loaded.
+ */
+export function getConflictingFields(
+  body: Record<string, unknown>,
+  baseItem: Record<string, unknown>,
+  serverItem: Record<string, unknown>
+): ConflictField[] {
+  const fields: ConflictField[] = [];
+
+  for (const [field, mine] of Object.entries(body)) {
+    if (field === "id" || field === "expectedVersion" || mine === undefined) {
+      continue;
+    }
+    if (isSameValue(baseItem[field], serverItem[field])) {
+      continue;
+    }
+    fields.push({
+      field,
+      label: FIELD_LABELS[field] ?? field,
+      mine: formatValue(field, mine),
+      server: formatValue(field, serverItem[field]),
+    });
+  }
+
+  return fields;
+}
+
+type ItemConflictDialogProps = {
+  itemName: string;
+  fields: ConflictField[];
+  isSaving: boolean;
+  onKeepMine: () => void;
+  onTakeServer: () => void;
+  onCancel: () => void;
+};
+
+export function ItemConflictDialog({
+  itemName,
+  fields,
+  isSaving,
+  onKeepMine,
+  onTakeServer,
+  onCancel,
+}: ItemConflictDialogProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4">
+      <div className="w-full max-w-2xl rounded-lg bg-white shadow-xl">
+        <div className="flex items-start gap-3 border-b border-[#E5E7EB] px-5 py-4">
+          <AlertTriangle className="mt-0.5 h-5 w-5 shrink-0 text-amber-500" />
+          <div>
+            <h2 className="text-base font-semibold text-[#1F2326]">
+              Bearbeitungskonflikt
+            </h2>
+            <p className="text-xs text-[#6B7176]">
+              „{itemName}“ wurde zwischenzeitlich von jemand anderem
+              gespeichert. Folgende Felder wurden dort geändert:
+            </p>
+          </div>
+        </div>
+        <div className="max-h-[50vh] overflow-y-auto px-5 py-3">
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr className="text-[#6B7176]">
+                <th className="py-1 pr-3 font-medium">Feld</th>
+                <th className="py-1 pr-3 font-medium">Ihre Änderung</th>
+                <th className="py-1 font-medium">Aktueller Stand</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map((field) => (
+                <tr
+                  key={field.field}
+                  className="border-t border-[#E5E7EB] align-top"
+                >
+                  <td className="py-1.5 pr-3 font-medium text-[#1F2326]">
+                    {field.label}
+                  </td>
+                  <td className="py-1.5 pr-3 break-words text-[#1F2326]">
+                    {field.mine}
+                  </td>
+                  <td className="py-1.5 break-words text-amber-700">
+                    {field.server}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex justify-end gap-2 border-t border-[#E5E7EB] px-5 py-3">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={onCancel}
+            disabled={isSaving}
+          >
+            Abbrechen
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={onTakeServer}
+            disabled={isSaving}
+          >
+            Aktuellen Stand laden
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            className="bg-[#4F8F4E] text-white hover:bg-[#3d7a3c]"
+            onClick={onKeepMine}
+            disabled={isSaving}
+          >
+            {isSaving ? "Speichern..." : "Meine Änderungen speichern"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
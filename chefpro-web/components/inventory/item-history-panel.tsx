@@ -0,0 +1,285 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { History, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  ITEM_REVISION_ACTION_LABELS,
+  diffItemSnapshots,
+  type ItemRevision,
+} from "@/lib/item-revisions";
+
+type ItemHistoryPanelProps = {
+  itemId: string;
+  itemVersion?: number;
+  getItemName: (itemId: string) => string | undefined;
+  onRestored: (itemId: string) => void;
+};
+
+function formatRevisionDate(value: string) {
+  return new Date(value).toLocaleString("de-DE", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export function ItemHistoryPanel({
+  itemId,
+  itemVersion,
+  getItemName,
+  onRestored,
+}: ItemHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<ItemRevision[]>([]);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(
+    null
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const response = await fetch(
+          `/api/item-history?itemId=${encodeURIComponent(itemId)}`
+        );
+        const payload = (await response.json()) as {
+          error?: unknown;
+          revisions?: ItemRevision[];
+        };
+        if (!response.ok) {
+          let message = "Fehler beim Laden der Historie.";
+          if (payload && typeof payload.error === "string") {
+            message = payload.error;
+          }
+          throw new Error(message);
+        }
+        if (!cancelled) {
+          const loaded = payload.revisions ?? [];
+          setRevisions(loaded);
+          setSelectedRevisionId(loaded[0]?.id ?? null);
+        }
+      } catch (loadError) {
+        if (!cancelled) {
+          setError(
+            loadError instanceof Error
+              ? loadError.message
+              : "Fehler beim Laden der Historie."
+          );
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, itemVersion]);
+
+  const selectedIndex = revisions.findIndex(
+    (revision) => revision.id === selectedRevisionId
+  );
+  const selectedRevision =
+    selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  // Revisions are sorted newest first, so the one before is the next entry
+  const previousRevision =
+    selectedIndex >= 0 ? revisions[selectedIndex + 1] ?? null : null;
+
+  const changes = useMemo(() => {
+    if (!selectedRevision || !previousRevision) {
+      return [];
+    }
+    return diffItemSnapshots(
+      previousRevision.snapshot,
+      selectedRevision.snapshot,
+      getItemName
+    );
+  }, [selectedRevision, previousRevision, getItemName]);
+
+  async function handleRestore() {
+    if (!selectedRevision) {
+      return;
+    }
+    if (
+      !window.confirm(
+        `Soll der Stand vom ${formatRevisionDate(
+          selectedRevision.createdAt
+        )} wiederhergestellt werden?`
+      )
+    ) {
+      return;
+    }
+    try {
+      setIsRestoring(true);
+      setError(null);
+      const response = await fetch("/api/item-history", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          revisionId: selectedRevision.id,
+          expectedVersion: itemVersion,
+        }),
+      });
+      const payload = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        let message = "Fehler beim Wiederherstellen.";
+        if (payload && typeof payload.error === "string") {
+          message = payload.error;
+        }
+        throw new Error(message);
+      }
+      onRestored(itemId);
+    } catch (restoreError) {
+      setError(
+        restoreError instanceof Error
+          ? restoreError.message
+          : "Fehler beim Wiederherstellen."
+      );
+    } finally {
+      setIsRestoring(false);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="py-6 text-center text-xs text-muted-foreground">
+        Historie wird geladen...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-xs">
+      {error && (
+        <div className="rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 text-destructive">
+          {error}
+        </div>
+      )}
+      {revisions.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 py-6 text-muted-foreground">
+          <History className="h-5 w-5" />
+          <span>Für diesen Artikel sind noch keine Änderungen erfasst.</span>
+        </div>
+      ) : (
+        <div className="grid gap-3 md:grid-cols-[220px_1fr]">
+          <ul className="space-y-1">
+            {revisions.map((revision, index) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  className={cn(
+                    "w-full rounded-md border px-2 py-1.5 text-left transition-colors",
+                    revision.id === selectedRevisionId
+                      ? "border-[#4F8F4E] bg-[#4F8F4E]/5"
+                      : "border-[#E5E7EB] hover:bg-muted/40"
+                  )}
+                  onClick={() => setSelectedRevisionId(revision.id)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-[#1F2326]">
+                      {ITEM_REVISION_ACTION_LABELS[revision.action]}
+                    </span>
+                    {index === 0 && (
+                      <Badge variant="outline" className="text-[10px]">
+                        Aktuell
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-[11px] text-muted-foreground">
+                    {formatRevisionDate(revision.createdAt)}
+                  </div>
+                  <div className="truncate text-[11px] text-muted-foreground">
+                    {revision.changedByEmail ?? "Unbekannt"}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {selectedRevision && (
+            <div className="space-y-3 rounded-md border border-[#E5E7EB] p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <div className="font-semibold text-[#1F2326]">
+                    {ITEM_REVISION_ACTION_LABELS[selectedRevision.action]} am{" "}
+                    {formatRevisionDate(selectedRevision.createdAt)}
+                  </div>
+                  <div className="text-[11px] text-muted-foreground">
+                    {selectedRevision.changedByEmail ?? "Unbekannt"}
+                    {selectedRevision.itemVersion != null &&
+                      ` · Version ${selectedRevision.itemVersion}`}
+                  </div>
+                </div>
+                {selectedIndex > 0 && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRestore}
+                    disabled={isRestoring}
+                  >
+                    <RotateCcw className="mr-1 h-3.5 w-3.5" />
+                    {isRestoring
+                      ? "Wird wiederhergestellt..."
+                      : "Diese Version wiederherstellen"}
+                  </Button>
+                )}
+              </div>
+              {!previousRevision ? (
+                <div className="text-muted-foreground">
+                  Erste erfasste Version, es gibt keinen älteren Stand zum
+                  Vergleich.
+                </div>
+              ) : changes.length === 0 ? (
+                <div className="text-muted-foreground">
+                  Keine inhaltlichen Änderungen gegenüber der vorherigen
+                  Version.
+                </div>
+              ) : (
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="text-muted-foreground">
+                      <th className="py-1 pr-3 font-medium">Feld</th>
+                      <th className="py-1 pr-3 font-medium">Vorher</th>
+                      <th className="py-1 font-medium">Nachher</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map((change) => (
+                      <tr
+                        key={change.field}
+                        className="border-t border-[#E5E7EB] align-top"
+                      >
+                        <td className="py-1.5 pr-3 font-medium text-[#1F2326]">
+                          {change.label}
+                        </td>
+                        <td className="py-1.5 pr-3 break-words text-red-700 line-through decoration-red-300">
+                          {change.before}
+                        </td>
+                        <td className="py-1.5 break-words text-emerald-700">
+                          {change.after}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { AdditiveLegend } from "@/lib/additives";
+
+type MenuFootnotesProps = {
+  recipes: { id: string; name: string }[];
+};
+
+function formatLegendText(legend: AdditiveLegend) {
+  const lines = legend.recipes.map((recipe) =>
+    recipe.footnotes.length > 0
+      ? `${recipe.name} (${recipe.footnotes.join(",")})`
+      : recipe.name
+  );
+  if (legend.legend.length > 0) {
+    lines.push(
+      "",
+      legend.legend
+        .map((entry) => `${entry.footnote} ${entry.label}`)
+        .join(", ")
+    );
+  }
+  return lines.join("\n");
+}
+
+export function MenuFootnotes({ recipes }: MenuFootnotesProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [legend, setLegend] = useState<AdditiveLegend | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function handleToggle(recipeId: string, checked: boolean) {
+    setLegend(null);
+    setSelectedIds((current) =>
+      checked
+        ? [...current, recipeId]
+        : current.filter((id) => id !== recipeId)
+    );
+  }
+
+  async function handleGenerate() {
+    if (selectedIds.length === 0) {
+      return;
+    }
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch(
+        `/api/additive-legend?itemIds=${selectedIds
+          .map((id) => encodeURIComponent(id))
+          .join(",")}`
+      );
+      const payload = (await response.json()) as AdditiveLegend & {
+        error?: unknown;
+      };
+      if (!response.ok) {
+        let message = "Fehler beim Erstellen der Fußnoten.";
+        if (payload && typeof payload.error === "string") {
+          message = payload.error;
+        }
+        throw new Error(message);
+      }
+      setLegend({ recipes: payload.recipes, legend: payload.legend });
+    } catch (generateError) {
+      setError(
+        generateError instanceof Error
+          ? generateError.message
+          : "Fehler beim Erstellen der Fußnoten."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleCopy() {
+    if (!legend) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(formatLegendText(legend));
+    } catch {
+      setError("Text konnte nicht kopiert werden.");
+    }
+  }
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="max-h-48 space-y-1 overflow-y-auto rounded-md border border-[#E5E7EB] p-2">
+        {recipes.length === 0 ? (
+          <div className="text-[#6B7176]">Noch keine Rezepte vorhanden.</div>
+        ) : (
+          recipes.map((recipe) => (
+            <label key={recipe.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                className="h-3 w-3 rounded border-input"
+                checked={selectedIds.includes(recipe.id)}
+                onChange={(event) =>
+                  handleToggle(recipe.id, event.target.checked)
+                }
+              />
+              <span>{recipe.name}</span>
+            </label>
+          ))
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleGenerate}
+          disabled={selectedIds.length === 0 || isLoading}
+        >
+          {isLoading && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+          Fußnoten erstellen
+        </Button>
+        {legend && (
+          <Button type="button" size="sm" variant="outline" onClick={handleCopy}>
+            <Copy className="mr-1 h-3.5 w-3.5" />
+            Kopieren
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 text-destructive">
+          {error}
+        </div>
+      )}
+
+      {legend && (
+        <div className="space-y-2 rounded-md border border-[#E5E7EB] p-3">
+          <div className="space-y-1">
+            {legend.recipes.map((recipe) => (
+              <div key={recipe.id}>
+                <span className="font-medium">{recipe.name}</span>
+                {recipe.footnotes.length > 0 && (
+                  <sup className="ml-0.5">{recipe.footnotes.join(",")}</sup>
+                )}
+              </div>
+            ))}
+          </div>
+          {legend.legend.length === 0 ? (
+            <div className="text-[#6B7176]">
+              Keine kennzeichnungspflichtigen Zusatzstoffe.
+            </div>
+          ) : (
+            <div className="border-t pt-2 text-[#6B7176]">
+              {legend.legend
+                .map((entry) => `${entry.footnote} ${entry.label}`)
+                .join(", ")}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { cn } from "@/lib/utils";
+import {
+  NUTRI_SCORE_COLORS,
+  type NutriScoreGrade,
+  type NutriScoreResult,
+} from "@/lib/nutri-score";
+
+const GRADES: NutriScoreGrade[] = ["A", "B", "C", "D", "E"];
+
+type NutriScoreBadgeProps = {
+  result: NutriScoreResult;
+  // The compact badge shows the grade only, the full one all five letters
+  size?: "compact" | "full";
+  className?: string;
+};
+
+export function NutriScoreBadge({
+  result,
+  size = "compact",
+  className,
+}: NutriScoreBadgeProps) {
+  const title = `Nutri-Score ${result.grade} (${result.score} Punkte, Obst/Gemüse/Hülsenfrüchte ${Math.round(
+    result.fruitVegetableShare
+  )} %)`;
+
+  if (size === "compact") {
+    return (
+      <span
+        title={title}
+        className={cn(
+          "inline-flex h-4 w-4 shrink-0 items-center justify-center rounded-sm text-[9px] font-bold text-white",
+          className
+        )}
+        style={{ backgroundColor: NUTRI_SCORE_COLORS[result.grade] }}
+      >
+        {result.grade}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      title={title}
+      className={cn(
+        "inline-flex items-center gap-0.5 rounded-md bg-white p-0.5 shadow-sm",
+        className
+      )}
+    >
+      {GRADES.map((grade) => (
+        <span
+          key={grade}
+          className={cn(
+            "inline-flex items-center justify-center rounded-sm font-bold text-white",
+            grade === result.grade
+              ? "h-6 w-6 text-sm"
+              : "h-4 w-4 text-[9px] opacity-60"
+          )}
+          style={{ backgroundColor: NUTRI_SCORE_COLORS[grade] }}
+        >
+          {grade}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useMemo } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { RecipeNutritionSummary } from "@/lib/recipe-calculation";
+import {
+  buildNutritionLabel,
+  NUTRITION_LABEL_FORMATS,
+  renderNutritionLabel,
+  type NutritionLabelFormat,
+} from "@/lib/nutrition-label";
+
+type NutritionLabelPanelProps = {
+  title: string;
+  summary: RecipeNutritionSummary;
+};
+
+// Rendered from the values on screen, so unsaved changes are included
+export function NutritionLabelPanel({ title, summary }: NutritionLabelPanelProps) {
+  const label = useMemo(
+    () => buildNutritionLabel(title, summary),
+    [summary, title]
+  );
+
+  if (!label) {
+    return null;
+  }
+
+  function handleDownload(format: NutritionLabelFormat) {
+    if (!label) {
+      return;
+    }
+    const { body, contentType } = renderNutritionLabel(label, format);
+    const blob = new Blob([body as BlobPart], { type: contentType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `naehrwerte-${title
+      .toLowerCase()
+      .replace(/[^a-z0-9äöüß]+/g, "-")
+      .replace(/^-|-$/g, "")}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="space-y-2 border-t pt-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[11px] font-semibold">
+          Nährwertkennzeichnung (LMIV)
+        </span>
+        <div className="flex gap-1">
+          {NUTRITION_LABEL_FORMATS.map((format) => (
+            <Button
+              key={format}
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-6 px-2 text-[10px]"
+              onClick={() => handleDownload(format)}
+            >
+              <Download className="mr-1 h-3 w-3" />
+              {format.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <table className="w-full border-collapse border-2 border-[#1F2326] bg-background text-[11px]">
+        <thead>
+          <tr className="border-b-2 border-[#1F2326]">
+            <th className="px-2 py-1 text-left">Nährwerte</th>
+            <th className="px-2 py-1 text-right">{label.per100gHeading}</th>
+            {label.perPortionHeading && (
+              <th className="px-2 py-1 text-right">
+                {label.perPortionHeading}
+              </th>
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {label.rows.map((row) => (
+            <tr key={row.key} className="border-b border-[#1F2326]/40">
+              <td className={cn("px-2 py-1", row.isSubRow && "pl-5")}>
+                {row.label}
+              </td>
+              <td className="px-2 py-1 text-right tabular-nums">
+                {row.per100g}
+              </td>
+              {row.perPortion !== null && (
+                <td className="px-2 py-1 text-right tabular-nums">
+                  {row.perPortion}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { PriceHistoryEntry } from "@/lib/price-history";
+
+type PriceHistoryChartProps = {
+  itemId: string;
+  itemVersion?: number;
+  unit: string;
+  currency?: string;
+};
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 8;
+
+function formatPrice(value: number, currency: string) {
+  return `${value.toFixed(2)} ${currency === "EUR" ? "€" : currency}`;
+}
+
+function formatDate(value: string | number) {
+  return new Date(value).toLocaleDateString("de-DE");
+}
+
+export function PriceHistoryChart({
+  itemId,
+  itemVersion,
+  unit,
+  currency = "EUR",
+}: PriceHistoryChartProps) {
+  const [entries, setEntries] = useState<PriceHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const response = await fetch(
+          `/api/price-history?itemId=${encodeURIComponent(itemId)}`
+        );
+        const payload = (await response.json()) as {
+          error?: unknown;
+          entries?: PriceHistoryEntry[];
+        };
+        if (!response.ok) {
+          let message = "Fehler beim Laden des Preisverlaufs.";
+          if (payload && typeof payload.error === "string") {
+            message = payload.error;
+          }
+          throw new Error(message);
+        }
+        if (!cancelled) {
+          setEntries(payload.entries ?? []);
+        }
+      } catch (loadError) {
+        if (!cancelled) {
+          setError(
+            loadError instanceof Error
+              ? loadError.message
+              : "Fehler beim Laden des Preisverlaufs."
+          );
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, itemVersion]);
+
+  const points = useMemo(
+    () =>
+      entries
+        .filter((entry) => entry.purchasePrice !== null)
+        .map((entry) => ({
+          time: new Date(entry.changedAt).getTime(),
+          price: entry.purchasePrice as number,
+        })),
+    [entries]
+  );
+
+  const chart = useMemo(() => {
+    if (points.length === 0) {
+      return null;
+    }
+    // The last price is still in effect, so the line runs until today
+    const now = Date.now();
+    const minTime = points[0].time;
+    const maxTime = Math.max(now, points[points.length - 1].time);
+    const prices = points.map((point) => point.price);
+    const minPrice = Math.min(...prices);
+    const maxPrice = Math.max(...prices);
+    const timeRange = maxTime - minTime || 1;
+    const priceRange = maxPrice - minPrice || 1;
+
+    const x = (time: number) =>
+      CHART_PADDING +
+      ((time - minTime) / timeRange) * (CHART_WIDTH - CHART_PADDING * 2);
+    const y = (price: number) =>
+      maxPrice === minPrice
+        ? CHART_HEIGHT / 2
+        : CHART_HEIGHT -
+          CHART_PADDING -
+          ((price - minPrice) / priceRange) *
+            (CHART_HEIGHT - CHART_PADDING * 2);
+
+    let path = `M ${x(points[0].time)} ${y(points[0].price)}`;
+    for (let index = 1; index < points.length; index += 1) {
+      path += ` H ${x(points[index].time)} V ${y(points[index].price)}`;
+    }
+    path += ` H ${x(maxTime)}`;
+
+    return {
+      path,
+      dots: points.map((point) => ({
+        cx: x(point.time),
+        cy: y(point.price),
+        ...point,
+      })),
+      minPrice,
+      maxPrice,
+      minTime,
+      maxTime,
+    };
+  }, [points]);
+
+  const firstPrice = points[0]?.price;
+  const lastPrice = points[points.length - 1]?.price;
+  const changePercent =
+    firstPrice && lastPrice !== undefined
+      ? Math.round(((lastPrice - firstPrice) / firstPrice) * 1000) / 10
+      : null;
+
+  return (
+    <div className="space-y-2 rounded-md border border-[#E5E7EB] p-3 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-[#1F2326]">
+          Preisverlauf (je {unit})
+        </span>
+        {changePercent !== null && points.length > 1 && (
+          <span
+            className={
+              changePercent > 0
+                ? "text-red-600"
+                : changePercent < 0
+                ? "text-emerald-700"
+                : "text-[#6B7176]"
+            }
+          >
+            {changePercent > 0 ? "+" : ""}
+            {changePercent.toLocaleString("de-DE")} % seit{" "}
+            {formatDate(points[0].time)}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 text-destructive">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-[#6B7176]">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Preisverlauf wird geladen...
+        </div>
+      ) : !chart ? (
+        <div className="text-[#6B7176]">Noch keine Preisänderungen erfasst.</div>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            className="h-32 w-full"
+            role="img"
+            aria-label="Preisverlauf"
+          >
+            <path
+              d={chart.path}
+              fill="none"
+              stroke="#4F8F4E"
+              strokeWidth={2}
+            />
+            {chart.dots.map((dot) => (
+              <circle
+                key={dot.time}
+                cx={dot.cx}
+                cy={dot.cy}
+                r={3}
+                fill="#4F8F4E"
+              >
+                <title>
+                  {formatDate(dot.time)}: {formatPrice(dot.price, currency)}
+                </title>
+              </circle>
+            ))}
+          </svg>
+          <div className="flex justify-between text-[10px] text-[#6B7176]">
+            <span>{formatDate(chart.minTime)}</span>
+            <span>
+              {formatPrice(chart.minPrice, currency)} –{" "}
+              {formatPrice(chart.maxPrice, currency)}
+            </span>
+            <span>{formatDate(chart.maxTime)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
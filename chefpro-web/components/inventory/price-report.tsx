@@ -0,0 +1,187 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { AlertTriangle, Loader2, TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { RecipeCostChange } from "@/lib/price-history";
+
+function formatEuro(value: number) {
+  return `${value.toFixed(2)} €`;
+}
+
+function toDateInputValue(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function getDefaultFromDate() {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - 1);
+  return toDateInputValue(date);
+}
+
+export function PriceReport() {
+  const [fromInput, setFromInput] = useState(getDefaultFromDate);
+  const [toInput, setToInput] = useState(() => toDateInputValue(new Date()));
+  const [recipes, setRecipes] = useState<RecipeCostChange[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    try {
+      setIsLoading(true);
+      setError(null);
+      const params = new URLSearchParams({ from: fromInput, to: toInput });
+      const response = await fetch(`/api/price-report?${params.toString()}`);
+      const payload = (await response.json()) as {
+        error?: unknown;
+        recipes?: RecipeCostChange[];
+      };
+      if (!response.ok) {
+        let message = "Fehler beim Berechnen des Preisberichts.";
+        if (payload && typeof payload.error === "string") {
+          message = payload.error;
+        }
+        throw new Error(message);
+      }
+      setRecipes(payload.recipes ?? []);
+    } catch (reportError) {
+      setError(
+        reportError instanceof Error
+          ? reportError.message
+          : "Fehler beim Berechnen des Preisberichts."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Card className="border-none bg-white shadow-sm">
+      <CardHeader className="border-b border-[#E5E7EB] px-4 py-3">
+        <CardTitle className="flex items-center gap-2 text-base text-[#1F2326]">
+          <TrendingUp className="h-4 w-4" />
+          Wareneinsatz-Entwicklung
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Rezeptkosten zu zwei Stichtagen aus dem Preisverlauf der Zutaten
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 p-4 text-xs">
+        <form
+          className="flex flex-wrap items-end gap-2"
+          onSubmit={handleSubmit}
+        >
+          <div className="grid gap-1">
+            <label className="font-medium text-[#1F2326]">Von</label>
+            <Input
+              type="date"
+              value={fromInput}
+              onChange={(event) => setFromInput(event.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="grid gap-1">
+            <label className="font-medium text-[#1F2326]">Bis</label>
+            <Input
+              type="date"
+              value={toInput}
+              onChange={(event) => setToInput(event.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+          <Button
+            type="submit"
+            size="sm"
+            className="h-8 bg-[#4F8F4E] text-white hover:bg-[#3d7a3c]"
+            disabled={isLoading || !fromInput || !toInput}
+          >
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              "Vergleichen"
+            )}
+          </Button>
+        </form>
+
+        {error && (
+          <div className="rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 text-destructive">
+            {error}
+          </div>
+        )}
+
+        {recipes && recipes.length === 0 && (
+          <div className="rounded-md border border-dashed px-3 py-6 text-center text-[#6B7176]">
+            Keine Rezepte vorhanden.
+          </div>
+        )}
+
+        {recipes && recipes.length > 0 && (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-[#6B7176]">
+                <th className="py-1 font-medium">Rezept</th>
+                <th className="py-1 text-right font-medium">Kosten Von</th>
+                <th className="py-1 text-right font-medium">Kosten Bis</th>
+                <th className="py-1 text-right font-medium">Differenz</th>
+                <th className="py-1 text-right font-medium">%</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recipes.map((recipe) => (
+                <tr key={recipe.recipeId} className="border-t border-[#E5E7EB]">
+                  <td className="py-1 text-[#1F2326]">
+                    <div className="flex items-center gap-1">
+                      {recipe.recipeName}
+                      {recipe.hasMissingPrices && (
+                        <span title="Unvollständig: Preise oder Einheiten fehlen">
+                          <AlertTriangle className="h-3 w-3 text-amber-500" />
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="py-1 text-right tabular-nums">
+                    {formatEuro(recipe.fromCost)}
+                  </td>
+                  <td className="py-1 text-right tabular-nums">
+                    {formatEuro(recipe.toCost)}
+                  </td>
+                  <td
+                    className={cn(
+                      "py-1 text-right tabular-nums",
+                      recipe.difference > 0 && "text-red-600",
+                      recipe.difference < 0 && "text-emerald-700"
+                    )}
+                  >
+                    {recipe.difference > 0 ? "+" : ""}
+                    {formatEuro(recipe.difference)}
+                  </td>
+                  <td
+                    className={cn(
+                      "py-1 text-right tabular-nums",
+                      recipe.difference > 0 && "text-red-600",
+                      recipe.difference < 0 && "text-emerald-700"
+                    )}
+                  >
+                    {recipe.changePercent === null
+                      ? "–"
+                      : `${recipe.changePercent > 0 ? "+" : ""}${recipe.changePercent.toLocaleString("de-DE")} %`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
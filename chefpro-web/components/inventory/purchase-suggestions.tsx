@@ -0,0 +1,253 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Download, ShoppingCart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  computePurchaseSuggestions,
+  formatOrderListCsv,
+  type PlannedProduction,
+  type PurchaseItem,
+} from "@/lib/purchase-suggestions";
+import type { Supplier } from "@/lib/suppliers";
+
+type PurchaseSuggestionsProps = {
+  items: (PurchaseItem & { type?: string })[];
+};
+
+function formatEuro(value: number) {
+  return `${value.toFixed(2)} €`;
+}
+
+function formatQuantity(value: number) {
+  return value.toLocaleString("de-DE", { maximumFractionDigits: 3 });
+}
+
+export function PurchaseSuggestions({ items }: PurchaseSuggestionsProps) {
+  const [batchDrafts, setBatchDrafts] = useState<Record<string, string>>({});
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierError, setSupplierError] = useState<string | null>(null);
+
+  // Suggestions are grouped by the preferred supplier of each item
+  useEffect(() => {
+    async function loadSuppliers() {
+      try {
+        const response = await fetch("/api/suppliers");
+        const payload = (await response.json()) as {
+          error?: unknown;
+          suppliers?: Supplier[];
+        };
+        if (!response.ok) {
+          let message = "Fehler beim Laden der Lieferanten.";
+          if (payload && typeof payload.error === "string") {
+            message = payload.error;
+          }
+          throw new Error(message);
+        }
+        setSuppliers(payload.suppliers ?? []);
+      } catch (loadError) {
+        setSupplierError(
+          loadError instanceof Error
+            ? loadError.message
+            : "Fehler beim Laden der Lieferanten."
+        );
+      }
+    }
+    loadSuppliers();
+  }, []);
+
+  const supplierNames = useMemo(
+    () => new Map(suppliers.map((supplier) => [supplier.id, supplier.name])),
+    [suppliers]
+  );
+
+  const recipes = useMemo(
+    () =>
+      items
+        .filter(
+          (item) =>
+            item.type === "eigenproduktion" &&
+            (item.components?.length ?? 0) > 0
+        )
+        .sort((first, second) => first.name.localeCompare(second.name)),
+    [items]
+  );
+
+  const planned = useMemo<PlannedProduction[]>(
+    () =>
+      Object.entries(batchDrafts)
+        .map(([itemId, value]) => ({
+          itemId,
+          batches: Number(value.replace(",", ".")),
+        }))
+        .filter(
+          (entry) => Number.isFinite(entry.batches) && entry.batches > 0
+        ),
+    [batchDrafts]
+  );
+
+  const result = useMemo(
+    () => computePurchaseSuggestions(items, planned, supplierNames),
+    [items, planned, supplierNames]
+  );
+
+  function handleExport() {
+    const csv = formatOrderListCsv(result.groups);
+    // BOM so Excel detects UTF-8 umlauts
+    const blob = new Blob(["\uFEFF" + csv], {
+      type: "text/csv;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `bestellliste-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <Card className="border-none bg-white shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 border-b border-[#E5E7EB] px-4 py-3">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-base text-[#1F2326]">
+            <ShoppingCart className="h-4 w-4" />
+            Bestellvorschlag
+          </CardTitle>
+          <CardDescription className="text-xs">
+            Aus Bestand, Sollbestand und geplanter Produktion
+          </CardDescription>
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={result.groups.length === 0}
+          onClick={handleExport}
+        >
+          <Download className="mr-1 h-4 w-4" />
+          Bestellliste (CSV)
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4 p-4 text-xs">
+        {recipes.length > 0 && (
+          <div className="space-y-2">
+            <div className="font-medium text-[#1F2326]">
+              Geplante Produktion (Chargen)
+            </div>
+            <div className="grid gap-2 md:grid-cols-3">
+              {recipes.map((recipe) => (
+                <label
+                  key={recipe.id}
+                  className="flex items-center justify-between gap-2 rounded-md border border-[#E5E7EB] px-2 py-1"
+                >
+                  <span className="truncate text-[#1F2326]">{recipe.name}</span>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder="0"
+                    value={batchDrafts[recipe.id] ?? ""}
+                    onChange={(event) =>
+                      setBatchDrafts((previous) => ({
+                        ...previous,
+                        [recipe.id]: event.target.value,
+                      }))
+                    }
+                    className="h-7 w-16 text-right text-xs"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {supplierError && (
+          <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-amber-800">
+            {supplierError} Artikel werden ohne Lieferant aufgeführt.
+          </div>
+        )}
+
+        {result.unitIssues.length > 0 && (
+          <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-amber-800">
+            Einheiten nicht umrechenbar, Bedarf fehlt für:{" "}
+            {Array.from(
+              new Set(result.unitIssues.map((issue) => issue.itemName))
+            ).join(", ")}
+          </div>
+        )}
+
+        {result.groups.length === 0 ? (
+          <div className="rounded-md border border-dashed px-3 py-6 text-center text-[#6B7176]">
+            Kein Bestellbedarf. Hinterlegen Sie Sollbestände in den Stammdaten
+            oder planen Sie eine Produktion.
+          </div>
+        ) : (
+          <>
+            {result.groups.map((group) => (
+              <div key={group.supplierId ?? ""} className="space-y-1">
+                <div className="flex items-center justify-between font-medium text-[#1F2326]">
+                  <span>{group.supplier}</span>
+                  <span className="text-[#6B7176]">
+                    {formatEuro(group.totalCost)}
+                  </span>
+                </div>
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="text-[#6B7176]">
+                      <th className="py-1 font-medium">Artikel</th>
+                      <th className="py-1 text-right font-medium">Bestand</th>
+                      <th className="py-1 text-right font-medium">Bedarf</th>
+                      <th className="py-1 text-right font-medium">Soll</th>
+                      <th className="py-1 text-right font-medium">Bestellen</th>
+                      <th className="py-1 text-right font-medium">Summe</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.suggestions.map((suggestion) => (
+                      <tr
+                        key={suggestion.itemId}
+                        className="border-t border-[#E5E7EB]"
+                      >
+                        <td className="py-1 text-[#1F2326]">
+                          {suggestion.itemName}
+                        </td>
+                        <td className="py-1 text-right tabular-nums">
+                          {formatQuantity(suggestion.onHand)}
+                        </td>
+                        <td className="py-1 text-right tabular-nums">
+                          {formatQuantity(suggestion.demand)}
+                        </td>
+                        <td className="py-1 text-right tabular-nums">
+                          {suggestion.parLevel === null
+                            ? "–"
+                            : formatQuantity(suggestion.parLevel)}
+                        </td>
+                        <td className="py-1 text-right font-semibold tabular-nums text-[#1F2326]">
+                          {formatQuantity(suggestion.orderQuantity)}{" "}
+                          {suggestion.unit}
+                        </td>
+                        <td className="py-1 text-right tabular-nums">
+                          {formatEuro(suggestion.estimatedCost)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+            <div className="flex justify-end font-semibold text-[#1F2326]">
+              Gesamt: {formatEuro(result.totalCost)}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,349 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Loader2, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { CostingItem } from "@/lib/recipe-costing";
+import {
+  formatScaledQuantity,
+  normalizeScaledQuantity,
+  SCALE_MODE_LABELS,
+  scaleRecipe,
+  type ProductionBatch,
+  type ScaledComponent,
+  type ScaleMode,
+} from "@/lib/recipe-scaling";
+
+type RecipeScalingPanelProps = {
+  rootItem: CostingItem & { targetPortions?: number | null };
+  itemsById: ReadonlyMap<string, CostingItem>;
+  // Batches are scaled from the saved recipe, so unsaved edits block saving
+  hasUnsavedChanges: boolean;
+};
+
+const SCALE_MODES: ScaleMode[] = ["portions", "weight"];
+
+async function readJson<T>(response: Response, fallbackMessage: string) {
+  const payload = (await response.json()) as T & { error?: unknown };
+  if (!response.ok) {
+    let message = fallbackMessage;
+    if (payload && typeof payload.error === "string") {
+      message = payload.error;
+    }
+    throw new Error(message);
+  }
+  return payload;
+}
+
+function formatNumber(value: number, maximumFractionDigits = 2) {
+  return value.toLocaleString("de-DE", { maximumFractionDigits });
+}
+
+function formatBatchTarget(batch: ProductionBatch) {
+  return batch.scaleMode === "portions"
+    ? `${formatNumber(batch.targetValue)} Portionen`
+    : formatScaledQuantity(normalizeScaledQuantity(batch.targetValue, "g"));
+}
+
+function ScaledComponentList({
+  components,
+  depth = 0,
+}: {
+  components: ScaledComponent[];
+  depth?: number;
+}) {
+  return (
+    <ul className={cn("space-y-0.5", depth > 0 && "ml-4 border-l pl-2")}>
+      {components.map((component, index) => (
+        <li key={`${component.itemId ?? "unknown"}-${index}`}>
+          <div className="flex items-center justify-between gap-2">
+            <span className={cn(depth > 0 && "text-muted-foreground")}>
+              {component.name}
+            </span>
+            <span className="flex items-center gap-2 tabular-nums">
+              <span className="text-muted-foreground">
+                {formatNumber(component.quantity)} {component.unit}
+              </span>
+              <span className="w-20 text-right font-medium">
+                {component.scaled
+                  ? formatScaledQuantity(component.scaled)
+                  : "—"}
+              </span>
+            </span>
+          </div>
+          {component.isUnresolved && (
+            <div className="flex items-center gap-1 text-[10px] text-amber-700">
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              Einheit passt nicht zur Ausbeute des Unterrezepts, Zutaten
+              nicht aufgelöst.
+            </div>
+          )}
+          {component.components.length > 0 && (
+            <ScaledComponentList
+              components={component.components}
+              depth={depth + 1}
+            />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function RecipeScalingPanel({
+  rootItem,
+  itemsById,
+  hasUnsavedChanges,
+}: RecipeScalingPanelProps) {
+  const [scaleMode, setScaleMode] = useState<ScaleMode>("portions");
+  const [targetInput, setTargetInput] = useState("");
+  const [noteInput, setNoteInput] = useState("");
+  const [batches, setBatches] = useState<ProductionBatch[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetValue = Number(targetInput.replace(",", "."));
+
+  const scaling = useMemo(
+    () =>
+      targetInput.trim().length > 0 && Number.isFinite(targetValue)
+        ? scaleRecipe(rootItem, itemsById, {
+            mode: scaleMode,
+            value: targetValue,
+          })
+        : null,
+    [itemsById, rootItem, scaleMode, targetInput, targetValue]
+  );
+
+  const loadBatches = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/production-batches?itemId=${encodeURIComponent(rootItem.id)}`
+      );
+      const payload = await readJson<ProductionBatch[]>(
+        response,
+        "Fehler beim Laden der Produktionschargen."
+      );
+      setBatches(Array.isArray(payload) ? payload : []);
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : "Fehler beim Laden der Produktionschargen."
+      );
+    }
+  }, [rootItem.id]);
+
+  useEffect(() => {
+    setBatches([]);
+    setError(null);
+    loadBatches();
+  }, [loadBatches]);
+
+  async function handleSave() {
+    if (!scaling) {
+      return;
+    }
+    try {
+      setIsSaving(true);
+      setError(null);
+      const response = await fetch("/api/production-batches", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          itemId: rootItem.id,
+          scaleMode,
+          targetValue,
+          note: noteInput,
+        }),
+      });
+      const batch = await readJson<ProductionBatch>(
+        response,
+        "Fehler beim Speichern der Produktionscharge."
+      );
+      setBatches((current) => [batch, ...current]);
+      setNoteInput("");
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error
+          ? saveError.message
+          : "Fehler beim Speichern der Produktionscharge."
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete(batchId: string) {
+    try {
+      setError(null);
+      const response = await fetch(
+        `/api/production-batches?id=${encodeURIComponent(batchId)}`,
+        { method: "DELETE" }
+      );
+      await readJson(response, "Fehler beim Löschen der Produktionscharge.");
+      setBatches((current) => current.filter((batch) => batch.id !== batchId));
+    } catch (deleteError) {
+      setError(
+        deleteError instanceof Error
+          ? deleteError.message
+          : "Fehler beim Löschen der Produktionscharge."
+      );
+    }
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border bg-muted/40 px-3 py-3 text-xs">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-xs font-semibold">Skalierung</h3>
+        <div className="flex items-center gap-1">
+          {SCALE_MODES.map((mode) => (
+            <Button
+              key={mode}
+              type="button"
+              size="sm"
+              variant={scaleMode === mode ? "default" : "outline"}
+              className="h-6 px-2 text-[10px]"
+              onClick={() => setScaleMode(mode)}
+            >
+              {SCALE_MODE_LABELS[mode]}
+            </Button>
+          ))}
+          <Input
+            type="text"
+            inputMode="decimal"
+            value={targetInput}
+            onChange={(event) => setTargetInput(event.target.value)}
+            placeholder={scaleMode === "portions" ? "z.B. 120" : "z.B. 5000"}
+            className="h-7 w-24 px-2 py-1 text-[11px]"
+          />
+        </div>
+      </div>
+
+      {targetValue > 0 && !scaling && (
+        <div className="text-[11px] text-muted-foreground">
+          {scaleMode === "portions"
+            ? "Für das Rezept sind keine Portionen hinterlegt."
+            : "Das Rezept hat kein Ausbeute-Gewicht, nach dem skaliert werden kann."}
+        </div>
+      )}
+
+      {scaling && (
+        <>
+          <div className="grid gap-1 text-[11px] md:grid-cols-2">
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Faktor</span>
+              <span className="font-medium">
+                × {formatNumber(scaling.factor, 3)}
+              </span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Portionen</span>
+              <span className="font-medium">
+                {scaling.portions != null
+                  ? formatNumber(scaling.portions, 1)
+                  : "—"}
+              </span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Ausbeute</span>
+              <span className="font-medium">
+                {scaling.outputGrams != null
+                  ? formatScaledQuantity(
+                      normalizeScaledQuantity(scaling.outputGrams, "g")
+                    )
+                  : "—"}
+              </span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Warenkosten</span>
+              <span className="font-medium">
+                {scaling.estimatedCost.toFixed(2)} €
+              </span>
+            </div>
+          </div>
+          <div className="border-t pt-2 text-[11px]">
+            <ScaledComponentList components={scaling.components} />
+          </div>
+          <div className="flex items-center gap-2 border-t pt-2">
+            <Input
+              type="text"
+              value={noteInput}
+              onChange={(event) => setNoteInput(event.target.value)}
+              placeholder="Notiz, z.B. Anlass oder Datum"
+              className="h-7 flex-1 px-2 py-1 text-[11px]"
+            />
+            <Button
+              type="button"
+              size="sm"
+              className="h-7 text-[11px]"
+              onClick={handleSave}
+              disabled={isSaving || hasUnsavedChanges}
+              title={
+                hasUnsavedChanges
+                  ? "Bitte zuerst die Rezeptänderungen speichern."
+                  : undefined
+              }
+            >
+              {isSaving ? (
+                <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Save className="mr-1 h-3.5 w-3.5" />
+              )}
+              Als Produktionscharge speichern
+            </Button>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div className="rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 text-destructive">
+          {error}
+        </div>
+      )}
+
+      {batches.length > 0 && (
+        <div className="space-y-1 border-t pt-2">
+          <div className="text-[11px] font-medium text-muted-foreground">
+            Gespeicherte Produktionschargen
+          </div>
+          {batches.map((batch) => (
+            <div
+              key={batch.id}
+              className="flex items-center justify-between gap-2 text-[11px]"
+            >
+              <span>
+                {new Date(batch.createdAt).toLocaleDateString("de-DE")} ·{" "}
+                {formatBatchTarget(batch)} (× {formatNumber(batch.scaleFactor, 3)})
+                {batch.note && (
+                  <span className="text-muted-foreground"> · {batch.note}</span>
+                )}
+              </span>
+              <span className="flex items-center gap-2">
+                {batch.estimatedCost != null && (
+                  <span className="tabular-nums">
+                    {batch.estimatedCost.toFixed(2)} €
+                  </span>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDelete(batch.id)}
+                  title="Produktionscharge löschen"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
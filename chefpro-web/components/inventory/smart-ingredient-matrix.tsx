@@ -31,6 +31,11 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
+import {
+  computeComponentCost,
+  computeLinkedItemCost,
+  type CostingItem,
+} from "@/lib/recipe-costing";
 import { Badge } from "@/components/ui/badge";
 
 // Types based on what we saw in inventory-manager.tsx
@@ -69,6 +74,8 @@ interface SmartIngredientMatrixProps {
   onImportSubRecipeSteps?: (recipeId: string) => void;
   readOnly?: boolean;
   debugStatus?: string;
+  // Full item map, so sub-recipe rows are costed through all their levels
+  itemsById?: ReadonlyMap<string, CostingItem>;
 }
 
 interface SortableRowProps {
@@ -82,6 +89,7 @@ interface SortableRowProps {
   onExpandSubRecipe?: (index: number, recipeId: string) => void;
   onImportSubRecipeSteps?: (recipeId: string) => void;
   readOnly?: boolean;
+  itemsById?: ReadonlyMap<string, CostingItem>;
 }
 
 // Helper to format labels
@@ -98,6 +106,29 @@ const formatLabel = (key: string) => {
   return labels[key] || key.charAt(0).toUpperCase() + key.slice(1);
 };
 
+// Sub-recipes are costed per batch output through all nesting levels, the
+// same way as the recipe card; purchased items per usable pack size
+const computeRowCost = (
+  item: AvailableItem,
+  component: InventoryComponent,
+  itemsById?: ReadonlyMap<string, CostingItem>
+) => {
+  const costingItem = itemsById?.get(item.id);
+  if (itemsById && costingItem) {
+    return computeLinkedItemCost(
+      costingItem,
+      itemsById,
+      component.quantity,
+      component.unit
+    );
+  }
+  return {
+    ...computeComponentCost(item, component.quantity, component.unit),
+    packUnit: item.unit,
+    packPrice: item.purchasePrice,
+  };
+};
+
 const SortableRow = ({
   component,
   index,
@@ -109,6 +140,7 @@ const SortableRow = ({
   onExpandSubRecipe,
   onImportSubRecipeSteps,
   readOnly,
+  itemsById,
 }: SortableRowProps) => {
   const {
     attributes,
@@ -262,16 +294,15 @@ const SortableRow = ({
     }
   };
 
-  // Helper to calculate cost for a row (inlined or we can use the helper if defined)
-  const rowCost =
-    component.itemId &&
-    availableItems.find(
-      (i) => String(i.id) === String(component.itemId)
-    )
-      ? availableItems.find(
-          (i) => String(i.id) === String(component.itemId)
-        )!.purchasePrice * component.quantity
-    : 0;
+  const linkedItem = component.itemId
+    ? availableItems.find((i) => String(i.id) === String(component.itemId))
+    : undefined;
+  const rowCost = linkedItem
+    ? computeRowCost(linkedItem, component, itemsById)
+    : null;
+  const hasUnitIssue =
+    rowCost?.status === "incompatible-unit" ||
+    rowCost?.status === "unknown-unit";
 
   const isLinked = !!component.itemId;
   const hasCustomName = !!component.customName && !isLinked;
@@ -365,18 +396,19 @@ const SortableRow = ({
         </div>
 
         <div className="flex w-24 flex-col items-end justify-center text-xs text-gray-600">
-          <span className="font-medium">
-            {isLinked ? `${rowCost.toFixed(2)} €` : "-"}
+          <span
+            className={cn("font-medium", hasUnitIssue && "text-red-500")}
+            title={
+              hasUnitIssue
+                ? `Einheit "${component.unit}" passt nicht zum Gebinde "${rowCost?.packUnit}"`
+                : undefined
+            }
+          >
+            {!rowCost ? "-" : hasUnitIssue ? "Einheit?" : `${rowCost.cost.toFixed(2)} €`}
           </span>
-          {isLinked && (
+          {linkedItem && (
             <span className="text-[10px] text-gray-400">
-              {(
-                availableItems.find(
-                  (i) => String(i.id) === String(component.itemId)
-                )
-                  ?.purchasePrice || 0
-              ).toFixed(2)}{" "}
-              € / Eh.
+              {(rowCost?.packPrice || 0).toFixed(2)} € / {rowCost?.packUnit}
             </span>
           )}
         </div>
@@ -476,6 +508,7 @@ export function SmartIngredientMatrix({
   onImportSubRecipeSteps,
   readOnly = false,
   debugStatus,
+  itemsById,
 }: SmartIngredientMatrixProps) {
   // ... (sensors, itemsWithIds, handleDragEnd, handleChange, handleRemove, handleAddRow remain same)
   const sensors = useSensors(
@@ -554,7 +587,7 @@ export function SmartIngredientMatrix({
 
   // Dynamic Totals Calculation
   const totals = useMemo(() => {
-    const result: Record<string, number> = { cost: 0 };
+    const result: Record<string, number> = { cost: 0, unitIssues: 0 };
     
     // Initialize keys based on available items to ensure we have all fields
     // (Optional: could just discover them during reduction)
@@ -562,8 +595,16 @@ export function SmartIngredientMatrix({
     components.forEach((comp) => {
       const item = availableItems.find((i) => i.id === comp.itemId);
       if (item) {
-        // Cost
-        result.cost += item.purchasePrice * comp.quantity;
+        // Cost (converted from the component unit to the item's pack size)
+        const componentCost = computeRowCost(item, comp, itemsById);
+        if (componentCost.status === "ok") {
+          result.cost += componentCost.cost;
+        } else if (
+          componentCost.status === "incompatible-unit" ||
+          componentCost.status === "unknown-unit"
+        ) {
+          result.unitIssues += 1;
+        }
 
         // Dynamic Nutrition/Other fields
         if (item.nutritionPerUnit) {
@@ -577,7 +618,7 @@ export function SmartIngredientMatrix({
     });
     
     return result;
-  }, [components, availableItems]);
+  }, [components, availableItems, itemsById]);
 
   return (
     <div className="space-y-4">
@@ -628,6 +669,7 @@ export function SmartIngredientMatrix({
                   onExpandSubRecipe={onExpandSubRecipe}
                   onImportSubRecipeSteps={onImportSubRecipeSteps}
                   readOnly={readOnly}
+                  itemsById={itemsById}
                 />
               ))}
             </div>
@@ -656,11 +698,18 @@ export function SmartIngredientMatrix({
             <Calculator size={18} className="text-gray-400" />
             {totals.cost.toFixed(2)} €
           </div>
+          {totals.unitIssues > 0 && (
+            <span className="text-[10px] text-red-500">
+              {totals.unitIssues} Zutat(en) mit unpassender Einheit nicht kalkuliert
+            </span>
+          )}
         </div>
         
         {/* Render other fields dynamically */}
         {Object.entries(totals)
-          .filter(([key]) => key !== "cost" && totals[key] > 0)
+          .filter(
+            ([key]) => key !== "cost" && key !== "unitIssues" && totals[key] > 0
+          )
           .map(([key, value]) => (
             <div key={key} className="flex flex-col gap-1">
               <span className="text-xs text-gray-500">{formatLabel(key)}</span>
@@ -0,0 +1,446 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react";
+import { Loader2, Star, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type {
+  PreferredPriceSync,
+  Supplier,
+  SupplierPrice,
+} from "@/lib/suppliers";
+
+type SupplierPricesPanelProps = {
+  itemId: string;
+  itemUnit: string;
+  onItemUpdated: (item: PreferredPriceSync) => void;
+};
+
+const NEW_SUPPLIER_VALUE = "__new__";
+
+const selectClassName =
+  "flex h-8 w-full rounded-md border border-[#E5E7EB] bg-white px-2 py-1 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring text-[#1F2326]";
+
+function formatPrice(value: number, currency = "EUR") {
+  return `${value.toFixed(2)} ${currency === "EUR" ? "€" : currency}`;
+}
+
+async function readJson<T>(response: Response, fallbackMessage: string) {
+  const payload = (await response.json()) as T & { error?: unknown };
+  if (!response.ok) {
+    let message = fallbackMessage;
+    if (payload && typeof payload.error === "string") {
+      message = payload.error;
+    }
+    throw new Error(message);
+  }
+  return payload;
+}
+
+export function SupplierPricesPanel({
+  itemId,
+  itemUnit,
+  onItemUpdated,
+}: SupplierPricesPanelProps) {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [prices, setPrices] = useState<SupplierPrice[]>([]);
+  const [preferredSupplierId, setPreferredSupplierId] = useState<
+    string | null
+  >(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [supplierIdInput, setSupplierIdInput] = useState("");
+  const [newSupplierNameInput, setNewSupplierNameInput] = useState("");
+  const [articleNumberInput, setArticleNumberInput] = useState("");
+  const [packUnitInput, setPackUnitInput] = useState("");
+  const [priceInput, setPriceInput] = useState("");
+  const [validFromInput, setValidFromInput] = useState("");
+
+  const loadPrices = useCallback(async () => {
+    try {
+      setError(null);
+      const [suppliersResponse, pricesResponse] = await Promise.all([
+        fetch("/api/suppliers"),
+        fetch(`/api/suppliers/prices?itemId=${encodeURIComponent(itemId)}`),
+      ]);
+      const suppliersPayload = await readJson<{ suppliers?: Supplier[] }>(
+        suppliersResponse,
+        "Fehler beim Laden der Lieferanten."
+      );
+      const pricesPayload = await readJson<{
+        prices?: SupplierPrice[];
+        preferredSupplierId?: string | null;
+      }>(pricesResponse, "Fehler beim Laden der Lieferantenpreise.");
+      setSuppliers(suppliersPayload.suppliers ?? []);
+      setPrices(pricesPayload.prices ?? []);
+      setPreferredSupplierId(pricesPayload.preferredSupplierId ?? null);
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : "Fehler beim Laden der Lieferantenpreise."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [itemId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadPrices();
+  }, [loadPrices]);
+
+  const currentPrices = useMemo(
+    () => prices.filter((price) => price.isCurrent),
+    [prices]
+  );
+
+  const cheapestPriceId = useMemo(() => {
+    let cheapest: SupplierPrice | null = null;
+    for (const price of currentPrices) {
+      if (price.pricePerItemUnit === null) {
+        continue;
+      }
+      if (
+        !cheapest ||
+        cheapest.pricePerItemUnit === null ||
+        price.pricePerItemUnit < cheapest.pricePerItemUnit
+      ) {
+        cheapest = price;
+      }
+    }
+    return cheapest?.id ?? null;
+  }, [currentPrices]);
+
+  async function handleAddPrice(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      let supplierId = supplierIdInput;
+      if (supplierId === NEW_SUPPLIER_VALUE) {
+        const response = await fetch("/api/suppliers", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ name: newSupplierNameInput }),
+        });
+        const payload = await readJson<{ supplier?: Supplier }>(
+          response,
+          "Fehler beim Anlegen des Lieferanten."
+        );
+        if (!payload.supplier) {
+          throw new Error("Fehler beim Anlegen des Lieferanten.");
+        }
+        supplierId = payload.supplier.id;
+        setSupplierIdInput(supplierId);
+        setNewSupplierNameInput("");
+      }
+
+      const response = await fetch("/api/suppliers/prices", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          itemId,
+          supplierId,
+          articleNumber: articleNumberInput,
+          packUnit: packUnitInput || itemUnit,
+          price: priceInput,
+          validFrom: validFromInput || null,
+        }),
+      });
+      const payload = await readJson<{ item?: PreferredPriceSync | null }>(
+        response,
+        "Fehler beim Speichern des Lieferantenpreises."
+      );
+      if (payload.item) {
+        onItemUpdated(payload.item);
+      }
+      setArticleNumberInput("");
+      setPackUnitInput("");
+      setPriceInput("");
+      setValidFromInput("");
+      await loadPrices();
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error
+          ? saveError.message
+          : "Fehler beim Speichern des Lieferantenpreises."
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleSetPreferred(supplierId: string | null) {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const response = await fetch("/api/suppliers/prices", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ itemId, preferredSupplierId: supplierId }),
+      });
+      const payload = await readJson<{ item?: PreferredPriceSync }>(
+        response,
+        "Fehler beim Speichern des bevorzugten Lieferanten."
+      );
+      if (payload.item) {
+        onItemUpdated(payload.item);
+      }
+      setPreferredSupplierId(supplierId);
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error
+          ? saveError.message
+          : "Fehler beim Speichern des bevorzugten Lieferanten."
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDeletePrice(price: SupplierPrice) {
+    if (
+      !window.confirm(
+        `Preis von ${price.supplierName} (${formatPrice(
+          price.price,
+          price.currency
+        )} / ${price.packUnit}) löschen?`
+      )
+    ) {
+      return;
+    }
+    try {
+      setIsSaving(true);
+      setError(null);
+      const response = await fetch(
+        `/api/suppliers/prices?id=${encodeURIComponent(price.id)}`,
+        { method: "DELETE" }
+      );
+      const payload = await readJson<{ item?: PreferredPriceSync | null }>(
+        response,
+        "Fehler beim Löschen des Lieferantenpreises."
+      );
+      if (payload.item) {
+        onItemUpdated(payload.item);
+      }
+      await loadPrices();
+    } catch (deleteError) {
+      setError(
+        deleteError instanceof Error
+          ? deleteError.message
+          : "Fehler beim Löschen des Lieferantenpreises."
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border border-[#E5E7EB] p-3 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-[#1F2326]">
+          Lieferanten &amp; Preisvergleich
+        </span>
+        {isSaving && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 text-destructive">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-[#6B7176]">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Preise werden geladen...
+        </div>
+      ) : prices.length === 0 ? (
+        <div className="text-[#6B7176]">
+          Noch keine Lieferantenpreise hinterlegt.
+        </div>
+      ) : (
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-[#6B7176]">
+              <th className="py-1 font-medium">Lieferant</th>
+              <th className="py-1 font-medium">Gebinde</th>
+              <th className="py-1 text-right font-medium">Preis</th>
+              <th className="py-1 text-right font-medium">je {itemUnit}</th>
+              <th className="py-1 font-medium">gültig ab</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {prices.map((price) => {
+              const isPreferred = price.supplierId === preferredSupplierId;
+              return (
+                <tr
+                  key={price.id}
+                  className={cn(
+                    "border-t border-[#E5E7EB]",
+                    !price.isCurrent && "text-[#9CA3AF]",
+                    price.isCurrent && isPreferred && "bg-emerald-50"
+                  )}
+                >
+                  <td className="py-1">
+                    <div className="flex items-center gap-1">
+                      {price.supplierName}
+                      {price.id === cheapestPriceId && (
+                        <Badge className="bg-emerald-600 px-1 py-0 text-[9px] text-white">
+                          günstigster
+                        </Badge>
+                      )}
+                    </div>
+                    {price.articleNumber && (
+                      <div className="text-[10px] text-[#6B7176]">
+                        Art.-Nr. {price.articleNumber}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-1">{price.packUnit}</td>
+                  <td className="py-1 text-right tabular-nums">
+                    {formatPrice(price.price, price.currency)}
+                  </td>
+                  <td className="py-1 text-right tabular-nums">
+                    {price.pricePerItemUnit === null
+                      ? "–"
+                      : formatPrice(price.pricePerItemUnit, price.currency)}
+                  </td>
+                  <td className="py-1">
+                    {new Date(price.validFrom).toLocaleDateString("de-DE")}
+                  </td>
+                  <td className="py-1">
+                    <div className="flex justify-end gap-1">
+                      {price.isCurrent && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          title={
+                            isPreferred
+                              ? "Bevorzugten Lieferanten entfernen"
+                              : "Als bevorzugten Lieferanten setzen"
+                          }
+                          disabled={isSaving}
+                          onClick={() =>
+                            handleSetPreferred(
+                              isPreferred ? null : price.supplierId
+                            )
+                          }
+                        >
+                          <Star
+                            className={cn(
+                              "h-3.5 w-3.5",
+                              isPreferred && "fill-amber-400 text-amber-500"
+                            )}
+                          />
+                        </Button>
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 text-red-600"
+                        title="Preis löschen"
+                        disabled={isSaving}
+                        onClick={() => handleDeletePrice(price)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {preferredSupplierId && (
+        <p className="text-[11px] text-[#6B7176]">
+          Der aktuelle Preis des bevorzugten Lieferanten wird als EK-Preis für
+          die Kalkulation übernommen.
+        </p>
+      )}
+
+      <form className="grid grid-cols-2 gap-2" onSubmit={handleAddPrice}>
+        <select
+          value={supplierIdInput}
+          onChange={(event) => setSupplierIdInput(event.target.value)}
+          className={selectClassName}
+        >
+          <option value="">Lieferant wählen...</option>
+          {suppliers.map((supplier) => (
+            <option key={supplier.id} value={supplier.id}>
+              {supplier.name}
+            </option>
+          ))}
+          <option value={NEW_SUPPLIER_VALUE}>+ Neuer Lieferant</option>
+        </select>
+        <Input
+          value={articleNumberInput}
+          placeholder="Artikelnummer"
+          onChange={(event) => setArticleNumberInput(event.target.value)}
+          className="h-8 text-xs"
+        />
+        {supplierIdInput === NEW_SUPPLIER_VALUE && (
+          <Input
+            value={newSupplierNameInput}
+            placeholder="Name des neuen Lieferanten"
+            onChange={(event) => setNewSupplierNameInput(event.target.value)}
+            className="col-span-2 h-8 text-xs"
+          />
+        )}
+        <Input
+          value={packUnitInput}
+          placeholder={`Gebinde (z. B. ${itemUnit || "10kg"})`}
+          onChange={(event) => setPackUnitInput(event.target.value)}
+          className="h-8 text-xs"
+        />
+        <Input
+          type="text"
+          inputMode="decimal"
+          value={priceInput}
+          placeholder="Preis"
+          onChange={(event) => setPriceInput(event.target.value)}
+          className="h-8 text-xs"
+        />
+        <Input
+          type="date"
+          value={validFromInput}
+          title="Gültig ab (leer = heute)"
+          onChange={(event) => setValidFromInput(event.target.value)}
+          className="h-8 text-xs"
+        />
+        <Button
+          type="submit"
+          size="sm"
+          className="h-8 bg-[#4F8F4E] text-white hover:bg-[#3d7a3c]"
+          disabled={
+            isSaving ||
+            !supplierIdInput ||
+            !priceInput ||
+            (supplierIdInput === NEW_SUPPLIER_VALUE &&
+              !newSupplierNameInput.trim())
+          }
+        >
+          Preis hinzufügen
+        </Button>
+      </form>
+    </div>
+  );
+}
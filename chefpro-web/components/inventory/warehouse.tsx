@@ -1,10 +1,540 @@
-export function Warehouse() {
+"use client";
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react";
+import { AlertTriangle, Loader2, PackageMinus, PackagePlus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { PurchaseSuggestions } from "@/components/inventory/purchase-suggestions";
+import { PriceReport } from "@/components/inventory/price-report";
+import type { PurchaseItem } from "@/lib/purchase-suggestions";
+import { cn } from "@/lib/utils";
+import {
+  STOCK_MOVEMENT_LABELS,
+  STORAGE_AREAS,
+  UNASSIGNED_STORAGE_AREA_LABEL,
+  groupStockByStorageArea,
+  type StockEntry,
+  type StockMovement,
+  type StockMovementType,
+} from "@/lib/stock";
+
+type WarehouseItem = PurchaseItem & {
+  type?: string;
+  storageArea?: string | null;
+};
+
+type WarehouseProps = {
+  items: WarehouseItem[];
+};
+
+type StockResponse = {
+  error?: unknown;
+  entries?: StockEntry[];
+  movements?: StockMovement[];
+  totalValue?: number;
+};
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-[#E5E7EB] bg-white px-3 py-1 text-xs shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring text-[#1F2326]";
+
+function formatEuro(value: number) {
+  return `${value.toFixed(2)} €`;
+}
+
+function formatQuantity(value: number) {
+  return value.toLocaleString("de-DE", { maximumFractionDigits: 3 });
+}
+
+export function Warehouse({ items }: WarehouseProps) {
+  const [entries, setEntries] = useState<StockEntry[]>([]);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [totalValue, setTotalValue] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [bookingItemId, setBookingItemId] = useState("");
+  const [bookingStorageArea, setBookingStorageArea] = useState("");
+  const [bookingType, setBookingType] = useState<StockMovementType>("receipt");
+  const [bookingQuantity, setBookingQuantity] = useState("");
+  const [bookingNote, setBookingNote] = useState("");
+  const [isBooking, setIsBooking] = useState(false);
+
+  const [minQuantityDrafts, setMinQuantityDrafts] = useState<
+    Record<string, string>
+  >({});
+
+  const loadStock = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch("/api/stock");
+      const payload = (await response.json()) as StockResponse;
+      if (!response.ok) {
+        let message = "Fehler beim Laden des Lagers.";
+        if (payload && typeof payload.error === "string") {
+          message = payload.error;
+        }
+        throw new Error(message);
+      }
+      setEntries(payload.entries ?? []);
+      setMovements(payload.movements ?? []);
+      setTotalValue(payload.totalValue ?? 0);
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : "Fehler beim Laden des Lagers."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStock();
+  }, [loadStock]);
+
+  const groups = useMemo(() => groupStockByStorageArea(entries), [entries]);
+  const lowCount = entries.filter((entry) => entry.isLow).length;
+
+  const sortedItems = useMemo(
+    () => [...items].sort((first, second) => first.name.localeCompare(second.name)),
+    [items]
+  );
+  const bookingItem = items.find((item) => item.id === bookingItemId);
+
+  // Booked stock is fresher than the on-hand count loaded with the items
+  const itemsWithStock = useMemo(() => {
+    if (isLoading) {
+      return items;
+    }
+    const onHandByItem = new Map<string, number>();
+    for (const entry of entries) {
+      onHandByItem.set(
+        entry.itemId,
+        (onHandByItem.get(entry.itemId) ?? 0) + entry.quantity
+      );
+    }
+    return items.map((item) => ({
+      ...item,
+      onHand: onHandByItem.get(item.id) ?? 0,
+    }));
+  }, [entries, isLoading, items]);
+
+  async function handleBooking(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!bookingItemId) {
+      setError("Bitte einen Artikel auswählen.");
+      return;
+    }
+    try {
+      setIsBooking(true);
+      setError(null);
+      const response = await fetch("/api/stock", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          itemId: bookingItemId,
+          storageArea: bookingStorageArea,
+          movementType: bookingType,
+          quantity: bookingQuantity,
+          note: bookingNote,
+        }),
+      });
+      const payload = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        let message = "Fehler beim Buchen.";
+        if (payload && typeof payload.error === "string") {
+          message = payload.error;
+        }
+        throw new Error(message);
+      }
+      setBookingQuantity("");
+      setBookingNote("");
+      await loadStock();
+    } catch (bookingError) {
+      setError(
+        bookingError instanceof Error
+          ? bookingError.message
+          : "Fehler beim Buchen."
+      );
+    } finally {
+      setIsBooking(false);
+    }
+  }
+
+  async function handleMinQuantitySave(entry: StockEntry) {
+    const draft = minQuantityDrafts[entry.id];
+    if (draft === undefined) {
+      return;
+    }
+    try {
+      setError(null);
+      const response = await fetch("/api/stock", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          itemId: entry.itemId,
+          storageArea: entry.storageArea,
+          minQuantity: draft.trim() === "" ? null : draft,
+        }),
+      });
+      const payload = (await response.json()) as { error?: unknown };
+      if (!response.ok) {
+        let message = "Fehler beim Speichern des Mindestbestands.";
+        if (payload && typeof payload.error === "string") {
+          message = payload.error;
+        }
+        throw new Error(message);
+      }
+      setMinQuantityDrafts((previous) => {
+        const next = { ...previous };
+        delete next[entry.id];
+        return next;
+      });
+      await loadStock();
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error
+          ? saveError.message
+          : "Fehler beim Speichern des Mindestbestands."
+      );
+    }
+  }
+
+  function startBooking(entry: StockEntry, type: StockMovementType) {
+    setBookingItemId(entry.itemId);
+    setBookingStorageArea(entry.storageArea);
+    setBookingType(type);
+  }
+
   return (
-    <div className="flex h-screen w-full items-center justify-center bg-[#F6F7F5] text-[#6B7176]">
-      <div className="text-center">
-        <h2 className="text-lg font-semibold">Lagerverwaltung</h2>
-        <p className="text-sm">Dieses Modul ist derzeit deaktiviert.</p>
+    <div className="flex h-full flex-col gap-4 overflow-y-auto bg-[#F6F7F5] p-6">
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="border-none bg-white shadow-sm">
+          <CardHeader className="pb-2">
+            <CardDescription>Lagerwert (zum Einkaufspreis)</CardDescription>
+            <CardTitle className="text-2xl text-[#1F2326]">
+              {formatEuro(totalValue)}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card className="border-none bg-white shadow-sm">
+          <CardHeader className="pb-2">
+            <CardDescription>Lagerpositionen</CardDescription>
+            <CardTitle className="text-2xl text-[#1F2326]">
+              {entries.length}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card className="border-none bg-white shadow-sm">
+          <CardHeader className="pb-2">
+            <CardDescription>Unter Mindestbestand</CardDescription>
+            <CardTitle
+              className={cn(
+                "text-2xl",
+                lowCount > 0 ? "text-red-600" : "text-[#1F2326]"
+              )}
+            >
+              {lowCount}
+            </CardTitle>
+          </CardHeader>
+        </Card>
       </div>
+
+      {error && (
+        <div className="rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 text-xs text-destructive">
+          {error}
+        </div>
+      )}
+
+      <Card className="border-none bg-white shadow-sm">
+        <CardHeader className="border-b border-[#E5E7EB] px-4 py-3">
+          <CardTitle className="text-base text-[#1F2326]">Buchung</CardTitle>
+        </CardHeader>
+        <CardContent className="p-4">
+          <form
+            className="grid gap-3 text-xs md:grid-cols-[1fr_160px_140px_120px_1fr_auto] md:items-end"
+            onSubmit={handleBooking}
+          >
+            <div className="grid gap-1">
+              <label className="font-medium text-[#1F2326]">Artikel</label>
+              <select
+                value={bookingItemId}
+                onChange={(event) => {
+                  const itemId = event.target.value;
+                  setBookingItemId(itemId);
+                  const item = items.find((entry) => entry.id === itemId);
+                  setBookingStorageArea(item?.storageArea ?? "");
+                }}
+                className={selectClassName}
+              >
+                <option value="">Bitte wählen...</option>
+                {sortedItems.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-1">
+              <label className="font-medium text-[#1F2326]">Lagerbereich</label>
+              <select
+                value={bookingStorageArea}
+                onChange={(event) => setBookingStorageArea(event.target.value)}
+                className={selectClassName}
+              >
+                <option value="">{UNASSIGNED_STORAGE_AREA_LABEL}</option>
+                {STORAGE_AREAS.map((area) => (
+                  <option key={area} value={area}>
+                    {area}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-1">
+              <label className="font-medium text-[#1F2326]">Buchungsart</label>
+              <select
+                value={bookingType}
+                onChange={(event) =>
+                  setBookingType(event.target.value as StockMovementType)
+                }
+                className={selectClassName}
+              >
+                <option value="receipt">{STOCK_MOVEMENT_LABELS.receipt}</option>
+                <option value="withdrawal">
+                  {STOCK_MOVEMENT_LABELS.withdrawal}
+                </option>
+              </select>
+            </div>
+            <div className="grid gap-1">
+              <label className="font-medium text-[#1F2326]">
+                Menge{bookingItem ? ` (${bookingItem.unit})` : ""}
+              </label>
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={bookingQuantity}
+                onChange={(event) => setBookingQuantity(event.target.value)}
+                className="h-9 text-xs"
+              />
+            </div>
+            <div className="grid gap-1">
+              <label className="font-medium text-[#1F2326]">Notiz</label>
+              <Input
+                value={bookingNote}
+                placeholder="z. B. Lieferschein-Nr."
+                onChange={(event) => setBookingNote(event.target.value)}
+                className="h-9 text-xs"
+              />
+            </div>
+            <Button
+              type="submit"
+              size="sm"
+              className="h-9 bg-[#4F8F4E] text-white hover:bg-[#3d7a3c]"
+              disabled={isBooking || !bookingItemId || !bookingQuantity}
+            >
+              {isBooking ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                "Buchen"
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-6 text-xs text-[#6B7176]">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Lager wird geladen...
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="rounded-md border border-dashed bg-white px-3 py-6 text-center text-xs text-[#6B7176]">
+          Noch keine Lagerbestände. Buchen Sie einen Wareneingang, um zu
+          beginnen.
+        </div>
+      ) : (
+        groups.map((group) => (
+          <Card
+            key={group.storageArea || "unassigned"}
+            className="border-none bg-white shadow-sm"
+          >
+            <CardHeader className="flex flex-row items-center justify-between gap-2 border-b border-[#E5E7EB] px-4 py-3">
+              <div className="flex items-center gap-2">
+                <CardTitle className="text-base text-[#1F2326]">
+                  {group.storageArea || UNASSIGNED_STORAGE_AREA_LABEL}
+                </CardTitle>
+                {group.lowCount > 0 && (
+                  <Badge className="bg-red-600 text-[10px] text-white">
+                    {group.lowCount} niedrig
+                  </Badge>
+                )}
+              </div>
+              <span className="text-xs text-[#6B7176]">
+                {formatEuro(group.value)}
+              </span>
+            </CardHeader>
+            <CardContent className="p-0">
+              <table className="w-full text-left text-xs">
+                <thead>
+                  <tr className="text-[#6B7176]">
+                    <th className="px-4 py-2 font-medium">Artikel</th>
+                    <th className="px-4 py-2 text-right font-medium">Bestand</th>
+                    <th className="px-4 py-2 font-medium">Mindestbestand</th>
+                    <th className="px-4 py-2 text-right font-medium">EK</th>
+                    <th className="px-4 py-2 text-right font-medium">Wert</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.entries.map((entry) => (
+                    <tr
+                      key={entry.id}
+                      className={cn(
+                        "border-t border-[#E5E7EB]",
+                        entry.isLow && "bg-red-50"
+                      )}
+                    >
+                      <td className="px-4 py-2 font-medium text-[#1F2326]">
+                        <div className="flex items-center gap-1">
+                          {entry.isLow && (
+                            <AlertTriangle className="h-3.5 w-3.5 text-red-600" />
+                          )}
+                          {entry.itemName}
+                        </div>
+                      </td>
+                      <td
+                        className={cn(
+                          "px-4 py-2 text-right tabular-nums",
+                          entry.isLow && "font-semibold text-red-600"
+                        )}
+                      >
+                        {formatQuantity(entry.quantity)} {entry.unit}
+                      </td>
+                      <td className="px-4 py-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={
+                            minQuantityDrafts[entry.id] ??
+                            (entry.minQuantity === null
+                              ? ""
+                              : String(entry.minQuantity))
+                          }
+                          onChange={(event) =>
+                            setMinQuantityDrafts((previous) => ({
+                              ...previous,
+                              [entry.id]: event.target.value,
+                            }))
+                          }
+                          onBlur={() => handleMinQuantitySave(entry)}
+                          className="h-7 w-24 text-xs"
+                        />
+                      </td>
+                      <td className="px-4 py-2 text-right tabular-nums">
+                        {formatEuro(entry.purchasePrice)}
+                      </td>
+                      <td className="px-4 py-2 text-right tabular-nums">
+                        {formatEuro(entry.value)}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            title={STOCK_MOVEMENT_LABELS.receipt}
+                            onClick={() => startBooking(entry, "receipt")}
+                          >
+                            <PackagePlus className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            title={STOCK_MOVEMENT_LABELS.withdrawal}
+                            onClick={() => startBooking(entry, "withdrawal")}
+                          >
+                            <PackageMinus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <PurchaseSuggestions items={itemsWithStock} />
+
+      <PriceReport />
+
+      {movements.length > 0 && (
+        <Card className="border-none bg-white shadow-sm">
+          <CardHeader className="border-b border-[#E5E7EB] px-4 py-3">
+            <CardTitle className="text-base text-[#1F2326]">
+              Letzte Buchungen
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <table className="w-full text-left text-xs">
+              <tbody>
+                {movements.map((movement) => (
+                  <tr key={movement.id} className="border-t border-[#E5E7EB]">
+                    <td className="px-4 py-2 text-[#6B7176]">
+                      {new Date(movement.createdAt).toLocaleString("de-DE", {
+                        dateStyle: "short",
+                        timeStyle: "short",
+                      })}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={
+                          movement.movementType === "receipt"
+                            ? "text-emerald-700"
+                            : "text-red-600"
+                        }
+                      >
+                        {STOCK_MOVEMENT_LABELS[movement.movementType]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 font-medium text-[#1F2326]">
+                      {movement.itemName}
+                    </td>
+                    <td className="px-4 py-2 text-[#6B7176]">
+                      {movement.storageArea || UNASSIGNED_STORAGE_AREA_LABEL}
+                    </td>
+                    <td className="px-4 py-2 text-right tabular-nums">
+                      {movement.movementType === "withdrawal" ? "−" : "+"}
+                      {formatQuantity(movement.quantity)}
+                    </td>
+                    <td className="px-4 py-2 text-[#6B7176]">
+                      {movement.note ?? ""}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
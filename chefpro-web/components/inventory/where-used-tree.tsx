@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { ItemUsageNode } from "@/lib/item-usage";
+
+type WhereUsedTreeProps = {
+  itemId: string;
+  itemVersion?: number;
+  onSelectRecipe?: (recipeId: string) => void;
+};
+
+function collectRecipeIds(usages: ItemUsageNode[], result: Set<string>) {
+  for (const usage of usages) {
+    result.add(usage.recipeId);
+    collectRecipeIds(usage.usedIn, result);
+  }
+  return result;
+}
+
+export function WhereUsedTree({
+  itemId,
+  itemVersion,
+  onSelectRecipe,
+}: WhereUsedTreeProps) {
+  const [usages, setUsages] = useState<ItemUsageNode[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const response = await fetch(
+          `/api/where-used?itemId=${encodeURIComponent(itemId)}`
+        );
+        const payload = (await response.json()) as {
+          error?: unknown;
+          usages?: ItemUsageNode[];
+        };
+        if (!response.ok) {
+          let message = "Fehler beim Laden der Verwendungen.";
+          if (payload && typeof payload.error === "string") {
+            message = payload.error;
+          }
+          throw new Error(message);
+        }
+        if (!cancelled) {
+          setUsages(payload.usages ?? []);
+        }
+      } catch (loadError) {
+        if (!cancelled) {
+          setError(
+            loadError instanceof Error
+              ? loadError.message
+              : "Fehler beim Laden der Verwendungen."
+          );
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, itemVersion]);
+
+  const affectedCount = collectRecipeIds(usages, new Set()).size;
+
+  return (
+    <div className="space-y-2 rounded-md border border-[#E5E7EB] p-3 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-[#1F2326]">Verwendet in</span>
+        {affectedCount > 0 && (
+          <span className="text-[#6B7176]">
+            {affectedCount} {affectedCount === 1 ? "Rezept" : "Rezepte"}{" "}
+            betroffen
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 text-destructive">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-[#6B7176]">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Verwendungen werden geladen...
+        </div>
+      ) : usages.length === 0 ? (
+        <div className="text-[#6B7176]">Wird in keinem Rezept verwendet.</div>
+      ) : (
+        <UsageTree usages={usages} onSelectRecipe={onSelectRecipe} />
+      )}
+    </div>
+  );
+}
+
+type UsageTreeProps = {
+  usages: ItemUsageNode[];
+  onSelectRecipe?: (recipeId: string) => void;
+};
+
+function UsageTree({ usages, onSelectRecipe }: UsageTreeProps) {
+  return (
+    <div className="space-y-1">
+      {usages.map((usage) => (
+        <div key={usage.recipeId} className="space-y-1">
+          <div className="flex items-start justify-between gap-3">
+            <div className="flex flex-1 items-center gap-2">
+              <div className="h-2 w-2 rounded-full bg-primary" />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="inline-flex min-w-[3rem] justify-end rounded bg-muted px-1 py-0.5 font-mono tabular-nums">
+                  {usage.quantity}
+                </span>
+                <span className="inline-flex rounded bg-muted px-1 py-0.5">
+                  {usage.unit}
+                </span>
+                <span className="text-[#6B7176]">in</span>
+                <button
+                  type="button"
+                  className="font-medium underline-offset-2 hover:underline"
+                  onClick={() => onSelectRecipe && onSelectRecipe(usage.recipeId)}
+                  disabled={!onSelectRecipe}
+                >
+                  {usage.recipeName}
+                </button>
+              </div>
+            </div>
+            {usage.usedIn.length > 0 && (
+              <span className="text-muted-foreground">
+                {usage.usedIn.length} übergeordnete Rezepte
+              </span>
+            )}
+          </div>
+          {usage.usedIn.length > 0 && (
+            <div className="border-l pl-4">
+              <UsageTree
+                usages={usage.usedIn}
+                onSelectRecipe={onSelectRecipe}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
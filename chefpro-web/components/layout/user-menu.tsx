@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { LogOut } from "lucide-react";
+
+type SessionUser = {
+  id: string;
+  email: string | null;
+  name: string | null;
+};
+
+type KitchenOption = {
+  kitchenId: string;
+  kitchenName: string;
+};
+
+function getInitials(user: SessionUser) {
+  const source = user.name ?? user.email ?? "";
+  const parts = source
+    .split(/[\s@._-]+/)
+    .filter((part) => part.length > 0);
+  return parts
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase())
+    .join("");
+}
+
+export function UserMenu() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [kitchens, setKitchens] = useState<KitchenOption[]>([]);
+  const [currentKitchenId, setCurrentKitchenId] = useState<string | null>(
+    null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    async function loadSession() {
+      try {
+        const response = await fetch("/api/auth/session");
+        const payload = (await response.json()) as {
+          user: SessionUser | null;
+        };
+        if (cancelled) {
+          return;
+        }
+        setUser(payload.user);
+        if (!payload.user) {
+          return;
+        }
+        const kitchensResponse = await fetch("/api/kitchens");
+        if (!kitchensResponse.ok) {
+          return;
+        }
+        const kitchensPayload = (await kitchensResponse.json()) as {
+          kitchens: KitchenOption[];
+          currentKitchenId: string | null;
+        };
+        if (!cancelled) {
+          setKitchens(kitchensPayload.kitchens);
+          setCurrentKitchenId(kitchensPayload.currentKitchenId);
+        }
+      } catch {
+        if (!cancelled) {
+          setUser(null);
+        }
+      }
+    }
+    loadSession();
+    return () => {
+      cancelled = true;
+    };
+  }, [pathname]);
+
+  async function handleKitchenChange(kitchenId: string) {
+    const response = await fetch("/api/kitchens", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ kitchenId }),
+    });
+    if (!response.ok) {
+      return;
+    }
+    setCurrentKitchenId(kitchenId);
+    // Inventory data is loaded client-side, so reload the whole page
+    window.location.reload();
+  }
+
+  async function handleLogout() {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } finally {
+      setUser(null);
+      router.replace("/login");
+      router.refresh();
+    }
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const currentKitchen = kitchens.find(
+    (kitchen) => kitchen.kitchenId === currentKitchenId
+  );
+
+  return (
+    <div className="flex items-center gap-2">
+      {kitchens.length > 1 ? (
+        <select
+          value={currentKitchenId ?? ""}
+          onChange={(event) => handleKitchenChange(event.target.value)}
+          className="rounded-md border border-input bg-background px-2 py-1.5 text-sm shadow-sm"
+          title="Küche wechseln"
+        >
+          {kitchens.map((kitchen) => (
+            <option key={kitchen.kitchenId} value={kitchen.kitchenId}>
+              {kitchen.kitchenName}
+            </option>
+          ))}
+        </select>
+      ) : currentKitchen ? (
+        <span className="hidden text-sm text-muted-foreground md:inline-block">
+          {currentKitchen.kitchenName}
+        </span>
+      ) : null}
+      <div className="flex items-center gap-2 rounded-md bg-card px-3 py-1.5 text-sm font-medium text-card-foreground shadow-sm">
+        <div className="flex h-6 w-6 items-center justify-center rounded-full bg-primary text-[10px] text-primary-foreground">
+          {getInitials(user)}
+        </div>
+        <span className="hidden sm:inline-block">{user.name ?? user.email}</span>
+        <button
+          type="button"
+          onClick={handleLogout}
+          className="ml-1 rounded p-1 text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+          title="Abmelden"
+        >
+          <LogOut className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
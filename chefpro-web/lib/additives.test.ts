@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildAdditiveLegend,
+  detectAdditives,
+  detectENumbers,
+  formatAdditiveFootnotes,
+} from "@/lib/additives";
+
+describe("detectENumbers", () => {
+  it("reads the common spellings of E-numbers", () => {
+    expect(detectENumbers("E 250, E-330, e202, E 472e, E160a")).toEqual([
+      160, 202, 250, 330, 472,
+    ]);
+  });
+});
+
+describe("detectAdditives", () => {
+  it("maps E-numbers onto their additive class", () => {
+    expect(
+      detectAdditives("Schweinefleisch, Nitritpökelsalz (Salz, Natriumnitrit E 250)")
+    ).toEqual(["konservierungsstoff"]);
+  });
+
+  it("detects caffeine and quinine by name", () => {
+    expect(detectAdditives("Wasser, Zucker, Koffein, Chinin")).toEqual([
+      "koffeinhaltig",
+      "chininhaltig",
+    ]);
+    expect(detectAdditives("Guaranaextrakt (koffeinhaltig)")).toEqual([
+      "koffeinhaltig",
+    ]);
+  });
+
+  it("does not flag decaffeinated or caffeine-free products", () => {
+    for (const ingredients of [
+      "Kaffee, entkoffeiniert",
+      "Cola koffeinfrei",
+      "koffeinfreier Kaffee",
+      "Kaffee (Koffein-frei)",
+    ]) {
+      expect(detectAdditives(ingredients), ingredients).toEqual([]);
+    }
+  });
+
+  it("returns nothing without an ingredient list", () => {
+    expect(detectAdditives(null)).toEqual([]);
+  });
+});
+
+describe("buildAdditiveLegend", () => {
+  it("numbers footnotes per recipe and lists each one once", () => {
+    const legend = buildAdditiveLegend([
+      { id: "a", name: "Cola", additives: ["koffeinhaltig", "farbstoff"] },
+      { id: "b", name: "Wurst", additives: ["konservierungsstoff", "farbstoff"] },
+    ]);
+
+    expect(legend.recipes.map((recipe) => recipe.footnotes)).toEqual([
+      [1, 11],
+      [1, 2],
+    ]);
+    expect(legend.legend.map((entry) => entry.footnote)).toEqual([1, 2, 11]);
+    expect(formatAdditiveFootnotes(["koffeinhaltig", "farbstoff"])).toBe(
+      "1,11"
+    );
+  });
+});
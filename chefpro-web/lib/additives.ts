@@ -0,0 +1,255 @@
+// Additives that German menus have to declare (ZZulV § 9), with the
+// footnote numbers commonly used for them. Classes are detected from the
+// E-numbers in an ingredient list; caffeine and quinine have no E-number
+// and are detected by name at the start of a word, so "Koffeinhaltig"
+// counts but "entkoffeiniert" and "koffeinfrei" do not.
+
+export type AdditiveClass = {
+  key: string;
+  footnote: number;
+  label: string;
+  // Inclusive E-number ranges
+  eNumbers: [number, number][];
+  keywords: string[];
+};
+
+export const ADDITIVE_CLASSES: AdditiveClass[] = [
+  {
+    key: "farbstoff",
+    footnote: 1,
+    label: "mit Farbstoff",
+    eNumbers: [[100, 180]],
+    keywords: [],
+  },
+  {
+    key: "konservierungsstoff",
+    footnote: 2,
+    label: "mit Konservierungsstoff",
+    eNumbers: [
+      [200, 219],
+      [230, 235],
+      [239, 239],
+      [242, 242],
+      [249, 252],
+      [280, 285],
+      [1105, 1105],
+    ],
+    keywords: [],
+  },
+  {
+    key: "antioxidationsmittel",
+    footnote: 3,
+    label: "mit Antioxidationsmittel",
+    eNumbers: [[310, 321]],
+    keywords: [],
+  },
+  {
+    key: "geschmacksverstaerker",
+    footnote: 4,
+    label: "mit Geschmacksverstärker",
+    eNumbers: [[620, 635]],
+    keywords: [],
+  },
+  {
+    key: "geschwefelt",
+    footnote: 5,
+    label: "geschwefelt",
+    eNumbers: [[220, 228]],
+    keywords: [],
+  },
+  {
+    key: "geschwaerzt",
+    footnote: 6,
+    label: "geschwärzt",
+    eNumbers: [
+      [579, 579],
+      [585, 585],
+    ],
+    keywords: [],
+  },
+  {
+    key: "gewachst",
+    footnote: 7,
+    label: "gewachst",
+    eNumbers: [[901, 905]],
+    keywords: [],
+  },
+  {
+    key: "phosphat",
+    footnote: 8,
+    label: "mit Phosphat",
+    eNumbers: [
+      [338, 341],
+      [343, 343],
+      [450, 452],
+    ],
+    keywords: [],
+  },
+  {
+    key: "suessungsmittel",
+    footnote: 9,
+    label: "mit Süßungsmittel",
+    eNumbers: [
+      [420, 421],
+      [950, 969],
+    ],
+    keywords: [],
+  },
+  {
+    key: "phenylalanin",
+    footnote: 10,
+    label: "enthält eine Phenylalaninquelle",
+    eNumbers: [
+      [951, 951],
+      [962, 962],
+    ],
+    keywords: ["aspartam"],
+  },
+  {
+    key: "koffeinhaltig",
+    footnote: 11,
+    label: "koffeinhaltig",
+    eNumbers: [],
+    keywords: ["koffein", "coffein"],
+  },
+  {
+    key: "chininhaltig",
+    footnote: 12,
+    label: "chininhaltig",
+    eNumbers: [],
+    keywords: ["chinin"],
+  },
+];
+
+export type AdditiveLegendRecipe = {
+  id: string;
+  name: string;
+  additives: string[];
+  footnotes: number[];
+};
+
+export type AdditiveLegend = {
+  recipes: AdditiveLegendRecipe[];
+  legend: { footnote: number; label: string }[];
+};
+
+const ADDITIVE_CLASSES_BY_KEY = new Map(
+  ADDITIVE_CLASSES.map((additive) => [additive.key, additive])
+);
+
+// "E 250", "E-330", "e202" and sub-numbers such as "E 472e" or "E160a"
+const E_NUMBER_PATTERN = /(?:^|[^a-z])e\s?-?\s?(\d{3,4})(?!\d)/gi;
+
+// Words including hyphenated compounds, e.g. "koffein-frei"
+const WORD_PATTERN = /[a-zäöüß]+(?:-[a-zäöüß]+)*/g;
+
+const FREE_FROM_WORD_PATTERN = /frei(e[mnrs]?)?$/;
+
+function mentionsKeyword(text: string, keywords: readonly string[]) {
+  if (keywords.length === 0) {
+    return false;
+  }
+  return (text.toLowerCase().match(WORD_PATTERN) ?? []).some(
+    (word) =>
+      !FREE_FROM_WORD_PATTERN.test(word) &&
+      keywords.some((keyword) => word.startsWith(keyword))
+  );
+}
+
+export function findAdditiveClass(key: string) {
+  return ADDITIVE_CLASSES_BY_KEY.get(key) ?? null;
+}
+
+/**
+ * Keeps known keys only, deduplicated and in footnote order.
+ */
+export function sortAdditiveKeys(keys: Iterable<string>): string[] {
+  return Array.from(new Set(keys))
+    .map((key) => ADDITIVE_CLASSES_BY_KEY.get(key))
+    .filter((additive): additive is AdditiveClass => additive !== undefined)
+    .sort((first, second) => first.footnote - second.footnote)
+    .map((additive) => additive.key);
+}
+
+export function detectENumbers(text: string): number[] {
+  const numbers = new Set<number>();
+  for (const match of text.matchAll(E_NUMBER_PATTERN)) {
+    numbers.add(Number(match[1]));
+  }
+  return Array.from(numbers).sort((first, second) => first - second);
+}
+
+/**
+ * Additive classes that must be declared for an ingredient list, e.g.
+ * "Natriumnitrit (E 250)" → ["konservierungsstoff"].
+ */
+export function detectAdditives(ingredients: string | null | undefined) {
+  if (!ingredients) {
+    return [];
+  }
+  const eNumbers = detectENumbers(ingredients);
+  return sortAdditiveKeys(
+    ADDITIVE_CLASSES.filter(
+      (additive) =>
+        additive.eNumbers.some(([from, to]) =>
+          eNumbers.some((eNumber) => eNumber >= from && eNumber <= to)
+        ) || mentionsKeyword(ingredients, additive.keywords)
+    ).map((additive) => additive.key)
+  );
+}
+
+/**
+ * Validates additive keys sent by the client; returns the unknown keys as
+ * an error.
+ */
+export function parseAdditiveKeys(
+  value: unknown
+): { additives: string[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: "additives muss eine Liste sein" };
+  }
+  const keys = value.map((entry) => String(entry));
+  const unknown = keys.filter((key) => !ADDITIVE_CLASSES_BY_KEY.has(key));
+  if (unknown.length > 0) {
+    return { error: `Unbekannte Zusatzstoffe: ${unknown.join(", ")}` };
+  }
+  return { additives: sortAdditiveKeys(keys) };
+}
+
+export function formatAdditiveFootnotes(keys: readonly string[]) {
+  return sortAdditiveKeys(keys)
+    .map((key) => ADDITIVE_CLASSES_BY_KEY.get(key)?.footnote)
+    .join(",");
+}
+
+/**
+ * Footnote numbers per recipe and the legend of all footnotes used, for a
+ * menu or any other selection of recipes.
+ */
+export function buildAdditiveLegend(
+  recipes: { id: string; name: string; additives: readonly string[] }[]
+): AdditiveLegend {
+  const used = new Set<string>();
+  const legendRecipes = recipes.map((recipe) => {
+    const additives = sortAdditiveKeys(recipe.additives);
+    for (const key of additives) {
+      used.add(key);
+    }
+    return {
+      id: recipe.id,
+      name: recipe.name,
+      additives,
+      footnotes: additives.map(
+        (key) => (ADDITIVE_CLASSES_BY_KEY.get(key) as AdditiveClass).footnote
+      ),
+    };
+  });
+
+  return {
+    recipes: legendRecipes,
+    legend: sortAdditiveKeys(used).map((key) => {
+      const additive = ADDITIVE_CLASSES_BY_KEY.get(key) as AdditiveClass;
+      return { footnote: additive.footnote, label: additive.label };
+    }),
+  };
+}
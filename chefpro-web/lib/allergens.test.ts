@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import {
+  findAllergenMentions,
+  matchAllergenLabels,
+  normalizeAllergens,
+  sortAllergenLabels,
+} from "@/lib/allergens";
+
+function mentionedWords(text: string) {
+  return findAllergenMentions(text).map(({ start, end }) =>
+    text.slice(start, end)
+  );
+}
+
+describe("matchAllergenLabels", () => {
+  it("maps milk products onto Milch", () => {
+    for (const value of [
+      "Milch",
+      "Vollmilchpulver",
+      "Magermilchjoghurt",
+      "Buttermilch",
+      "Butter",
+      "Butterreinfett",
+      "Milcherzeugnisse (inkl. Laktose)",
+      "Süßrahmbutter",
+    ]) {
+      expect(matchAllergenLabels(value), value).toEqual(["Milch"]);
+    }
+  });
+
+  it("does not treat lactic acid or plant butters as milk", () => {
+    for (const value of [
+      "Milchsäure",
+      "Milchsäurebakterien",
+      "Säuerungsmittel: Milchsäure (E270)",
+      "Kakaobutter",
+      "Shea-Butter",
+      "Kakao Butter",
+    ]) {
+      expect(matchAllergenLabels(value), value).toEqual([]);
+    }
+  });
+
+  it("keeps real milk next to an excluded word", () => {
+    expect(matchAllergenLabels("Milchsäure, Vollmilchpulver")).toEqual([
+      "Milch",
+    ]);
+    expect(matchAllergenLabels("Kakaobutter, Butter")).toEqual(["Milch"]);
+  });
+
+  it("finds allergens inside compound words", () => {
+    for (const value of [
+      "Frischkäse",
+      "Schlagsahne",
+      "Kuhmilch",
+      "Magerquark",
+      "Süßmolkenpulver",
+    ]) {
+      expect(matchAllergenLabels(value), value).toEqual(["Milch"]);
+    }
+    expect(matchAllergenLabels("Vollkornweizenmehl")).toEqual(["Weizen"]);
+    expect(matchAllergenLabels("Buchweizenmehl")).toEqual([]);
+    expect(matchAllergenLabels("Kokosmilch")).toEqual([]);
+    expect(matchAllergenLabels("Hafermilch")).toEqual(["Hafer"]);
+  });
+
+  it("knows fish species", () => {
+    for (const value of ["Lachs", "Räucherlachs", "Seelachsfilet", "Kabeljau"]) {
+      expect(matchAllergenLabels(value), value).toEqual(["Fisch"]);
+    }
+    expect(matchAllergenLabels("Lachsschinken, Leinsamen (Flachs)")).toEqual(
+      []
+    );
+  });
+
+  it("does not read eggplant as egg", () => {
+    expect(matchAllergenLabels("Eggplant")).toEqual([]);
+    expect(matchAllergenLabels("Egg yolk")).toEqual(["Eier"]);
+  });
+
+  it("skips negated words and phrases", () => {
+    for (const value of [
+      "laktosefrei",
+      "glutenfreie Backmischung",
+      "Soja-frei",
+      "lactose-free",
+      "enthält keine Nüsse",
+      "ohne Milch und Ei",
+      "frei von Sellerie",
+    ]) {
+      expect(matchAllergenLabels(value), value).toEqual([]);
+    }
+    expect(matchAllergenLabels("laktosefreie Milch")).toEqual(["Milch"]);
+    expect(matchAllergenLabels("Senf, ohne Sellerie")).toEqual(["Senf"]);
+  });
+
+  it("applies exclusions only to their own allergen", () => {
+    expect(matchAllergenLabels("Erdnuss-Butter")).toEqual(["Erdnüsse"]);
+  });
+
+  it("names cereals and nuts by their sub-type", () => {
+    expect(matchAllergenLabels("Weizenmehl, Haselnusskerne")).toEqual([
+      "Weizen",
+      "Haselnüsse",
+    ]);
+  });
+});
+
+describe("sortAllergenLabels", () => {
+  it("sorts in catalogue order and drops a main allergen next to its sub-type", () => {
+    expect(
+      sortAllergenLabels(["Sellerie", "Schalenfrüchte", "Mandeln", "Eier"])
+    ).toEqual(["Eier", "Mandeln", "Sellerie"]);
+  });
+});
+
+describe("normalizeAllergens", () => {
+  it("moves traces into their own list unless the allergen is contained", () => {
+    expect(
+      normalizeAllergens(
+        ["Milch", "kann Spuren von Sellerie enthalten"],
+        ["Milch", "Senf"]
+      )
+    ).toEqual({
+      allergens: ["Milch"],
+      traces: ["Sellerie", "Senf"],
+      unmatched: [],
+      unmatchedTraces: [],
+    });
+  });
+
+  it("keeps entries outside the catalogue per list", () => {
+    const normalized = normalizeAllergens(
+      ["Milchsäure", "Ei"],
+      ["Spuren von Koriander"]
+    );
+
+    expect(normalized.allergens).toEqual(["Eier"]);
+    expect(normalized.unmatched).toEqual(["Milchsäure"]);
+    expect(normalized.unmatchedTraces).toEqual(["Spuren von Koriander"]);
+  });
+
+  it("ignores entries stating that there are no allergens", () => {
+    expect(
+      normalizeAllergens(
+        [
+          "keine",
+          "-",
+          "laktosefrei",
+          "glutenfrei",
+          "Sojafrei",
+          "enthält keine Nüsse",
+        ],
+        ["Spuren: keine"]
+      )
+    ).toEqual({
+      allergens: [],
+      traces: [],
+      unmatched: [],
+      unmatchedTraces: [],
+    });
+  });
+});
+
+describe("findAllergenMentions", () => {
+  it("covers whole words of allergen mentions", () => {
+    expect(
+      mentionedWords("Zucker, Vollmilchpulver, Butter, Weizenmehl (45 %)")
+    ).toEqual(["Vollmilchpulver", "Butter", "Weizenmehl"]);
+  });
+
+  it("covers compound words from their start", () => {
+    expect(
+      mentionedWords("Frischkäse, Schlagsahne, Vollkornweizenmehl, Lachs")
+    ).toEqual(["Frischkäse", "Schlagsahne", "Vollkornweizenmehl", "Lachs"]);
+  });
+
+  it("does not mark negated words", () => {
+    expect(mentionedWords("laktosefreie Milch, glutenfreies Brot")).toEqual([
+      "Milch",
+    ]);
+  });
+
+  it("does not mark lactic acid or cocoa butter", () => {
+    expect(
+      mentionedWords(
+        "Kakaobutter, Säuerungsmittel: Milchsäure, Milchsäurebakterien, Shea-Butter"
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,496 @@
+// The 14 main allergens of EU regulation 1169/2011 (LMIV, Annex II) with
+// the letter codes common on German menus. Synonyms are matched at the
+// start of a word; a trailing "*" also matches longer words ("joghurt*"
+// covers "Joghurtpulver"), without it only the whole word matches. A leading
+// "*" also matches inside compound words ("*käse*" covers "Frischkäse").
+// Exclusions are words that contain a synonym but are not the allergen
+// ("Shea-Butter"); they are skipped before the synonyms are matched, as are
+// negated words ("laktosefrei", "ohne Nüsse").
+
+export type AllergenSubtype = {
+  name: string;
+  synonyms: string[];
+};
+
+export type AllergenDefinition = {
+  code: string;
+  name: string;
+  synonyms: string[];
+  exclusions?: string[];
+  // Cereals and nuts have to be declared by their specific name
+  subtypes: AllergenSubtype[];
+};
+
+export const LMIV_ALLERGENS: AllergenDefinition[] = [
+  {
+    code: "A",
+    name: "Glutenhaltiges Getreide",
+    synonyms: ["gluten*", "glutenhaltig*", "cereals containing gluten"],
+    // Buckwheat is a knotweed and free of gluten
+    exclusions: ["buchweizen*"],
+    subtypes: [
+      { name: "Weizen", synonyms: ["*weizen*", "wheat*"] },
+      { name: "Roggen", synonyms: ["roggen*", "rye"] },
+      { name: "Gerste", synonyms: ["gerste*", "gersten*", "barley"] },
+      { name: "Hafer", synonyms: ["hafer*", "oat*"] },
+      { name: "Dinkel", synonyms: ["dinkel*", "spelt"] },
+      { name: "Kamut", synonyms: ["kamut*", "khorasan*"] },
+    ],
+  },
+  {
+    code: "B",
+    name: "Krebstiere",
+    synonyms: [
+      "krebstier*",
+      "krebs",
+      "krebse",
+      "flusskrebs*",
+      "garnele*",
+      "shrimp*",
+      "krabbe*",
+      "hummer*",
+      "languste*",
+      "scampi",
+      "crustacean*",
+    ],
+    subtypes: [],
+  },
+  {
+    code: "C",
+    name: "Eier",
+    synonyms: [
+      "ei",
+      "eier*",
+      "hühnerei*",
+      "vollei*",
+      "eigelb*",
+      "eiklar*",
+      "eipulver*",
+      "egg",
+      "eggs",
+    ],
+    subtypes: [],
+  },
+  {
+    code: "D",
+    name: "Fisch",
+    synonyms: [
+      "fisch*",
+      "sardelle*",
+      "sardine*",
+      "anchovi*",
+      "thunfisch*",
+      "*lachs*",
+      "forelle*",
+      "kabeljau*",
+      "dorsch*",
+      "hering*",
+      "makrele*",
+      "scholle*",
+      "seezunge*",
+      "heilbutt*",
+      "zander*",
+      "karpfen*",
+      "barsch*",
+      "pangasius*",
+      "tilapia*",
+      "sprotte*",
+      "fish",
+    ],
+    // Lachsschinken is cured pork, Flachs is linseed
+    exclusions: ["lachsschinken*", "flachs*"],
+    subtypes: [],
+  },
+  {
+    code: "E",
+    name: "Erdnüsse",
+    synonyms: ["erdnuss*", "erdnüss*", "peanut*"],
+    subtypes: [],
+  },
+  {
+    code: "F",
+    name: "Soja",
+    synonyms: ["soja*", "soy*"],
+    subtypes: [],
+  },
+  {
+    code: "G",
+    name: "Milch",
+    synonyms: [
+      "*milch*",
+      "laktose*",
+      "lactose*",
+      "*molke*",
+      "*sahne*",
+      "rahm*",
+      "süßrahm*",
+      "sauerrahm*",
+      "butter",
+      "butterreinfett",
+      "butterschmalz",
+      "butterfett",
+      "*käse*",
+      "joghurt*",
+      "*quark*",
+      "kasein*",
+      "casein*",
+      "milk*",
+    ],
+    // Lactic acid (E270), plant drinks and plant fats called "butter"
+    // contain no milk
+    exclusions: [
+      "milchsäure*",
+      "kokosmilch*",
+      "kokos-milch*",
+      "kokossahne*",
+      "mandelmilch*",
+      "hafermilch*",
+      "sojamilch*",
+      "reismilch*",
+      "shea-butter",
+      "shea butter",
+      "kakao-butter",
+      "kakao butter",
+      "erdnuss-butter",
+    ],
+    subtypes: [],
+  },
+  {
+    code: "H",
+    name: "Schalenfrüchte",
+    synonyms: [
+      "schalenfrucht*",
+      "schalenfrücht*",
+      "nuss",
+      "nüsse",
+      "nüssen",
+      "nuts",
+      "tree nuts",
+    ],
+    subtypes: [
+      { name: "Mandeln", synonyms: ["mandel*", "almond*"] },
+      { name: "Haselnüsse", synonyms: ["haselnuss*", "haselnüss*", "hazelnut*"] },
+      { name: "Walnüsse", synonyms: ["walnuss*", "walnüss*", "walnut*"] },
+      { name: "Cashewnüsse", synonyms: ["cashew*"] },
+      { name: "Pekannüsse", synonyms: ["pekannuss*", "pekannüss*", "pecan*"] },
+      { name: "Paranüsse", synonyms: ["paranuss*", "paranüss*"] },
+      { name: "Pistazien", synonyms: ["pistazie*", "pistachio*"] },
+      { name: "Macadamianüsse", synonyms: ["macadamia*"] },
+    ],
+  },
+  {
+    code: "L",
+    name: "Sellerie",
+    synonyms: ["sellerie*", "knollensellerie*", "staudensellerie*", "celery"],
+    subtypes: [],
+  },
+  {
+    code: "M",
+    name: "Senf",
+    synonyms: ["senf*", "mustard"],
+    subtypes: [],
+  },
+  {
+    code: "N",
+    name: "Sesam",
+    synonyms: ["sesam*", "sesame"],
+    subtypes: [],
+  },
+  {
+    code: "O",
+    name: "Schwefeldioxid und Sulfite",
+    synonyms: [
+      "schwefel*",
+      "sulfit*",
+      "disulfit*",
+      "kaliumdisulfit*",
+      "natriumdisulfit*",
+      "sulphite*",
+      "sulfite*",
+    ],
+    subtypes: [],
+  },
+  {
+    code: "P",
+    name: "Lupinen",
+    synonyms: ["lupine*", "lupin*"],
+    subtypes: [],
+  },
+  {
+    code: "R",
+    name: "Weichtiere",
+    synonyms: [
+      "weichtier*",
+      "muschel*",
+      "tintenfisch*",
+      "kalmar*",
+      "schnecke*",
+      "auster*",
+      "mollus*",
+    ],
+    subtypes: [],
+  },
+];
+
+export type NormalizedAllergens = {
+  allergens: string[];
+  traces: string[];
+  // Entries that match no catalogue allergen, kept for the user to fix
+  unmatched: string[];
+  unmatchedTraces: string[];
+};
+
+const LETTER = "a-zäöüß";
+
+const NO_ALLERGENS_PATTERN = new RegExp(
+  `^(-|keine|ohne|frei von|allergenfrei|none)(?![${LETTER}])`,
+  "i"
+);
+
+const TRACES_PATTERN = /spuren|kann .*enthalten|may contain|traces/i;
+
+// "laktosefrei", "glutenfreie", "Soja-frei", "lactose-free"
+const FREE_FROM_WORD_PATTERN = new RegExp(
+  `(^|[^${LETTER}])[${LETTER}]+(-?frei(e[mnrs]?)?|[- ]free)(?![${LETTER}])`,
+  "gi"
+);
+
+// "ohne Nüsse", "enthält keine Milch", "frei von Gluten", up to the next
+// list separator
+const NEGATED_PHRASE_PATTERN = new RegExp(
+  `(^|[^${LETTER}])(kein(e[mnrs]?)?|ohne|frei von|free from|without)(?![${LETTER}])[^,;.()]*`,
+  "gi"
+);
+
+const NEGATION_PATTERNS = [FREE_FROM_WORD_PATTERN, NEGATED_PHRASE_PATTERN];
+
+type LabelEntry = {
+  label: string;
+  allergen: AllergenDefinition;
+  order: number;
+};
+
+const LABEL_ENTRIES: LabelEntry[] = LMIV_ALLERGENS.flatMap(
+  (allergen, allergenIndex) => [
+    { label: allergen.name, allergen, order: allergenIndex * 100 },
+    ...allergen.subtypes.map((subtype, subtypeIndex) => ({
+      label: subtype.name,
+      allergen,
+      order: allergenIndex * 100 + subtypeIndex + 1,
+    })),
+  ]
+);
+
+const LABELS_BY_NAME = new Map(
+  LABEL_ENTRIES.map((entry) => [entry.label.toLowerCase(), entry])
+);
+
+// Synonyms are grouped by allergen, as exclusions only apply to their own
+// allergen
+const SYNONYM_GROUPS = LMIV_ALLERGENS.map((allergen) => ({
+  exclusions: (allergen.exclusions ?? []).map(toExclusionPattern),
+  patterns: [
+    ...[allergen.name.toLowerCase(), ...allergen.synonyms].map((synonym) => ({
+      label: allergen.name,
+      pattern: toSynonymPattern(synonym),
+    })),
+    ...allergen.subtypes.flatMap((subtype) =>
+      [subtype.name.toLowerCase(), ...subtype.synonyms].map((synonym) => ({
+        label: subtype.name,
+        pattern: toSynonymPattern(synonym),
+      }))
+    ),
+  ],
+}));
+
+function escapeStem(stem: string) {
+  return stem.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function toSynonymPattern(synonym: string) {
+  const isInfix = synonym.startsWith("*");
+  const isPrefix = synonym.endsWith("*");
+  const stem = escapeStem(synonym.replace(/^\*|\*$/g, ""));
+  return new RegExp(
+    `(${isInfix ? "" : `^|[^${LETTER}]`})${stem}${
+      isPrefix ? "" : `(?![${LETTER}])`
+    }`,
+    "i"
+  );
+}
+
+// Excluded words always cover the rest of the word
+function toExclusionPattern(exclusion: string) {
+  const stem = escapeStem(exclusion.replace(/\*$/, ""));
+  return new RegExp(`(^|[^${LETTER}])${stem}[${LETTER}]*`, "gi");
+}
+
+/**
+ * Blanks out the matches of word patterns. The text keeps its length, so
+ * match positions stay valid for the original text.
+ */
+function maskPatterns(text: string, patterns: readonly RegExp[]) {
+  return patterns.reduce(
+    (masked, pattern) =>
+      masked.replace(
+        pattern,
+        (match: string, boundary: string) =>
+          boundary + " ".repeat(match.length - boundary.length)
+      ),
+    text
+  );
+}
+
+/**
+ * The catalogue entry behind a canonical label such as "Milch" or
+ * "Haselnüsse".
+ */
+export function findAllergenByLabel(label: string) {
+  return LABELS_BY_NAME.get(label.trim().toLowerCase())?.allergen ?? null;
+}
+
+/**
+ * Sorts canonical labels in catalogue order and drops a main allergen if one
+ * of its sub-types is listed, e.g. "Schalenfrüchte" next to "Mandeln".
+ */
+export function sortAllergenLabels(labels: Iterable<string>): string[] {
+  const entries = new Map<string, LabelEntry>();
+  for (const label of labels) {
+    const entry = LABELS_BY_NAME.get(label.trim().toLowerCase());
+    if (entry) {
+      entries.set(entry.label, entry);
+    }
+  }
+  const values = Array.from(entries.values());
+  return values
+    .filter(
+      (entry) =>
+        entry.label !== entry.allergen.name ||
+        !values.some(
+          (other) =>
+            other.allergen === entry.allergen && other.label !== entry.label
+        )
+    )
+    .sort((first, second) => first.order - second.order)
+    .map((entry) => entry.label);
+}
+
+/**
+ * Canonical allergen labels mentioned in a free-text entry, e.g.
+ * "Milcherzeugnisse (inkl. Laktose)" → ["Milch"].
+ */
+export function matchAllergenLabels(text: string): string[] {
+  const labels = new Set<string>();
+  const affirmed = maskPatterns(text, NEGATION_PATTERNS);
+  for (const { exclusions, patterns } of SYNONYM_GROUPS) {
+    const masked = maskPatterns(affirmed, exclusions);
+    for (const { label, pattern } of patterns) {
+      if (pattern.test(masked)) {
+        labels.add(label);
+      }
+    }
+  }
+  return sortAllergenLabels(labels);
+}
+
+/**
+ * Maps free-text allergen entries, as they come from AI extraction or the
+ * comma-separated input, onto the catalogue. Entries mentioning traces
+ * ("kann Spuren von Sellerie enthalten") go to `traces`; traces of an
+ * allergen that is listed as contained anyway are dropped.
+ */
+export function normalizeAllergens(
+  values: readonly string[],
+  traceValues: readonly string[] = []
+): NormalizedAllergens {
+  const allergens = new Set<string>();
+  const traces = new Set<string>();
+  const unmatched: string[] = [];
+  const unmatchedTraces: string[] = [];
+
+  const add = (value: string, target: Set<string>) => {
+    const trimmed = value.trim();
+    if (!trimmed || NO_ALLERGENS_PATTERN.test(trimmed)) {
+      return;
+    }
+    const labels = matchAllergenLabels(trimmed);
+    if (labels.length === 0) {
+      // A claim such as "laktosefrei" names no allergen to fix
+      if (maskPatterns(trimmed, NEGATION_PATTERNS) === trimmed) {
+        (target === traces ? unmatchedTraces : unmatched).push(trimmed);
+      }
+      return;
+    }
+    for (const label of labels) {
+      target.add(label);
+    }
+  };
+
+  for (const value of values) {
+    add(value, TRACES_PATTERN.test(value) ? traces : allergens);
+  }
+  for (const value of traceValues) {
+    add(value, traces);
+  }
+
+  return {
+    allergens: sortAllergenLabels(allergens),
+    traces: sortAllergenLabels(traces).filter(
+      (label) => !allergens.has(label)
+    ),
+    unmatched,
+    unmatchedTraces,
+  };
+}
+
+/**
+ * Character ranges of allergen words in a text, e.g. for bold printing in
+ * an ingredient list. A match covers the whole word ("Frischkäsezubereitung"),
+ * negated words ("laktosefrei") are left out.
+ */
+export function findAllergenMentions(
+  text: string
+): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  const letter = new RegExp(`[${LETTER}]`, "i");
+  const affirmed = maskPatterns(text, NEGATION_PATTERNS);
+  for (const { exclusions, patterns } of SYNONYM_GROUPS) {
+    const masked = maskPatterns(affirmed, exclusions);
+    for (const { pattern } of patterns) {
+      for (const match of masked.matchAll(new RegExp(pattern.source, "gi"))) {
+        let start = (match.index ?? 0) + match[1].length;
+        while (start > 0 && letter.test(masked[start - 1])) {
+          start -= 1;
+        }
+        let end = (match.index ?? 0) + match[0].length;
+        while (end < masked.length && letter.test(masked[end])) {
+          end += 1;
+        }
+        ranges.push({ start, end });
+      }
+    }
+  }
+
+  ranges.sort((first, second) => first.start - second.start);
+  const merged: { start: number; end: number }[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+export function parseAllergenInput(input: string): string[] {
+  return input
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
+
+export function toAllergenList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map((entry) => String(entry)) : [];
+}
@@ -0,0 +1,74 @@
+import type { Session } from "@supabase/supabase-js";
+import type { NextResponse } from "next/server";
+
+export const ACCESS_TOKEN_COOKIE = "chefpro-access-token";
+export const REFRESH_TOKEN_COOKIE = "chefpro-refresh-token";
+
+const REFRESH_TOKEN_MAX_AGE = 60 * 60 * 24 * 30;
+
+// Refresh a little before the token actually expires
+const EXPIRY_LEEWAY_SECONDS = 60;
+
+function getCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge,
+  };
+}
+
+export function setSessionCookies(
+  response: NextResponse,
+  session: Pick<Session, "access_token" | "refresh_token" | "expires_in">
+) {
+  response.cookies.set(
+    ACCESS_TOKEN_COOKIE,
+    session.access_token,
+    getCookieOptions(session.expires_in)
+  );
+  response.cookies.set(
+    REFRESH_TOKEN_COOKIE,
+    session.refresh_token,
+    getCookieOptions(REFRESH_TOKEN_MAX_AGE)
+  );
+}
+
+export function clearSessionCookies(response: NextResponse) {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, "", getCookieOptions(0));
+  response.cookies.set(REFRESH_TOKEN_COOKIE, "", getCookieOptions(0));
+}
+
+/**
+ * Reads the `exp` claim without verifying the signature. Only used to decide
+ * whether a refresh is due; Supabase verifies the token on every request.
+ */
+export function isAccessTokenExpired(accessToken: string) {
+  const payload = accessToken.split(".")[1];
+  if (!payload) {
+    return true;
+  }
+  try {
+    const claims = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf-8")
+    ) as { exp?: unknown };
+    if (typeof claims.exp !== "number") {
+      return true;
+    }
+    return claims.exp - EXPIRY_LEEWAY_SECONDS <= Date.now() / 1000;
+  } catch {
+    return true;
+  }
+}
+
+export function getSafeRedirectPath(value: unknown, fallback = "/") {
+  if (typeof value !== "string" || !value.startsWith("/")) {
+    return fallback;
+  }
+  // Protocol-relative URLs would leave the app
+  if (value.startsWith("//") || value.startsWith("/\\")) {
+    return fallback;
+  }
+  return value;
+}
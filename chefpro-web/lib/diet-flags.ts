@@ -0,0 +1,200 @@
+export const DIET_FLAG_KEYS = [
+  "isVegan",
+  "isVegetarian",
+  "isGlutenFree",
+  "isLactoseFree",
+  "isPalmOilFree",
+  "isYeastFree",
+] as const;
+
+export type DietFlagKey = (typeof DIET_FLAG_KEYS)[number];
+
+export const DIET_FLAG_LABELS: Record<DietFlagKey, string> = {
+  isVegan: "Vegan",
+  isVegetarian: "Vegetarisch",
+  isGlutenFree: "Glutenfrei",
+  isLactoseFree: "Laktosefrei",
+  isPalmOilFree: "Palmölfrei",
+  isYeastFree: "Hefefrei",
+};
+
+export type DietFlagOverride = {
+  value: boolean;
+  reason: string;
+};
+
+export type DietFlagOverrides = Partial<Record<DietFlagKey, DietFlagOverride>>;
+
+export type DietFlagItem = Partial<Record<DietFlagKey, boolean>> & {
+  id: string;
+  name: string;
+  components?: { itemId: string | null }[];
+  dietFlagOverrides?: DietFlagOverrides | null;
+};
+
+export type InheritedDietFlag = {
+  value: boolean;
+  // Ingredients that lack the flag, so the recipe cannot carry it
+  blockingIngredients: string[];
+};
+
+export type InheritedDietFlags = Record<DietFlagKey, InheritedDietFlag>;
+
+export type DietFlagConflict = {
+  key: DietFlagKey;
+  storedValue: boolean;
+  expectedValue: boolean;
+  blockingIngredients: string[];
+};
+
+const UNKNOWN_INGREDIENT_NAME = "Unbekannte Zutat";
+
+function hasFlag(item: DietFlagItem, key: DietFlagKey) {
+  // Anything vegan is vegetarian as well, even if only one box was ticked
+  if (key === "isVegetarian") {
+    return Boolean(item.isVegetarian || item.isVegan);
+  }
+  return Boolean(item[key]);
+}
+
+/**
+ * Diet flags of a recipe derived from all base ingredients of the flattened
+ * component tree: a flag holds only if every ingredient carries it. Missing
+ * ingredients count against every flag. Returns null for items without
+ * components.
+ */
+export function computeInheritedDietFlags(
+  rootItem: DietFlagItem,
+  itemsById: ReadonlyMap<string, DietFlagItem>
+): InheritedDietFlags | null {
+  if (!rootItem.components || rootItem.components.length === 0) {
+    return null;
+  }
+
+  const ingredients = new Map<string, DietFlagItem | null>();
+  const visited = new Set<string>([rootItem.id]);
+
+  function collect(item: DietFlagItem) {
+    for (const component of item.components ?? []) {
+      const child = component.itemId
+        ? itemsById.get(component.itemId)
+        : undefined;
+      if (!child) {
+        ingredients.set(
+          `missing-${component.itemId ?? ingredients.size}`,
+          null
+        );
+        continue;
+      }
+      if (child.components && child.components.length > 0) {
+        if (!visited.has(child.id)) {
+          visited.add(child.id);
+          collect(child);
+        }
+        continue;
+      }
+      ingredients.set(child.id, child);
+    }
+  }
+
+  collect(rootItem);
+
+  const result = {} as InheritedDietFlags;
+  for (const key of DIET_FLAG_KEYS) {
+    const blocking = new Set<string>();
+    for (const ingredient of ingredients.values()) {
+      if (!ingredient) {
+        blocking.add(UNKNOWN_INGREDIENT_NAME);
+      } else if (!hasFlag(ingredient, key)) {
+        blocking.add(ingredient.name);
+      }
+    }
+    result[key] = {
+      value: blocking.size === 0,
+      blockingIngredients: Array.from(blocking).sort((a, b) =>
+        a.localeCompare(b, "de")
+      ),
+    };
+  }
+  return result;
+}
+
+/**
+ * The flags a recipe should carry: the inherited value unless it was
+ * overridden with a reason.
+ */
+export function resolveDietFlags(
+  inherited: InheritedDietFlags,
+  overrides: DietFlagOverrides | null | undefined
+): Record<DietFlagKey, boolean> {
+  const result = {} as Record<DietFlagKey, boolean>;
+  for (const key of DIET_FLAG_KEYS) {
+    result[key] = overrides?.[key]?.value ?? inherited[key].value;
+  }
+  return result;
+}
+
+/**
+ * Stored flags of a recipe that no longer match its ingredients, e.g. after
+ * an ingredient changed or for recipes saved before flags were derived.
+ */
+export function findDietFlagConflicts(
+  item: DietFlagItem,
+  itemsById: ReadonlyMap<string, DietFlagItem>
+): DietFlagConflict[] {
+  const inherited = computeInheritedDietFlags(item, itemsById);
+  if (!inherited) {
+    return [];
+  }
+  const expected = resolveDietFlags(inherited, item.dietFlagOverrides);
+  return DIET_FLAG_KEYS.filter(
+    (key) => Boolean(item[key]) !== expected[key]
+  ).map((key) => ({
+    key,
+    storedValue: Boolean(item[key]),
+    expectedValue: expected[key],
+    blockingIngredients: inherited[key].blockingIngredients,
+  }));
+}
+
+export function formatDietFlagConflict(conflict: DietFlagConflict) {
+  const label = DIET_FLAG_LABELS[conflict.key];
+  if (conflict.storedValue) {
+    return `Als „${label}“ markiert, enthält aber: ${conflict.blockingIngredients.join(", ")}`;
+  }
+  return `Nicht als „${label}“ markiert, obwohl alle Zutaten es sind`;
+}
+
+/**
+ * Validates overrides sent by the client. Every override needs a boolean
+ * value and a non-empty reason; returns an error message otherwise.
+ */
+export function parseDietFlagOverrides(
+  value: unknown
+): { overrides: DietFlagOverrides } | { error: string } {
+  if (value === null || value === undefined) {
+    return { overrides: {} };
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { error: "dietFlagOverrides muss ein Objekt sein" };
+  }
+  const overrides: DietFlagOverrides = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (!(DIET_FLAG_KEYS as readonly string[]).includes(key)) {
+      return { error: `Unbekanntes Ernährungsmerkmal: ${key}` };
+    }
+    const flagKey = key as DietFlagKey;
+    const override = entry as Partial<DietFlagOverride> | null;
+    const reason =
+      override && typeof override.reason === "string"
+        ? override.reason.trim()
+        : "";
+    if (!override || typeof override.value !== "boolean" || !reason) {
+      return {
+        error: `Für das Überschreiben von „${DIET_FLAG_LABELS[flagKey]}“ ist eine Begründung erforderlich.`,
+      };
+    }
+    overrides[flagKey] = { value: override.value, reason };
+  }
+  return { overrides };
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeIngredientDeclaration,
+  splitAllergenSegments,
+  type DeclarationSegment,
+} from "@/lib/ingredient-declaration";
+import type { CalculationItem } from "@/lib/recipe-calculation";
+
+function product(id: string, name: string, ingredients?: string) {
+  return {
+    id,
+    name,
+    unit: "1kg",
+    purchasePrice: 1,
+    ingredients: ingredients ?? null,
+  } satisfies CalculationItem;
+}
+
+function allergenWords(segments: DeclarationSegment[]) {
+  return segments
+    .filter((segment) => segment.isAllergen)
+    .map((segment) => segment.text);
+}
+
+const joghurt = product("joghurt", "Joghurt", "Vollmilch, Milchsäurebakterien");
+const schokolade = product(
+  "schokolade",
+  "Zartbitterschokolade",
+  "Kakaomasse, Zucker, Kakaobutter, Emulgator: Sojalecithin"
+);
+const zucker = product("zucker", "Zucker");
+const milchsaeure = product("milchsaeure", "Milchsäure");
+
+const joghurtcreme: CalculationItem = {
+  id: "joghurtcreme",
+  name: "Joghurtcreme",
+  unit: "kg",
+  purchasePrice: 0,
+  components: [
+    { itemId: "joghurt", quantity: 600, unit: "g" },
+    { itemId: "schokolade", quantity: 300, unit: "g" },
+    { itemId: "zucker", quantity: 80, unit: "g" },
+    { itemId: "milchsaeure", quantity: 20, unit: "g" },
+  ],
+};
+
+const itemsById = new Map<string, CalculationItem>(
+  [joghurt, schokolade, zucker, milchsaeure, joghurtcreme].map((item) => [
+    item.id,
+    item,
+  ])
+);
+
+describe("computeIngredientDeclaration", () => {
+  it("lists ingredients by weight with the QUID share of the named one", () => {
+    const declaration = computeIngredientDeclaration(joghurtcreme, itemsById);
+
+    expect(declaration.text).toBe(
+      "Joghurt 60 % (Vollmilch, Milchsäurebakterien), Zartbitterschokolade (Kakaomasse, Zucker, Kakaobutter, Emulgator: Sojalecithin), Zucker, Milchsäure"
+    );
+    expect(declaration.hasMissingWeights).toBe(false);
+  });
+
+  it("bolds milk and soy but not lactic acid or cocoa butter", () => {
+    const declaration = computeIngredientDeclaration(joghurtcreme, itemsById);
+
+    expect(allergenWords(declaration.segments)).toEqual([
+      "Joghurt",
+      "Vollmilch",
+      "Sojalecithin",
+    ]);
+  });
+});
+
+describe("splitAllergenSegments", () => {
+  it("keeps the text intact around bold words", () => {
+    const text = "Butter, Milchsäure, Vollmilchpulver";
+    const segments = splitAllergenSegments(text);
+
+    expect(segments.map((segment) => segment.text).join("")).toBe(text);
+    expect(allergenWords(segments)).toEqual(["Butter", "Vollmilchpulver"]);
+  });
+
+  it("bolds allergens inside compound words", () => {
+    expect(
+      allergenWords(
+        splitAllergenSegments(
+          "Frischkäse, Schlagsahne, Magerquark, Vollkornweizenmehl, Räucherlachs"
+        )
+      )
+    ).toEqual([
+      "Frischkäse",
+      "Schlagsahne",
+      "Magerquark",
+      "Vollkornweizenmehl",
+      "Räucherlachs",
+    ]);
+  });
+
+  it("does not bold negated words", () => {
+    expect(
+      allergenWords(
+        splitAllergenSegments(
+          "laktosefreie Milch, glutenfreie Haferflocken, Gemüsebrühe (ohne Sellerie)"
+        )
+      )
+    ).toEqual(["Milch", "Haferflocken"]);
+  });
+});
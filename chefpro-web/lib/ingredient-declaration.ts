@@ -0,0 +1,227 @@
+import { findAllergenMentions } from "@/lib/allergens";
+import {
+  getNutritionUnitConversion,
+  getRecipeOutputMass,
+  type CalculationItem,
+} from "@/lib/recipe-calculation";
+
+// Ingredient list (Zutatenverzeichnis) of an own product per LMIV Art. 18
+// to 22: sub-recipes are resolved into their ingredients, purchased
+// products keep their own ingredient list in brackets, everything is sorted
+// by weight at the time of use and highlighted ingredients get their share
+// in percent (QUID). 1 ml counts as 1 g.
+
+export type DeclarationEntry = {
+  itemId: string;
+  name: string;
+  // Grams per recipe batch, null if a quantity could not be converted
+  weight: number | null;
+  percent: number | null;
+  isQuid: boolean;
+  // Ingredient list of a purchased compound ingredient
+  ingredients: string | null;
+};
+
+export type DeclarationSegment = {
+  text: string;
+  isAllergen: boolean;
+};
+
+export type IngredientDeclaration = {
+  entries: DeclarationEntry[];
+  text: string;
+  segments: DeclarationSegment[];
+  hasMissingWeights: boolean;
+};
+
+function normalizeWord(value: string) {
+  return value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function cleanIngredientsText(value: string | null | undefined) {
+  const cleaned = (value ?? "")
+    .replace(/^\s*zutaten\s*:\s*/i, "")
+    .replace(/[\s.]+$/, "")
+    .trim();
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+// An ingredient is highlighted if the recipe name mentions it, e.g. the
+// "Tomate" in "Tomatensuppe"
+function isNamedInRecipe(ingredientName: string, recipeName: string) {
+  const name = normalizeWord(ingredientName).split(" ")[0] ?? "";
+  if (name.length < 3) {
+    return false;
+  }
+  const stem = name.length > 4 ? name.replace(/(en|n|e|s)$/, "") : name;
+  return normalizeWord(recipeName).replace(/ /g, "").includes(stem);
+}
+
+function formatPercent(value: number) {
+  return `${value.toLocaleString("de-DE", {
+    maximumFractionDigits: value < 10 ? 1 : 0,
+  })} %`;
+}
+
+export function splitAllergenSegments(text: string): DeclarationSegment[] {
+  const segments: DeclarationSegment[] = [];
+  let lastIndex = 0;
+  for (const { start, end } of findAllergenMentions(text)) {
+    if (start > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, start), isAllergen: false });
+    }
+    segments.push({ text: text.slice(start, end), isAllergen: true });
+    lastIndex = end;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), isAllergen: false });
+  }
+  return segments;
+}
+
+/**
+ * Builds the ingredient list of a recipe. `quidItemIds` marks additional
+ * ingredients for a percentage beyond those named in the recipe name.
+ */
+export function computeIngredientDeclaration(
+  rootItem: CalculationItem,
+  itemsById: ReadonlyMap<string, CalculationItem>,
+  quidItemIds: ReadonlySet<string> = new Set()
+): IngredientDeclaration {
+  const weights = new Map<string, number | null>();
+  let hasMissingWeights = false;
+
+  function getComponentMass(
+    component: NonNullable<CalculationItem["components"]>[number]
+  ) {
+    const child = component.itemId ? itemsById.get(component.itemId) : null;
+    const quantity = Number(String(component.quantity).replace(",", "."));
+    const unitInfo =
+      getNutritionUnitConversion(component.unit) ??
+      getNutritionUnitConversion(child?.unit);
+    if (!child || !Number.isFinite(quantity) || quantity <= 0 || !unitInfo) {
+      return null;
+    }
+    return quantity * unitInfo.toBase;
+  }
+
+  // Finished weight of one batch, null if any component cannot be converted
+  function getBatchMass(item: CalculationItem) {
+    let total = 0;
+    for (const component of item.components ?? []) {
+      const mass = getComponentMass(component);
+      if (mass === null) {
+        return null;
+      }
+      total += mass;
+    }
+    return total > 0 ? getRecipeOutputMass(item, total) : null;
+  }
+
+  function addLeaf(item: CalculationItem, mass: number | null) {
+    if (mass === null) {
+      hasMissingWeights = true;
+    }
+    const existing = weights.get(item.id) ?? null;
+    weights.set(
+      item.id,
+      existing !== null && mass !== null ? existing + mass : existing ?? mass
+    );
+  }
+
+  // `factor` scales a sub-recipe batch down to the amount used in its parent
+  function visit(item: CalculationItem, factor: number | null, path: string[]) {
+    for (const component of item.components ?? []) {
+      const child = component.itemId ? itemsById.get(component.itemId) : null;
+      if (!child) {
+        continue;
+      }
+      const mass = getComponentMass(component);
+      const scaledMass =
+        mass === null || factor === null ? null : mass * factor;
+
+      if (
+        !child.components ||
+        child.components.length === 0 ||
+        path.includes(child.id)
+      ) {
+        addLeaf(child, scaledMass);
+        continue;
+      }
+
+      const childBatchMass = getBatchMass(child);
+      if (scaledMass === null || childBatchMass === null) {
+        hasMissingWeights = true;
+      }
+      visit(
+        child,
+        scaledMass !== null && childBatchMass !== null
+          ? scaledMass / childBatchMass
+          : null,
+        [...path, child.id]
+      );
+    }
+  }
+
+  visit(rootItem, 1, [rootItem.id]);
+
+  const totalWeight = Array.from(weights.values()).reduce<number>(
+    (sum, weight) => sum + (weight ?? 0),
+    0
+  );
+
+  const entries: DeclarationEntry[] = Array.from(weights.entries())
+    .map(([itemId, weight]) => {
+      const item = itemsById.get(itemId) as CalculationItem;
+      const isQuid =
+        quidItemIds.has(itemId) || isNamedInRecipe(item.name, rootItem.name);
+      return {
+        itemId,
+        name: item.name,
+        weight,
+        percent:
+          isQuid && weight !== null && totalWeight > 0
+            ? (weight / totalWeight) * 100
+            : null,
+        isQuid,
+        ingredients:
+          item.components && item.components.length > 0
+            ? null
+            : cleanIngredientsText(item.ingredients),
+      };
+    })
+    .sort((first, second) => {
+      if (first.weight === null || second.weight === null) {
+        if (first.weight !== second.weight) {
+          return first.weight === null ? 1 : -1;
+        }
+        return first.name.localeCompare(second.name, "de");
+      }
+      return second.weight - first.weight;
+    });
+
+  const text = entries
+    .map((entry) => {
+      const parts = [entry.name];
+      if (entry.percent !== null) {
+        parts.push(formatPercent(entry.percent));
+      }
+      if (entry.ingredients) {
+        parts.push(`(${entry.ingredients})`);
+      }
+      return parts.join(" ");
+    })
+    .join(", ");
+
+  return {
+    entries,
+    text,
+    segments: splitAllergenSegments(text),
+    hasMissingWeights,
+  };
+}
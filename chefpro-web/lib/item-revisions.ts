@@ -0,0 +1,320 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type ItemRevisionAction = "create" | "update" | "delete" | "restore";
+
+export type ItemSnapshotComponent = {
+  child_item_id: string | null;
+  amount: number | null;
+  unit: string | null;
+};
+
+export type ItemSnapshotStep = {
+  step_order: number;
+  instruction: string;
+};
+
+/**
+ * Snapshot as written by the record_item_revision database function: the
+ * raw items row plus its recipe_structure and preparation_steps rows.
+ */
+export type ItemSnapshot = {
+  item: Record<string, unknown>;
+  components: ItemSnapshotComponent[];
+  steps: ItemSnapshotStep[];
+};
+
+export type ItemRevision = {
+  id: string;
+  itemId: string;
+  action: ItemRevisionAction;
+  itemVersion: number | null;
+  snapshot: ItemSnapshot;
+  changedBy: string | null;
+  changedByEmail: string | null;
+  createdAt: string;
+};
+
+export type SupabaseItemRevisionRow = {
+  id: string;
+  item_id: string;
+  action: ItemRevisionAction;
+  item_version: number | null;
+  snapshot: ItemSnapshot;
+  changed_by: string | null;
+  changed_by_email: string | null;
+  created_at: string;
+};
+
+export type ItemRevisionChange = {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+};
+
+export const ITEM_REVISION_ACTION_LABELS: Record<ItemRevisionAction, string> = {
+  create: "Angelegt",
+  update: "Geändert",
+  delete: "Gelöscht",
+  restore: "Wiederhergestellt",
+};
+
+// Columns that change on every save or are not editable
+const IGNORED_ITEM_FIELDS = new Set([
+  "id",
+  "kitchen_id",
+  "internal_id",
+  "created_at",
+  "updated_at",
+  "version",
+]);
+
+const ITEM_FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  item_type: "Typ",
+  unit: "Einheit",
+  purchase_price: "Einkaufspreis",
+  brand: "Marke",
+  currency: "Währung",
+  manufacturer_article_number: "Hersteller-Art.-Nr.",
+  ean: "EAN",
+  allergens: "Allergene",
+  allergen_traces: "Spuren von Allergenen",
+  additives: "Zusatzstoffe",
+  ingredients: "Zutaten",
+  dosage_instructions: "Dosierung",
+  yield_info: "Ausbeute",
+  yield_volume: "Ausbeute (Volumen)",
+  yield_weight_grams: "Ergiebigkeit (g)",
+  yield_volume_ml: "Ergiebigkeit (ml)",
+  usable_yield_percent: "Nutzbare Ausbeute",
+  cooking_factor: "Garfaktor",
+  target_portions: "Portionen",
+  target_sales_price: "Verkaufspreis",
+  category: "Kategorie",
+  portion_unit: "Portionseinheit",
+  nutrition_tags: "Ernährungs-Tags",
+  nutrition_per_unit: "Nährwerte",
+  standard_preparation: "Standard-Zubereitung",
+  storage_area: "Lagerbereich",
+  par_level: "Sollbestand",
+  reorder_quantity: "Bestellmenge",
+  preferred_supplier_id: "Bevorzugter Lieferant",
+  diet_flag_overrides: "Manuelle Ernährungsmerkmale",
+  fruit_vegetable_share: "Obst-/Gemüseanteil",
+  warengruppe: "Warengruppe",
+  bio_control_number: "Bio-Kontrollnummer",
+  device_settings: "Geräteeinstellungen",
+  image_url: "Bild",
+  file_url: "Dokument",
+  packshot_x: "Packshot-Ausschnitt (X)",
+  packshot_y: "Packshot-Ausschnitt (Y)",
+  packshot_zoom: "Packshot-Zoom",
+  is_bio: "Bio",
+  is_deklarationsfrei: "Deklarationsfrei",
+  is_allergenfrei: "Allergenfrei",
+  is_cook_chill: "Cook & Chill",
+  is_freeze_thaw_stable: "Gefrier-/Taustabil",
+  is_palm_oil_free: "Palmölfrei",
+  is_yeast_free: "Hefefrei",
+  is_lactose_free: "Laktosefrei",
+  is_gluten_free: "Glutenfrei",
+  is_vegan: "Vegan",
+  is_vegetarian: "Vegetarisch",
+  is_fairtrade: "Fairtrade",
+  is_powder: "Pulver",
+  is_granulate: "Granulat",
+  is_paste: "Paste",
+  is_liquid: "Flüssig",
+  deleted_at: "Gelöscht am",
+};
+
+export function mapItemRevisionRow(row: SupabaseItemRevisionRow): ItemRevision {
+  return {
+    id: row.id,
+    itemId: row.item_id,
+    action: row.action,
+    itemVersion: row.item_version,
+    snapshot: row.snapshot,
+    changedBy: row.changed_by,
+    changedByEmail: row.changed_by_email,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Stores the current state of an item as a revision. The change itself is
+ * already committed at this point, so a failure is only logged.
+ */
+export async function recordItemRevision(
+  client: SupabaseClient,
+  kitchenId: string,
+  itemId: string,
+  action: ItemRevisionAction
+) {
+  const { error } = await client.rpc("record_item_revision", {
+    p_kitchen_id: kitchenId,
+    p_item_id: itemId,
+    p_action: action,
+  });
+
+  if (error) {
+    console.error("Supabase record_item_revision error", {
+      table: "item_revisions",
+      error: error.message,
+      code: error.code,
+      itemId,
+      action,
+    });
+  }
+}
+
+/**
+ * Turns a snapshot back into the arguments of the save_recipe function.
+ */
+export function getSnapshotSaveArguments(snapshot: ItemSnapshot) {
+  const updates = Object.fromEntries(
+    Object.entries(snapshot.item).filter(
+      ([field]) => !IGNORED_ITEM_FIELDS.has(field)
+    )
+  );
+
+  return {
+    p_updates: updates,
+    p_components: snapshot.components,
+    p_steps: [...snapshot.steps]
+      .sort((first, second) => first.step_order - second.step_order)
+      .map((step) => ({ instruction: step.instruction })),
+  };
+}
+
+function normalizeValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") {
+    return "";
+  }
+  if (Array.isArray(value) && value.length === 0) {
+    return "";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") {
+    return "–";
+  }
+  if (typeof value === "boolean") {
+    return value ? "Ja" : "Nein";
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0
+      ? "–"
+      : value
+          .map((entry) =>
+            typeof entry === "object" ? JSON.stringify(entry) : String(entry)
+          )
+          .join(", ");
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function formatComponent(component: ItemSnapshotComponent | undefined) {
+  if (!component) {
+    return "–";
+  }
+  return `${component.amount ?? 0} ${component.unit ?? ""}`.trim();
+}
+
+/**
+ * Field-level differences between two snapshots of the same item.
+ * Components are compared per ingredient and steps per position;
+ * `getItemName` resolves ingredient ids for the labels.
+ */
+export function diffItemSnapshots(
+  previous: ItemSnapshot | null,
+  current: ItemSnapshot,
+  getItemName: (itemId: string) => string | undefined = () => undefined
+): ItemRevisionChange[] {
+  const changes: ItemRevisionChange[] = [];
+  const previousItem = previous?.item ?? {};
+
+  const fields = new Set([
+    ...Object.keys(previousItem),
+    ...Object.keys(current.item),
+  ]);
+
+  for (const field of fields) {
+    if (IGNORED_ITEM_FIELDS.has(field)) {
+      continue;
+    }
+    const before = previousItem[field];
+    const after = current.item[field];
+    if (normalizeValue(before) === normalizeValue(after)) {
+      continue;
+    }
+    changes.push({
+      field,
+      label: ITEM_FIELD_LABELS[field] ?? field,
+      before: formatValue(before),
+      after: formatValue(after),
+    });
+  }
+
+  const previousComponents = new Map(
+    (previous?.components ?? []).map((component) => [
+      component.child_item_id ?? "",
+      component,
+    ])
+  );
+  const currentComponents = new Map(
+    current.components.map((component) => [
+      component.child_item_id ?? "",
+      component,
+    ])
+  );
+  const componentIds = new Set([
+    ...previousComponents.keys(),
+    ...currentComponents.keys(),
+  ]);
+
+  for (const componentId of componentIds) {
+    const before = formatComponent(previousComponents.get(componentId));
+    const after = formatComponent(currentComponents.get(componentId));
+    if (before === after) {
+      continue;
+    }
+    const name =
+      (componentId && getItemName(componentId)) || "Unbekannte Zutat";
+    changes.push({
+      field: `components.${componentId}`,
+      label: `Zutat: ${name}`,
+      before,
+      after,
+    });
+  }
+
+  const previousSteps = previous?.steps ?? [];
+  const stepCount = Math.max(previousSteps.length, current.steps.length);
+  const sortSteps = (steps: ItemSnapshotStep[]) =>
+    [...steps].sort((first, second) => first.step_order - second.step_order);
+  const sortedPreviousSteps = sortSteps(previousSteps);
+  const sortedCurrentSteps = sortSteps(current.steps);
+
+  for (let index = 0; index < stepCount; index += 1) {
+    const before = sortedPreviousSteps[index]?.instruction ?? "";
+    const after = sortedCurrentSteps[index]?.instruction ?? "";
+    if (before === after) {
+      continue;
+    }
+    changes.push({
+      field: `steps.${index + 1}`,
+      label: `Schritt ${index + 1}`,
+      before: before || "–",
+      after: after || "–",
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,171 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type ItemUsage = {
+  recipeId: string;
+  recipeName: string;
+  quantity: number;
+  unit: string;
+};
+
+type SupabaseUsageRelationRow = {
+  parent_item_id: string;
+  amount: number;
+  unit: string;
+};
+
+type SupabaseUsageParentRow = {
+  id: string;
+  name: string;
+};
+
+/**
+ * Recipes that use the item directly as a component. Deleted recipes are
+ * left out.
+ */
+export async function listItemUsages(
+  client: SupabaseClient,
+  kitchenId: string,
+  itemId: string
+): Promise<ItemUsage[]> {
+  const relationsResponse = await client
+    .from("recipe_structure")
+    .select("parent_item_id, amount, unit")
+    .eq("child_item_id", itemId)
+    .eq("kitchen_id", kitchenId);
+
+  if (relationsResponse.error) {
+    throw new Error(
+      relationsResponse.error.message ??
+        'Fehler beim Laden der Verwendungen aus Tabelle "recipe_structure"'
+    );
+  }
+
+  const relations = (relationsResponse.data ??
+    []) as SupabaseUsageRelationRow[];
+
+  if (relations.length === 0) {
+    return [];
+  }
+
+  const parentsResponse = await client
+    .from("items")
+    .select("id, name")
+    .in(
+      "id",
+      relations.map((relation) => relation.parent_item_id)
+    )
+    .eq("kitchen_id", kitchenId)
+    .is("deleted_at", null);
+
+  if (parentsResponse.error) {
+    throw new Error(
+      parentsResponse.error.message ??
+        'Fehler beim Laden der Rezepte aus Tabelle "items"'
+    );
+  }
+
+  const parentNames = new Map(
+    ((parentsResponse.data ?? []) as SupabaseUsageParentRow[]).map(
+      (parent) => [parent.id, parent.name]
+    )
+  );
+
+  return relations
+    .filter((relation) => parentNames.has(relation.parent_item_id))
+    .map((relation) => ({
+      recipeId: relation.parent_item_id,
+      recipeName: parentNames.get(relation.parent_item_id) ?? "",
+      quantity: relation.amount,
+      unit: relation.unit,
+    }))
+    .sort((first, second) => first.recipeName.localeCompare(second.recipeName));
+}
+
+export type ItemUsageNode = ItemUsage & {
+  // Recipes that in turn use this recipe, up to the top-level dishes
+  usedIn: ItemUsageNode[];
+};
+
+type SupabaseWhereUsedRelationRow = SupabaseUsageRelationRow & {
+  child_item_id: string;
+};
+
+/**
+ * Every recipe that uses the item, directly or through nested sub-recipes,
+ * as a tree from the item upwards with the quantity used at each level.
+ * Deleted recipes are left out.
+ */
+export async function listItemUsageTree(
+  client: SupabaseClient,
+  kitchenId: string,
+  itemId: string
+): Promise<ItemUsageNode[]> {
+  const [relationsResponse, parentsResponse] = await Promise.all([
+    client
+      .from("recipe_structure")
+      .select("parent_item_id, child_item_id, amount, unit")
+      .not("child_item_id", "is", null)
+      .eq("kitchen_id", kitchenId),
+    client
+      .from("items")
+      .select("id, name")
+      .eq("kitchen_id", kitchenId)
+      .is("deleted_at", null),
+  ]);
+
+  if (relationsResponse.error) {
+    throw new Error(
+      relationsResponse.error.message ??
+        'Fehler beim Laden der Verwendungen aus Tabelle "recipe_structure"'
+    );
+  }
+
+  if (parentsResponse.error) {
+    throw new Error(
+      parentsResponse.error.message ??
+        'Fehler beim Laden der Rezepte aus Tabelle "items"'
+    );
+  }
+
+  const parentNames = new Map(
+    ((parentsResponse.data ?? []) as SupabaseUsageParentRow[]).map(
+      (parent) => [parent.id, parent.name]
+    )
+  );
+
+  const relationsByChild = new Map<string, SupabaseWhereUsedRelationRow[]>();
+  for (const relation of (relationsResponse.data ??
+    []) as SupabaseWhereUsedRelationRow[]) {
+    if (!parentNames.has(relation.parent_item_id)) {
+      continue;
+    }
+    const existing = relationsByChild.get(relation.child_item_id) ?? [];
+    existing.push(relation);
+    relationsByChild.set(relation.child_item_id, existing);
+  }
+
+  // Guards against loops saved before cycles were rejected
+  const path = new Set<string>([itemId]);
+
+  function buildUsages(childId: string): ItemUsageNode[] {
+    return (relationsByChild.get(childId) ?? [])
+      .filter((relation) => !path.has(relation.parent_item_id))
+      .map((relation) => {
+        path.add(relation.parent_item_id);
+        const usedIn = buildUsages(relation.parent_item_id);
+        path.delete(relation.parent_item_id);
+        return {
+          recipeId: relation.parent_item_id,
+          recipeName: parentNames.get(relation.parent_item_id) ?? "",
+          quantity: relation.amount,
+          unit: relation.unit,
+          usedIn,
+        };
+      })
+      .sort((first, second) =>
+        first.recipeName.localeCompare(second.recipeName)
+      );
+  }
+
+  return buildUsages(itemId);
+}
@@ -0,0 +1,112 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CalculationItem, NutritionTotals } from "@/lib/recipe-calculation";
+import {
+  getEffectivePurchasePrice,
+  loadPreferredSupplierPrices,
+} from "@/lib/suppliers";
+
+export type KitchenItem = CalculationItem & {
+  type: "zukauf" | "eigenproduktion";
+};
+
+type SupabaseKitchenItemRow = {
+  id: string;
+  name: string;
+  item_type: "zukauf" | "eigenproduktion";
+  unit: string;
+  purchase_price: number | null;
+  usable_yield_percent: number | null;
+  cooking_factor: number | null;
+  yield_weight_grams: number | null;
+  yield_volume_ml: number | null;
+  allergens: string[] | null;
+  allergen_traces: string[] | null;
+  additives: string[] | null;
+  ingredients: string | null;
+  fruit_vegetable_share: number | null;
+  nutrition_per_unit: NutritionTotals | null;
+  target_portions: number | null;
+  target_sales_price: number | null;
+};
+
+type SupabaseKitchenRelationRow = {
+  parent_item_id: string;
+  child_item_id: string | null;
+  amount: number;
+  unit: string;
+};
+
+function toNumberOrNull(value: number | null) {
+  return value != null ? Number(value) : null;
+}
+
+/**
+ * Loads all items of a kitchen with their components, shaped like the
+ * client's inventory items so the shared calculations can run server-side.
+ * Purchase prices follow the preferred supplier's current price.
+ * Deleted items are left out. Throws on database errors.
+ */
+export async function loadKitchenItems(
+  client: SupabaseClient,
+  kitchenId: string
+): Promise<KitchenItem[]> {
+  const [itemsResponse, relationsResponse, preferredPrices] = await Promise.all([
+    client
+      .from("items")
+      .select(
+        "id, name, item_type, unit, purchase_price, usable_yield_percent, cooking_factor, yield_weight_grams, yield_volume_ml, allergens, allergen_traces, additives, ingredients, fruit_vegetable_share, nutrition_per_unit, target_portions, target_sales_price"
+      )
+      .eq("kitchen_id", kitchenId)
+      .is("deleted_at", null),
+    client
+      .from("recipe_structure")
+      .select("parent_item_id, child_item_id, amount, unit")
+      .eq("kitchen_id", kitchenId),
+    loadPreferredSupplierPrices(client, kitchenId),
+  ]);
+
+  if (itemsResponse.error) {
+    throw new Error(itemsResponse.error.message);
+  }
+  if (relationsResponse.error) {
+    throw new Error(relationsResponse.error.message);
+  }
+
+  const componentsByParent = new Map<string, KitchenItem["components"]>();
+  for (const relation of (relationsResponse.data ??
+    []) as SupabaseKitchenRelationRow[]) {
+    const existing = componentsByParent.get(relation.parent_item_id) ?? [];
+    existing.push({
+      itemId: relation.child_item_id,
+      quantity: relation.amount,
+      unit: relation.unit,
+    });
+    componentsByParent.set(relation.parent_item_id, existing);
+  }
+
+  return ((itemsResponse.data ?? []) as SupabaseKitchenItemRow[]).map(
+    (row) => ({
+      id: row.id,
+      name: row.name,
+      type: row.item_type,
+      unit: row.unit,
+      purchasePrice: getEffectivePurchasePrice(
+        { unit: row.unit, purchasePrice: Number(row.purchase_price ?? 0) },
+        preferredPrices.get(row.id)
+      ),
+      usableYieldPercent: toNumberOrNull(row.usable_yield_percent),
+      cookingFactor: toNumberOrNull(row.cooking_factor),
+      yieldWeightGrams: toNumberOrNull(row.yield_weight_grams),
+      yieldVolumeMl: toNumberOrNull(row.yield_volume_ml),
+      allergens: row.allergens ?? [],
+      allergenTraces: row.allergen_traces ?? [],
+      additives: row.additives ?? [],
+      ingredients: row.ingredients,
+      fruitVegetableShare: toNumberOrNull(row.fruit_vegetable_share),
+      nutritionPerUnit: row.nutrition_per_unit,
+      targetPortions: row.target_portions,
+      targetSalesPrice: row.target_sales_price,
+      components: componentsByParent.get(row.id),
+    })
+  );
+}
@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { cookies } from "next/headers";
+
+export const KITCHEN_COOKIE = "chefpro-kitchen-id";
+
+export type KitchenRole = "owner" | "member";
+
+export type KitchenMembership = {
+  kitchenId: string;
+  kitchenName: string;
+  role: KitchenRole;
+};
+
+type SupabaseKitchenMemberRow = {
+  kitchen_id: string;
+  role: KitchenRole;
+  kitchens: { name: string } | { name: string }[] | null;
+};
+
+export async function listKitchenMemberships(
+  client: SupabaseClient
+): Promise<KitchenMembership[]> {
+  const { data, error } = await client
+    .from("kitchen_members")
+    .select("kitchen_id, role, kitchens(name)")
+    .order("created_at");
+
+  if (error) {
+    console.error("Supabase kitchen_members query error", {
+      table: "kitchen_members",
+      error: error.message,
+    });
+    return [];
+  }
+
+  return ((data ?? []) as SupabaseKitchenMemberRow[]).map((row) => {
+    const kitchen = Array.isArray(row.kitchens)
+      ? row.kitchens[0]
+      : row.kitchens;
+    return {
+      kitchenId: row.kitchen_id,
+      kitchenName: kitchen?.name ?? "Küche",
+      role: row.role,
+    };
+  });
+}
+
+/**
+ * Resolves the kitchen the caller is working in: the one chosen via the
+ * kitchen cookie if the user is still a member, otherwise their first one.
+ * RLS only returns the caller's own memberships.
+ */
+export async function getKitchenContext(
+  client: SupabaseClient
+): Promise<KitchenMembership | null> {
+  const memberships = await listKitchenMemberships(client);
+
+  if (memberships.length === 0) {
+    return null;
+  }
+
+  const cookieStore = await cookies();
+  const preferredKitchenId = cookieStore.get(KITCHEN_COOKIE)?.value;
+
+  return (
+    memberships.find(
+      (membership) => membership.kitchenId === preferredKitchenId
+    ) ?? memberships[0]
+  );
+}
+
+export function getKitchenObjectPath(kitchenId: string, extension: string) {
+  return `${kitchenId}/${Date.now()}-${Math.random()
+    .toString(36)
+    .slice(2)}.${extension}`;
+}
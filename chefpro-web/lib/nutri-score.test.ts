@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { computeNutriScore } from "@/lib/nutri-score";
+import type { NutritionTotals } from "@/lib/recipe-calculation";
+
+function nutrition(values: Partial<NutritionTotals>): NutritionTotals {
+  return {
+    energyKcal: 0,
+    fat: 0,
+    saturatedFat: 0,
+    carbs: 0,
+    sugar: 0,
+    protein: 0,
+    salt: 0,
+    fiber: 0,
+    sodium: 0,
+    breadUnits: 0,
+    cholesterol: 0,
+    ...values,
+  };
+}
+
+describe("computeNutriScore", () => {
+  it("awards a point only above each threshold", () => {
+    const cases: [Partial<NutritionTotals>, number][] = [
+      // 80 kcal = 334.7 kJ, 81 kcal = 338.9 kJ against 335 kJ
+      [{ energyKcal: 80 }, 0],
+      [{ energyKcal: 81 }, 1],
+      [{ sugar: 3.4 }, 0],
+      [{ sugar: 3.41 }, 1],
+      [{ saturatedFat: 1 }, 0],
+      [{ saturatedFat: 1.01 }, 1],
+      [{ salt: 0.2 }, 0],
+      [{ salt: 0.21 }, 1],
+      [{ saturatedFat: 10.5 }, 10],
+      [{ sugar: 60 }, 15],
+      [{ salt: 5 }, 20],
+    ];
+    for (const [values, points] of cases) {
+      expect(
+        computeNutriScore(nutrition(values), 0).negativePoints,
+        JSON.stringify(values)
+      ).toBe(points);
+    }
+
+    expect(computeNutriScore(nutrition({ protein: 2.4 }), 0).positivePoints).toBe(0);
+    expect(computeNutriScore(nutrition({ protein: 2.5 }), 0).positivePoints).toBe(1);
+    expect(computeNutriScore(nutrition({ fiber: 3 }), 0).positivePoints).toBe(0);
+    expect(computeNutriScore(nutrition({ fiber: 3.1 }), 0).positivePoints).toBe(1);
+  });
+
+  it("derives salt from sodium if salt is missing", () => {
+    expect(
+      computeNutriScore(nutrition({ sodium: 0.1 }), 0).negativePoints
+    ).toBe(1);
+  });
+
+  it("scores the fruit, vegetable and legume share in steps", () => {
+    const points = (share: number) =>
+      computeNutriScore(nutrition({}), share).positivePoints;
+
+    expect([40, 41, 60, 61, 80, 81].map(points)).toEqual([0, 1, 1, 2, 2, 5]);
+    expect(points(150)).toBe(5);
+  });
+
+  it("caps protein from 11 negative points unless fruit and vegetables give 5", () => {
+    // 10 points for saturated fat, 1 for sugar, 7 for protein
+    const below = nutrition({ saturatedFat: 10.5, protein: 17.5 });
+    const atCap = nutrition({ saturatedFat: 10.5, sugar: 3.5, protein: 17.5 });
+
+    expect(computeNutriScore(below, 0)).toMatchObject({
+      negativePoints: 10,
+      positivePoints: 7,
+      score: 3,
+    });
+    expect(computeNutriScore(atCap, 0)).toMatchObject({
+      negativePoints: 11,
+      positivePoints: 0,
+      score: 11,
+    });
+    expect(computeNutriScore(atCap, 70)).toMatchObject({
+      positivePoints: 2,
+      score: 9,
+    });
+    expect(computeNutriScore(atCap, 85)).toMatchObject({
+      positivePoints: 12,
+      score: -1,
+    });
+  });
+
+  it("maps scores onto grades with the limits 0, 2, 10 and 18", () => {
+    const cases: [Partial<NutritionTotals>, number, string][] = [
+      [{ fiber: 8 }, -5, "A"],
+      [{}, 0, "A"],
+      [{ saturatedFat: 1.5 }, 1, "B"],
+      [{ saturatedFat: 2.5 }, 2, "B"],
+      [{ saturatedFat: 3.5 }, 3, "C"],
+      [{ saturatedFat: 10.5 }, 10, "C"],
+      [{ saturatedFat: 10.5, sugar: 3.5 }, 11, "D"],
+      [{ saturatedFat: 10.5, sugar: 24.5, salt: 0.3 }, 18, "D"],
+      [{ saturatedFat: 10.5, sugar: 24.5, salt: 0.5 }, 19, "E"],
+    ];
+    for (const [values, score, grade] of cases) {
+      expect(
+        computeNutriScore(nutrition(values), 0),
+        JSON.stringify(values)
+      ).toMatchObject({ score, grade });
+    }
+  });
+});
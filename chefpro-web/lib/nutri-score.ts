@@ -0,0 +1,179 @@
+import {
+  computeRecipeNutrition,
+  getNutritionUnitConversion,
+  type CalculationItem,
+  type NutritionTotals,
+} from "@/lib/recipe-calculation";
+
+// Nutri-Score for general foods in the version updated in 2023. Points are
+// awarded per 100 g for each threshold a value exceeds. Beverages, cheese
+// and added fats use separate tables and are not covered.
+
+export type NutriScoreGrade = "A" | "B" | "C" | "D" | "E";
+
+export type NutriScoreResult = {
+  score: number;
+  grade: NutriScoreGrade;
+  negativePoints: number;
+  positivePoints: number;
+  // Share of fruit, vegetables and legumes in percent the score is based on
+  fruitVegetableShare: number;
+};
+
+const ENERGY_KJ_THRESHOLDS = [
+  335, 670, 1005, 1340, 1675, 2010, 2345, 2680, 3015, 3350,
+];
+const SUGAR_THRESHOLDS = [
+  3.4, 6.8, 10, 14, 17, 20, 24, 27, 31, 34, 37, 41, 44, 48, 51,
+];
+const SATURATED_FAT_THRESHOLDS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+const SALT_THRESHOLDS = [
+  0.2, 0.4, 0.6, 0.8, 1, 1.2, 1.4, 1.6, 1.8, 2, 2.2, 2.4, 2.6, 2.8, 3, 3.2,
+  3.4, 3.6, 3.8, 4,
+];
+const PROTEIN_THRESHOLDS = [2.4, 4.8, 7.2, 9.6, 12, 14, 17];
+const FIBER_THRESHOLDS = [3, 4.1, 5.2, 6.3, 7.4];
+
+// From this many negative points protein only counts for products that are
+// mostly fruit and vegetables
+const PROTEIN_CAP_NEGATIVE_POINTS = 11;
+
+// Upper score limit of each grade
+const GRADE_LIMITS: [number, NutriScoreGrade][] = [
+  [0, "A"],
+  [2, "B"],
+  [10, "C"],
+  [18, "D"],
+];
+
+export const NUTRI_SCORE_COLORS: Record<NutriScoreGrade, string> = {
+  A: "#038141",
+  B: "#85BB2F",
+  C: "#FECB02",
+  D: "#EE8100",
+  E: "#E63E11",
+};
+
+function countExceeded(value: number, thresholds: number[]) {
+  return thresholds.filter((threshold) => value > threshold).length;
+}
+
+function getFruitVegetablePoints(share: number) {
+  if (share > 80) {
+    return 5;
+  }
+  if (share > 60) {
+    return 2;
+  }
+  return share > 40 ? 1 : 0;
+}
+
+function clampShare(value: number | null | undefined) {
+  if (value == null || !Number.isFinite(value)) {
+    return 0;
+  }
+  return Math.min(100, Math.max(0, value));
+}
+
+export function computeNutriScore(
+  per100g: NutritionTotals,
+  fruitVegetableShare: number | null | undefined
+): NutriScoreResult {
+  const share = clampShare(fruitVegetableShare);
+  const salt =
+    (per100g.salt ?? 0) > 0 ? per100g.salt ?? 0 : (per100g.sodium ?? 0) * 2.5;
+
+  const negativePoints =
+    countExceeded((per100g.energyKcal ?? 0) * 4.184, ENERGY_KJ_THRESHOLDS) +
+    countExceeded(per100g.sugar ?? 0, SUGAR_THRESHOLDS) +
+    countExceeded(per100g.saturatedFat ?? 0, SATURATED_FAT_THRESHOLDS) +
+    countExceeded(salt, SALT_THRESHOLDS);
+
+  const proteinPoints = countExceeded(per100g.protein ?? 0, PROTEIN_THRESHOLDS);
+  const fiberPoints = countExceeded(per100g.fiber ?? 0, FIBER_THRESHOLDS);
+  const fruitVegetablePoints = getFruitVegetablePoints(share);
+
+  const positivePoints =
+    fiberPoints +
+    fruitVegetablePoints +
+    (negativePoints < PROTEIN_CAP_NEGATIVE_POINTS || fruitVegetablePoints === 5
+      ? proteinPoints
+      : 0);
+
+  const score = negativePoints - positivePoints;
+  const grade =
+    GRADE_LIMITS.find(([limit]) => score <= limit)?.[1] ?? "E";
+
+  return {
+    score,
+    grade,
+    negativePoints,
+    positivePoints,
+    fruitVegetableShare: share,
+  };
+}
+
+/**
+ * Fruit, vegetable and legume share of a recipe: the recipe's own value if
+ * set, otherwise the mass-weighted share of its components. Components
+ * without a convertible quantity are left out.
+ */
+export function computeFruitVegetableShare(
+  rootItem: CalculationItem,
+  itemsById: ReadonlyMap<string, CalculationItem>,
+  // Recipes above this one, to stop at loops
+  path: ReadonlySet<string> = new Set()
+): number {
+  if (rootItem.fruitVegetableShare != null) {
+    return clampShare(rootItem.fruitVegetableShare);
+  }
+  if (
+    !rootItem.components ||
+    rootItem.components.length === 0 ||
+    path.has(rootItem.id)
+  ) {
+    return 0;
+  }
+  const childPath = new Set(path).add(rootItem.id);
+
+  let totalMass = 0;
+  let shareMass = 0;
+  for (const component of rootItem.components) {
+    const child = component.itemId ? itemsById.get(component.itemId) : null;
+    if (!child) {
+      continue;
+    }
+    const quantity = Number(String(component.quantity).replace(",", "."));
+    const unitInfo =
+      getNutritionUnitConversion(component.unit) ??
+      getNutritionUnitConversion(child.unit);
+    if (!unitInfo || !Number.isFinite(quantity) || quantity <= 0) {
+      continue;
+    }
+    const mass = quantity * unitInfo.toBase;
+    totalMass += mass;
+    shareMass +=
+      (mass * computeFruitVegetableShare(child, itemsById, childPath)) / 100;
+  }
+
+  return totalMass > 0 ? (shareMass / totalMass) * 100 : 0;
+}
+
+/**
+ * Nutri-Score of a purchased item from its values per 100 g, or of a recipe
+ * from its aggregated profile. Null without nutrition data.
+ */
+export function computeItemNutriScore(
+  item: CalculationItem,
+  itemsById: ReadonlyMap<string, CalculationItem>
+): NutriScoreResult | null {
+  if (!item.components || item.components.length === 0) {
+    return item.nutritionPerUnit
+      ? computeNutriScore(item.nutritionPerUnit, item.fruitVegetableShare)
+      : null;
+  }
+  const { per100g } = computeRecipeNutrition(item, itemsById);
+  return per100g
+    ? computeNutriScore(per100g, computeFruitVegetableShare(item, itemsById))
+    : null;
+}
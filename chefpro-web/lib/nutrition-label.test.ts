@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { formatEnergy, formatNutrientGrams } from "@/lib/nutrition-label";
+
+describe("formatNutrientGrams", () => {
+  it("rounds to 0.1 g below 10 g and to whole grams from 10 g", () => {
+    expect(formatNutrientGrams(3.46)).toBe("3,5 g");
+    expect(formatNutrientGrams(9.94)).toBe("9,9 g");
+    expect(formatNutrientGrams(12.46)).toBe("12 g");
+    expect(formatNutrientGrams(1234.4)).toBe("1.234 g");
+  });
+
+  it("declares 9.96 g as 10 g after rounding up", () => {
+    expect(formatNutrientGrams(9.95)).toBe("10 g");
+    expect(formatNutrientGrams(9.96)).toBe("10 g");
+  });
+
+  it("declares values up to 0.5 g as below 0.5 g", () => {
+    expect(formatNutrientGrams(0.5)).toBe("<0,5 g");
+    expect(formatNutrientGrams(0.51)).toBe("0,5 g");
+    expect(formatNutrientGrams(0.3)).toBe("<0,5 g");
+  });
+
+  it("declares saturated fat up to 0.1 g as below 0.1 g", () => {
+    expect(formatNutrientGrams(0.1, "saturatedFat")).toBe("<0,1 g");
+    expect(formatNutrientGrams(0.11, "saturatedFat")).toBe("0,1 g");
+    expect(formatNutrientGrams(0.3, "saturatedFat")).toBe("0,3 g");
+  });
+
+  it("rounds salt to 0.01 g below 1 g and to 0.1 g from 1 g", () => {
+    expect(formatNutrientGrams(0.0125, "salt")).toBe("<0,01 g");
+    expect(formatNutrientGrams(0.013, "salt")).toBe("0,01 g");
+    expect(formatNutrientGrams(0.994, "salt")).toBe("0,99 g");
+    expect(formatNutrientGrams(0.996, "salt")).toBe("1,0 g");
+    expect(formatNutrientGrams(1.26, "salt")).toBe("1,3 g");
+  });
+
+  it("declares missing or negative values as 0 g", () => {
+    expect(formatNutrientGrams(0)).toBe("0 g");
+    expect(formatNutrientGrams(-1)).toBe("0 g");
+    expect(formatNutrientGrams(Number.NaN, "salt")).toBe("0 g");
+  });
+});
+
+describe("formatEnergy", () => {
+  it("states kJ and kcal as whole numbers", () => {
+    expect(formatEnergy(100)).toBe("418 kJ / 100 kcal");
+    expect(formatEnergy(1000)).toBe("4.184 kJ / 1.000 kcal");
+    expect(formatEnergy(-5)).toBe("0 kJ / 0 kcal");
+  });
+});
@@ -0,0 +1,475 @@
+import type {
+  NutritionTotals,
+  RecipeNutritionSummary,
+} from "@/lib/recipe-calculation";
+
+// Nutrition declaration ("Big 7") of LMIV Art. 30 with the rounding rules
+// of the EU guidance document on tolerances (December 2012).
+
+export type NutritionLabelRow = {
+  key: string;
+  label: string;
+  // "davon ..." rows are indented below their parent
+  isSubRow: boolean;
+  per100g: string;
+  perPortion: string | null;
+};
+
+export type NutritionLabel = {
+  title: string;
+  per100gHeading: string;
+  perPortionHeading: string | null;
+  rows: NutritionLabelRow[];
+  isIncomplete: boolean;
+};
+
+export type NutritionLabelFormat = "html" | "svg" | "pdf";
+
+export const NUTRITION_LABEL_FORMATS: NutritionLabelFormat[] = [
+  "html",
+  "svg",
+  "pdf",
+];
+
+const KJ_PER_KCAL = 4.184;
+const SALT_PER_SODIUM = 2.5;
+
+type RoundingRule = {
+  // Values at or below are declared as `belowThreshold`
+  threshold: number;
+  belowThreshold: string;
+  // Decimals below and from `largeFrom`
+  largeFrom: number;
+  smallDecimals: number;
+  largeDecimals: number;
+};
+
+const ROUNDING_RULES: Record<"default" | "saturatedFat" | "salt", RoundingRule> =
+  {
+    default: {
+      threshold: 0.5,
+      belowThreshold: "<0,5 g",
+      largeFrom: 10,
+      smallDecimals: 1,
+      largeDecimals: 0,
+    },
+    saturatedFat: {
+      threshold: 0.1,
+      belowThreshold: "<0,1 g",
+      largeFrom: 10,
+      smallDecimals: 1,
+      largeDecimals: 0,
+    },
+    salt: {
+      threshold: 0.0125,
+      belowThreshold: "<0,01 g",
+      largeFrom: 1,
+      smallDecimals: 2,
+      largeDecimals: 1,
+    },
+  };
+
+const LABEL_ROWS: {
+  key: keyof NutritionTotals;
+  label: string;
+  isSubRow: boolean;
+  rule: keyof typeof ROUNDING_RULES;
+}[] = [
+  { key: "fat", label: "Fett", isSubRow: false, rule: "default" },
+  {
+    key: "saturatedFat",
+    label: "davon gesättigte Fettsäuren",
+    isSubRow: true,
+    rule: "saturatedFat",
+  },
+  { key: "carbs", label: "Kohlenhydrate", isSubRow: false, rule: "default" },
+  { key: "sugar", label: "davon Zucker", isSubRow: true, rule: "default" },
+  { key: "protein", label: "Eiweiß", isSubRow: false, rule: "default" },
+  { key: "salt", label: "Salz", isSubRow: false, rule: "salt" },
+];
+
+function formatNumber(value: number, decimals: number) {
+  return value.toLocaleString("de-DE", {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+}
+
+/**
+ * Rounds grams per LMIV guidance, e.g. 12.46 → "12 g", 3.46 → "3,5 g",
+ * 0.3 → "<0,5 g". Salt is declared to 0.1 g from 1 g, to 0.01 g below.
+ */
+export function formatNutrientGrams(
+  value: number,
+  rule: keyof typeof ROUNDING_RULES = "default"
+) {
+  const { threshold, belowThreshold, largeFrom, smallDecimals, largeDecimals } =
+    ROUNDING_RULES[rule];
+  if (!Number.isFinite(value) || value <= 0) {
+    return "0 g";
+  }
+  if (value <= threshold) {
+    return belowThreshold;
+  }
+  const factor = 10 ** smallDecimals;
+  // 9.96 rounds up to 10 and is then declared as "10 g"
+  const decimals =
+    Math.round(value * factor) / factor >= largeFrom
+      ? largeDecimals
+      : smallDecimals;
+  return `${formatNumber(value, decimals)} g`;
+}
+
+export function formatEnergy(kcal: number) {
+  const safeKcal = Number.isFinite(kcal) && kcal > 0 ? kcal : 0;
+  return `${formatNumber(Math.round(safeKcal * KJ_PER_KCAL), 0)} kJ / ${formatNumber(
+    Math.round(safeKcal),
+    0
+  )} kcal`;
+}
+
+function getSalt(totals: NutritionTotals) {
+  const salt = totals.salt ?? 0;
+  // Older data sheets only state sodium
+  return salt > 0 ? salt : (totals.sodium ?? 0) * SALT_PER_SODIUM;
+}
+
+function formatRows(totals: NutritionTotals) {
+  return [
+    formatEnergy(totals.energyKcal ?? 0),
+    ...LABEL_ROWS.map((row) =>
+      formatNutrientGrams(
+        row.key === "salt" ? getSalt(totals) : totals[row.key] ?? 0,
+        row.rule
+      )
+    ),
+  ];
+}
+
+/**
+ * Declaration per 100 g and, if the recipe has portions, per portion.
+ * Returns null without nutrition data for the recipe.
+ */
+export function buildNutritionLabel(
+  title: string,
+  summary: RecipeNutritionSummary
+): NutritionLabel | null {
+  if (!summary.per100g) {
+    return null;
+  }
+
+  const per100g = formatRows(summary.per100g);
+  const perPortion = summary.perPortion ? formatRows(summary.perPortion) : null;
+
+  return {
+    title,
+    per100gHeading: "pro 100 g",
+    perPortionHeading: summary.perPortion
+      ? summary.portionWeight
+        ? `pro Portion (${formatNumber(Math.round(summary.portionWeight), 0)} g)`
+        : "pro Portion"
+      : null,
+    rows: [
+      { key: "energy", label: "Energie", isSubRow: false },
+      ...LABEL_ROWS,
+    ].map((row, index) => ({
+      key: row.key,
+      label: row.label,
+      isSubRow: row.isSubRow,
+      per100g: per100g[index],
+      perPortion: perPortion ? perPortion[index] : null,
+    })),
+    isIncomplete: summary.hasMissingData,
+  };
+}
+
+const INCOMPLETE_NOTE =
+  "Nährwerte unvollständig: nicht für alle Zutaten liegen Daten vor.";
+
+function escapeMarkup(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderNutritionLabelHtml(label: NutritionLabel) {
+  const cell = "padding:4px 8px;border-bottom:1px solid #1F2326;";
+  const header = [
+    `<th style="${cell}text-align:left;">Nährwerte</th>`,
+    `<th style="${cell}text-align:right;">${escapeMarkup(label.per100gHeading)}</th>`,
+    label.perPortionHeading
+      ? `<th style="${cell}text-align:right;">${escapeMarkup(label.perPortionHeading)}</th>`
+      : "",
+  ].join("");
+  const rows = label.rows
+    .map((row) =>
+      [
+        "<tr>",
+        `<td style="${cell}${row.isSubRow ? "padding-left:20px;" : ""}">${escapeMarkup(row.label)}</td>`,
+        `<td style="${cell}text-align:right;">${escapeMarkup(row.per100g)}</td>`,
+        row.perPortion !== null
+          ? `<td style="${cell}text-align:right;">${escapeMarkup(row.perPortion)}</td>`
+          : "",
+        "</tr>",
+      ].join("")
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="de">
+<head>
+<meta charset="utf-8">
+<title>${escapeMarkup(`Nährwertkennzeichnung – ${label.title}`)}</title>
+</head>
+<body style="font-family:Helvetica,Arial,sans-serif;font-size:12px;color:#1F2326;">
+<h1 style="font-size:14px;">${escapeMarkup(label.title)}</h1>
+<table style="border-collapse:collapse;border:2px solid #1F2326;">
+<thead><tr>${header}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+${label.isIncomplete ? `<p style="font-size:10px;">${escapeMarkup(INCOMPLETE_NOTE)}</p>` : ""}
+</body>
+</html>
+`;
+}
+
+// Shared layout of the SVG and PDF output, in points from the top left
+const LAYOUT = {
+  margin: 12,
+  labelWidth: 170,
+  valueWidth: 120,
+  titleHeight: 24,
+  rowHeight: 18,
+  fontSize: 10,
+  noteHeight: 16,
+};
+
+function getLabelSize(label: NutritionLabel) {
+  const columns = label.perPortionHeading ? 2 : 1;
+  return {
+    width:
+      LAYOUT.margin * 2 + LAYOUT.labelWidth + LAYOUT.valueWidth * columns,
+    height:
+      LAYOUT.margin * 2 +
+      LAYOUT.titleHeight +
+      LAYOUT.rowHeight * (label.rows.length + 1) +
+      (label.isIncomplete ? LAYOUT.noteHeight : 0),
+  };
+}
+
+type LabelText = {
+  x: number;
+  // Baseline from the top
+  y: number;
+  text: string;
+  isBold: boolean;
+  size: number;
+};
+
+type LabelLine = { x1: number; y1: number; x2: number; y2: number; width: number };
+
+function layoutNutritionLabel(label: NutritionLabel) {
+  const { width } = getLabelSize(label);
+  const texts: LabelText[] = [];
+  const lines: LabelLine[] = [];
+  const left = LAYOUT.margin;
+  const right = width - LAYOUT.margin;
+  const valueColumns = [
+    left + LAYOUT.labelWidth,
+    left + LAYOUT.labelWidth + LAYOUT.valueWidth,
+  ];
+  const textOffset = LAYOUT.rowHeight - 5;
+
+  texts.push({
+    x: left,
+    y: LAYOUT.margin + 14,
+    text: label.title,
+    isBold: true,
+    size: 12,
+  });
+
+  let top = LAYOUT.margin + LAYOUT.titleHeight;
+  const tableTop = top;
+  const headings = [label.per100gHeading, label.perPortionHeading];
+  texts.push({
+    x: left + 4,
+    y: top + textOffset,
+    text: "Nährwerte",
+    isBold: true,
+    size: LAYOUT.fontSize,
+  });
+  headings.forEach((heading, index) => {
+    if (heading) {
+      texts.push({
+        x: valueColumns[index] + 4,
+        y: top + textOffset,
+        text: heading,
+        isBold: true,
+        size: LAYOUT.fontSize,
+      });
+    }
+  });
+  top += LAYOUT.rowHeight;
+  lines.push({ x1: left, y1: top, x2: right, y2: top, width: 1.5 });
+
+  for (const row of label.rows) {
+    texts.push({
+      x: left + (row.isSubRow ? 16 : 4),
+      y: top + textOffset,
+      text: row.label,
+      isBold: false,
+      size: LAYOUT.fontSize,
+    });
+    [row.per100g, row.perPortion].forEach((value, index) => {
+      if (value !== null) {
+        texts.push({
+          x: valueColumns[index] + 4,
+          y: top + textOffset,
+          text: value,
+          isBold: false,
+          size: LAYOUT.fontSize,
+        });
+      }
+    });
+    top += LAYOUT.rowHeight;
+    lines.push({ x1: left, y1: top, x2: right, y2: top, width: 0.5 });
+  }
+
+  // Frame around the table
+  lines.push(
+    { x1: left, y1: tableTop, x2: right, y2: tableTop, width: 1.5 },
+    { x1: left, y1: top, x2: right, y2: top, width: 1.5 },
+    { x1: left, y1: tableTop, x2: left, y2: top, width: 1.5 },
+    { x1: right, y1: tableTop, x2: right, y2: top, width: 1.5 }
+  );
+
+  if (label.isIncomplete) {
+    texts.push({
+      x: left,
+      y: top + LAYOUT.noteHeight - 4,
+      text: INCOMPLETE_NOTE,
+      isBold: false,
+      size: 7,
+    });
+  }
+
+  return { texts, lines };
+}
+
+export function renderNutritionLabelSvg(label: NutritionLabel) {
+  const { width, height } = getLabelSize(label);
+  const { texts, lines } = layoutNutritionLabel(label);
+  const elements = [
+    `<rect width="${width}" height="${height}" fill="#FFFFFF"/>`,
+    ...lines.map(
+      (line) =>
+        `<line x1="${line.x1}" y1="${line.y1}" x2="${line.x2}" y2="${line.y2}" stroke="#1F2326" stroke-width="${line.width}"/>`
+    ),
+    ...texts.map(
+      (text) =>
+        `<text x="${text.x}" y="${text.y}" font-size="${text.size}"${
+          text.isBold ? ' font-weight="bold"' : ""
+        }>${escapeMarkup(text.text)}</text>`
+    ),
+  ];
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif" fill="#1F2326">
+${elements.join("\n")}
+</svg>
+`;
+}
+
+// Text in PDF strings of the standard fonts is WinAnsi encoded; characters
+// outside Latin-1 except the few used here are replaced
+function toPdfString(value: string) {
+  let result = "";
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    let byte: number;
+    if (char === "–") {
+      byte = 0x96;
+    } else if (char === "€") {
+      byte = 0x80;
+    } else if (code >= 0x20 && code <= 0xff && code !== 0x7f) {
+      byte = code;
+    } else {
+      byte = 0x3f;
+    }
+    const encoded = String.fromCharCode(byte);
+    result +=
+      encoded === "(" || encoded === ")" || encoded === "\\"
+        ? `\\${encoded}`
+        : encoded;
+  }
+  return `(${result})`;
+}
+
+/**
+ * Single-page PDF with the standard Helvetica fonts, so no font has to be
+ * embedded.
+ */
+export function renderNutritionLabelPdf(label: NutritionLabel): Uint8Array {
+  const { width, height } = getLabelSize(label);
+  const { texts, lines } = layoutNutritionLabel(label);
+  const content = [
+    ...lines.map(
+      (line) =>
+        `${line.width} w ${line.x1} ${height - line.y1} m ${line.x2} ${
+          height - line.y2
+        } l S`
+    ),
+    ...texts.map(
+      (text) =>
+        `BT /${text.isBold ? "F2" : "F1"} ${text.size} Tf ${text.x} ${
+          height - text.y
+        } Td ${toPdfString(text.text)} Tj ET`
+    ),
+  ].join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+
+  // Every character is a single byte, so string lengths are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, (char) => char.charCodeAt(0));
+}
+
+export function renderNutritionLabel(
+  label: NutritionLabel,
+  format: NutritionLabelFormat
+): { body: string | Uint8Array; contentType: string } {
+  if (format === "pdf") {
+    return { body: renderNutritionLabelPdf(label), contentType: "application/pdf" };
+  }
+  if (format === "svg") {
+    return {
+      body: renderNutritionLabelSvg(label),
+      contentType: "image/svg+xml; charset=utf-8",
+    };
+  }
+  return {
+    body: renderNutritionLabelHtml(label),
+    contentType: "text/html; charset=utf-8",
+  };
+}
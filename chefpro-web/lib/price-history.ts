@@ -0,0 +1,129 @@
+import { computeRecipeCost, type CostingItem } from "@/lib/recipe-costing";
+
+export type PriceHistoryEntry = {
+  id: string;
+  itemId: string;
+  purchasePrice: number | null;
+  previousPrice: number | null;
+  unit: string | null;
+  changedAt: string;
+};
+
+export type SupabasePriceHistoryRow = {
+  id: string;
+  item_id: string;
+  purchase_price: number | null;
+  previous_price: number | null;
+  unit: string | null;
+  changed_at: string;
+};
+
+export type RecipeCostChange = {
+  recipeId: string;
+  recipeName: string;
+  fromCost: number;
+  toCost: number;
+  difference: number;
+  // null when the recipe had no cost at the start date
+  changePercent: number | null;
+  hasMissingPrices: boolean;
+};
+
+export function mapPriceHistoryRow(
+  row: SupabasePriceHistoryRow
+): PriceHistoryEntry {
+  return {
+    id: row.id,
+    itemId: row.item_id,
+    purchasePrice:
+      row.purchase_price === null ? null : Number(row.purchase_price),
+    previousPrice:
+      row.previous_price === null ? null : Number(row.previous_price),
+    unit: row.unit,
+    changedAt: row.changed_at,
+  };
+}
+
+/**
+ * Price in effect at `date` from entries sorted oldest first. Before the
+ * first recorded change the first known price is used.
+ */
+export function getPriceAt(entries: PriceHistoryEntry[], date: Date) {
+  if (entries.length === 0) {
+    return null;
+  }
+  const time = date.getTime();
+  let price = entries[0].purchasePrice;
+  for (const entry of entries) {
+    if (new Date(entry.changedAt).getTime() > time) {
+      break;
+    }
+    price = entry.purchasePrice;
+  }
+  return price;
+}
+
+function withPricesAt(
+  items: CostingItem[],
+  historyByItem: ReadonlyMap<string, PriceHistoryEntry[]>,
+  date: Date
+) {
+  return new Map(
+    items.map((item) => {
+      const entries = historyByItem.get(item.id);
+      const price = entries ? getPriceAt(entries, date) : null;
+      return [
+        item.id,
+        price === null ? item : { ...item, purchasePrice: price },
+      ] as const;
+    })
+  );
+}
+
+function roundCost(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Costs every recipe with the purchase prices in effect at both dates.
+ * Sorted by the largest increase first.
+ */
+export function computeRecipeCostChanges(
+  items: CostingItem[],
+  historyByItem: ReadonlyMap<string, PriceHistoryEntry[]>,
+  from: Date,
+  to: Date
+): RecipeCostChange[] {
+  const fromItems = withPricesAt(items, historyByItem, from);
+  const toItems = withPricesAt(items, historyByItem, to);
+  const changes: RecipeCostChange[] = [];
+
+  for (const item of items) {
+    if (!item.components || item.components.length === 0) {
+      continue;
+    }
+    const fromResult = computeRecipeCost(fromItems.get(item.id) ?? item, fromItems);
+    const toResult = computeRecipeCost(toItems.get(item.id) ?? item, toItems);
+    const fromCost = roundCost(fromResult.totalCost);
+    const toCost = roundCost(toResult.totalCost);
+    const difference = roundCost(toCost - fromCost);
+
+    changes.push({
+      recipeId: item.id,
+      recipeName: item.name,
+      fromCost,
+      toCost,
+      difference,
+      changePercent:
+        fromCost > 0 ? Math.round((difference / fromCost) * 1000) / 10 : null,
+      hasMissingPrices:
+        fromResult.hasMissingPrices || toResult.hasMissingPrices,
+    });
+  }
+
+  return changes.sort(
+    (first, second) =>
+      second.difference - first.difference ||
+      first.recipeName.localeCompare(second.recipeName)
+  );
+}
@@ -0,0 +1,58 @@
+export type VisionNutritionPer100 = {
+  energy_kcal: number;
+  fat: number;
+  saturated_fat: number;
+  carbs: number;
+  sugar: number;
+  protein: number;
+  salt: number;
+  fiber?: number;
+  sodium?: number;
+  bread_units?: number;
+  cholesterol?: number;
+};
+
+export type VisionExtracted = {
+  name: string;
+  brand?: string | null;
+  unit: string;
+  purchase_price: number;
+  allergens: string[];
+  allergen_traces?: string[];
+  // Detected from ingredients, not part of the model's answer
+  additives?: string[];
+  ingredients?: string | null;
+  dosage_instructions?: string | null;
+  yield_info?: string | null;
+  yield_volume?: string | null;
+  // Parsed from yield_info and yield_volume, not part of the model's answer
+  yield_weight_grams?: number | null;
+  yield_volume_ml?: number | null;
+  preparation_steps?: string | null;
+  nutrition_per_100?: VisionNutritionPer100 | null;
+  manufacturer_article_number?: string | null;
+  is_bio?: boolean;
+  is_deklarationsfrei?: boolean;
+  is_allergenfrei?: boolean;
+  is_cook_chill?: boolean;
+  is_freeze_thaw_stable?: boolean;
+  is_palm_oil_free?: boolean;
+  is_yeast_free?: boolean;
+  is_lactose_free?: boolean;
+  is_gluten_free?: boolean;
+  is_vegan?: boolean;
+  is_vegetarian?: boolean;
+  standard_preparation?: {
+    components: {
+      name: string;
+      quantity: number;
+      unit: string;
+    }[];
+  } | null;
+};
+
+export const PRODUCT_EXTRACTION_SYSTEM_PROMPT =
+  "Du analysierst Produktdatenblätter und extrahierst strukturierte Einkaufs- und Nährwertdaten für eine Küchen-Software. Antworte immer als JSON-Objekt mit den Feldern: name (string), brand (string), unit (string), purchase_price (number), allergens (array of strings), allergen_traces (array of strings), ingredients (string), dosage_instructions (string), standard_preparation (object), yield_info (string), yield_volume (string), preparation_steps (string), nutrition_per_100 (object), manufacturer_article_number (string), is_bio (boolean), is_deklarationsfrei (boolean), is_allergenfrei (boolean), is_cook_chill (boolean), is_freeze_thaw_stable (boolean), is_palm_oil_free (boolean), is_yeast_free (boolean), is_lactose_free (boolean), is_gluten_free (boolean), is_vegan (boolean), is_vegetarian (boolean). nutrition_per_100 beschreibt die Nährwerte pro 100 g bzw. 100 ml und enthält die Felder: energy_kcal (number), fat (number), saturated_fat (number), carbs (number), sugar (number), protein (number), salt (number), fiber (number), sodium (number), bread_units (number), cholesterol (number). Die Währung ist immer EUR und muss nicht angegeben werden. purchase_price ist der Gesamt-Einkaufspreis für die auf dem Datenblatt ausgewiesene Gebindegröße. allergens enthält alle deklarierten Allergene als kurze Klartexteinträge und benennt glutenhaltige Getreide und Schalenfrüchte einzeln (z.B. 'Weizen', 'Haselnüsse'). allergen_traces enthält die Allergene aus Hinweisen wie 'Kann Spuren von … enthalten' und gehört nicht in allergens. ingredients sind die Zutaten in der Reihenfolge der Deklaration, Zusatzstoffe mit ihrer E-Nummer (z.B. 'Konservierungsstoff: E 250'). dosage_instructions beschreibt ausschließlich Mischverhältnisse, Basismengen und Dosierungen als Text (z.B. '100g auf 1l' oder '10%'). standard_preparation enthält strukturierte Dosierungsdaten in 'components' (Array). Jeder Eintrag in components hat: name (string), quantity (number), unit (string). Falls im Text 'Produkt', 'Basisprodukt' oder 'Basis' steht, ersetze dies durch den Artikelnamen oder 'Hauptartikel'. preparation_steps beschreibt die eigentliche Zubereitung und Kochanleitung, jedoch OHNE die reinen Mengenangaben. yield_info beschreibt Ausbeute oder Fertig-Gewicht, yield_volume beschreibt explizit das End-Volumen (z.B. ml, l). manufacturer_article_number ist die Hersteller-Artikelnummer des Herstellers (nicht die EAN/GTIN) und kann z.B. als „Art.-Nr.“ oder „Artikelnummer“ gekennzeichnet sein. brand ist der Markenname des Produkts (z.B. 'Knorr', 'Maggi', 'Lukull'). Falls ein Feld nicht im Dokument zu finden ist, setze es auf null (bei Zahlen) oder einen leeren String (bei Text). Setze boolean-Flags nur auf true, wenn es explizit im Text steht (z.B. 'Bio', 'Vegan', 'Hefefrei').";
+
+export const PRODUCT_EXTRACTION_USER_PROMPT =
+  "Analysiere dieses Produktdatenblatt und gib die Felder name, brand, unit, purchase_price, allergens, allergen_traces, ingredients, dosage_instructions, standard_preparation, yield_info, yield_volume, preparation_steps, nutrition_per_100, manufacturer_article_number sowie alle boolean-Flags is_bio, is_deklarationsfrei, is_allergenfrei, is_cook_chill, is_freeze_thaw_stable, is_palm_oil_free, is_yeast_free, is_lactose_free, is_gluten_free, is_vegan, is_vegetarian zurück. nutrition_per_100 sind die Nährwerte pro 100 g bzw. 100 ml mit energy_kcal, fat, saturated_fat, carbs, sugar, protein, salt, fiber, sodium, bread_units, cholesterol.";
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeProductionForecast,
+  DEFAULT_BATCH_KG,
+  estimateBatch,
+  formatProductionForecast,
+  selectDevice,
+} from "@/lib/production-forecast";
+
+function preparation(
+  ...components: [name: string, quantity: number, unit: string][]
+) {
+  return {
+    components: components.map(([name, quantity, unit]) => ({
+      name,
+      quantity,
+      unit,
+    })),
+  };
+}
+
+describe("estimateBatch", () => {
+  it("sums mass and volume in kg and ignores pieces", () => {
+    const result = estimateBatch(
+      preparation(
+        ["Kartoffeln", 2, "kg"],
+        ["Milch", 500, "ml"],
+        ["Butter", 2, "EL"],
+        ["Eier", 4, "Stück"]
+      )
+    );
+
+    expect(result.batchKg).toBeCloseTo(2.53);
+    expect(result.isLiquid).toBe(false);
+  });
+
+  it("marks mostly liquid batches", () => {
+    const result = estimateBatch(
+      preparation(["Wasser", 3, "l"], ["Gemüse", 1, "kg"])
+    );
+
+    expect(result).toEqual({ batchKg: 4, isLiquid: true });
+  });
+
+  it("falls back to the default batch without usable quantities", () => {
+    expect(estimateBatch(null).batchKg).toBe(DEFAULT_BATCH_KG);
+    expect(
+      estimateBatch(preparation(["Eier", 10, "Stück"], ["Salz", 0, "g"]))
+        .batchKg
+    ).toBe(DEFAULT_BATCH_KG);
+  });
+});
+
+describe("selectDevice", () => {
+  it("matches devices by keyword in name or dosage instructions", () => {
+    expect(selectDevice({ name: "Rinderbrühe" }, 20, true).id).toBe(
+      "kochkessel"
+    );
+    expect(
+      selectDevice(
+        { name: "Gulasch", dosageInstructions: "Nach dem Garen schockkühlen" },
+        10,
+        false
+      ).id
+    ).toBe("schockkuehler");
+  });
+
+  it("skips the Thermomix for batches far above its capacity", () => {
+    expect(selectDevice({ name: "Basilikum-Pesto" }, 1.5, false).id).toBe(
+      "thermomix"
+    );
+    expect(selectDevice({ name: "Basilikum-Pesto" }, 10, false).id).toBe(
+      "kombidaempfer"
+    );
+  });
+
+  it("falls back by consistency and batch size", () => {
+    expect(selectDevice({ name: "Hausmischung" }, 1, true).id).toBe(
+      "thermomix"
+    );
+    expect(selectDevice({ name: "Hausmischung" }, 12, true).id).toBe(
+      "kochkessel"
+    );
+    expect(selectDevice({ name: "Hausmischung" }, 12, false).id).toBe(
+      "kombidaempfer"
+    );
+  });
+});
+
+describe("computeProductionForecast", () => {
+  it("applies the per-kg coefficients of the selected device", () => {
+    const details = computeProductionForecast({
+      name: "Gemüsesuppe",
+      standardPreparation: preparation(["Wasser", 15, "l"], ["Gemüse", 5, "kg"]),
+    });
+
+    expect(details.device.id).toBe("kochkessel");
+    expect(details).toMatchObject({
+      batchKg: 20,
+      batches: 1,
+      runtimeMinutes: 45,
+      energyKwh: 8.5,
+      waterLiters: 10,
+      outputKg: 19,
+      isLiquid: true,
+    });
+  });
+
+  it("splits batches above the device capacity", () => {
+    const details = computeProductionForecast({
+      name: "Schweinebraten",
+      standardPreparation: preparation(["Schweinenacken", 45, "kg"]),
+    });
+
+    expect(details.device.id).toBe("kombidaempfer");
+    expect(details).toMatchObject({
+      batchKg: 45,
+      batches: 2,
+      runtimeMinutes: 133,
+      energyKwh: 22.25,
+      waterLiters: 67.5,
+      outputKg: 39.6,
+    });
+  });
+});
+
+describe("formatProductionForecast", () => {
+  it("formats the forecast in the DeviceSetting shape", () => {
+    const forecast = formatProductionForecast(
+      computeProductionForecast({
+        name: "Schweinebraten",
+        standardPreparation: preparation(["Schweinenacken", 45, "kg"]),
+      })
+    );
+
+    expect(forecast).toEqual({
+      quantity: "45 kg",
+      device: "Kombidämpfer",
+      settings: "Kombidampf 160 °C, 60 % Feuchte (2 Chargen)",
+      time: "133 Min.",
+      energy: "22,25 kWh",
+      water: "67,5 l",
+      outputYield: "ca. 39,6 kg",
+      cleaningEffort: "Mittel (Reinigungsprogramm, ca. 90 Min.)",
+    });
+  });
+
+  it("leaves water empty for devices without water use", () => {
+    const forecast = formatProductionForecast(
+      computeProductionForecast({
+        name: "Rahmsauce schockkühlen",
+        standardPreparation: preparation(["Rahmsauce", 8, "l"]),
+      })
+    );
+
+    expect(forecast.device).toBe("Schockkühler");
+    expect(forecast.water).toBe("");
+  });
+});
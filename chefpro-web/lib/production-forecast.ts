@@ -0,0 +1,256 @@
+import { getUnitDefinition, parseQuantity } from "@/lib/recipe-costing";
+
+export type ProductionDeviceId =
+  | "kombidaempfer"
+  | "kochkessel"
+  | "thermomix"
+  | "schockkuehler";
+
+export type ProductionDevice = {
+  id: ProductionDeviceId;
+  name: string;
+  defaultSettings: string;
+  capacityKg: number;
+  setupMinutes: number;
+  minutesPerKg: number;
+  baseKwh: number;
+  kwhPerKg: number;
+  waterLitersPerKg: number;
+  yieldFactor: number;
+  cleaningEffort: string;
+  keywords: string[];
+};
+
+export type ProductionForecastInput = {
+  name: string;
+  dosageInstructions?: string | null;
+  standardPreparation?: {
+    components: {
+      name: string;
+      quantity: number;
+      unit: string;
+    }[];
+  } | null;
+};
+
+export type ProductionForecast = {
+  quantity: string;
+  device: string;
+  settings: string;
+  time: string;
+  energy: string;
+  water: string;
+  outputYield: string;
+  cleaningEffort: string;
+};
+
+export type ProductionForecastDetails = {
+  device: ProductionDevice;
+  batchKg: number;
+  batches: number;
+  runtimeMinutes: number;
+  energyKwh: number;
+  waterLiters: number;
+  outputKg: number;
+  isLiquid: boolean;
+};
+
+// Used when the preparation gives no usable quantities
+export const DEFAULT_BATCH_KG = 5;
+
+export const PRODUCTION_DEVICES: ProductionDevice[] = [
+  {
+    id: "schockkuehler",
+    name: "Schockkühler",
+    defaultSettings: "Schockkühlen auf +3 °C Kerntemperatur",
+    capacityKg: 40,
+    setupMinutes: 10,
+    minutesPerKg: 3,
+    baseKwh: 0.5,
+    kwhPerKg: 0.12,
+    waterLitersPerKg: 0,
+    yieldFactor: 1,
+    cleaningEffort: "Gering (Innenraum auswischen)",
+    keywords: ["schock", "abkühl", "cook & chill", "cook-chill", "kühlen"],
+  },
+  {
+    id: "thermomix",
+    name: "Thermomix",
+    defaultSettings: "Varoma-Programm, Stufe 2–4, 100 °C",
+    capacityKg: 2,
+    setupMinutes: 5,
+    minutesPerKg: 10,
+    baseKwh: 0.1,
+    kwhPerKg: 0.5,
+    waterLitersPerKg: 0,
+    yieldFactor: 0.97,
+    cleaningEffort: "Gering (Topf spülen)",
+    keywords: [
+      "thermomix",
+      "dressing",
+      "mayonnaise",
+      "hollandaise",
+      "creme",
+      "püree",
+      "pesto",
+      "dip",
+    ],
+  },
+  {
+    id: "kochkessel",
+    name: "Kochkessel",
+    defaultSettings: "Rührwerk Stufe 2, 95 °C",
+    capacityKg: 80,
+    setupMinutes: 15,
+    minutesPerKg: 1.5,
+    baseKwh: 1.5,
+    kwhPerKg: 0.35,
+    waterLitersPerKg: 0.5,
+    yieldFactor: 0.95,
+    cleaningEffort: "Mittel (Kessel ausspritzen, Rührwerk reinigen)",
+    keywords: [
+      "suppe",
+      "brühe",
+      "fond",
+      "sauce",
+      "soße",
+      "sosse",
+      "eintopf",
+      "jus",
+      "consommé",
+      "ragout",
+    ],
+  },
+  {
+    id: "kombidaempfer",
+    name: "Kombidämpfer",
+    defaultSettings: "Kombidampf 160 °C, 60 % Feuchte",
+    capacityKg: 30,
+    setupMinutes: 10,
+    minutesPerKg: 2.5,
+    baseKwh: 1,
+    kwhPerKg: 0.45,
+    waterLitersPerKg: 1.5,
+    yieldFactor: 0.88,
+    cleaningEffort: "Mittel (Reinigungsprogramm, ca. 90 Min.)",
+    keywords: [
+      "braten",
+      "gemüse",
+      "dämpf",
+      "gegart",
+      "garen",
+      "backen",
+      "gratin",
+      "auflauf",
+      "kartoffel",
+      "reis",
+    ],
+  },
+];
+
+function getDevice(id: ProductionDeviceId) {
+  return PRODUCTION_DEVICES.find((device) => device.id === id)!;
+}
+
+function formatNumber(value: number, maximumFractionDigits = 1) {
+  return value.toLocaleString("de-DE", { maximumFractionDigits });
+}
+
+/**
+ * Sums the mass of the standard preparation in kg. Liquids count 1 l = 1 kg,
+ * pieces are ignored. Returns whether the batch is mostly liquid as well.
+ */
+export function estimateBatch(
+  standardPreparation: ProductionForecastInput["standardPreparation"]
+): { batchKg: number; isLiquid: boolean } {
+  let massGrams = 0;
+  let volumeMl = 0;
+
+  for (const component of standardPreparation?.components ?? []) {
+    const quantity = parseQuantity(component.quantity);
+    const definition = getUnitDefinition(component.unit);
+    if (quantity == null || !definition || definition.kind === "piece") {
+      continue;
+    }
+    if (definition.kind === "mass") {
+      massGrams += quantity * definition.toBase;
+    } else {
+      volumeMl += quantity * definition.toBase;
+    }
+  }
+
+  const totalKg = (massGrams + volumeMl) / 1000;
+
+  return {
+    batchKg: totalKg > 0 ? totalKg : DEFAULT_BATCH_KG,
+    isLiquid: volumeMl > massGrams,
+  };
+}
+
+export function selectDevice(
+  input: ProductionForecastInput,
+  batchKg: number,
+  isLiquid: boolean
+): ProductionDevice {
+  const haystack = `${input.name} ${input.dosageInstructions ?? ""}`.toLowerCase();
+
+  for (const device of PRODUCTION_DEVICES) {
+    if (!device.keywords.some((keyword) => haystack.includes(keyword))) {
+      continue;
+    }
+    // Small machines only make sense for small batches
+    if (device.id === "thermomix" && batchKg > device.capacityKg * 2) {
+      continue;
+    }
+    return device;
+  }
+
+  if (isLiquid) {
+    return getDevice(batchKg <= 2 ? "thermomix" : "kochkessel");
+  }
+  return getDevice("kombidaempfer");
+}
+
+export function computeProductionForecast(
+  input: ProductionForecastInput
+): ProductionForecastDetails {
+  const { batchKg, isLiquid } = estimateBatch(input.standardPreparation);
+  const device = selectDevice(input, batchKg, isLiquid);
+  const batches = Math.max(1, Math.ceil(batchKg / device.capacityKg));
+
+  const runtimeMinutes =
+    batches * device.setupMinutes + batchKg * device.minutesPerKg;
+  const energyKwh = batches * device.baseKwh + batchKg * device.kwhPerKg;
+  const waterLiters = batchKg * device.waterLitersPerKg;
+  const outputKg = batchKg * device.yieldFactor;
+
+  return {
+    device,
+    batchKg,
+    batches,
+    runtimeMinutes: Math.round(runtimeMinutes),
+    energyKwh: Math.round(energyKwh * 100) / 100,
+    waterLiters: Math.round(waterLiters * 10) / 10,
+    outputKg: Math.round(outputKg * 100) / 100,
+    isLiquid,
+  };
+}
+
+export function formatProductionForecast(
+  details: ProductionForecastDetails
+): ProductionForecast {
+  const batchInfo =
+    details.batches > 1 ? ` (${details.batches} Chargen)` : "";
+
+  return {
+    quantity: `${formatNumber(details.batchKg, 2)} kg`,
+    device: details.device.name,
+    settings: `${details.device.defaultSettings}${batchInfo}`,
+    time: `${formatNumber(details.runtimeMinutes, 0)} Min.`,
+    energy: `${formatNumber(details.energyKwh, 2)} kWh`,
+    water:
+      details.waterLiters > 0 ? `${formatNumber(details.waterLiters)} l` : "",
+    outputYield: `ca. ${formatNumber(details.outputKg, 2)} kg`,
+    cleaningEffort: details.device.cleaningEffort,
+  };
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import {
+  computePurchaseSuggestions,
+  explodeProductionDemand,
+  getOrderQuantity,
+  type PurchaseItem,
+} from "@/lib/purchase-suggestions";
+
+function item(
+  id: string,
+  unit: string,
+  values: Partial<PurchaseItem> = {}
+): PurchaseItem {
+  return { id, name: id, unit, purchasePrice: 1, ...values };
+}
+
+function byId(items: PurchaseItem[]) {
+  return new Map(items.map((entry) => [entry.id, entry]));
+}
+
+const mehl = item("mehl", "kg");
+const butter = item("butter", "250g");
+const karotten = item("karotten", "kg", { usableYieldPercent: 80 });
+const teig = item("teig", "kg", {
+  yieldWeightGrams: 1000,
+  components: [
+    { itemId: "mehl", quantity: 600, unit: "g" },
+    { itemId: "butter", quantity: 250, unit: "g" },
+  ],
+});
+const kuchen = item("kuchen", "Stk", {
+  components: [
+    { itemId: "teig", quantity: 500, unit: "g" },
+    { itemId: "karotten", quantity: 400, unit: "g" },
+  ],
+});
+
+describe("explodeProductionDemand", () => {
+  it("expands sub-recipes per batch output into purchase units", () => {
+    const { demand, unitIssues } = explodeProductionDemand(
+      [{ itemId: "kuchen", batches: 4 }],
+      byId([mehl, butter, karotten, teig, kuchen])
+    );
+
+    // 4 cakes need 2 kg of dough, i.e. two dough batches
+    expect(demand.get("mehl")).toBeCloseTo(1.2);
+    expect(demand.get("butter")).toBeCloseTo(2);
+    expect(demand.has("teig")).toBe(false);
+    expect(unitIssues).toEqual([]);
+  });
+
+  it("adds the trim loss on top of the usable amount", () => {
+    const { demand } = explodeProductionDemand(
+      [{ itemId: "kuchen", batches: 4 }],
+      byId([mehl, butter, karotten, teig, kuchen])
+    );
+
+    expect(demand.get("karotten")).toBeCloseTo(2);
+  });
+
+  it("sums demand of several planned recipes", () => {
+    const { demand } = explodeProductionDemand(
+      [
+        { itemId: "kuchen", batches: 2 },
+        { itemId: "teig", batches: 1 },
+      ],
+      byId([mehl, butter, karotten, teig, kuchen])
+    );
+
+    expect(demand.get("mehl")).toBeCloseTo(1.2);
+  });
+
+  it("skips recipes that contain themselves", () => {
+    const { demand } = explodeProductionDemand(
+      [{ itemId: "a", batches: 2 }],
+      byId([
+        mehl,
+        item("a", "kg", {
+          components: [{ itemId: "b", quantity: 1, unit: "" }],
+        }),
+        item("b", "kg", {
+          components: [
+            { itemId: "a", quantity: 1, unit: "" },
+            { itemId: "mehl", quantity: 1, unit: "kg" },
+          ],
+        }),
+      ])
+    );
+
+    expect(demand.get("mehl")).toBe(2);
+  });
+
+  it("reports components whose unit does not fit the pack", () => {
+    const { demand, unitIssues } = explodeProductionDemand(
+      [{ itemId: "brot", batches: 1 }],
+      byId([
+        mehl,
+        item("brot", "Stk", {
+          components: [{ itemId: "mehl", quantity: 3, unit: "Stk" }],
+        }),
+      ])
+    );
+
+    expect(demand.size).toBe(0);
+    expect(unitIssues).toMatchObject([
+      { itemId: "mehl", status: "incompatible-unit" },
+    ]);
+  });
+});
+
+describe("getOrderQuantity", () => {
+  it("fills the stock left after production up to the par level", () => {
+    expect(getOrderQuantity(5, 3, 10, null)).toBe(8);
+    expect(getOrderQuantity(10, 2, 5, null)).toBe(0);
+  });
+
+  it("covers the demand without a par level", () => {
+    expect(getOrderQuantity(1, 2.5, null, null)).toBe(2);
+    expect(getOrderQuantity(3, 2.5, null, null)).toBe(0);
+  });
+
+  it("rounds up to whole purchase units", () => {
+    expect(getOrderQuantity(5, 3.2, 10, null)).toBe(9);
+  });
+
+  it("rounds up to multiples of the reorder quantity", () => {
+    expect(getOrderQuantity(5, 3, 10, 6)).toBe(12);
+    expect(getOrderQuantity(4, 0, 10, 6)).toBe(6);
+    expect(getOrderQuantity(0, 0.3, null, 0.1)).toBe(0.3);
+  });
+});
+
+describe("computePurchaseSuggestions", () => {
+  it("groups orders by preferred supplier with unknown suppliers last", () => {
+    const stock = { onHand: 0, parLevel: 1 };
+    const result = computePurchaseSuggestions(
+      [
+        item("milch", "l", { ...stock, preferredSupplierId: "metro" }),
+        item("brot", "Stk", { ...stock, preferredSupplierId: "huber" }),
+        item("eier", "Stk", { ...stock, preferredSupplierId: "metro" }),
+        item("salz", "kg", { ...stock, preferredSupplierId: "geloescht" }),
+        item("zucker", "kg", stock),
+      ],
+      [],
+      new Map([
+        ["metro", "Metro"],
+        ["huber", "Bäckerei Huber"],
+      ])
+    );
+
+    expect(
+      result.groups.map((group) => [
+        group.supplierId,
+        group.supplier,
+        group.suggestions.map((suggestion) => suggestion.itemId),
+      ])
+    ).toEqual([
+      ["huber", "Bäckerei Huber", ["brot"]],
+      ["metro", "Metro", ["eier", "milch"]],
+      [null, "Ohne Lieferant", ["salz", "zucker"]],
+    ]);
+  });
+
+  it("orders ingredients of planned recipes but not the recipes", () => {
+    const result = computePurchaseSuggestions(
+      [
+        { ...butter, onHand: 1, purchasePrice: 2.5 },
+        mehl,
+        karotten,
+        teig,
+        kuchen,
+      ],
+      [{ itemId: "kuchen", batches: 4 }]
+    );
+
+    expect(
+      result.groups[0].suggestions.map((suggestion) => [
+        suggestion.itemId,
+        suggestion.orderQuantity,
+      ])
+    ).toEqual([
+      ["butter", 1],
+      ["karotten", 2],
+      ["mehl", 2],
+    ]);
+    expect(result.totalCost).toBe(6.5);
+  });
+});
@@ -0,0 +1,293 @@
+import {
+  convertQuantityToPacks,
+  getRecipeOutputUnit,
+  getUsableYieldFactor,
+  type CostingItem,
+  type UnitIssue,
+} from "@/lib/recipe-costing";
+
+export type PurchaseItem = CostingItem & {
+  preferredSupplierId?: string | null;
+  onHand?: number | null;
+  parLevel?: number | null;
+  reorderQuantity?: number | null;
+};
+
+export type PlannedProduction = {
+  itemId: string;
+  // Number of batches as defined by the recipe's components
+  batches: number;
+};
+
+export type PurchaseSuggestion = {
+  itemId: string;
+  itemName: string;
+  supplierId: string | null;
+  supplier: string;
+  unit: string;
+  onHand: number;
+  parLevel: number | null;
+  reorderQuantity: number | null;
+  demand: number;
+  orderQuantity: number;
+  purchasePrice: number;
+  estimatedCost: number;
+};
+
+export type PurchaseSuggestionGroup = {
+  // Null for items without a known preferred supplier
+  supplierId: string | null;
+  supplier: string;
+  suggestions: PurchaseSuggestion[];
+  totalCost: number;
+};
+
+export type PurchaseSuggestionResult = {
+  groups: PurchaseSuggestionGroup[];
+  totalCost: number;
+  unitIssues: UnitIssue[];
+};
+
+export const UNASSIGNED_SUPPLIER_LABEL = "Ohne Lieferant";
+
+function roundQuantity(value: number) {
+  return Math.round(value * 1000) / 1000;
+}
+
+function isRecipe(item: PurchaseItem) {
+  return !!item.components && item.components.length > 0;
+}
+
+/**
+ * Explodes planned batches through the recipe structure into the number of
+ * purchase units (`item.unit`) needed per purchased item. Sub-recipes are
+ * expanded per batch output; cycles are skipped.
+ */
+export function explodeProductionDemand(
+  planned: PlannedProduction[],
+  itemsById: ReadonlyMap<string, PurchaseItem>
+): { demand: Map<string, number>; unitIssues: UnitIssue[] } {
+  const demand = new Map<string, number>();
+  const unitIssues: UnitIssue[] = [];
+
+  function addBatches(
+    item: PurchaseItem,
+    batches: number,
+    ancestors: Set<string>
+  ) {
+    if (ancestors.has(item.id) || batches <= 0) {
+      return;
+    }
+    const nextAncestors = new Set(ancestors).add(item.id);
+
+    for (const component of item.components ?? []) {
+      if (!component.itemId) {
+        continue;
+      }
+      const componentItem = itemsById.get(component.itemId);
+      if (!componentItem) {
+        continue;
+      }
+
+      const packUnit = isRecipe(componentItem)
+        ? getRecipeOutputUnit(componentItem)
+        : componentItem.unit;
+      const conversion = convertQuantityToPacks(
+        packUnit,
+        component.quantity,
+        component.unit
+      );
+
+      if (conversion.status !== "ok") {
+        unitIssues.push({
+          itemId: componentItem.id,
+          itemName: componentItem.name,
+          componentUnit: component.unit,
+          packUnit,
+          status: conversion.status,
+        });
+        continue;
+      }
+
+      const required = conversion.packs * batches;
+
+      if (isRecipe(componentItem)) {
+        addBatches(componentItem, required, nextAncestors);
+      } else {
+        // Recipes list the usable amount, trim loss has to be bought on top
+        demand.set(
+          componentItem.id,
+          (demand.get(componentItem.id) ?? 0) +
+            required / getUsableYieldFactor(componentItem)
+        );
+      }
+    }
+  }
+
+  for (const entry of planned) {
+    const item = itemsById.get(entry.itemId);
+    if (item && Number.isFinite(entry.batches)) {
+      addBatches(item, entry.batches, new Set());
+    }
+  }
+
+  return { demand, unitIssues };
+}
+
+/**
+ * Order quantity that brings the stock left after production back up to
+ * the par level. With a reorder quantity the order is rounded up to whole
+ * multiples of it, otherwise to whole purchase units.
+ */
+export function getOrderQuantity(
+  onHand: number,
+  demand: number,
+  parLevel: number | null,
+  reorderQuantity: number | null
+) {
+  const remaining = onHand - demand;
+  const target = parLevel !== null && parLevel > 0 ? parLevel : 0;
+  const shortfall = target - remaining;
+
+  if (shortfall <= 0) {
+    return 0;
+  }
+  if (reorderQuantity !== null && reorderQuantity > 0) {
+    return roundQuantity(
+      Math.ceil(roundQuantity(shortfall / reorderQuantity)) * reorderQuantity
+    );
+  }
+  return Math.ceil(roundQuantity(shortfall));
+}
+
+/**
+ * Order suggestions grouped by each item's preferred supplier.
+ * `supplierNames` maps supplier ids to names; items whose supplier is not
+ * in it are listed without a supplier.
+ */
+export function computePurchaseSuggestions(
+  items: PurchaseItem[],
+  planned: PlannedProduction[],
+  supplierNames: ReadonlyMap<string, string> = new Map()
+): PurchaseSuggestionResult {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const { demand, unitIssues } = explodeProductionDemand(planned, itemsById);
+
+  const groups = new Map<string | null, PurchaseSuggestion[]>();
+
+  for (const item of items) {
+    if (isRecipe(item)) {
+      continue;
+    }
+    const onHand = Number(item.onHand ?? 0);
+    const parLevel = item.parLevel ?? null;
+    const reorderQuantity = item.reorderQuantity ?? null;
+    const itemDemand = roundQuantity(demand.get(item.id) ?? 0);
+    const orderQuantity = getOrderQuantity(
+      onHand,
+      itemDemand,
+      parLevel,
+      reorderQuantity
+    );
+
+    if (orderQuantity <= 0) {
+      continue;
+    }
+
+    const supplierId =
+      item.preferredSupplierId && supplierNames.has(item.preferredSupplierId)
+        ? item.preferredSupplierId
+        : null;
+    const purchasePrice = Number(item.purchasePrice) || 0;
+    const suggestions = groups.get(supplierId) ?? [];
+    suggestions.push({
+      itemId: item.id,
+      itemName: item.name,
+      supplierId,
+      supplier:
+        supplierId === null
+          ? UNASSIGNED_SUPPLIER_LABEL
+          : (supplierNames.get(supplierId) as string),
+      unit: item.unit,
+      onHand,
+      parLevel,
+      reorderQuantity,
+      demand: itemDemand,
+      orderQuantity,
+      purchasePrice,
+      estimatedCost: Math.round(orderQuantity * purchasePrice * 100) / 100,
+    });
+    groups.set(supplierId, suggestions);
+  }
+
+  const sortedGroups = Array.from(groups.entries())
+    .map(([supplierId, suggestions]) => ({
+      supplierId,
+      supplier: suggestions[0].supplier,
+      suggestions: suggestions.sort((first, second) =>
+        first.itemName.localeCompare(second.itemName)
+      ),
+      totalCost:
+        Math.round(
+          suggestions.reduce((sum, entry) => sum + entry.estimatedCost, 0) *
+            100
+        ) / 100,
+    }))
+    .sort((first, second) => {
+      if (first.supplierId === null) return 1;
+      if (second.supplierId === null) return -1;
+      return first.supplier.localeCompare(second.supplier);
+    });
+
+  return {
+    groups: sortedGroups,
+    totalCost:
+      Math.round(
+        sortedGroups.reduce((sum, group) => sum + group.totalCost, 0) * 100
+      ) / 100,
+    unitIssues,
+  };
+}
+
+function formatCsvNumber(value: number | null) {
+  return value === null ? "" : String(value).replace(".", ",");
+}
+
+function escapeCsvValue(value: string) {
+  return /[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Order list as semicolon separated CSV with decimal commas, which is what
+ * German Excel expects.
+ */
+export function formatOrderListCsv(groups: PurchaseSuggestionGroup[]) {
+  const header = [
+    "Lieferant",
+    "Artikel",
+    "Bestellmenge",
+    "Einheit",
+    "Bestand",
+    "Bedarf Produktion",
+    "Sollbestand",
+    "EK",
+    "Summe",
+  ];
+  const rows = groups.flatMap((group) =>
+    group.suggestions.map((suggestion) => [
+      suggestion.supplier,
+      suggestion.itemName,
+      formatCsvNumber(suggestion.orderQuantity),
+      suggestion.unit,
+      formatCsvNumber(suggestion.onHand),
+      formatCsvNumber(suggestion.demand),
+      formatCsvNumber(suggestion.parLevel),
+      formatCsvNumber(suggestion.purchasePrice),
+      formatCsvNumber(suggestion.estimatedCost),
+    ])
+  );
+
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsvValue).join(";"))
+    .join("\n");
+}
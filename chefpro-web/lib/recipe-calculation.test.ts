@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateRecipe,
+  computeInheritedAllergens,
+  computeInheritedAllergenTraces,
+  computeRecipeCalculation,
+  computeRecipeNutrition,
+  type CalculationItem,
+  type NutritionTotals,
+} from "@/lib/recipe-calculation";
+
+function nutrition(values: Partial<NutritionTotals>): NutritionTotals {
+  return {
+    energyKcal: 0,
+    fat: 0,
+    saturatedFat: 0,
+    carbs: 0,
+    sugar: 0,
+    protein: 0,
+    salt: 0,
+    fiber: 0,
+    sodium: 0,
+    breadUnits: 0,
+    cholesterol: 0,
+    ...values,
+  };
+}
+
+function byId(items: CalculationItem[]) {
+  return new Map(items.map((item) => [item.id, item]));
+}
+
+function recipe(
+  id: string,
+  components: [itemId: string, quantity: number, unit: string][],
+  extra: Partial<CalculationItem> = {}
+): CalculationItem {
+  return {
+    id,
+    name: id,
+    unit: "kg",
+    purchasePrice: 0,
+    components: components.map(([itemId, quantity, unit]) => ({
+      itemId,
+      quantity,
+      unit,
+    })),
+    ...extra,
+  };
+}
+
+const salz: CalculationItem = {
+  id: "salz",
+  name: "Salz",
+  unit: "1kg",
+  purchasePrice: 1,
+  nutritionPerUnit: nutrition({ salt: 100 }),
+};
+const mehl: CalculationItem = {
+  id: "mehl",
+  name: "Weizenmehl",
+  unit: "1kg",
+  purchasePrice: 0.8,
+  allergens: ["Weizenmehl Type 405"],
+  allergenTraces: ["Kann Spuren von Sesam enthalten"],
+  nutritionPerUnit: nutrition({ energyKcal: 350, carbs: 72 }),
+};
+const butter: CalculationItem = {
+  id: "butter",
+  name: "Butter",
+  unit: "250g",
+  purchasePrice: 2.5,
+  allergens: ["Milch"],
+  nutritionPerUnit: nutrition({ energyKcal: 740, fat: 82 }),
+};
+const karotten: CalculationItem = {
+  id: "karotten",
+  name: "Karotten",
+  unit: "1kg",
+  purchasePrice: 2,
+  usableYieldPercent: 80,
+  allergenTraces: ["Spuren von Milch"],
+  nutritionPerUnit: nutrition({ energyKcal: 36, carbs: 7 }),
+};
+const teig = recipe("teig", [
+  ["mehl", 500, "g"],
+  ["butter", 250, "g"],
+  ["salz", 10, "g"],
+]);
+const bruehe = recipe("bruehe", [
+  ["karotten", 1, "kg"],
+  ["salz", 10, "g"],
+]);
+const menue = recipe(
+  "menue",
+  [
+    ["teig", 760, "g"],
+    ["bruehe", 1010, "g"],
+  ],
+  { targetPortions: 4, targetSalesPrice: 10 }
+);
+
+const items = byId([salz, mehl, butter, karotten, teig, bruehe, menue]);
+
+describe("computeRecipeCalculation", () => {
+  it("rolls up cost per portion, margin and goods share", () => {
+    const result = computeRecipeCalculation(menue, items);
+
+    expect(result.totalCost).toBeCloseTo(5.42);
+    expect(result.costPerPortion).toBeCloseTo(1.355);
+    expect(result.marginPerPortion).toBeCloseTo(8.645);
+    expect(result.goodsSharePercent).toBeCloseTo(13.55);
+    expect(result.hasMissingPrices).toBe(false);
+  });
+
+  it("leaves per-portion values empty without portions", () => {
+    const result = computeRecipeCalculation(
+      { ...menue, targetPortions: null },
+      items
+    );
+
+    expect(result.totalCost).toBeCloseTo(5.42);
+    expect(result.costPerPortion).toBeNull();
+    expect(result.goodsSharePercent).toBeNull();
+  });
+
+  it("marks recipes without components as incomplete", () => {
+    expect(computeRecipeCalculation(recipe("leer", []), items)).toMatchObject({
+      totalCost: 0,
+      hasMissingPrices: true,
+    });
+  });
+});
+
+describe("inherited allergens", () => {
+  it("collects allergens of nested components in catalogue order", () => {
+    expect(computeInheritedAllergens(menue, items)).toEqual([
+      "Weizen",
+      "Milch",
+    ]);
+  });
+
+  it("drops traces of allergens the recipe contains anyway", () => {
+    expect(computeInheritedAllergenTraces(menue, items)).toEqual(["Sesam"]);
+  });
+
+  it("terminates on cycles", () => {
+    const first = recipe("first", [
+      ["second", 1, "kg"],
+      ["butter", 100, "g"],
+    ]);
+    const second = recipe("second", [
+      ["first", 1, "kg"],
+      ["mehl", 100, "g"],
+    ]);
+
+    expect(
+      computeInheritedAllergens(first, byId([first, second, butter, mehl]))
+    ).toEqual(["Weizen", "Milch"]);
+  });
+});
+
+describe("computeRecipeNutrition", () => {
+  it("counts a component shared by two sub-recipes in both", () => {
+    const result = computeRecipeNutrition(menue, items);
+
+    expect(result.hasMissingData).toBe(false);
+    expect(result.perRecipe?.salt).toBeCloseTo(20);
+    expect(result.perRecipe?.energyKcal).toBeCloseTo(3960);
+    expect(result.per100g?.energyKcal).toBeCloseTo((3960 / 1770) * 100);
+    expect(result.perPortion?.salt).toBeCloseTo(5);
+    expect(result.portionWeight).toBeCloseTo(442.5);
+  });
+
+  it("counts a sub-recipe used in two branches in both", () => {
+    const quiche = recipe("quiche", [["teig", 760, "g"]]);
+    const tartelette = recipe("tartelette", [["teig", 380, "g"]]);
+    const buffet = recipe("buffet", [
+      ["quiche", 760, "g"],
+      ["tartelette", 380, "g"],
+    ]);
+
+    const result = computeRecipeNutrition(
+      buffet,
+      byId([salz, mehl, butter, teig, quiche, tartelette, buffet])
+    );
+
+    expect(result.hasMissingData).toBe(false);
+    expect(result.perRecipe?.salt).toBeCloseTo(15);
+    expect(result.perRecipe?.energyKcal).toBeCloseTo(3600 * 1.5);
+  });
+
+  it("spreads the total over the cooked weight", () => {
+    const nudeln: CalculationItem = {
+      id: "nudeln",
+      name: "Nudeln",
+      unit: "1kg",
+      purchasePrice: 2,
+      nutritionPerUnit: nutrition({ energyKcal: 350 }),
+    };
+    const gekocht = recipe("gekocht", [["nudeln", 100, "g"]], {
+      cookingFactor: 2.5,
+      targetPortions: 1,
+    });
+
+    const result = computeRecipeNutrition(gekocht, byId([nudeln, gekocht]));
+
+    expect(result.perRecipe?.energyKcal).toBeCloseTo(350);
+    expect(result.per100g?.energyKcal).toBeCloseTo(140);
+    expect(result.portionWeight).toBeCloseTo(250);
+  });
+
+  it("flags cycles and components without values as missing", () => {
+    const first = recipe("first", [
+      ["second", 100, "g"],
+      ["salz", 10, "g"],
+    ]);
+    const second = recipe("second", [["first", 100, "g"]]);
+
+    const cyclic = computeRecipeNutrition(first, byId([first, second, salz]));
+    expect(cyclic.hasMissingData).toBe(true);
+    expect(cyclic.perRecipe?.salt).toBeCloseTo(10);
+
+    const unknown = recipe("unknown", [
+      ["salz", 10, "g"],
+      ["fehlt", 100, "g"],
+    ]);
+    expect(
+      computeRecipeNutrition(unknown, byId([unknown, salz])).hasMissingData
+    ).toBe(true);
+  });
+});
+
+describe("calculateRecipe", () => {
+  it("returns cost, allergens and nutrition in one result", () => {
+    const result = calculateRecipe(menue, items);
+
+    expect(result.totalCost).toBeCloseTo(5.42);
+    expect(result.allergens).toEqual(["Weizen", "Milch"]);
+    expect(result.allergenTraces).toEqual(["Sesam"]);
+    expect(result.nutrition.perRecipe?.salt).toBeCloseTo(20);
+  });
+});
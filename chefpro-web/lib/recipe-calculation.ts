@@ -0,0 +1,428 @@
+import { sortAdditiveKeys } from "@/lib/additives";
+import { normalizeAllergens } from "@/lib/allergens";
+import {
+  computeRecipeCost,
+  getCookingFactor,
+  type CostingItem,
+  type UnitIssue,
+} from "@/lib/recipe-costing";
+
+export type NutritionTotals = {
+  energyKcal: number | null;
+  fat: number | null;
+  saturatedFat: number | null;
+  carbs: number | null;
+  sugar: number | null;
+  protein: number | null;
+  salt: number | null;
+  fiber: number | null;
+  sodium: number | null;
+  breadUnits: number | null;
+  cholesterol: number | null;
+};
+
+export type CalculationItem = CostingItem & {
+  allergens?: string[] | null;
+  allergenTraces?: string[] | null;
+  additives?: string[] | null;
+  ingredients?: string | null;
+  // Fruit, vegetables and legumes in percent, for the Nutri-Score
+  fruitVegetableShare?: number | null;
+  nutritionPerUnit?: NutritionTotals | null;
+  targetPortions?: number | null;
+  targetSalesPrice?: number | null;
+};
+
+export type RecipeCalculation = {
+  totalCost: number;
+  costPerPortion: number | null;
+  marginPerPortion: number | null;
+  goodsSharePercent: number | null;
+  hasMissingPrices: boolean;
+  unitIssues: UnitIssue[];
+};
+
+export type RecipeNutritionSummary = {
+  perRecipe: NutritionTotals | null;
+  perPortion: NutritionTotals | null;
+  per100g: NutritionTotals | null;
+  // Grams per portion of the finished recipe
+  portionWeight: number | null;
+  hasMissingData: boolean;
+};
+
+export type RecipeCalculationResult = RecipeCalculation & {
+  allergens: string[];
+  allergenTraces: string[];
+  additives: string[];
+  nutrition: RecipeNutritionSummary;
+};
+
+export const NUTRIENT_KEYS: (keyof NutritionTotals)[] = [
+  "energyKcal",
+  "fat",
+  "saturatedFat",
+  "carbs",
+  "sugar",
+  "protein",
+  "salt",
+  "fiber",
+  "sodium",
+  "breadUnits",
+  "cholesterol",
+];
+
+function emptyNutritionTotals(): NutritionTotals {
+  return {
+    energyKcal: 0,
+    fat: 0,
+    saturatedFat: 0,
+    carbs: 0,
+    sugar: 0,
+    protein: 0,
+    salt: 0,
+    fiber: 0,
+    sodium: 0,
+    breadUnits: 0,
+    cholesterol: 0,
+  };
+}
+
+export function scaleNutritionTotals(
+  totals: NutritionTotals,
+  factor: number
+): NutritionTotals {
+  const scaled = emptyNutritionTotals();
+  for (const key of NUTRIENT_KEYS) {
+    scaled[key] = (totals[key] ?? 0) * factor;
+  }
+  return scaled;
+}
+
+function getValidPositive(value: number | null | undefined) {
+  return value != null && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Cost roll-up of a recipe with cost per portion, margin and goods share
+ * (Wareneinsatz) based on the target portions and sales price.
+ */
+export function computeRecipeCalculation(
+  rootItem: CalculationItem,
+  itemsById: ReadonlyMap<string, CostingItem>
+): RecipeCalculation {
+  if (!rootItem.components || rootItem.components.length === 0) {
+    return {
+      totalCost: 0,
+      costPerPortion: null,
+      marginPerPortion: null,
+      goodsSharePercent: null,
+      hasMissingPrices: true,
+      unitIssues: [],
+    };
+  }
+
+  const { totalCost, hasMissingPrices, unitIssues } = computeRecipeCost(
+    rootItem,
+    itemsById
+  );
+
+  const validPortions = getValidPositive(rootItem.targetPortions);
+  const costPerPortion =
+    validPortions != null ? totalCost / validPortions : null;
+
+  const validSales = getValidPositive(rootItem.targetSalesPrice);
+  const marginPerPortion =
+    costPerPortion != null && validSales != null
+      ? validSales - costPerPortion
+      : null;
+  const goodsSharePercent =
+    costPerPortion != null && validSales != null
+      ? (costPerPortion / validSales) * 100
+      : null;
+
+  return {
+    totalCost,
+    costPerPortion,
+    marginPerPortion,
+    goodsSharePercent,
+    hasMissingPrices,
+    unitIssues,
+  };
+}
+
+function collectComponentValues(
+  rootItem: CalculationItem,
+  itemsById: ReadonlyMap<string, CalculationItem>,
+  getValues: (item: CalculationItem) => string[] | null | undefined
+): string[] {
+  const visited = new Set<string>();
+  const values = new Set<string>();
+
+  function visit(item: CalculationItem) {
+    if (visited.has(item.id)) {
+      return;
+    }
+    visited.add(item.id);
+    for (const component of item.components ?? []) {
+      if (!component.itemId) {
+        continue;
+      }
+      const child = itemsById.get(component.itemId);
+      if (!child) {
+        continue;
+      }
+      for (const value of getValues(child) ?? []) {
+        const trimmed = value.trim();
+        if (trimmed.length > 0) {
+          values.add(trimmed);
+        }
+      }
+      if (child.components && child.components.length > 0) {
+        visit(child);
+      }
+    }
+  }
+
+  visit(rootItem);
+
+  return Array.from(values);
+}
+
+/**
+ * Allergens of all components, including nested sub-recipes, in the order
+ * of the LMIV catalogue. Entries outside the catalogue are kept at the end.
+ */
+export function computeInheritedAllergens(
+  rootItem: CalculationItem,
+  itemsById: ReadonlyMap<string, CalculationItem>
+): string[] {
+  const { allergens, unmatched } = normalizeAllergens(
+    collectComponentValues(rootItem, itemsById, (item) => item.allergens)
+  );
+  return [...allergens, ...unmatched];
+}
+
+/**
+ * "May contain traces" of all components, without allergens the recipe
+ * contains anyway.
+ */
+export function computeInheritedAllergenTraces(
+  rootItem: CalculationItem,
+  itemsById: ReadonlyMap<string, CalculationItem>
+): string[] {
+  const { traces } = normalizeAllergens(
+    computeInheritedAllergens(rootItem, itemsById),
+    collectComponentValues(rootItem, itemsById, (item) => item.allergenTraces)
+  );
+  return traces;
+}
+
+/**
+ * Additive classes of all components, in footnote order.
+ */
+export function computeInheritedAdditives(
+  rootItem: CalculationItem,
+  itemsById: ReadonlyMap<string, CalculationItem>
+): string[] {
+  return sortAdditiveKeys(
+    collectComponentValues(rootItem, itemsById, (item) => item.additives)
+  );
+}
+
+export function getNutritionUnitConversion(
+  unit: string | null | undefined
+): { kind: "mass" | "volume"; toBase: number } | null {
+  if (!unit) {
+    return null;
+  }
+  const normalized = unit.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+  if (
+    normalized === "g" ||
+    normalized === "gramm" ||
+    normalized === "gram" ||
+    normalized === "gr"
+  ) {
+    return { kind: "mass", toBase: 1 };
+  }
+  if (normalized === "kg" || normalized === "kilogramm") {
+    return { kind: "mass", toBase: 1000 };
+  }
+  if (normalized === "mg") {
+    return { kind: "mass", toBase: 0.001 };
+  }
+  if (normalized === "ml") {
+    return { kind: "volume", toBase: 1 };
+  }
+  if (normalized === "l" || normalized === "lt" || normalized === "liter") {
+    return { kind: "volume", toBase: 1000 };
+  }
+  return null;
+}
+
+/**
+ * Weight of one finished batch: the yield weight or volume if entered (1 ml
+ * counts as 1 g), otherwise the raw component mass times the cooking factor.
+ */
+export function getRecipeOutputMass(
+  item: CalculationItem,
+  rawMass: number
+): number {
+  return (
+    getValidPositive(item.yieldWeightGrams) ??
+    getValidPositive(item.yieldVolumeMl) ??
+    rawMass * getCookingFactor(item)
+  );
+}
+
+/**
+ * Nutrition per recipe, per portion and per 100 g of the finished recipe.
+ * Purchased items carry their values per 100 g of usable product; recipes
+ * sum their components by mass (1 ml counts as 1 g) and spread the total
+ * over the cooked weight, so water lost or absorbed in cooking changes the
+ * values per 100 g but not the total.
+ */
+export function computeRecipeNutrition(
+  rootItem: CalculationItem,
+  itemsById: ReadonlyMap<string, CalculationItem>
+): RecipeNutritionSummary {
+  if (!rootItem.components || rootItem.components.length === 0) {
+    return {
+      perRecipe: null,
+      perPortion: null,
+      per100g: null,
+      portionWeight: null,
+      hasMissingData: true,
+    };
+  }
+
+  // Only a sub-recipe on its own path is a cycle; one used in several
+  // branches counts in each of them
+  function computeItemProfile(
+    item: CalculationItem,
+    ancestors: ReadonlySet<string>
+  ): {
+    perGram: NutritionTotals | null;
+    mass: number | null;
+    missing: boolean;
+  } {
+    if (ancestors.has(item.id)) {
+      return { perGram: null, mass: null, missing: true };
+    }
+    const nextAncestors = new Set(ancestors).add(item.id);
+
+    if (!item.components || item.components.length === 0) {
+      const base = item.nutritionPerUnit;
+      if (!base) {
+        return { perGram: null, mass: null, missing: true };
+      }
+      return {
+        perGram: scaleNutritionTotals(base, 1 / 100),
+        mass: 100,
+        missing: false,
+      };
+    }
+
+    let totalMass = 0;
+    const batchTotals = emptyNutritionTotals();
+    let missing = false;
+
+    for (const component of item.components) {
+      if (!component.itemId) {
+        missing = true;
+        continue;
+      }
+      const componentItem = itemsById.get(component.itemId);
+      if (!componentItem) {
+        missing = true;
+        continue;
+      }
+      const quantity = Number(String(component.quantity).replace(",", "."));
+      if (!Number.isFinite(quantity) || quantity <= 0) {
+        missing = true;
+        continue;
+      }
+      const child = computeItemProfile(componentItem, nextAncestors);
+      if (!child.perGram) {
+        missing = true;
+        continue;
+      }
+      const unitInfo =
+        getNutritionUnitConversion(component.unit) ??
+        getNutritionUnitConversion(componentItem.unit);
+      if (!unitInfo) {
+        missing = true;
+        continue;
+      }
+      const mass = quantity * unitInfo.toBase;
+      if (!Number.isFinite(mass) || mass <= 0) {
+        missing = true;
+        continue;
+      }
+      totalMass += mass;
+      for (const key of NUTRIENT_KEYS) {
+        batchTotals[key] = (batchTotals[key] ?? 0) + (child.perGram[key] ?? 0) * mass;
+      }
+    }
+
+    if (!Number.isFinite(totalMass) || totalMass <= 0) {
+      return { perGram: null, mass: null, missing: true };
+    }
+
+    const outputMass = getRecipeOutputMass(item, totalMass);
+    return {
+      perGram: scaleNutritionTotals(batchTotals, 1 / outputMass),
+      mass: outputMass,
+      missing,
+    };
+  }
+
+  const { perGram, mass, missing } = computeItemProfile(rootItem, new Set());
+
+  if (!perGram || !mass || !Number.isFinite(mass) || mass <= 0) {
+    return {
+      perRecipe: null,
+      perPortion: null,
+      per100g: null,
+      portionWeight: null,
+      hasMissingData: true,
+    };
+  }
+
+  const perRecipe = scaleNutritionTotals(perGram, mass);
+  const per100g = scaleNutritionTotals(perGram, 100);
+
+  const validPortions = getValidPositive(rootItem.targetPortions);
+  const perPortion =
+    validPortions != null
+      ? scaleNutritionTotals(perRecipe, 1 / validPortions)
+      : null;
+
+  return {
+    perRecipe,
+    perPortion,
+    per100g,
+    portionWeight: validPortions != null ? mass / validPortions : null,
+    hasMissingData: missing,
+  };
+}
+
+/**
+ * Everything the recipe view shows about a recipe in one call, so exports,
+ * labels and the API get the same numbers as the UI.
+ */
+export function calculateRecipe(
+  rootItem: CalculationItem,
+  itemsById: ReadonlyMap<string, CalculationItem>
+): RecipeCalculationResult {
+  return {
+    ...computeRecipeCalculation(rootItem, itemsById),
+    allergens: computeInheritedAllergens(rootItem, itemsById),
+    allergenTraces: computeInheritedAllergenTraces(rootItem, itemsById),
+    additives: computeInheritedAdditives(rootItem, itemsById),
+    nutrition: computeRecipeNutrition(rootItem, itemsById),
+  };
+}
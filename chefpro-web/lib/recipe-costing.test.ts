@@ -0,0 +1,230 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeComponentCost,
+  computeLinkedItemCost,
+  computeRecipeCost,
+  convertQuantityToPacks,
+  getRecipeOutputUnit,
+  parsePackSize,
+  type CostingItem,
+} from "@/lib/recipe-costing";
+
+function byId(items: CostingItem[]) {
+  return new Map(items.map((item) => [item.id, item]));
+}
+
+const salz: CostingItem = {
+  id: "salz",
+  name: "Salz",
+  unit: "1kg",
+  purchasePrice: 1,
+};
+const mehl: CostingItem = {
+  id: "mehl",
+  name: "Weizenmehl",
+  unit: "1kg",
+  purchasePrice: 0.8,
+};
+const butter: CostingItem = {
+  id: "butter",
+  name: "Butter",
+  unit: "250g",
+  purchasePrice: 2.5,
+};
+const karotten: CostingItem = {
+  id: "karotten",
+  name: "Karotten",
+  unit: "1kg",
+  purchasePrice: 2,
+  usableYieldPercent: 80,
+};
+const teig: CostingItem = {
+  id: "teig",
+  name: "Mürbeteig",
+  unit: "kg",
+  purchasePrice: 0,
+  components: [
+    { itemId: "mehl", quantity: 500, unit: "g" },
+    { itemId: "butter", quantity: 250, unit: "g" },
+    { itemId: "salz", quantity: 10, unit: "g" },
+  ],
+};
+
+describe("parsePackSize", () => {
+  it("reads sizes, multipacks and bare units into base units", () => {
+    expect(parsePackSize("1kg")).toEqual({ kind: "mass", amount: 1000 });
+    expect(parsePackSize("400g Abtropfgewicht")).toEqual({
+      kind: "mass",
+      amount: 400,
+    });
+    expect(parsePackSize("6x1l")).toEqual({ kind: "volume", amount: 6000 });
+    expect(parsePackSize("Stück")).toEqual({ kind: "piece", amount: 1 });
+    expect(parsePackSize("Karton")).toBeNull();
+  });
+});
+
+describe("convertQuantityToPacks", () => {
+  it("converts component units into packs", () => {
+    expect(convertQuantityToPacks("1kg", 250, "g")).toEqual({
+      packs: 0.25,
+      status: "ok",
+    });
+    expect(convertQuantityToPacks("1kg", "2", "1 kg")).toEqual({
+      packs: 2,
+      status: "ok",
+    });
+    // Spoons count as grams for powders
+    expect(convertQuantityToPacks("500g", 2, "EL").packs).toBeCloseTo(0.06);
+  });
+
+  it("reports units that cannot be converted", () => {
+    expect(convertQuantityToPacks("1kg", 3, "Stück").status).toBe(
+      "incompatible-unit"
+    );
+    expect(convertQuantityToPacks("1kg", 3, "Prise").status).toBe(
+      "unknown-unit"
+    );
+    expect(convertQuantityToPacks("1kg", 0, "g").status).toBe(
+      "invalid-quantity"
+    );
+  });
+});
+
+describe("computeComponentCost", () => {
+  it("prices by usable yield", () => {
+    expect(computeComponentCost(karotten, 1, "kg").cost).toBeCloseTo(2.5);
+  });
+});
+
+describe("computeRecipeCost", () => {
+  it("costs a recipe from its components", () => {
+    const result = computeRecipeCost(teig, byId([mehl, butter, salz, teig]));
+
+    expect(result.totalCost).toBeCloseTo(2.91);
+    expect(result.hasMissingPrices).toBe(false);
+    expect(result.unitIssues).toEqual([]);
+  });
+
+  it("costs sub-recipes per batch output through all levels", () => {
+    const tarte: CostingItem = {
+      id: "tarte",
+      name: "Tarte",
+      unit: "Stück",
+      purchasePrice: 0,
+      components: [{ itemId: "teig", quantity: 380, unit: "g" }],
+    };
+    const platte: CostingItem = {
+      id: "platte",
+      name: "Tartenplatte",
+      unit: "Stück",
+      purchasePrice: 0,
+      // Two tarts of 380 g each
+      components: [{ itemId: "tarte", quantity: 760, unit: "g" }],
+    };
+    const items = byId([mehl, butter, salz, teig, tarte, platte]);
+
+    expect(getRecipeOutputUnit(teig)).toBe("760g");
+    expect(computeRecipeCost(tarte, items).totalCost).toBeCloseTo(1.455);
+    expect(computeRecipeCost(platte, items).totalCost).toBeCloseTo(2.91);
+  });
+
+  it("counts a sub-recipe used in several branches in each of them", () => {
+    const quiche: CostingItem = {
+      id: "quiche",
+      name: "Quiche",
+      unit: "Stück",
+      purchasePrice: 0,
+      components: [{ itemId: "teig", quantity: 760, unit: "g" }],
+    };
+    const tartelette: CostingItem = {
+      id: "tartelette",
+      name: "Tartelette",
+      unit: "Stück",
+      purchasePrice: 0,
+      components: [{ itemId: "teig", quantity: 760, unit: "g" }],
+    };
+    const buffet: CostingItem = {
+      id: "buffet",
+      name: "Buffet",
+      unit: "Stück",
+      purchasePrice: 0,
+      components: [
+        { itemId: "quiche", quantity: 760, unit: "g" },
+        { itemId: "tartelette", quantity: 760, unit: "g" },
+      ],
+    };
+
+    const result = computeRecipeCost(
+      buffet,
+      byId([mehl, butter, salz, teig, quiche, tartelette, buffet])
+    );
+
+    expect(result.totalCost).toBeCloseTo(5.82);
+    expect(result.hasMissingPrices).toBe(false);
+  });
+
+  it("stops at cycles and marks the recipe incomplete", () => {
+    const first: CostingItem = {
+      id: "first",
+      name: "Fond",
+      unit: "l",
+      purchasePrice: 0,
+      components: [
+        { itemId: "second", quantity: 1, unit: "l" },
+        { itemId: "salz", quantity: 10, unit: "g" },
+      ],
+    };
+    const second: CostingItem = {
+      id: "second",
+      name: "Jus",
+      unit: "l",
+      purchasePrice: 0,
+      components: [{ itemId: "first", quantity: 1, unit: "l" }],
+    };
+
+    const result = computeRecipeCost(first, byId([first, second, salz]));
+
+    expect(result.totalCost).toBeCloseTo(0.01);
+    expect(result.hasMissingPrices).toBe(true);
+  });
+
+  it("lists components whose unit does not fit the pack", () => {
+    const recipe: CostingItem = {
+      id: "recipe",
+      name: "Rezept",
+      unit: "kg",
+      purchasePrice: 0,
+      components: [{ itemId: "mehl", quantity: 2, unit: "Stück" }],
+    };
+
+    const result = computeRecipeCost(recipe, byId([recipe, mehl]));
+
+    expect(result.hasMissingPrices).toBe(true);
+    expect(result.unitIssues).toEqual([
+      {
+        itemId: "mehl",
+        itemName: "Weizenmehl",
+        componentUnit: "Stück",
+        packUnit: "1kg",
+        status: "incompatible-unit",
+      },
+    ]);
+  });
+});
+
+describe("computeLinkedItemCost", () => {
+  it("costs purchased items and sub-recipes like the recipe roll-up", () => {
+    const items = byId([mehl, butter, salz, teig]);
+
+    expect(computeLinkedItemCost(mehl, items, 250, "g")).toMatchObject({
+      cost: 0.2,
+      packUnit: "1kg",
+      status: "ok",
+    });
+
+    const subRecipe = computeLinkedItemCost(teig, items, 380, "g");
+    expect(subRecipe.packUnit).toBe("760g");
+    expect(subRecipe.packPrice).toBeCloseTo(2.91);
+    expect(subRecipe.cost).toBeCloseTo(1.455);
+  });
+});
@@ -0,0 +1,440 @@
+export type UnitKind = "mass" | "volume" | "piece";
+
+type UnitDefinition = {
+  kind: UnitKind;
+  toBase: number;
+  // Spoon measures are used for both powders and liquids (1 ml ≈ 1 g)
+  spoon?: boolean;
+};
+
+export type PackSize = {
+  kind: UnitKind;
+  amount: number;
+};
+
+export type CostStatus =
+  | "ok"
+  | "missing-price"
+  | "invalid-quantity"
+  | "unknown-unit"
+  | "incompatible-unit";
+
+export type ComponentCost = {
+  cost: number;
+  status: CostStatus;
+};
+
+export type CostingComponent = {
+  itemId: string | null;
+  quantity: number | string;
+  unit: string;
+};
+
+export type CostingItem = {
+  id: string;
+  name: string;
+  unit: string;
+  purchasePrice: number;
+  // Share left after peeling or trimming in percent, null counts as 100.
+  // Recipe quantities are usable weight, so the loss only raises the price.
+  usableYieldPercent?: number | null;
+  // Cooked per raw weight of a recipe, e.g. 2.5 for pasta or 0.7 for a roast
+  cookingFactor?: number | null;
+  yieldWeightGrams?: number | null;
+  yieldVolumeMl?: number | null;
+  components?: CostingComponent[];
+};
+
+export type UnitIssue = {
+  itemId: string;
+  itemName: string;
+  componentUnit: string;
+  packUnit: string;
+  status: Exclude<CostStatus, "ok" | "missing-price">;
+};
+
+export type RecipeCostResult = {
+  totalCost: number;
+  hasMissingPrices: boolean;
+  unitIssues: UnitIssue[];
+};
+
+const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
+  mg: { kind: "mass", toBase: 0.001 },
+  g: { kind: "mass", toBase: 1 },
+  gr: { kind: "mass", toBase: 1 },
+  gram: { kind: "mass", toBase: 1 },
+  gramm: { kind: "mass", toBase: 1 },
+  kg: { kind: "mass", toBase: 1000 },
+  kilo: { kind: "mass", toBase: 1000 },
+  kilogramm: { kind: "mass", toBase: 1000 },
+  ml: { kind: "volume", toBase: 1 },
+  cl: { kind: "volume", toBase: 10 },
+  dl: { kind: "volume", toBase: 100 },
+  l: { kind: "volume", toBase: 1000 },
+  lt: { kind: "volume", toBase: 1000 },
+  ltr: { kind: "volume", toBase: 1000 },
+  liter: { kind: "volume", toBase: 1000 },
+  el: { kind: "volume", toBase: 15, spoon: true },
+  tl: { kind: "volume", toBase: 5, spoon: true },
+  stück: { kind: "piece", toBase: 1 },
+  stueck: { kind: "piece", toBase: 1 },
+  stk: { kind: "piece", toBase: 1 },
+  st: { kind: "piece", toBase: 1 },
+  pcs: { kind: "piece", toBase: 1 },
+};
+
+function parseNumber(raw: string): number | null {
+  const value = Number(raw.replace(",", "."));
+  return Number.isFinite(value) ? value : null;
+}
+
+function normalizeUnitToken(unit: string) {
+  return unit.trim().toLowerCase().replace(/\.$/, "");
+}
+
+export function getUnitDefinition(
+  unit: string | null | undefined
+): UnitDefinition | null {
+  if (!unit) {
+    return null;
+  }
+  return UNIT_DEFINITIONS[normalizeUnitToken(unit)] ?? null;
+}
+
+/**
+ * Parses a pack size such as "1kg", "400g Abtropfgewicht", "6x1l" or a bare
+ * unit like "kg" into an amount expressed in the base unit (g, ml, Stück).
+ */
+export function parsePackSize(unit: string | null | undefined): PackSize | null {
+  if (!unit) {
+    return null;
+  }
+  const normalized = unit.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+
+  const multiMatch = normalized.match(
+    /^(\d+(?:[.,]\d+)?)\s*[x×]\s*(\d+(?:[.,]\d+)?)\s*([a-zäöüß]+\.?)/
+  );
+  if (multiMatch) {
+    const count = parseNumber(multiMatch[1]);
+    const size = parseNumber(multiMatch[2]);
+    const definition = getUnitDefinition(multiMatch[3]);
+    if (count && size && definition && count > 0 && size > 0) {
+      return { kind: definition.kind, amount: count * size * definition.toBase };
+    }
+    return null;
+  }
+
+  const sizeMatch = normalized.match(/^(\d+(?:[.,]\d+)?)\s*([a-zäöüß]+\.?)/);
+  if (sizeMatch) {
+    const size = parseNumber(sizeMatch[1]);
+    const definition = getUnitDefinition(sizeMatch[2]);
+    if (size && definition && size > 0) {
+      return { kind: definition.kind, amount: size * definition.toBase };
+    }
+    return null;
+  }
+
+  const bareMatch = normalized.match(/^([a-zäöüß]+\.?)/);
+  if (bareMatch) {
+    const definition = getUnitDefinition(bareMatch[1]);
+    if (definition) {
+      return { kind: definition.kind, amount: definition.toBase };
+    }
+  }
+
+  return null;
+}
+
+export function parseQuantity(value: number | string): number | null {
+  const quantity = Number(String(value).replace(",", "."));
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    return null;
+  }
+  return quantity;
+}
+
+/**
+ * Converts a component quantity into the base unit of the given pack kind.
+ * Returns null when the unit is unknown and "incompatible" when the unit
+ * cannot be expressed in the pack's kind (e.g. Stück vs. kg).
+ */
+export function convertToPackBase(
+  quantity: number,
+  unit: string,
+  packKind: UnitKind
+): number | "incompatible" | null {
+  const definition = getUnitDefinition(unit);
+  if (!definition) {
+    return null;
+  }
+  if (definition.kind === packKind) {
+    return quantity * definition.toBase;
+  }
+  if (definition.spoon && packKind === "mass") {
+    return quantity * definition.toBase;
+  }
+  return "incompatible";
+}
+
+function isSameUnit(first: string, second: string) {
+  return (
+    first.trim().toLowerCase().replace(/\s+/g, "") ===
+    second.trim().toLowerCase().replace(/\s+/g, "")
+  );
+}
+
+export type PackConversion = {
+  packs: number;
+  status: Exclude<CostStatus, "missing-price">;
+};
+
+/**
+ * Expresses a quantity as a number of `packUnit`s. A quantity entered in
+ * the pack unit itself ("2 × 1kg") counts as that many packs.
+ */
+export function convertQuantityToPacks(
+  packUnit: string,
+  quantityValue: number | string,
+  unit: string
+): PackConversion {
+  const quantity = parseQuantity(quantityValue);
+  if (quantity == null) {
+    return { packs: 0, status: "invalid-quantity" };
+  }
+  if (!unit.trim() || isSameUnit(unit, packUnit)) {
+    return { packs: quantity, status: "ok" };
+  }
+  const pack = parsePackSize(packUnit);
+  if (!pack) {
+    return { packs: 0, status: "unknown-unit" };
+  }
+  const amount = convertToPackBase(quantity, unit, pack.kind);
+  if (amount == null) {
+    return { packs: 0, status: "unknown-unit" };
+  }
+  if (amount === "incompatible") {
+    return { packs: 0, status: "incompatible-unit" };
+  }
+  return { packs: amount / pack.amount, status: "ok" };
+}
+
+/**
+ * Prices a quantity of something that costs `price` per `packUnit`.
+ */
+export function computeQuantityCost(
+  price: number,
+  packUnit: string,
+  quantityValue: number | string,
+  unit: string
+): ComponentCost {
+  if (!Number.isFinite(price) || price <= 0) {
+    return { cost: 0, status: "missing-price" };
+  }
+  const conversion = convertQuantityToPacks(packUnit, quantityValue, unit);
+  return { cost: price * conversion.packs, status: conversion.status };
+}
+
+function getValidPositive(value: number | null | undefined) {
+  return value != null && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Usable share of a purchased item as a factor between 0 and 1.
+ */
+export function getUsableYieldFactor(
+  item: Pick<CostingItem, "usableYieldPercent">
+): number {
+  const percent = getValidPositive(item.usableYieldPercent);
+  return percent != null && percent <= 100 ? percent / 100 : 1;
+}
+
+export function getCookingFactor(
+  item: Pick<CostingItem, "cookingFactor">
+): number {
+  return getValidPositive(item.cookingFactor) ?? 1;
+}
+
+/**
+ * Purchase price per pack of usable product, e.g. 2 € per kg of carrots
+ * with 80 % usable yield cost 2,50 € per peeled kg.
+ */
+export function getUsablePrice(
+  item: Pick<CostingItem, "purchasePrice" | "usableYieldPercent">
+): number {
+  return Number(item.purchasePrice) / getUsableYieldFactor(item);
+}
+
+/**
+ * Reads an amount like "ca. 2,5 kg" or "ergibt 5 l" from datasheet text
+ * into grams or millilitres. Null if no amount of that kind is found.
+ */
+export function parseYieldAmount(
+  text: string | null | undefined,
+  kind: "mass" | "volume"
+): number | null {
+  if (!text) {
+    return null;
+  }
+  const pattern = /(\d+(?:[.,]\d+)?)\s*([a-zäöüß]+\.?)/g;
+  for (const match of text.toLowerCase().matchAll(pattern)) {
+    const amount = parseNumber(match[1]);
+    const definition = getUnitDefinition(match[2]);
+    if (
+      amount &&
+      amount > 0 &&
+      definition &&
+      definition.kind === kind &&
+      !definition.spoon
+    ) {
+      return amount * definition.toBase;
+    }
+  }
+  return null;
+}
+
+export function computeComponentCost(
+  item: Pick<CostingItem, "unit" | "purchasePrice" | "usableYieldPercent">,
+  quantity: number | string,
+  unit: string
+): ComponentCost {
+  return computeQuantityCost(getUsablePrice(item), item.unit, quantity, unit);
+}
+
+/**
+ * What one batch of a recipe yields: the yield weight or volume if entered,
+ * otherwise the summed component mass times the cooking factor.
+ */
+export function getRecipeOutputUnit(item: CostingItem): string {
+  const yieldWeight = getValidPositive(item.yieldWeightGrams);
+  if (yieldWeight != null) {
+    return `${yieldWeight}g`;
+  }
+  const yieldVolume = getValidPositive(item.yieldVolumeMl);
+  if (yieldVolume != null) {
+    return `${yieldVolume}ml`;
+  }
+  let totalMass = 0;
+  for (const component of item.components ?? []) {
+    const quantity = parseQuantity(component.quantity);
+    const definition = getUnitDefinition(component.unit);
+    if (quantity == null || !definition || definition.kind === "piece") {
+      continue;
+    }
+    // Without a yield, 1 ml of a liquid component counts as 1 g of output
+    totalMass += quantity * definition.toBase;
+  }
+  if (totalMass > 0) {
+    return `${totalMass * getCookingFactor(item)}g`;
+  }
+  return item.unit;
+}
+
+export type LinkedItemCost = ComponentCost & {
+  // Pack size the price refers to, the batch output for sub-recipes
+  packUnit: string;
+  packPrice: number;
+};
+
+/**
+ * Prices a quantity of a recipe component. Sub-recipes are costed
+ * recursively per batch output, like in `computeRecipeCost`.
+ */
+export function computeLinkedItemCost(
+  item: CostingItem,
+  itemsById: ReadonlyMap<string, CostingItem>,
+  quantity: number | string,
+  unit: string
+): LinkedItemCost {
+  const isRecipe = !!item.components && item.components.length > 0;
+  const packPrice = isRecipe
+    ? computeRecipeCost(item, itemsById).totalCost
+    : getUsablePrice(item);
+  const packUnit = isRecipe ? getRecipeOutputUnit(item) : item.unit;
+  return {
+    ...computeQuantityCost(packPrice, packUnit, quantity, unit),
+    packUnit,
+    packPrice,
+  };
+}
+
+/**
+ * Recursively costs a recipe. Purchased items are priced per usable pack
+ * size (`unit`), sub-recipes per batch output (yield or cooked mass).
+ */
+export function computeRecipeCost(
+  rootItem: CostingItem,
+  itemsById: ReadonlyMap<string, CostingItem>
+): RecipeCostResult {
+  const unitIssues: UnitIssue[] = [];
+
+  function computeBatchCost(
+    item: CostingItem,
+    ancestors: Set<string>
+  ): { cost: number; missing: boolean } {
+    if (ancestors.has(item.id)) {
+      return { cost: 0, missing: true };
+    }
+    const nextAncestors = new Set(ancestors).add(item.id);
+
+    let total = 0;
+    let missing = false;
+
+    for (const component of item.components ?? []) {
+      if (!component.itemId) {
+        missing = true;
+        continue;
+      }
+      const componentItem = itemsById.get(component.itemId);
+      if (!componentItem) {
+        missing = true;
+        continue;
+      }
+
+      let price = getUsablePrice(componentItem);
+      let packUnit = componentItem.unit;
+      if (componentItem.components && componentItem.components.length > 0) {
+        const child = computeBatchCost(componentItem, nextAncestors);
+        if (child.missing) {
+          missing = true;
+        }
+        price = child.cost;
+        packUnit = getRecipeOutputUnit(componentItem);
+      }
+
+      const result = computeQuantityCost(
+        price,
+        packUnit,
+        component.quantity,
+        component.unit
+      );
+      if (result.status === "ok") {
+        total += result.cost;
+        continue;
+      }
+      missing = true;
+      if (result.status !== "missing-price") {
+        unitIssues.push({
+          itemId: componentItem.id,
+          itemName: componentItem.name,
+          componentUnit: component.unit,
+          packUnit,
+          status: result.status,
+        });
+      }
+    }
+
+    return { cost: total, missing };
+  }
+
+  const { cost, missing } = computeBatchCost(rootItem, new Set());
+
+  return {
+    totalCost: cost,
+    hasMissingPrices: missing,
+    unitIssues,
+  };
+}
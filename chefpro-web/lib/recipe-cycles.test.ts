@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  findRecipeStructureIssue,
+  getItemIdsClosingCycle,
+  getRecipeStructureIssueMessage,
+  MAX_RECIPE_DEPTH,
+} from "@/lib/recipe-cycles";
+
+function children(entries: Record<string, string[]>) {
+  return new Map(Object.entries(entries));
+}
+
+function recipes(entries: Record<string, string[]>) {
+  return new Map(
+    Object.entries(entries).map(([id, childIds]) => [
+      id,
+      { id, components: childIds.map((itemId) => ({ itemId })) },
+    ])
+  );
+}
+
+describe("findRecipeStructureIssue", () => {
+  it("rejects a recipe that contains itself", () => {
+    expect(findRecipeStructureIssue("suppe", ["suppe"], new Map())).toEqual({
+      kind: "cycle",
+      path: ["suppe", "suppe"],
+    });
+  });
+
+  it("rejects an indirect loop through saved sub-recipes", () => {
+    expect(
+      findRecipeStructureIssue(
+        "suppe",
+        ["fond"],
+        children({ fond: ["jus"], jus: ["suppe"] })
+      )
+    ).toEqual({ kind: "cycle", path: ["suppe", "fond", "jus", "suppe"] });
+  });
+
+  it("accepts a sub-recipe shared by several branches", () => {
+    expect(
+      findRecipeStructureIssue(
+        "menue",
+        ["suppe", "sosse"],
+        children({ suppe: ["fond"], sosse: ["fond"], fond: ["gemuese"] })
+      )
+    ).toBeNull();
+  });
+
+  it("checks the new components instead of the saved ones", () => {
+    const saved = children({ suppe: ["fond"], fond: ["suppe"] });
+
+    expect(findRecipeStructureIssue("suppe", ["salz"], saved)).toBeNull();
+  });
+
+  it("ignores loops outside the edited recipe", () => {
+    expect(
+      findRecipeStructureIssue(
+        "suppe",
+        ["salz"],
+        children({ fond: ["jus"], jus: ["fond"] })
+      )
+    ).toBeNull();
+  });
+
+  it("rejects nesting deeper than the limit along the deepest branch", () => {
+    const saved = children({ b: ["c"], c: ["d"], x: [] });
+
+    expect(findRecipeStructureIssue("a", ["x", "b"], saved, 3)).toBeNull();
+    expect(findRecipeStructureIssue("a", ["x", "b"], saved, 2)).toEqual({
+      kind: "depth",
+      path: ["a", "b", "c", "d"],
+    });
+  });
+
+  it("allows the default depth but not one level more", () => {
+    const chain = (length: number) =>
+      children(
+        Object.fromEntries(
+          Array.from({ length }, (_, index) => [`r${index}`, [`r${index + 1}`]])
+        )
+      );
+
+    expect(
+      findRecipeStructureIssue("root", ["r0"], chain(MAX_RECIPE_DEPTH - 1))
+    ).toBeNull();
+    expect(
+      findRecipeStructureIssue("root", ["r0"], chain(MAX_RECIPE_DEPTH))?.kind
+    ).toBe("depth");
+  });
+});
+
+describe("getItemIdsClosingCycle", () => {
+  it("returns the recipe and every recipe that contains it", () => {
+    const items = recipes({
+      menue: ["suppe"],
+      suppe: ["fond"],
+      sosse: ["fond"],
+      fond: ["salz"],
+      salz: [],
+    });
+
+    expect(getItemIdsClosingCycle("fond", items)).toEqual(
+      new Set(["fond", "suppe", "sosse", "menue"])
+    );
+    expect(getItemIdsClosingCycle("menue", items)).toEqual(new Set(["menue"]));
+  });
+});
+
+describe("getRecipeStructureIssueMessage", () => {
+  it("names the path with item names", () => {
+    const names = new Map([
+      ["suppe", "Tomatensuppe"],
+      ["fond", "Gemüsefond"],
+    ]);
+
+    expect(
+      getRecipeStructureIssueMessage(
+        { kind: "cycle", path: ["suppe", "fond", "suppe"] },
+        (id) => names.get(id)
+      )
+    ).toBe(
+      "Das Rezept würde sich selbst enthalten: Tomatensuppe → Gemüsefond → Tomatensuppe"
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Deeper nesting is almost always a modelling mistake and slows down every
+// recursive roll-up
+export const MAX_RECIPE_DEPTH = 10;
+
+export type RecipeStructureIssue = {
+  kind: "cycle" | "depth";
+  // Item ids from the saved recipe down to the offending item
+  path: string[];
+};
+
+type RecipeNode = {
+  id: string;
+  components?: { itemId: string | null }[];
+};
+
+/**
+ * Checks the structure below `parentId` if its components were replaced by
+ * `childIds`. Returns the first loop (A → B → A) or a path deeper than
+ * `maxDepth` levels.
+ */
+export function findRecipeStructureIssue(
+  parentId: string,
+  childIds: string[],
+  childrenByParent: ReadonlyMap<string, string[]>,
+  maxDepth = MAX_RECIPE_DEPTH
+): RecipeStructureIssue | null {
+  const getChildren = (id: string) =>
+    id === parentId ? childIds : childrenByParent.get(id) ?? [];
+  // Depth below each item that was fully checked, so shared sub-recipes are
+  // walked only once
+  const depthBelow = new Map<string, number>();
+  const path: string[] = [];
+  let issue: RecipeStructureIssue | null = null;
+
+  function visit(id: string): number {
+    const known = depthBelow.get(id);
+    if (known !== undefined) {
+      return known;
+    }
+    const loopStart = path.indexOf(id);
+    if (loopStart >= 0) {
+      issue = { kind: "cycle", path: [...path.slice(loopStart), id] };
+      return 0;
+    }
+    path.push(id);
+    let depth = 0;
+    for (const childId of getChildren(id)) {
+      depth = Math.max(depth, visit(childId) + 1);
+      if (issue) {
+        break;
+      }
+    }
+    path.pop();
+    depthBelow.set(id, depth);
+    return depth;
+  }
+
+  const depth = visit(parentId);
+  if (issue || depth <= maxDepth) {
+    return issue;
+  }
+
+  // Follow the deepest branch to name the offending path
+  const deepestPath = [parentId];
+  let current = parentId;
+  while (getChildren(current).length > 0) {
+    current = getChildren(current).reduce((deepest, childId) =>
+      (depthBelow.get(childId) ?? 0) > (depthBelow.get(deepest) ?? 0)
+        ? childId
+        : deepest
+    );
+    deepestPath.push(current);
+  }
+  return { kind: "depth", path: deepestPath };
+}
+
+/**
+ * Items that cannot become a component of `parentId` without closing a
+ * loop: the recipe itself and every recipe that contains it.
+ */
+export function getItemIdsClosingCycle(
+  parentId: string,
+  itemsById: ReadonlyMap<string, RecipeNode>
+): Set<string> {
+  const parentsByChild = new Map<string, string[]>();
+  for (const item of itemsById.values()) {
+    for (const component of item.components ?? []) {
+      if (!component.itemId) {
+        continue;
+      }
+      const existing = parentsByChild.get(component.itemId) ?? [];
+      existing.push(item.id);
+      parentsByChild.set(component.itemId, existing);
+    }
+  }
+
+  const result = new Set<string>([parentId]);
+  const queue = [parentId];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    for (const ancestorId of parentsByChild.get(id) ?? []) {
+      if (!result.has(ancestorId)) {
+        result.add(ancestorId);
+        queue.push(ancestorId);
+      }
+    }
+  }
+  return result;
+}
+
+export function formatRecipePath(
+  path: string[],
+  getName: (itemId: string) => string | undefined
+) {
+  return path.map((id) => getName(id) ?? id).join(" → ");
+}
+
+export function getRecipeStructureIssueMessage(
+  issue: RecipeStructureIssue,
+  getName: (itemId: string) => string | undefined
+) {
+  const path = formatRecipePath(issue.path, getName);
+  return issue.kind === "cycle"
+    ? `Das Rezept würde sich selbst enthalten: ${path}`
+    : `Das Rezept ist zu tief verschachtelt (maximal ${MAX_RECIPE_DEPTH} Ebenen): ${path}`;
+}
+
+/**
+ * Server-side check before saving new components of `parentId`. Returns the
+ * error message and the path as item names, or null if the structure is
+ * fine. Throws on database errors.
+ */
+export async function validateRecipeComponents(
+  client: SupabaseClient,
+  kitchenId: string,
+  parentId: string,
+  childIds: string[]
+): Promise<{ message: string; path: string[] } | null> {
+  if (childIds.length === 0) {
+    return null;
+  }
+
+  const relationsResponse = await client
+    .from("recipe_structure")
+    .select("parent_item_id, child_item_id")
+    .eq("kitchen_id", kitchenId);
+
+  if (relationsResponse.error) {
+    throw new Error(relationsResponse.error.message);
+  }
+
+  const childrenByParent = new Map<string, string[]>();
+  for (const relation of (relationsResponse.data ?? []) as {
+    parent_item_id: string;
+    child_item_id: string | null;
+  }[]) {
+    if (!relation.child_item_id) {
+      continue;
+    }
+    const existing = childrenByParent.get(relation.parent_item_id) ?? [];
+    existing.push(relation.child_item_id);
+    childrenByParent.set(relation.parent_item_id, existing);
+  }
+
+  const issue = findRecipeStructureIssue(parentId, childIds, childrenByParent);
+  if (!issue) {
+    return null;
+  }
+
+  const itemsResponse = await client
+    .from("items")
+    .select("id, name")
+    .eq("kitchen_id", kitchenId)
+    .in("id", Array.from(new Set(issue.path)));
+
+  if (itemsResponse.error) {
+    throw new Error(itemsResponse.error.message);
+  }
+
+  const names = new Map(
+    ((itemsResponse.data ?? []) as { id: string; name: string }[]).map(
+      (item) => [item.id, item.name]
+    )
+  );
+  const getName = (id: string) => names.get(id);
+
+  return {
+    message: getRecipeStructureIssueMessage(issue, getName),
+    path: issue.path.map((id) => getName(id) ?? id),
+  };
+}
@@ -0,0 +1,281 @@
+import {
+  computeRecipeCost,
+  convertQuantityToPacks,
+  getRecipeOutputUnit,
+  getUnitDefinition,
+  parsePackSize,
+  parseQuantity,
+  type CostingItem,
+} from "@/lib/recipe-costing";
+
+// Rescales a recipe to a number of portions or a finished batch weight.
+// Sub-recipes are expanded to the amount the scaled parent needs. Scaled
+// quantities move to the larger or smaller unit where that reads better
+// (1200 g → 1,2 kg) and are rounded to what can sensibly be weighed or
+// counted.
+
+export type ScaleMode = "portions" | "weight";
+
+export type ScaleTarget = {
+  mode: ScaleMode;
+  // Portions, or grams of finished product (1 ml counts as 1 g)
+  value: number;
+};
+
+export type ScaledQuantity = {
+  quantity: number;
+  unit: string;
+};
+
+export type ScaledComponent = {
+  itemId: string | null;
+  name: string;
+  // As entered in the master recipe
+  quantity: number;
+  unit: string;
+  scaled: ScaledQuantity | null;
+  // Components of a sub-recipe for the scaled amount
+  components: ScaledComponent[];
+  // Sub-recipe whose output cannot be matched to the quantity's unit
+  isUnresolved: boolean;
+};
+
+export type RecipeScaling = {
+  factor: number;
+  portions: number | null;
+  outputGrams: number | null;
+  estimatedCost: number;
+  components: ScaledComponent[];
+};
+
+export type ProductionBatch = {
+  id: string;
+  itemId: string;
+  scaleMode: ScaleMode;
+  targetValue: number;
+  scaleFactor: number;
+  portions: number | null;
+  outputGrams: number | null;
+  estimatedCost: number | null;
+  components: ScaledComponent[];
+  note: string | null;
+  createdAt: string;
+};
+
+export const SCALE_MODE_LABELS: Record<ScaleMode, string> = {
+  portions: "Portionen",
+  weight: "Gewicht (g)",
+};
+
+type UnitScale = {
+  kind: "mass" | "volume";
+  units: { unit: string; toBase: number; from: number }[];
+};
+
+// Target units per kind, largest first; `from` is the smallest base amount
+// shown in that unit
+const UNIT_SCALES: UnitScale[] = [
+  {
+    kind: "mass",
+    units: [
+      { unit: "kg", toBase: 1000, from: 1000 },
+      { unit: "g", toBase: 1, from: 1 },
+      { unit: "mg", toBase: 0.001, from: 0 },
+    ],
+  },
+  {
+    kind: "volume",
+    units: [
+      { unit: "l", toBase: 1000, from: 1000 },
+      { unit: "ml", toBase: 1, from: 0 },
+    ],
+  },
+];
+
+// Rounding steps per unit, the first matching `below` wins
+const ROUNDING_STEPS: Record<string, { below: number; step: number }[]> = {
+  mg: [{ below: Infinity, step: 1 }],
+  g: [
+    { below: 10, step: 0.1 },
+    { below: 100, step: 1 },
+    { below: Infinity, step: 5 },
+  ],
+  ml: [
+    { below: 10, step: 0.1 },
+    { below: 100, step: 1 },
+    { below: Infinity, step: 5 },
+  ],
+  kg: [
+    { below: 10, step: 0.01 },
+    { below: Infinity, step: 0.1 },
+  ],
+  l: [
+    { below: 10, step: 0.01 },
+    { below: Infinity, step: 0.1 },
+  ],
+  piece: [{ below: Infinity, step: 0.5 }],
+  spoon: [{ below: Infinity, step: 0.5 }],
+};
+
+const DEFAULT_ROUNDING_STEP = 0.01;
+
+function getRoundingStep(unit: string, quantity: number) {
+  const definition = getUnitDefinition(unit);
+  const key =
+    definition?.kind === "piece"
+      ? "piece"
+      : definition?.spoon
+      ? "spoon"
+      : unit;
+  const steps = ROUNDING_STEPS[key];
+  return (
+    steps?.find((entry) => quantity < entry.below)?.step ??
+    DEFAULT_ROUNDING_STEP
+  );
+}
+
+function roundToStep(quantity: number, step: number) {
+  const decimals = Math.max(0, Math.ceil(-Math.log10(step)));
+  const rounded = Number(
+    (Math.round(quantity / step) * step).toFixed(decimals)
+  );
+  // Never round an ingredient away completely
+  return rounded > 0 ? rounded : step;
+}
+
+/**
+ * Moves a quantity into the unit that reads best and rounds it with the
+ * step for that unit. Spoons, pieces and unknown units keep their unit.
+ */
+export function normalizeScaledQuantity(
+  quantity: number,
+  unit: string
+): ScaledQuantity {
+  const definition = getUnitDefinition(unit);
+  const scale =
+    definition && !definition.spoon
+      ? UNIT_SCALES.find((entry) => entry.kind === definition.kind)
+      : undefined;
+
+  if (!definition || !scale) {
+    return {
+      quantity: roundToStep(quantity, getRoundingStep(unit, quantity)),
+      unit,
+    };
+  }
+
+  const base = quantity * definition.toBase;
+  const target =
+    scale.units.find((entry) => base >= entry.from) ??
+    scale.units[scale.units.length - 1];
+  const converted = base / target.toBase;
+  return {
+    quantity: roundToStep(converted, getRoundingStep(target.unit, converted)),
+    unit: target.unit,
+  };
+}
+
+export function formatScaledQuantity(value: ScaledQuantity) {
+  return `${value.quantity.toLocaleString("de-DE", {
+    maximumFractionDigits: 2,
+  })} ${value.unit}`.trim();
+}
+
+function getValidPositive(value: number | null | undefined) {
+  return value != null && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// Finished weight of one batch, null if the recipe yields pieces
+function getOutputGrams(item: CostingItem) {
+  const output = parsePackSize(getRecipeOutputUnit(item));
+  return output && output.kind !== "piece" ? output.amount : null;
+}
+
+/**
+ * Factor between the master recipe and the target, null if the recipe has
+ * no portions (or no weight) to scale from.
+ */
+export function getScaleFactor(
+  item: CostingItem & { targetPortions?: number | null },
+  target: ScaleTarget
+): number | null {
+  const value = getValidPositive(target.value);
+  if (value == null) {
+    return null;
+  }
+  const base =
+    target.mode === "portions"
+      ? getValidPositive(item.targetPortions)
+      : getOutputGrams(item);
+  return base != null ? value / base : null;
+}
+
+/**
+ * Scales every component of a recipe, recursing through sub-recipes.
+ * Returns null if the scale factor cannot be determined.
+ */
+export function scaleRecipe(
+  rootItem: CostingItem & { targetPortions?: number | null },
+  itemsById: ReadonlyMap<string, CostingItem>,
+  target: ScaleTarget
+): RecipeScaling | null {
+  const factor = getScaleFactor(rootItem, target);
+  if (factor == null) {
+    return null;
+  }
+
+  function scaleComponents(
+    item: CostingItem,
+    itemFactor: number,
+    path: ReadonlySet<string>
+  ): ScaledComponent[] {
+    const childPath = new Set(path).add(item.id);
+
+    return (item.components ?? []).map((component) => {
+      const child = component.itemId ? itemsById.get(component.itemId) : null;
+      const quantity = parseQuantity(component.quantity);
+      const scaledQuantity = quantity != null ? quantity * itemFactor : null;
+      const isSubRecipe =
+        !!child && !!child.components && child.components.length > 0;
+
+      let components: ScaledComponent[] = [];
+      let isUnresolved = false;
+      if (child && isSubRecipe && scaledQuantity != null) {
+        const conversion = convertQuantityToPacks(
+          getRecipeOutputUnit(child),
+          scaledQuantity,
+          component.unit
+        );
+        if (conversion.status === "ok" && !childPath.has(child.id)) {
+          components = scaleComponents(child, conversion.packs, childPath);
+        } else {
+          isUnresolved = true;
+        }
+      }
+
+      return {
+        itemId: component.itemId,
+        name: child?.name ?? "Unbekannte Zutat",
+        quantity: quantity ?? 0,
+        unit: component.unit,
+        scaled:
+          scaledQuantity != null
+            ? normalizeScaledQuantity(scaledQuantity, component.unit)
+            : null,
+        components,
+        isUnresolved,
+      };
+    });
+  }
+
+  const portions = getValidPositive(rootItem.targetPortions);
+  const outputGrams = getOutputGrams(rootItem);
+
+  return {
+    factor,
+    portions: portions != null ? portions * factor : null,
+    outputGrams: outputGrams != null ? outputGrams * factor : null,
+    estimatedCost: computeRecipeCost(rootItem, itemsById).totalCost * factor,
+    components: scaleComponents(rootItem, factor, new Set()),
+  };
+}
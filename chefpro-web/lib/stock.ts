@@ -0,0 +1,94 @@
+export type StockMovementType = "receipt" | "withdrawal";
+
+export type StockEntry = {
+  id: string;
+  itemId: string;
+  itemName: string;
+  unit: string;
+  storageArea: string;
+  quantity: number;
+  minQuantity: number | null;
+  purchasePrice: number;
+  value: number;
+  isLow: boolean;
+  updatedAt: string;
+};
+
+export type StockMovement = {
+  id: string;
+  itemId: string;
+  itemName: string;
+  storageArea: string;
+  movementType: StockMovementType;
+  quantity: number;
+  unitPrice: number | null;
+  note: string | null;
+  createdAt: string;
+};
+
+export type StockAreaGroup = {
+  storageArea: string;
+  entries: StockEntry[];
+  value: number;
+  lowCount: number;
+};
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receipt: "Wareneingang",
+  withdrawal: "Entnahme",
+};
+
+export const STORAGE_AREAS = [
+  "Frischwaren",
+  "Kühlwaren",
+  "Tiefkühlwaren",
+  "Trockenwaren",
+  "Non Food",
+];
+
+export const UNASSIGNED_STORAGE_AREA_LABEL = "Ohne Lagerbereich";
+
+export function isLowStock(quantity: number, minQuantity: number | null) {
+  return minQuantity !== null && minQuantity > 0 && quantity < minQuantity;
+}
+
+/**
+ * Stock value at the current purchase price, rounded to cents.
+ */
+export function getStockValue(quantity: number, purchasePrice: number) {
+  if (!Number.isFinite(quantity) || !Number.isFinite(purchasePrice)) {
+    return 0;
+  }
+  return Math.round(quantity * purchasePrice * 100) / 100;
+}
+
+export function groupStockByStorageArea(
+  entries: StockEntry[]
+): StockAreaGroup[] {
+  const groups = new Map<string, StockEntry[]>();
+
+  for (const entry of entries) {
+    const existing = groups.get(entry.storageArea) ?? [];
+    existing.push(entry);
+    groups.set(entry.storageArea, existing);
+  }
+
+  return Array.from(groups.entries())
+    .map(([storageArea, areaEntries]) => ({
+      storageArea,
+      entries: [...areaEntries].sort((first, second) =>
+        first.itemName.localeCompare(second.itemName)
+      ),
+      value:
+        Math.round(
+          areaEntries.reduce((sum, entry) => sum + entry.value, 0) * 100
+        ) / 100,
+      lowCount: areaEntries.filter((entry) => entry.isLow).length,
+    }))
+    .sort((first, second) => {
+      // Entries without storage area go last
+      if (!first.storageArea) return 1;
+      if (!second.storageArea) return -1;
+      return first.storageArea.localeCompare(second.storageArea);
+    });
+}
@@ -0,0 +1,46 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Both buckets are private; objects live under "<kitchen_id>/..." and are
+// only handed out as short-lived signed URLs
+export const STORAGE_BUCKETS = ["recipe-images", "product-documents"] as const;
+
+export type StorageBucket = (typeof STORAGE_BUCKETS)[number];
+
+const FILE_ROUTE_PREFIX = "/api/storage-file";
+
+// Long enough for a page view or an OpenAI vision request
+export const SIGNED_URL_EXPIRES_IN_SECONDS = 300;
+
+export function isStorageBucket(value: string): value is StorageBucket {
+  return (STORAGE_BUCKETS as readonly string[]).includes(value);
+}
+
+/**
+ * Stable app URL of a stored file, saved on items instead of a bucket URL.
+ * The route checks access and redirects to a fresh signed URL.
+ */
+export function getStorageFileUrl(bucket: StorageBucket, objectPath: string) {
+  return `${FILE_ROUTE_PREFIX}/${bucket}/${objectPath
+    .split("/")
+    .map(encodeURIComponent)
+    .join("/")}`;
+}
+
+export async function createSignedFileUrl(
+  client: SupabaseClient,
+  bucket: StorageBucket,
+  objectPath: string,
+  options: { download?: boolean } = {}
+): Promise<string> {
+  const { data, error } = await client.storage
+    .from(bucket)
+    .createSignedUrl(objectPath, SIGNED_URL_EXPIRES_IN_SECONDS, {
+      download: options.download,
+    });
+
+  if (error || !data?.signedUrl) {
+    throw new Error(error?.message ?? "Signierte URL konnte nicht erstellt werden");
+  }
+
+  return data.signedUrl;
+}
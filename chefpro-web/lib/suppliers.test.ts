@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertPackPrice,
+  getEffectivePurchasePrice,
+  mapSupplierPriceRows,
+  type SupabaseSupplierPriceRow,
+} from "@/lib/suppliers";
+
+function priceRow(
+  overrides: Partial<SupabaseSupplierPriceRow>
+): SupabaseSupplierPriceRow {
+  return {
+    id: "price",
+    supplier_id: "metro",
+    item_id: "mehl",
+    article_number: null,
+    pack_unit: "10kg",
+    price: 20,
+    currency: "EUR",
+    valid_from: "2026-10-01",
+    ...overrides,
+  };
+}
+
+describe("convertPackPrice", () => {
+  it("converts between pack sizes of the same kind", () => {
+    expect(convertPackPrice(25, "10kg", "1kg")).toBe(2.5);
+    expect(convertPackPrice(9, "6x1l", "500ml")).toBe(0.75);
+    expect(convertPackPrice(4, "Stück", "stück")).toBe(4);
+  });
+
+  it("returns null for incompatible units", () => {
+    expect(convertPackPrice(25, "10kg", "Stück")).toBeNull();
+    expect(convertPackPrice(25, "Sack", "1kg")).toBeNull();
+  });
+});
+
+describe("mapSupplierPriceRows", () => {
+  it("flags the newest price in effect per supplier as current", () => {
+    const prices = mapSupplierPriceRows(
+      [
+        priceRow({ id: "future", valid_from: "2026-11-01", price: 24 }),
+        priceRow({ id: "now", valid_from: "2026-10-01" }),
+        priceRow({ id: "old", valid_from: "2026-01-01", price: 18 }),
+        priceRow({ id: "other", supplier_id: "transgourmet", price: 21 }),
+      ],
+      new Map(),
+      "1kg",
+      "2026-10-19"
+    );
+
+    expect(prices.map((price) => [price.id, price.isCurrent])).toEqual([
+      ["future", false],
+      ["now", true],
+      ["old", false],
+      ["other", true],
+    ]);
+    expect(prices[1].pricePerItemUnit).toBe(2);
+  });
+});
+
+describe("getEffectivePurchasePrice", () => {
+  const item = { unit: "1kg", purchasePrice: 1.8 };
+
+  it("uses the preferred supplier's current price", () => {
+    expect(
+      getEffectivePurchasePrice(item, {
+        itemId: "mehl",
+        supplierId: "metro",
+        price: 24,
+        packUnit: "10kg",
+        validFrom: "2026-11-01",
+      })
+    ).toBe(2.4);
+  });
+
+  it("falls back to the stored price", () => {
+    expect(getEffectivePurchasePrice(item, undefined)).toBe(1.8);
+    expect(
+      getEffectivePurchasePrice(item, {
+        itemId: "mehl",
+        supplierId: "metro",
+        price: 24,
+        packUnit: "Sack",
+        validFrom: "2026-11-01",
+      })
+    ).toBe(1.8);
+  });
+});
@@ -0,0 +1,296 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { recordItemRevision } from "@/lib/item-revisions";
+import { parsePackSize } from "@/lib/recipe-costing";
+
+export type Supplier = {
+  id: string;
+  name: string;
+  customerNumber: string | null;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+};
+
+export type SupplierPrice = {
+  id: string;
+  supplierId: string;
+  supplierName: string;
+  itemId: string;
+  articleNumber: string | null;
+  packUnit: string;
+  price: number;
+  currency: string;
+  validFrom: string;
+  // Price converted to the item's own pack size, null if not convertible
+  pricePerItemUnit: number | null;
+  isCurrent: boolean;
+};
+
+export type SupabaseSupplierRow = {
+  id: string;
+  name: string;
+  customer_number: string | null;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+};
+
+export type SupabaseSupplierPriceRow = {
+  id: string;
+  supplier_id: string;
+  item_id: string;
+  article_number: string | null;
+  pack_unit: string;
+  price: number;
+  currency: string;
+  valid_from: string;
+};
+
+export type PreferredPriceSync = {
+  id: string;
+  purchasePrice: number;
+  preferredSupplierId: string | null;
+  version: number;
+  updatedAt: string;
+};
+
+export type PreferredSupplierPrice = {
+  itemId: string;
+  supplierId: string;
+  price: number;
+  packUnit: string;
+  validFrom: string;
+};
+
+type SupabasePreferredSupplierPriceRow = {
+  item_id: string;
+  supplier_id: string;
+  price: number;
+  pack_unit: string;
+  valid_from: string;
+};
+
+export function mapSupplierRow(row: SupabaseSupplierRow): Supplier {
+  return {
+    id: row.id,
+    name: row.name,
+    customerNumber: row.customer_number,
+    contactName: row.contact_name,
+    email: row.email,
+    phone: row.phone,
+    notes: row.notes,
+  };
+}
+
+/**
+ * Converts a price for `packUnit` into a price for `itemUnit`, e.g. 25 € per
+ * "10kg" into 2.50 € per "1kg". Returns null for unknown or incompatible
+ * units.
+ */
+export function convertPackPrice(
+  price: number,
+  packUnit: string,
+  itemUnit: string
+) {
+  if (
+    packUnit.trim().toLowerCase().replace(/\s+/g, "") ===
+    itemUnit.trim().toLowerCase().replace(/\s+/g, "")
+  ) {
+    return price;
+  }
+  const pack = parsePackSize(packUnit);
+  const itemPack = parsePackSize(itemUnit);
+  if (!pack || !itemPack || pack.kind !== itemPack.kind) {
+    return null;
+  }
+  return Math.round(((price * itemPack.amount) / pack.amount) * 10000) / 10000;
+}
+
+/**
+ * Maps price rows sorted by valid_from (newest first) and flags the price
+ * currently in effect per supplier. Future prices are listed but not current.
+ */
+export function mapSupplierPriceRows(
+  rows: SupabaseSupplierPriceRow[],
+  suppliersById: ReadonlyMap<string, SupabaseSupplierRow>,
+  itemUnit: string,
+  today = new Date().toISOString().slice(0, 10)
+): SupplierPrice[] {
+  const suppliersWithCurrentPrice = new Set<string>();
+
+  return rows.map((row) => {
+    const isCurrent =
+      row.valid_from <= today && !suppliersWithCurrentPrice.has(row.supplier_id);
+    if (isCurrent) {
+      suppliersWithCurrentPrice.add(row.supplier_id);
+    }
+    const price = Number(row.price);
+    return {
+      id: row.id,
+      supplierId: row.supplier_id,
+      supplierName:
+        suppliersById.get(row.supplier_id)?.name ?? "Unbekannter Lieferant",
+      itemId: row.item_id,
+      articleNumber: row.article_number,
+      packUnit: row.pack_unit,
+      price,
+      currency: row.currency,
+      validFrom: row.valid_from,
+      pricePerItemUnit: convertPackPrice(price, row.pack_unit, itemUnit),
+      isCurrent,
+    };
+  });
+}
+
+/**
+ * Loads the preferred supplier's price in effect today for every item of
+ * the kitchen, keyed by item id. Throws on database errors.
+ */
+export async function loadPreferredSupplierPrices(
+  client: SupabaseClient,
+  kitchenId: string
+): Promise<Map<string, PreferredSupplierPrice>> {
+  const { data, error } = await client
+    .from("current_preferred_supplier_prices")
+    .select("item_id, supplier_id, price, pack_unit, valid_from")
+    .eq("kitchen_id", kitchenId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return new Map(
+    ((data ?? []) as SupabasePreferredSupplierPriceRow[]).map((row) => [
+      row.item_id,
+      {
+        itemId: row.item_id,
+        supplierId: row.supplier_id,
+        price: Number(row.price),
+        packUnit: row.pack_unit,
+        validFrom: row.valid_from,
+      },
+    ])
+  );
+}
+
+/**
+ * Price per item pack used for costing: the preferred supplier's current
+ * price converted to the item's pack size, otherwise the stored purchase
+ * price.
+ */
+export function getEffectivePurchasePrice(
+  item: { unit: string; purchasePrice: number },
+  preferredPrice: PreferredSupplierPrice | null | undefined
+) {
+  if (!preferredPrice) {
+    return item.purchasePrice;
+  }
+  return (
+    convertPackPrice(preferredPrice.price, preferredPrice.packUnit, item.unit) ??
+    item.purchasePrice
+  );
+}
+
+/**
+ * Copies the preferred supplier's current price into items.purchase_price,
+ * so the price history records the change and the stored price stays a
+ * sensible fallback. Costing itself reads `getEffectivePurchasePrice`,
+ * which also follows prices that take effect later. Leaves the price alone
+ * when there is no preferred supplier or its price cannot be converted to
+ * the item's pack size. Throws on database errors.
+ */
+export async function syncPreferredSupplierPrice(
+  client: SupabaseClient,
+  kitchenId: string,
+  itemId: string
+): Promise<PreferredPriceSync | null> {
+  const itemResponse = await client
+    .from("items")
+    .select("id, unit, purchase_price, preferred_supplier_id")
+    .eq("kitchen_id", kitchenId)
+    .eq("id", itemId)
+    .single();
+
+  if (itemResponse.error) {
+    throw new Error(itemResponse.error.message);
+  }
+
+  const item = itemResponse.data as {
+    id: string;
+    unit: string;
+    purchase_price: number | null;
+    preferred_supplier_id: string | null;
+  };
+
+  if (!item.preferred_supplier_id) {
+    return null;
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const priceResponse = await client
+    .from("supplier_prices")
+    .select("price, pack_unit")
+    .eq("kitchen_id", kitchenId)
+    .eq("item_id", itemId)
+    .eq("supplier_id", item.preferred_supplier_id)
+    .lte("valid_from", today)
+    .order("valid_from", { ascending: false })
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (priceResponse.error) {
+    throw new Error(priceResponse.error.message);
+  }
+
+  const currentPrice = priceResponse.data as {
+    price: number;
+    pack_unit: string;
+  } | null;
+
+  if (!currentPrice) {
+    return null;
+  }
+
+  const purchasePrice = convertPackPrice(
+    Number(currentPrice.price),
+    currentPrice.pack_unit,
+    item.unit
+  );
+
+  if (purchasePrice === null || purchasePrice === item.purchase_price) {
+    return null;
+  }
+
+  const updateResponse = await client
+    .from("items")
+    .update({ purchase_price: purchasePrice })
+    .eq("kitchen_id", kitchenId)
+    .eq("id", itemId)
+    .select("id, purchase_price, preferred_supplier_id, version, updated_at")
+    .single();
+
+  if (updateResponse.error) {
+    throw new Error(updateResponse.error.message);
+  }
+
+  await recordItemRevision(client, kitchenId, itemId, "update");
+
+  const updated = updateResponse.data as {
+    id: string;
+    purchase_price: number;
+    preferred_supplier_id: string | null;
+    version: number;
+    updated_at: string;
+  };
+
+  return {
+    id: updated.id,
+    purchasePrice: Number(updated.purchase_price),
+    preferredSupplierId: updated.preferred_supplier_id,
+    version: updated.version,
+    updatedAt: updated.updated_at,
+  };
+}
@@ -0,0 +1,407 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+export type FetchedPage = {
+  url: string;
+  html: string;
+  contentType: string | null;
+};
+
+export type HtmlFetcher = (url: string) => Promise<FetchedPage>;
+
+export type JsonLdProduct = Record<string, unknown>;
+
+export type ScannedProductPage = FetchedPage & {
+  text: string;
+  products: JsonLdProduct[];
+};
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_TEXT_LENGTH = 15000;
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  auml: "ä",
+  ouml: "ö",
+  uuml: "ü",
+  Auml: "Ä",
+  Ouml: "Ö",
+  Uuml: "Ü",
+  szlig: "ß",
+  euro: "€",
+  deg: "°",
+  shy: "",
+};
+
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export type HtmlFetcherOptions = {
+  resolveHost?: HostResolver;
+  fetchImpl?: typeof fetch;
+};
+
+const defaultResolveHost: HostResolver = async (hostname) => {
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  return addresses.map((entry) => entry.address);
+};
+
+function parseIpv4(address: string) {
+  const parts = address.split(".").map((part) => Number(part));
+  return parts.length === 4 &&
+    parts.every((part) => Number.isInteger(part) && part >= 0 && part <= 255)
+    ? parts
+    : null;
+}
+
+function isPublicIpv4(address: string) {
+  const parts = parseIpv4(address);
+  if (!parts) {
+    return false;
+  }
+  const [a, b] = parts;
+  return !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && parts[2] === 0) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+function isPublicIpv6(address: string) {
+  const normalized = address.toLowerCase();
+  // IPv4-mapped (::ffff:10.0.0.1) and NAT64 addresses carry an IPv4 target
+  const embeddedIpv4 = normalized.match(
+    /^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/
+  );
+  if (embeddedIpv4) {
+    return isPublicIpv4(embeddedIpv4[1]);
+  }
+  if (normalized.startsWith("::ffff:")) {
+    return false;
+  }
+  const firstGroup = parseInt(normalized.split(":")[0] || "0", 16);
+  return !(
+    normalized === "::" ||
+    normalized === "::1" ||
+    // Unique local fc00::/7, link-local fe80::/10, multicast ff00::/8
+    (firstGroup & 0xfe00) === 0xfc00 ||
+    (firstGroup & 0xffc0) === 0xfe80 ||
+    (firstGroup & 0xff00) === 0xff00
+  );
+}
+
+/**
+ * True for addresses reachable on the public internet. Loopback, private,
+ * link-local (incl. cloud metadata at 169.254.169.254), carrier-grade NAT,
+ * multicast and reserved ranges are rejected.
+ */
+export function isPublicAddress(address: string) {
+  const version = isIP(address);
+  if (version === 4) {
+    return isPublicIpv4(address);
+  }
+  if (version === 6) {
+    return isPublicIpv6(address);
+  }
+  return false;
+}
+
+/**
+ * Throws unless the URL's host resolves only to public addresses, so the
+ * scan cannot be used to read internal services.
+ */
+export async function assertPublicUrl(
+  url: URL,
+  resolveHost: HostResolver = defaultResolveHost
+) {
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (
+    hostname === "localhost" ||
+    hostname.endsWith(".localhost") ||
+    hostname.endsWith(".local") ||
+    hostname.endsWith(".internal")
+  ) {
+    throw new Error(`Interne Adresse ist nicht erlaubt (${hostname}).`);
+  }
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = await resolveHost(hostname);
+    } catch {
+      throw new Error(`Host ${hostname} konnte nicht aufgelöst werden.`);
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(`Interne Adresse ist nicht erlaubt (${hostname}).`);
+  }
+}
+
+// Reads at most MAX_HTML_BYTES, larger pages are rejected instead of buffered
+async function readLimitedText(response: Response) {
+  const declaredLength = Number(response.headers.get("content-length"));
+  if (Number.isFinite(declaredLength) && declaredLength > MAX_HTML_BYTES) {
+    throw new Error("Webseite ist zu groß für den Web-Scan.");
+  }
+  if (!response.body) {
+    return "";
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    total += value.byteLength;
+    if (total > MAX_HTML_BYTES) {
+      await reader.cancel();
+      throw new Error("Webseite ist zu groß für den Web-Scan.");
+    }
+    chunks.push(value);
+  }
+
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+/**
+ * Fetches a page without following redirects blindly: every hop is checked
+ * with `assertPublicUrl` before it is requested.
+ */
+export function createHtmlFetcher({
+  resolveHost = defaultResolveHost,
+  fetchImpl = fetch,
+}: HtmlFetcherOptions = {}): HtmlFetcher {
+  return async (url) => {
+    let currentUrl = parseScanUrl(url);
+
+    for (let hop = 0; currentUrl && hop <= MAX_REDIRECTS; hop += 1) {
+      await assertPublicUrl(currentUrl, resolveHost);
+
+      const response = await fetchImpl(currentUrl.toString(), {
+        headers: {
+          "User-Agent": "Mozilla/5.0 (compatible; ChefProWebScan/1.0)",
+          Accept: "text/html,application/xhtml+xml",
+        },
+        redirect: "manual",
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+
+      if (response.status >= 300 && response.status < 400) {
+        const location = response.headers.get("location");
+        await response.body?.cancel();
+        if (!location) {
+          throw new Error(
+            `Weiterleitung ohne Ziel (Status: ${response.status})`
+          );
+        }
+        currentUrl = parseScanUrl(new URL(location, currentUrl).toString());
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new Error(
+          `Webseite konnte nicht geladen werden: ${response.statusText} (Status: ${response.status})`
+        );
+      }
+
+      return {
+        url: currentUrl.toString(),
+        html: await readLimitedText(response),
+        contentType: response.headers.get("content-type"),
+      };
+    }
+
+    throw new Error(
+      currentUrl
+        ? "Zu viele Weiterleitungen."
+        : "Weiterleitung auf eine ungültige URL."
+    );
+  };
+}
+
+export const defaultHtmlFetcher: HtmlFetcher = createHtmlFetcher();
+
+export function parseScanUrl(value: unknown): URL | null {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    return null;
+  }
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return null;
+    }
+    if (url.username || url.password) {
+      return null;
+    }
+    return url;
+  } catch {
+    return null;
+  }
+}
+
+export function decodeHtmlEntities(value: string) {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (match, entity: string) => {
+      if (entity.startsWith("#x") || entity.startsWith("#X")) {
+        return String.fromCodePoint(parseInt(entity.slice(2), 16));
+      }
+      if (entity.startsWith("#")) {
+        return String.fromCodePoint(parseInt(entity.slice(1), 10));
+      }
+      return HTML_ENTITIES[entity] ?? match;
+    }
+  );
+}
+
+/**
+ * Reduces an HTML page to its visible text. Scripts, styles and navigation
+ * chrome are dropped, block elements become line breaks.
+ */
+export function extractReadableText(html: string) {
+  const withoutNoise = html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(
+      /<(script|style|noscript|svg|template|iframe|nav|footer)\b[\s\S]*?<\/\1>/gi,
+      " "
+    );
+
+  const withBreaks = withoutNoise.replace(
+    /<\/?(p|div|section|article|li|ul|ol|tr|table|h[1-6]|br|dt|dd)\b[^>]*>/gi,
+    "\n"
+  );
+
+  const text = decodeHtmlEntities(withBreaks.replace(/<[^>]+>/g, " "));
+
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+function hasProductType(node: Record<string, unknown>) {
+  const type = node["@type"];
+  if (typeof type === "string") {
+    return type === "Product" || type.endsWith("/Product");
+  }
+  if (Array.isArray(type)) {
+    return type.some(
+      (entry) =>
+        typeof entry === "string" &&
+        (entry === "Product" || entry.endsWith("/Product"))
+    );
+  }
+  return false;
+}
+
+function collectProducts(node: unknown, products: JsonLdProduct[]) {
+  if (Array.isArray(node)) {
+    for (const entry of node) {
+      collectProducts(entry, products);
+    }
+    return;
+  }
+  if (!node || typeof node !== "object") {
+    return;
+  }
+  const record = node as Record<string, unknown>;
+  if (hasProductType(record)) {
+    products.push(record);
+    return;
+  }
+  if (record["@graph"]) {
+    collectProducts(record["@graph"], products);
+  }
+  if (record.mainEntity) {
+    collectProducts(record.mainEntity, products);
+  }
+}
+
+/**
+ * Returns all schema.org Product nodes from the page's JSON-LD blocks,
+ * including products nested in @graph or mainEntity. Broken blocks are skipped.
+ */
+export function extractProductJsonLd(html: string): JsonLdProduct[] {
+  const products: JsonLdProduct[] = [];
+  const scriptPattern =
+    /<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+  for (const match of html.matchAll(scriptPattern)) {
+    const raw = match[1].trim();
+    if (!raw) {
+      continue;
+    }
+    try {
+      collectProducts(JSON.parse(raw), products);
+    } catch {
+      continue;
+    }
+  }
+
+  return products;
+}
+
+export function getProductGtin(product: JsonLdProduct): string | null {
+  for (const key of ["gtin13", "gtin", "gtin14", "gtin12", "gtin8", "ean"]) {
+    const value = product[key];
+    if (typeof value === "string" && value.trim().length > 0) {
+      return value.trim();
+    }
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return String(value);
+    }
+  }
+  return null;
+}
+
+export async function scanProductPage(
+  url: string,
+  fetcher: HtmlFetcher = defaultHtmlFetcher
+): Promise<ScannedProductPage> {
+  const page = await fetcher(url);
+
+  return {
+    ...page,
+    text: extractReadableText(page.html),
+    products: extractProductJsonLd(page.html),
+  };
+}
+
+export function buildWebScanPromptText(page: ScannedProductPage) {
+  const sections = [`Quelle: ${page.url}`];
+
+  if (page.products.length > 0) {
+    sections.push(
+      `Strukturierte Produktdaten (schema.org Product, JSON-LD):\n${JSON.stringify(
+        page.products,
+        null,
+        2
+      )}`
+    );
+  }
+
+  sections.push(`Seitentext:\n${page.text}`);
+
+  return sections.join("\n\n").slice(0, MAX_TEXT_LENGTH);
+}
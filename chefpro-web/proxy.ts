@@ -0,0 +1,79 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getSupabaseAuthClient } from "@/lib/supabase-server";
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  clearSessionCookies,
+  isAccessTokenExpired,
+  setSessionCookies,
+} from "@/lib/auth-session";
+
+function rejectUnauthenticated(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  const response = pathname.startsWith("/api/")
+    ? NextResponse.json(
+        { error: "Nicht angemeldet. Bitte melden Sie sich an." },
+        { status: 401 }
+      )
+    : NextResponse.redirect(
+        new URL(
+          `/login?next=${encodeURIComponent(`${pathname}${search}`)}`,
+          request.url
+        )
+      );
+
+  clearSessionCookies(response);
+  return response;
+}
+
+export async function proxy(request: NextRequest) {
+  if (request.nextUrl.pathname.startsWith("/api/auth/")) {
+    return NextResponse.next();
+  }
+
+  const client = getSupabaseAuthClient();
+
+  if (!client) {
+    return rejectUnauthenticated(request);
+  }
+
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+  if (accessToken && !isAccessTokenExpired(accessToken)) {
+    const { data, error } = await client.auth.getUser(accessToken);
+    if (!error && data.user) {
+      return NextResponse.next();
+    }
+  }
+
+  if (refreshToken) {
+    const { data, error } = await client.auth.refreshSession({
+      refresh_token: refreshToken,
+    });
+    if (!error && data.session) {
+      // Route handlers read the cookies of this request, so pass the new
+      // tokens along in addition to storing them in the browser
+      request.cookies.set(ACCESS_TOKEN_COOKIE, data.session.access_token);
+      request.cookies.set(REFRESH_TOKEN_COOKIE, data.session.refresh_token);
+      const response = NextResponse.next({
+        request: { headers: request.headers },
+      });
+      setSessionCookies(response, data.session);
+      return response;
+    }
+  }
+
+  return rejectUnauthenticated(request);
+}
+
+export const config = {
+  matcher: [
+    "/",
+    "/artikel/:path*",
+    "/rezepte/:path*",
+    "/lager/:path*",
+    "/api/:path*",
+  ],
+};
@@ -0,0 +1,10 @@
+alter table public.items
+  add column if not exists storage_area text,
+  add column if not exists warengruppe text,
+  add column if not exists bio_control_number text,
+  add column if not exists device_settings jsonb,
+  add column if not exists is_fairtrade boolean not null default false,
+  add column if not exists is_powder boolean not null default false,
+  add column if not exists is_granulate boolean not null default false,
+  add column if not exists is_paste boolean not null default false,
+  add column if not exists is_liquid boolean not null default false;
@@ -0,0 +1,43 @@
+-- API routes now talk to Supabase as the signed-in user (anon key + user JWT)
+-- instead of the service role, so anonymous requests must be locked out here.
+
+alter table public.items enable row level security;
+alter table public.recipe_structure enable row level security;
+alter table public.preparation_steps enable row level security;
+
+drop policy if exists "Authenticated users manage items" on public.items;
+create policy "Authenticated users manage items"
+  on public.items for all
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists "Authenticated users manage recipe structure" on public.recipe_structure;
+create policy "Authenticated users manage recipe structure"
+  on public.recipe_structure for all
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists "Authenticated users manage preparation steps" on public.preparation_steps;
+create policy "Authenticated users manage preparation steps"
+  on public.preparation_steps for all
+  to authenticated
+  using (true)
+  with check (true);
+
+insert into storage.buckets (id, name, public)
+values ('product-documents', 'product-documents', true)
+on conflict (id) do nothing;
+
+drop policy if exists "Authenticated users upload app files" on storage.objects;
+create policy "Authenticated users upload app files"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id in ('recipe-images', 'product-documents'));
+
+drop policy if exists "Authenticated users update app files" on storage.objects;
+create policy "Authenticated users update app files"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id in ('recipe-images', 'product-documents'));
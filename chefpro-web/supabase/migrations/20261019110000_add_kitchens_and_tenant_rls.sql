@@ -0,0 +1,203 @@
+-- Kitchens (tenants). Every row in the app tables belongs to exactly one
+-- kitchen and is only visible to its members.
+
+create table if not exists public.kitchens (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.kitchen_members (
+  kitchen_id uuid not null references public.kitchens(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role text not null default 'member' check (role in ('owner', 'member')),
+  created_at timestamptz not null default now(),
+  primary key (kitchen_id, user_id)
+);
+
+create index if not exists kitchen_members_user_id_idx
+  on public.kitchen_members (user_id);
+
+-- security definer so policies on kitchen_members itself don't recurse
+create or replace function public.is_kitchen_member(target_kitchen_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.kitchen_members
+    where kitchen_id = target_kitchen_id
+      and user_id = auth.uid()
+  );
+$$;
+
+alter table public.items
+  add column if not exists kitchen_id uuid references public.kitchens(id) on delete cascade;
+alter table public.recipe_structure
+  add column if not exists kitchen_id uuid references public.kitchens(id) on delete cascade;
+alter table public.preparation_steps
+  add column if not exists kitchen_id uuid references public.kitchens(id) on delete cascade;
+
+-- Existing data moves into one default kitchen shared by all existing users
+do $$
+declare
+  default_kitchen_id uuid;
+begin
+  if exists (select 1 from public.items where kitchen_id is null)
+    or exists (select 1 from public.recipe_structure where kitchen_id is null)
+    or exists (select 1 from public.preparation_steps where kitchen_id is null)
+  then
+    insert into public.kitchens (name)
+    values ('Hauptküche')
+    returning id into default_kitchen_id;
+
+    update public.items set kitchen_id = default_kitchen_id where kitchen_id is null;
+    update public.recipe_structure set kitchen_id = default_kitchen_id where kitchen_id is null;
+    update public.preparation_steps set kitchen_id = default_kitchen_id where kitchen_id is null;
+
+    insert into public.kitchen_members (kitchen_id, user_id, role)
+    select default_kitchen_id, id, 'owner'
+    from auth.users
+    on conflict do nothing;
+  end if;
+end;
+$$;
+
+alter table public.items alter column kitchen_id set not null;
+alter table public.recipe_structure alter column kitchen_id set not null;
+alter table public.preparation_steps alter column kitchen_id set not null;
+
+create index if not exists items_kitchen_id_idx on public.items (kitchen_id);
+create index if not exists recipe_structure_kitchen_id_idx on public.recipe_structure (kitchen_id);
+create index if not exists preparation_steps_kitchen_id_idx on public.preparation_steps (kitchen_id);
+
+-- Every new account gets its own kitchen
+create or replace function public.handle_new_user_kitchen()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_kitchen_id uuid;
+begin
+  insert into public.kitchens (name)
+  values (
+    coalesce(
+      nullif(new.raw_user_meta_data ->> 'full_name', ''),
+      new.email,
+      'Meine Küche'
+    )
+  )
+  returning id into new_kitchen_id;
+
+  insert into public.kitchen_members (kitchen_id, user_id, role)
+  values (new_kitchen_id, new.id, 'owner');
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created_kitchen on auth.users;
+create trigger on_auth_user_created_kitchen
+  after insert on auth.users
+  for each row execute function public.handle_new_user_kitchen();
+
+alter table public.kitchens enable row level security;
+alter table public.kitchen_members enable row level security;
+
+drop policy if exists "Members read their kitchens" on public.kitchens;
+create policy "Members read their kitchens"
+  on public.kitchens for select
+  to authenticated
+  using (public.is_kitchen_member(id));
+
+drop policy if exists "Owners rename their kitchens" on public.kitchens;
+create policy "Owners rename their kitchens"
+  on public.kitchens for update
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.kitchen_members
+      where kitchen_id = kitchens.id
+        and user_id = auth.uid()
+        and role = 'owner'
+    )
+  );
+
+drop policy if exists "Users read their own memberships" on public.kitchen_members;
+create policy "Users read their own memberships"
+  on public.kitchen_members for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Authenticated users manage items" on public.items;
+drop policy if exists "Kitchen members manage items" on public.items;
+create policy "Kitchen members manage items"
+  on public.items for all
+  to authenticated
+  using (public.is_kitchen_member(kitchen_id))
+  with check (public.is_kitchen_member(kitchen_id));
+
+drop policy if exists "Authenticated users manage recipe structure" on public.recipe_structure;
+drop policy if exists "Kitchen members manage recipe structure" on public.recipe_structure;
+create policy "Kitchen members manage recipe structure"
+  on public.recipe_structure for all
+  to authenticated
+  using (public.is_kitchen_member(kitchen_id))
+  with check (public.is_kitchen_member(kitchen_id));
+
+drop policy if exists "Authenticated users manage preparation steps" on public.preparation_steps;
+drop policy if exists "Kitchen members manage preparation steps" on public.preparation_steps;
+create policy "Kitchen members manage preparation steps"
+  on public.preparation_steps for all
+  to authenticated
+  using (public.is_kitchen_member(kitchen_id))
+  with check (public.is_kitchen_member(kitchen_id));
+
+-- Storage objects live under "<kitchen_id>/..."
+drop policy if exists "Authenticated users upload app files" on storage.objects;
+drop policy if exists "Authenticated users update app files" on storage.objects;
+
+drop policy if exists "Kitchen members upload kitchen files" on storage.objects;
+create policy "Kitchen members upload kitchen files"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id in ('recipe-images', 'product-documents')
+    and (storage.foldername(name))[1] in (
+      select kitchen_id::text
+      from public.kitchen_members
+      where user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Kitchen members update kitchen files" on storage.objects;
+create policy "Kitchen members update kitchen files"
+  on storage.objects for update
+  to authenticated
+  using (
+    bucket_id in ('recipe-images', 'product-documents')
+    and (storage.foldername(name))[1] in (
+      select kitchen_id::text
+      from public.kitchen_members
+      where user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Kitchen members delete kitchen files" on storage.objects;
+create policy "Kitchen members delete kitchen files"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id in ('recipe-images', 'product-documents')
+    and (storage.foldername(name))[1] in (
+      select kitchen_id::text
+      from public.kitchen_members
+      where user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,143 @@
+-- recipe_structure historically used either "amount" or "quantity" for the
+-- component quantity. Settle on "amount".
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'recipe_structure'
+      and column_name = 'quantity'
+  ) then
+    if exists (
+      select 1 from information_schema.columns
+      where table_schema = 'public'
+        and table_name = 'recipe_structure'
+        and column_name = 'amount'
+    ) then
+      update public.recipe_structure
+      set amount = coalesce(amount, quantity);
+      alter table public.recipe_structure drop column quantity;
+    else
+      alter table public.recipe_structure rename column quantity to amount;
+    end if;
+  end if;
+end;
+$$;
+
+alter table public.recipe_structure
+  add column if not exists amount numeric not null default 0;
+
+-- Updates an item of the given kitchen and optionally replaces its components and preparation
+-- steps in one transaction. p_updates holds snake_case item columns; pass
+-- null for p_components / p_steps to leave them untouched.
+-- Runs as the caller, so the kitchen RLS policies still apply.
+create or replace function public.save_recipe(
+  p_kitchen_id uuid,
+  p_item_id uuid,
+  p_updates jsonb default '{}'::jsonb,
+  p_components jsonb default null,
+  p_steps jsonb default null
+)
+returns public.items
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_set_clause text;
+  v_item public.items;
+begin
+  perform 1
+  from public.items
+  where id = p_item_id
+    and kitchen_id = p_kitchen_id
+  for update;
+
+  if not found then
+    raise exception 'Artikel % wurde nicht gefunden', p_item_id
+      using errcode = 'P0002';
+  end if;
+
+  select string_agg(format('%I = r.%I', key, key), ', ')
+  into v_set_clause
+  from jsonb_object_keys(coalesce(p_updates, '{}'::jsonb)) as key
+  where key in (
+    select column_name
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'items'
+      and column_name not in ('id', 'kitchen_id', 'internal_id', 'created_at')
+  );
+
+  if v_set_clause is not null then
+    execute format(
+      'update public.items as t set %s from jsonb_populate_record(null::public.items, $1) as r where t.id = $2',
+      v_set_clause
+    )
+    using p_updates, p_item_id;
+  end if;
+
+  if p_components is not null then
+    if exists (
+      select 1
+      from jsonb_to_recordset(p_components) as c(child_item_id uuid)
+      left join public.items as i
+        on i.id = c.child_item_id
+       and i.kitchen_id = p_kitchen_id
+      where c.child_item_id is not null
+        and i.id is null
+    ) then
+      raise exception 'Mindestens eine Zutat gehört nicht zu dieser Küche'
+        using errcode = '23503';
+    end if;
+
+    delete from public.recipe_structure
+    where parent_item_id = p_item_id;
+
+    insert into public.recipe_structure (
+      kitchen_id,
+      parent_item_id,
+      child_item_id,
+      amount,
+      unit
+    )
+    select
+      p_kitchen_id,
+      p_item_id,
+      c.child_item_id,
+      coalesce(c.amount, 0),
+      coalesce(c.unit, '')
+    from jsonb_to_recordset(p_components) as c(
+      child_item_id uuid,
+      amount numeric,
+      unit text
+    );
+  end if;
+
+  if p_steps is not null then
+    delete from public.preparation_steps
+    where item_id = p_item_id;
+
+    insert into public.preparation_steps (
+      kitchen_id,
+      item_id,
+      step_order,
+      instruction
+    )
+    select
+      p_kitchen_id,
+      p_item_id,
+      s.ordinality,
+      coalesce(s.value ->> 'instruction', '')
+    from jsonb_array_elements(p_steps) with ordinality as s(value, ordinality);
+  end if;
+
+  select * into v_item
+  from public.items
+  where id = p_item_id;
+
+  return v_item;
+end;
+$$;
+
+grant execute on function public.save_recipe(uuid, uuid, jsonb, jsonb, jsonb) to authenticated;
@@ -0,0 +1,157 @@
+alter table public.items
+  add column if not exists version integer not null default 1,
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.bump_item_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.version := old.version + 1;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists items_bump_version on public.items;
+create trigger items_bump_version
+  before update on public.items
+  for each row execute function public.bump_item_version();
+
+drop function if exists public.save_recipe(uuid, uuid, jsonb, jsonb, jsonb);
+
+-- Same as before, plus an optional optimistic concurrency check against
+-- items.version.
+create or replace function public.save_recipe(
+  p_kitchen_id uuid,
+  p_item_id uuid,
+  p_updates jsonb default '{}'::jsonb,
+  p_components jsonb default null,
+  p_steps jsonb default null,
+  p_expected_version integer default null
+)
+returns public.items
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_current_version integer;
+  v_set_clause text;
+  v_item public.items;
+begin
+  select version into v_current_version
+  from public.items
+  where id = p_item_id
+    and kitchen_id = p_kitchen_id
+  for update;
+
+  if not found then
+    raise exception 'Artikel % wurde nicht gefunden', p_item_id
+      using errcode = 'P0002';
+  end if;
+
+  -- PT409 is passed through by PostgREST as HTTP 409
+  if p_expected_version is not null
+    and p_expected_version <> v_current_version
+  then
+    raise exception 'Artikel % wurde zwischenzeitlich geändert (Version % statt %)',
+      p_item_id, v_current_version, p_expected_version
+      using errcode = 'PT409';
+  end if;
+
+  select string_agg(format('%I = r.%I', key, key), ', ')
+  into v_set_clause
+  from jsonb_object_keys(coalesce(p_updates, '{}'::jsonb)) as key
+  where key in (
+    select column_name
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'items'
+      and column_name not in (
+        'id',
+        'kitchen_id',
+        'internal_id',
+        'created_at',
+        'version',
+        'updated_at'
+      )
+  );
+
+  if v_set_clause is not null then
+    execute format(
+      'update public.items as t set %s from jsonb_populate_record(null::public.items, $1) as r where t.id = $2',
+      v_set_clause
+    )
+    using p_updates, p_item_id;
+  elsif p_components is not null or p_steps is not null then
+    -- Component or step changes still count as an edit of the item
+    update public.items
+    set updated_at = now()
+    where id = p_item_id;
+  end if;
+
+  if p_components is not null then
+    if exists (
+      select 1
+      from jsonb_to_recordset(p_components) as c(child_item_id uuid)
+      left join public.items as i
+        on i.id = c.child_item_id
+       and i.kitchen_id = p_kitchen_id
+      where c.child_item_id is not null
+        and i.id is null
+    ) then
+      raise exception 'Mindestens eine Zutat gehört nicht zu dieser Küche'
+        using errcode = '23503';
+    end if;
+
+    delete from public.recipe_structure
+    where parent_item_id = p_item_id;
+
+    insert into public.recipe_structure (
+      kitchen_id,
+      parent_item_id,
+      child_item_id,
+      amount,
+      unit
+    )
+    select
+      p_kitchen_id,
+      p_item_id,
+      c.child_item_id,
+      coalesce(c.amount, 0),
+      coalesce(c.unit, '')
+    from jsonb_to_recordset(p_components) as c(
+      child_item_id uuid,
+      amount numeric,
+      unit text
+    );
+  end if;
+
+  if p_steps is not null then
+    delete from public.preparation_steps
+    where item_id = p_item_id;
+
+    insert into public.preparation_steps (
+      kitchen_id,
+      item_id,
+      step_order,
+      instruction
+    )
+    select
+      p_kitchen_id,
+      p_item_id,
+      s.ordinality,
+      coalesce(s.value ->> 'instruction', '')
+    from jsonb_array_elements(p_steps) with ordinality as s(value, ordinality);
+  end if;
+
+  select * into v_item
+  from public.items
+  where id = p_item_id;
+
+  return v_item;
+end;
+$$;
+
+grant execute on function public.save_recipe(uuid, uuid, jsonb, jsonb, jsonb, integer) to authenticated;
@@ -0,0 +1,118 @@
+-- Revision history of items. Each row holds a full snapshot of the item,
+-- its components and its preparation steps after (or, for deletes, right
+-- before) a change. item_id has no foreign key so the history of deleted
+-- items is kept.
+
+create table if not exists public.item_revisions (
+  id uuid primary key default gen_random_uuid(),
+  kitchen_id uuid not null references public.kitchens(id) on delete cascade,
+  item_id uuid not null,
+  action text not null check (action in ('create', 'update', 'delete', 'restore')),
+  item_version integer,
+  snapshot jsonb not null,
+  changed_by uuid references auth.users(id) on delete set null,
+  changed_by_email text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists item_revisions_item_id_created_at_idx
+  on public.item_revisions (item_id, created_at desc);
+
+alter table public.item_revisions enable row level security;
+
+-- Revisions are append-only, so there are no update or delete policies
+drop policy if exists "Kitchen members read item revisions" on public.item_revisions;
+create policy "Kitchen members read item revisions"
+  on public.item_revisions for select
+  to authenticated
+  using (public.is_kitchen_member(kitchen_id));
+
+drop policy if exists "Kitchen members add item revisions" on public.item_revisions;
+create policy "Kitchen members add item revisions"
+  on public.item_revisions for insert
+  to authenticated
+  with check (public.is_kitchen_member(kitchen_id));
+
+-- Snapshots the current state of an item and stores it as a revision of
+-- the calling user.
+create or replace function public.record_item_revision(
+  p_kitchen_id uuid,
+  p_item_id uuid,
+  p_action text
+)
+returns public.item_revisions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_item public.items;
+  v_revision public.item_revisions;
+begin
+  select * into v_item
+  from public.items
+  where id = p_item_id
+    and kitchen_id = p_kitchen_id;
+
+  if not found then
+    raise exception 'Artikel % wurde nicht gefunden', p_item_id
+      using errcode = 'P0002';
+  end if;
+
+  insert into public.item_revisions (
+    kitchen_id,
+    item_id,
+    action,
+    item_version,
+    snapshot,
+    changed_by,
+    changed_by_email
+  )
+  values (
+    p_kitchen_id,
+    p_item_id,
+    p_action,
+    v_item.version,
+    jsonb_build_object(
+      'item', to_jsonb(v_item),
+      'components', coalesce(
+        (
+          select jsonb_agg(
+            jsonb_build_object(
+              'child_item_id', r.child_item_id,
+              'amount', r.amount,
+              'unit', r.unit
+            )
+          )
+          from public.recipe_structure as r
+          where r.parent_item_id = p_item_id
+            and r.kitchen_id = p_kitchen_id
+        ),
+        '[]'::jsonb
+      ),
+      'steps', coalesce(
+        (
+          select jsonb_agg(
+            jsonb_build_object(
+              'step_order', s.step_order,
+              'instruction', s.instruction
+            )
+            order by s.step_order
+          )
+          from public.preparation_steps as s
+          where s.item_id = p_item_id
+            and s.kitchen_id = p_kitchen_id
+        ),
+        '[]'::jsonb
+      )
+    ),
+    auth.uid(),
+    auth.jwt() ->> 'email'
+  )
+  returning * into v_revision;
+
+  return v_revision;
+end;
+$$;
+
+grant execute on function public.record_item_revision(uuid, uuid, text) to authenticated;
@@ -0,0 +1,14 @@
+-- Items are no longer deleted but flagged. Recipes keep their
+-- recipe_structure rows pointing at the deleted item, so the app can show
+-- them as "ghost" components with the deleted item's name until a
+-- replacement is chosen.
+
+alter table public.items
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists items_kitchen_id_active_idx
+  on public.items (kitchen_id)
+  where deleted_at is null;
+
+create index if not exists recipe_structure_child_item_id_idx
+  on public.recipe_structure (child_item_id);
@@ -0,0 +1,196 @@
+-- Stock per item and storage area, changed only through bookings
+-- (goods receipts and withdrawals) so every change stays traceable.
+-- Members can only read both tables; writes go through the security
+-- definer functions below, which check the kitchen membership themselves.
+
+create table if not exists public.stock_levels (
+  id uuid primary key default gen_random_uuid(),
+  kitchen_id uuid not null references public.kitchens(id) on delete cascade,
+  item_id uuid not null references public.items(id) on delete cascade,
+  storage_area text not null default '',
+  quantity numeric not null default 0,
+  min_quantity numeric,
+  updated_at timestamptz not null default now(),
+  unique (kitchen_id, item_id, storage_area)
+);
+
+create table if not exists public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  kitchen_id uuid not null references public.kitchens(id) on delete cascade,
+  item_id uuid not null references public.items(id) on delete cascade,
+  storage_area text not null default '',
+  movement_type text not null check (movement_type in ('receipt', 'withdrawal')),
+  quantity numeric not null check (quantity > 0),
+  unit_price numeric,
+  note text,
+  created_by uuid references auth.users(id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_levels_kitchen_id_idx
+  on public.stock_levels (kitchen_id);
+create index if not exists stock_movements_kitchen_id_created_at_idx
+  on public.stock_movements (kitchen_id, created_at desc);
+
+alter table public.stock_levels enable row level security;
+alter table public.stock_movements enable row level security;
+
+drop policy if exists "Kitchen members manage stock levels" on public.stock_levels;
+drop policy if exists "Kitchen members read stock levels" on public.stock_levels;
+create policy "Kitchen members read stock levels"
+  on public.stock_levels for select
+  to authenticated
+  using (public.is_kitchen_member(kitchen_id));
+
+-- Movements are a journal, so they are only added by book_stock_movement
+drop policy if exists "Kitchen members read stock movements" on public.stock_movements;
+create policy "Kitchen members read stock movements"
+  on public.stock_movements for select
+  to authenticated
+  using (public.is_kitchen_member(kitchen_id));
+
+drop policy if exists "Kitchen members add stock movements" on public.stock_movements;
+
+-- Books a receipt or withdrawal and updates the stock level in one
+-- transaction. Withdrawals may not take the stock below zero.
+create or replace function public.book_stock_movement(
+  p_kitchen_id uuid,
+  p_item_id uuid,
+  p_storage_area text,
+  p_movement_type text,
+  p_quantity numeric,
+  p_note text default null
+)
+returns public.stock_levels
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items;
+  v_storage_area text := coalesce(trim(p_storage_area), '');
+  v_level public.stock_levels;
+begin
+  if not public.is_kitchen_member(p_kitchen_id) then
+    raise exception 'Kein Zugriff auf diese Küche'
+      using errcode = '42501';
+  end if;
+
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Die Menge muss größer als 0 sein'
+      using errcode = '22023';
+  end if;
+
+  select * into v_item
+  from public.items
+  where id = p_item_id
+    and kitchen_id = p_kitchen_id
+    and deleted_at is null;
+
+  if not found then
+    raise exception 'Artikel % wurde nicht gefunden', p_item_id
+      using errcode = 'P0002';
+  end if;
+
+  insert into public.stock_levels (kitchen_id, item_id, storage_area)
+  values (p_kitchen_id, p_item_id, v_storage_area)
+  on conflict (kitchen_id, item_id, storage_area) do nothing;
+
+  select * into v_level
+  from public.stock_levels
+  where kitchen_id = p_kitchen_id
+    and item_id = p_item_id
+    and storage_area = v_storage_area
+  for update;
+
+  if p_movement_type = 'withdrawal' and v_level.quantity < p_quantity then
+    raise exception 'Nicht genügend Bestand (% % verfügbar)',
+      v_level.quantity, v_item.unit
+      using errcode = '23514';
+  end if;
+
+  insert into public.stock_movements (
+    kitchen_id,
+    item_id,
+    storage_area,
+    movement_type,
+    quantity,
+    unit_price,
+    note
+  )
+  values (
+    p_kitchen_id,
+    p_item_id,
+    v_storage_area,
+    p_movement_type,
+    p_quantity,
+    v_item.purchase_price,
+    nullif(trim(p_note), '')
+  );
+
+  update public.stock_levels
+  set quantity = case
+        when p_movement_type = 'withdrawal' then quantity - p_quantity
+        else quantity + p_quantity
+      end,
+      updated_at = now()
+  where id = v_level.id
+  returning * into v_level;
+
+  return v_level;
+end;
+$$;
+
+revoke execute on function public.book_stock_movement(uuid, uuid, text, text, numeric, text) from public;
+grant execute on function public.book_stock_movement(uuid, uuid, text, text, numeric, text) to authenticated;
+
+-- Sets the minimum stock of an item and storage area; the stock itself
+-- stays untouched
+create or replace function public.set_stock_min_quantity(
+  p_kitchen_id uuid,
+  p_item_id uuid,
+  p_storage_area text,
+  p_min_quantity numeric
+)
+returns public.stock_levels
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_storage_area text := coalesce(trim(p_storage_area), '');
+  v_level public.stock_levels;
+begin
+  if not public.is_kitchen_member(p_kitchen_id) then
+    raise exception 'Kein Zugriff auf diese Küche'
+      using errcode = '42501';
+  end if;
+
+  if p_min_quantity < 0 then
+    raise exception 'Der Mindestbestand darf nicht negativ sein'
+      using errcode = '22023';
+  end if;
+
+  if not exists (
+    select 1
+    from public.items
+    where id = p_item_id
+      and kitchen_id = p_kitchen_id
+      and deleted_at is null
+  ) then
+    raise exception 'Artikel % wurde nicht gefunden', p_item_id
+      using errcode = 'P0002';
+  end if;
+
+  insert into public.stock_levels (kitchen_id, item_id, storage_area, min_quantity)
+  values (p_kitchen_id, p_item_id, v_storage_area, p_min_quantity)
+  on conflict (kitchen_id, item_id, storage_area)
+  do update set min_quantity = excluded.min_quantity, updated_at = now()
+  returning * into v_level;
+
+  return v_level;
+end;
+$$;
+
+revoke execute on function public.set_stock_min_quantity(uuid, uuid, text, numeric) from public;
+grant execute on function public.set_stock_min_quantity(uuid, uuid, text, numeric) to authenticated;
@@ -0,0 +1,8 @@
+-- Par level and reorder quantity per item, both in the item's purchase
+-- unit. The purchase suggestions order enough to bring the stock left after
+-- planned production back up to the par level, rounded to whole reorder
+-- quantities.
+
+alter table public.items
+  add column if not exists par_level numeric check (par_level >= 0),
+  add column if not exists reorder_quantity numeric check (reorder_quantity >= 0);
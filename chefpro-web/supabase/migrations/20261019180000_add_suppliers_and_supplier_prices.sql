@@ -0,0 +1,58 @@
+-- Suppliers (wholesalers) and their prices per item. An item can be bought
+-- from several suppliers; the preferred supplier's current price is copied
+-- into items.purchase_price so the recipe costing keeps working on a single
+-- price per item.
+
+create table if not exists public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  kitchen_id uuid not null references public.kitchens(id) on delete cascade,
+  name text not null,
+  customer_number text,
+  contact_name text,
+  email text,
+  phone text,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (kitchen_id, name)
+);
+
+create table if not exists public.supplier_prices (
+  id uuid primary key default gen_random_uuid(),
+  kitchen_id uuid not null references public.kitchens(id) on delete cascade,
+  supplier_id uuid not null references public.suppliers(id) on delete cascade,
+  item_id uuid not null references public.items(id) on delete cascade,
+  article_number text,
+  -- Pack size the price refers to, e.g. "10kg" or "6x1l"
+  pack_unit text not null,
+  price numeric not null check (price >= 0),
+  currency text not null default 'EUR',
+  valid_from date not null default current_date,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists suppliers_kitchen_id_idx
+  on public.suppliers (kitchen_id);
+create index if not exists supplier_prices_item_id_valid_from_idx
+  on public.supplier_prices (item_id, valid_from desc);
+
+alter table public.items
+  add column if not exists preferred_supplier_id uuid
+    references public.suppliers(id) on delete set null;
+
+alter table public.suppliers enable row level security;
+alter table public.supplier_prices enable row level security;
+
+drop policy if exists "Kitchen members manage suppliers" on public.suppliers;
+create policy "Kitchen members manage suppliers"
+  on public.suppliers for all
+  to authenticated
+  using (public.is_kitchen_member(kitchen_id))
+  with check (public.is_kitchen_member(kitchen_id));
+
+drop policy if exists "Kitchen members manage supplier prices" on public.supplier_prices;
+create policy "Kitchen members manage supplier prices"
+  on public.supplier_prices for all
+  to authenticated
+  using (public.is_kitchen_member(kitchen_id))
+  with check (public.is_kitchen_member(kitchen_id));
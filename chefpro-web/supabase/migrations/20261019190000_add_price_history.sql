@@ -0,0 +1,73 @@
+-- Purchase price history per item. A trigger records every price change,
+-- whichever way it is made (item details, supplier prices, restores), so the
+-- recipe costs can be recomputed for any past date.
+
+create table if not exists public.price_history (
+  id uuid primary key default gen_random_uuid(),
+  kitchen_id uuid not null references public.kitchens(id) on delete cascade,
+  item_id uuid not null references public.items(id) on delete cascade,
+  purchase_price numeric,
+  previous_price numeric,
+  unit text,
+  changed_by uuid references auth.users(id) on delete set null default auth.uid(),
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists price_history_item_id_changed_at_idx
+  on public.price_history (item_id, changed_at);
+create index if not exists price_history_kitchen_id_changed_at_idx
+  on public.price_history (kitchen_id, changed_at);
+
+alter table public.price_history enable row level security;
+
+-- The history is a journal, so entries can be added but not changed
+drop policy if exists "Kitchen members read price history" on public.price_history;
+create policy "Kitchen members read price history"
+  on public.price_history for select
+  to authenticated
+  using (public.is_kitchen_member(kitchen_id));
+
+drop policy if exists "Kitchen members add price history" on public.price_history;
+create policy "Kitchen members add price history"
+  on public.price_history for insert
+  to authenticated
+  with check (public.is_kitchen_member(kitchen_id));
+
+create or replace function public.record_price_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT'
+     or new.purchase_price is distinct from old.purchase_price then
+    insert into public.price_history (
+      kitchen_id,
+      item_id,
+      purchase_price,
+      previous_price,
+      unit
+    )
+    values (
+      new.kitchen_id,
+      new.id,
+      new.purchase_price,
+      case when tg_op = 'UPDATE' then old.purchase_price end,
+      new.unit
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists items_record_price_change on public.items;
+create trigger items_record_price_change
+  after insert or update of purchase_price on public.items
+  for each row execute function public.record_price_change();
+
+-- Earlier prices are unknown, the current price is the starting point
+insert into public.price_history (kitchen_id, item_id, purchase_price, unit, changed_by)
+select kitchen_id, id, purchase_price, unit, null
+from public.items
+where not exists (
+  select 1 from public.price_history where price_history.item_id = items.id
+);
@@ -0,0 +1,8 @@
+-- Diet flags (vegan, vegetarian, gluten-free, ...) of recipes are derived
+-- from their ingredients. A recipe may deviate from the derived value only
+-- with a stated reason, stored per flag as { "isVegan": { "value": true,
+-- "reason": "..." } }.
+
+alter table public.items
+  add column if not exists diet_flag_overrides jsonb not null default '{}'::jsonb
+    check (jsonb_typeof(diet_flag_overrides) = 'object');
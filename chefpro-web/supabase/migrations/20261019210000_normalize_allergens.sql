@@ -0,0 +1,357 @@
+-- Allergens are mapped onto the 14 main allergens of the LMIV (EU
+-- 1169/2011), with cereals and nuts named individually ("Weizen",
+-- "Haselnüsse"). "May contain traces" moves into its own column. The
+-- synonym and exclusion lists mirror LMIV_ALLERGENS in lib/allergens.ts;
+-- entries that match no allergen are kept so they can be fixed by hand,
+-- negated entries such as "laktosefrei" are dropped. The original list is
+-- kept in allergens_before_normalization.
+
+alter table public.items
+  add column if not exists allergen_traces text[] not null default '{}',
+  add column if not exists allergens_before_normalization text[];
+
+create temporary table allergen_synonyms (
+  label text not null,
+  main_label text not null,
+  sort_order integer not null,
+  stem text not null,
+  is_prefix boolean not null,
+  -- Also matches inside compound words ("Frischkäse")
+  is_infix boolean not null
+) on commit drop;
+
+insert into allergen_synonyms (label, main_label, sort_order, stem, is_prefix, is_infix)
+values
+  ('Glutenhaltiges Getreide', 'Glutenhaltiges Getreide', 0, 'glutenhaltiges getreide', false, false),
+  ('Glutenhaltiges Getreide', 'Glutenhaltiges Getreide', 0, 'gluten', true, false),
+  ('Glutenhaltiges Getreide', 'Glutenhaltiges Getreide', 0, 'glutenhaltig', true, false),
+  ('Glutenhaltiges Getreide', 'Glutenhaltiges Getreide', 0, 'cereals containing gluten', false, false),
+  ('Weizen', 'Glutenhaltiges Getreide', 1, 'weizen', false, false),
+  ('Weizen', 'Glutenhaltiges Getreide', 1, 'weizen', true, true),
+  ('Weizen', 'Glutenhaltiges Getreide', 1, 'wheat', true, false),
+  ('Roggen', 'Glutenhaltiges Getreide', 2, 'roggen', false, false),
+  ('Roggen', 'Glutenhaltiges Getreide', 2, 'roggen', true, false),
+  ('Roggen', 'Glutenhaltiges Getreide', 2, 'rye', false, false),
+  ('Gerste', 'Glutenhaltiges Getreide', 3, 'gerste', false, false),
+  ('Gerste', 'Glutenhaltiges Getreide', 3, 'gerste', true, false),
+  ('Gerste', 'Glutenhaltiges Getreide', 3, 'gersten', true, false),
+  ('Gerste', 'Glutenhaltiges Getreide', 3, 'barley', false, false),
+  ('Hafer', 'Glutenhaltiges Getreide', 4, 'hafer', false, false),
+  ('Hafer', 'Glutenhaltiges Getreide', 4, 'hafer', true, false),
+  ('Hafer', 'Glutenhaltiges Getreide', 4, 'oat', true, false),
+  ('Dinkel', 'Glutenhaltiges Getreide', 5, 'dinkel', false, false),
+  ('Dinkel', 'Glutenhaltiges Getreide', 5, 'dinkel', true, false),
+  ('Dinkel', 'Glutenhaltiges Getreide', 5, 'spelt', false, false),
+  ('Kamut', 'Glutenhaltiges Getreide', 6, 'kamut', false, false),
+  ('Kamut', 'Glutenhaltiges Getreide', 6, 'kamut', true, false),
+  ('Kamut', 'Glutenhaltiges Getreide', 6, 'khorasan', true, false),
+  ('Krebstiere', 'Krebstiere', 100, 'krebstiere', false, false),
+  ('Krebstiere', 'Krebstiere', 100, 'krebstier', true, false),
+  ('Krebstiere', 'Krebstiere', 100, 'krebs', false, false),
+  ('Krebstiere', 'Krebstiere', 100, 'krebse', false, false),
+  ('Krebstiere', 'Krebstiere', 100, 'flusskrebs', true, false),
+  ('Krebstiere', 'Krebstiere', 100, 'garnele', true, false),
+  ('Krebstiere', 'Krebstiere', 100, 'shrimp', true, false),
+  ('Krebstiere', 'Krebstiere', 100, 'krabbe', true, false),
+  ('Krebstiere', 'Krebstiere', 100, 'hummer', true, false),
+  ('Krebstiere', 'Krebstiere', 100, 'languste', true, false),
+  ('Krebstiere', 'Krebstiere', 100, 'scampi', false, false),
+  ('Krebstiere', 'Krebstiere', 100, 'crustacean', true, false),
+  ('Eier', 'Eier', 200, 'eier', false, false),
+  ('Eier', 'Eier', 200, 'ei', false, false),
+  ('Eier', 'Eier', 200, 'eier', true, false),
+  ('Eier', 'Eier', 200, 'hühnerei', true, false),
+  ('Eier', 'Eier', 200, 'vollei', true, false),
+  ('Eier', 'Eier', 200, 'eigelb', true, false),
+  ('Eier', 'Eier', 200, 'eiklar', true, false),
+  ('Eier', 'Eier', 200, 'eipulver', true, false),
+  ('Eier', 'Eier', 200, 'egg', false, false),
+  ('Eier', 'Eier', 200, 'eggs', false, false),
+  ('Fisch', 'Fisch', 300, 'fisch', false, false),
+  ('Fisch', 'Fisch', 300, 'fisch', true, false),
+  ('Fisch', 'Fisch', 300, 'sardelle', true, false),
+  ('Fisch', 'Fisch', 300, 'sardine', true, false),
+  ('Fisch', 'Fisch', 300, 'anchovi', true, false),
+  ('Fisch', 'Fisch', 300, 'thunfisch', true, false),
+  ('Fisch', 'Fisch', 300, 'lachs', true, true),
+  ('Fisch', 'Fisch', 300, 'forelle', true, false),
+  ('Fisch', 'Fisch', 300, 'kabeljau', true, false),
+  ('Fisch', 'Fisch', 300, 'dorsch', true, false),
+  ('Fisch', 'Fisch', 300, 'hering', true, false),
+  ('Fisch', 'Fisch', 300, 'makrele', true, false),
+  ('Fisch', 'Fisch', 300, 'scholle', true, false),
+  ('Fisch', 'Fisch', 300, 'seezunge', true, false),
+  ('Fisch', 'Fisch', 300, 'heilbutt', true, false),
+  ('Fisch', 'Fisch', 300, 'zander', true, false),
+  ('Fisch', 'Fisch', 300, 'karpfen', true, false),
+  ('Fisch', 'Fisch', 300, 'barsch', true, false),
+  ('Fisch', 'Fisch', 300, 'pangasius', true, false),
+  ('Fisch', 'Fisch', 300, 'tilapia', true, false),
+  ('Fisch', 'Fisch', 300, 'sprotte', true, false),
+  ('Fisch', 'Fisch', 300, 'fish', false, false),
+  ('Erdnüsse', 'Erdnüsse', 400, 'erdnüsse', false, false),
+  ('Erdnüsse', 'Erdnüsse', 400, 'erdnuss', true, false),
+  ('Erdnüsse', 'Erdnüsse', 400, 'erdnüss', true, false),
+  ('Erdnüsse', 'Erdnüsse', 400, 'peanut', true, false),
+  ('Soja', 'Soja', 500, 'soja', false, false),
+  ('Soja', 'Soja', 500, 'soja', true, false),
+  ('Soja', 'Soja', 500, 'soy', true, false),
+  ('Milch', 'Milch', 600, 'milch', false, false),
+  ('Milch', 'Milch', 600, 'milch', true, true),
+  ('Milch', 'Milch', 600, 'laktose', true, false),
+  ('Milch', 'Milch', 600, 'lactose', true, false),
+  ('Milch', 'Milch', 600, 'molke', true, true),
+  ('Milch', 'Milch', 600, 'sahne', true, true),
+  ('Milch', 'Milch', 600, 'rahm', true, false),
+  ('Milch', 'Milch', 600, 'süßrahm', true, false),
+  ('Milch', 'Milch', 600, 'sauerrahm', true, false),
+  ('Milch', 'Milch', 600, 'butter', false, false),
+  ('Milch', 'Milch', 600, 'butterreinfett', false, false),
+  ('Milch', 'Milch', 600, 'butterschmalz', false, false),
+  ('Milch', 'Milch', 600, 'butterfett', false, false),
+  ('Milch', 'Milch', 600, 'käse', true, true),
+  ('Milch', 'Milch', 600, 'joghurt', true, false),
+  ('Milch', 'Milch', 600, 'quark', true, true),
+  ('Milch', 'Milch', 600, 'kasein', true, false),
+  ('Milch', 'Milch', 600, 'casein', true, false),
+  ('Milch', 'Milch', 600, 'milk', true, false),
+  ('Schalenfrüchte', 'Schalenfrüchte', 700, 'schalenfrüchte', false, false),
+  ('Schalenfrüchte', 'Schalenfrüchte', 700, 'schalenfrucht', true, false),
+  ('Schalenfrüchte', 'Schalenfrüchte', 700, 'schalenfrücht', true, false),
+  ('Schalenfrüchte', 'Schalenfrüchte', 700, 'nuss', false, false),
+  ('Schalenfrüchte', 'Schalenfrüchte', 700, 'nüsse', false, false),
+  ('Schalenfrüchte', 'Schalenfrüchte', 700, 'nüssen', false, false),
+  ('Schalenfrüchte', 'Schalenfrüchte', 700, 'nuts', false, false),
+  ('Schalenfrüchte', 'Schalenfrüchte', 700, 'tree nuts', false, false),
+  ('Mandeln', 'Schalenfrüchte', 701, 'mandeln', false, false),
+  ('Mandeln', 'Schalenfrüchte', 701, 'mandel', true, false),
+  ('Mandeln', 'Schalenfrüchte', 701, 'almond', true, false),
+  ('Haselnüsse', 'Schalenfrüchte', 702, 'haselnüsse', false, false),
+  ('Haselnüsse', 'Schalenfrüchte', 702, 'haselnuss', true, false),
+  ('Haselnüsse', 'Schalenfrüchte', 702, 'haselnüss', true, false),
+  ('Haselnüsse', 'Schalenfrüchte', 702, 'hazelnut', true, false),
+  ('Walnüsse', 'Schalenfrüchte', 703, 'walnüsse', false, false),
+  ('Walnüsse', 'Schalenfrüchte', 703, 'walnuss', true, false),
+  ('Walnüsse', 'Schalenfrüchte', 703, 'walnüss', true, false),
+  ('Walnüsse', 'Schalenfrüchte', 703, 'walnut', true, false),
+  ('Cashewnüsse', 'Schalenfrüchte', 704, 'cashewnüsse', false, false),
+  ('Cashewnüsse', 'Schalenfrüchte', 704, 'cashew', true, false),
+  ('Pekannüsse', 'Schalenfrüchte', 705, 'pekannüsse', false, false),
+  ('Pekannüsse', 'Schalenfrüchte', 705, 'pekannuss', true, false),
+  ('Pekannüsse', 'Schalenfrüchte', 705, 'pekannüss', true, false),
+  ('Pekannüsse', 'Schalenfrüchte', 705, 'pecan', true, false),
+  ('Paranüsse', 'Schalenfrüchte', 706, 'paranüsse', false, false),
+  ('Paranüsse', 'Schalenfrüchte', 706, 'paranuss', true, false),
+  ('Paranüsse', 'Schalenfrüchte', 706, 'paranüss', true, false),
+  ('Pistazien', 'Schalenfrüchte', 707, 'pistazien', false, false),
+  ('Pistazien', 'Schalenfrüchte', 707, 'pistazie', true, false),
+  ('Pistazien', 'Schalenfrüchte', 707, 'pistachio', true, false),
+  ('Macadamianüsse', 'Schalenfrüchte', 708, 'macadamianüsse', false, false),
+  ('Macadamianüsse', 'Schalenfrüchte', 708, 'macadamia', true, false),
+  ('Sellerie', 'Sellerie', 800, 'sellerie', false, false),
+  ('Sellerie', 'Sellerie', 800, 'sellerie', true, false),
+  ('Sellerie', 'Sellerie', 800, 'knollensellerie', true, false),
+  ('Sellerie', 'Sellerie', 800, 'staudensellerie', true, false),
+  ('Sellerie', 'Sellerie', 800, 'celery', false, false),
+  ('Senf', 'Senf', 900, 'senf', false, false),
+  ('Senf', 'Senf', 900, 'senf', true, false),
+  ('Senf', 'Senf', 900, 'mustard', false, false),
+  ('Sesam', 'Sesam', 1000, 'sesam', false, false),
+  ('Sesam', 'Sesam', 1000, 'sesam', true, false),
+  ('Sesam', 'Sesam', 1000, 'sesame', false, false),
+  ('Schwefeldioxid und Sulfite', 'Schwefeldioxid und Sulfite', 1100, 'schwefeldioxid und sulfite', false, false),
+  ('Schwefeldioxid und Sulfite', 'Schwefeldioxid und Sulfite', 1100, 'schwefel', true, false),
+  ('Schwefeldioxid und Sulfite', 'Schwefeldioxid und Sulfite', 1100, 'sulfit', true, false),
+  ('Schwefeldioxid und Sulfite', 'Schwefeldioxid und Sulfite', 1100, 'disulfit', true, false),
+  ('Schwefeldioxid und Sulfite', 'Schwefeldioxid und Sulfite', 1100, 'kaliumdisulfit', true, false),
+  ('Schwefeldioxid und Sulfite', 'Schwefeldioxid und Sulfite', 1100, 'natriumdisulfit', true, false),
+  ('Schwefeldioxid und Sulfite', 'Schwefeldioxid und Sulfite', 1100, 'sulphite', true, false),
+  ('Schwefeldioxid und Sulfite', 'Schwefeldioxid und Sulfite', 1100, 'sulfite', true, false),
+  ('Lupinen', 'Lupinen', 1200, 'lupinen', false, false),
+  ('Lupinen', 'Lupinen', 1200, 'lupine', true, false),
+  ('Lupinen', 'Lupinen', 1200, 'lupin', true, false),
+  ('Weichtiere', 'Weichtiere', 1300, 'weichtiere', false, false),
+  ('Weichtiere', 'Weichtiere', 1300, 'weichtier', true, false),
+  ('Weichtiere', 'Weichtiere', 1300, 'muschel', true, false),
+  ('Weichtiere', 'Weichtiere', 1300, 'tintenfisch', true, false),
+  ('Weichtiere', 'Weichtiere', 1300, 'kalmar', true, false),
+  ('Weichtiere', 'Weichtiere', 1300, 'schnecke', true, false),
+  ('Weichtiere', 'Weichtiere', 1300, 'auster', true, false),
+  ('Weichtiere', 'Weichtiere', 1300, 'mollus', true, false);
+
+-- Words containing a synonym of the allergen without being it
+create temporary table allergen_exclusions (
+  main_label text not null,
+  pattern text not null
+) on commit drop;
+
+insert into allergen_exclusions (main_label, pattern)
+values
+  ('Glutenhaltiges Getreide', 'buchweizen'),
+  ('Fisch', 'lachsschinken|flachs'),
+  ('Milch', 'milchsäure|kokosmilch|kokos-milch|kokossahne|mandelmilch|hafermilch|sojamilch|reismilch|shea-butter|shea butter|kakao-butter|kakao butter|erdnuss-butter');
+
+with entries as (
+  select
+    items.id,
+    trim(entry.value) as value,
+    entry.position,
+    entry.value ~* '(spuren|kann .*enthalten|may contain|traces)' as is_trace
+  from public.items
+  cross join lateral unnest(items.allergens) with ordinality
+    as entry(value, position)
+  where trim(entry.value) <> ''
+    and trim(entry.value) !~* '^(-|keine|ohne|frei von|allergenfrei|none)([^a-zäöüß]|$)'
+),
+affirmed_entries as (
+  -- Negated words ("laktosefrei") and phrases ("ohne Nüsse") are blanked
+  -- out, as in lib/allergens.ts
+  select
+    entries.*,
+    regexp_replace(
+      regexp_replace(
+        lower(entries.value),
+        '(^|[^a-zäöüß])[a-zäöüß]+(-?frei(e[mnrs]?)?|[- ]free)(?![a-zäöüß])',
+        '\1 ',
+        'g'
+      ),
+      '(^|[^a-zäöüß])(kein(e[mnrs]?)?|ohne|frei von|free from|without)(?![a-zäöüß])[^,;.()]*',
+      '\1 ',
+      'g'
+    ) as affirmed_value
+  from entries
+),
+group_values as (
+  -- Exclusions only apply to the synonyms of their own allergen
+  select
+    affirmed_entries.id,
+    affirmed_entries.position,
+    affirmed_entries.is_trace,
+    allergen_groups.main_label,
+    case
+      when allergen_exclusions.pattern is null
+        then affirmed_entries.affirmed_value
+      else regexp_replace(
+        affirmed_entries.affirmed_value,
+        '(^|[^a-zäöüß])(' || allergen_exclusions.pattern || ')[a-zäöüß]*',
+        '\1 ',
+        'g'
+      )
+    end as match_value
+  from affirmed_entries
+  cross join (select distinct main_label from allergen_synonyms) allergen_groups
+  left join allergen_exclusions
+    on allergen_exclusions.main_label = allergen_groups.main_label
+),
+entry_matches as (
+  select
+    group_values.id,
+    group_values.position,
+    group_values.is_trace,
+    allergen_synonyms.label,
+    allergen_synonyms.main_label,
+    allergen_synonyms.sort_order
+  from group_values
+  join allergen_synonyms
+    on allergen_synonyms.main_label = group_values.main_label
+    and group_values.match_value ~ (
+      case when allergen_synonyms.is_infix then '' else '(^|[^a-zäöüß])' end ||
+      allergen_synonyms.stem ||
+      case when allergen_synonyms.is_prefix then '' else '([^a-zäöüß]|$)' end
+    )
+),
+matches as (
+  select distinct
+    entry_matches.id,
+    entry_matches.is_trace,
+    entry_matches.label,
+    entry_matches.main_label,
+    entry_matches.sort_order
+  from entry_matches
+),
+labels as (
+  -- A main allergen is redundant next to one of its sub-types
+  select distinct matches.id, matches.is_trace, matches.label, matches.sort_order
+  from matches
+  where matches.label <> matches.main_label
+    or not exists (
+      select 1
+      from matches other
+      where other.id = matches.id
+        and other.is_trace = matches.is_trace
+        and other.main_label = matches.main_label
+        and other.label <> other.main_label
+    )
+),
+unmatched as (
+  -- Negated entries without any allergen are claims, not allergens
+  select
+    affirmed_entries.id,
+    affirmed_entries.is_trace,
+    affirmed_entries.value,
+    affirmed_entries.position
+  from affirmed_entries
+  where affirmed_entries.affirmed_value = lower(affirmed_entries.value)
+    and not exists (
+      select 1
+      from entry_matches
+      where entry_matches.id = affirmed_entries.id
+        and entry_matches.position = affirmed_entries.position
+    )
+),
+normalized as (
+  select
+    items.id,
+    coalesce(
+      (
+        select array_agg(labels.label order by labels.sort_order)
+        from labels
+        where labels.id = items.id and not labels.is_trace
+      ),
+      '{}'
+    ) || coalesce(
+      (
+        select array_agg(unmatched.value order by unmatched.position)
+        from unmatched
+        where unmatched.id = items.id and not unmatched.is_trace
+      ),
+      '{}'
+    ) as allergens,
+    coalesce(
+      (
+        select array_agg(labels.label order by labels.sort_order)
+        from labels
+        where labels.id = items.id
+          and labels.is_trace
+          and not exists (
+            select 1
+            from labels contained
+            where contained.id = labels.id
+              and not contained.is_trace
+              and contained.label = labels.label
+          )
+      ),
+      '{}'
+    ) || coalesce(
+      (
+        select array_agg(unmatched.value order by unmatched.position)
+        from unmatched
+        where unmatched.id = items.id and unmatched.is_trace
+      ),
+      '{}'
+    ) as allergen_traces
+  from public.items
+  where items.allergens is not null
+    and cardinality(items.allergens) > 0
+)
+update public.items
+set
+  allergens_before_normalization = items.allergens,
+  allergens = normalized.allergens,
+  allergen_traces = normalized.allergen_traces
+from normalized
+where items.id = normalized.id
+  and (
+    items.allergens is distinct from normalized.allergens
+    or items.allergen_traces is distinct from normalized.allergen_traces
+  );
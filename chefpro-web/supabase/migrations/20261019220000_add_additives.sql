@@ -0,0 +1,77 @@
+-- Additives that have to be declared on menus (ZZulV § 9), stored as the
+-- class keys of ADDITIVE_CLASSES in lib/additives.ts. Existing items are
+-- filled from the E-numbers in their ingredient list; caffeine and quinine
+-- are detected by name.
+
+alter table public.items
+  add column if not exists additives text[] not null default '{}';
+
+create temporary table additive_ranges (
+  key text not null,
+  footnote integer not null,
+  e_from integer not null,
+  e_to integer not null
+) on commit drop;
+
+insert into additive_ranges (key, footnote, e_from, e_to)
+values
+  ('farbstoff', 1, 100, 180),
+  ('konservierungsstoff', 2, 200, 219),
+  ('konservierungsstoff', 2, 230, 235),
+  ('konservierungsstoff', 2, 239, 239),
+  ('konservierungsstoff', 2, 242, 242),
+  ('konservierungsstoff', 2, 249, 252),
+  ('konservierungsstoff', 2, 280, 285),
+  ('konservierungsstoff', 2, 1105, 1105),
+  ('antioxidationsmittel', 3, 310, 321),
+  ('geschmacksverstaerker', 4, 620, 635),
+  ('geschwefelt', 5, 220, 228),
+  ('geschwaerzt', 6, 579, 579),
+  ('geschwaerzt', 6, 585, 585),
+  ('gewachst', 7, 901, 905),
+  ('phosphat', 8, 338, 341),
+  ('phosphat', 8, 343, 343),
+  ('phosphat', 8, 450, 452),
+  ('suessungsmittel', 9, 420, 421),
+  ('suessungsmittel', 9, 950, 969),
+  ('phenylalanin', 10, 951, 951),
+  ('phenylalanin', 10, 962, 962);
+
+with e_numbers as (
+  select items.id, match[1]::integer as e_number
+  from public.items
+  cross join lateral regexp_matches(
+    items.ingredients,
+    '(?:^|[^a-z])e\s?-?\s?(\d{3,4})(?!\d)',
+    'gi'
+  ) as match
+  where items.ingredients is not null
+),
+detected as (
+  select e_numbers.id, additive_ranges.key, additive_ranges.footnote
+  from e_numbers
+  join additive_ranges
+    on e_numbers.e_number between additive_ranges.e_from and additive_ranges.e_to
+  union
+  select items.id, 'phenylalanin', 10
+  from public.items
+  where items.ingredients ilike '%aspartam%'
+  union
+  select items.id, 'koffeinhaltig', 11
+  from public.items
+  where items.ingredients ilike '%koffein%'
+    or items.ingredients ilike '%coffein%'
+  union
+  select items.id, 'chininhaltig', 12
+  from public.items
+  where items.ingredients ilike '%chinin%'
+),
+aggregated as (
+  select id, array_agg(key order by footnote) as additives
+  from (select distinct id, key, footnote from detected) as distinct_detected
+  group by id
+)
+update public.items
+set additives = aggregated.additives
+from aggregated
+where items.id = aggregated.id;
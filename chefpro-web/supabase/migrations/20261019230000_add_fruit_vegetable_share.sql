@@ -0,0 +1,6 @@
+-- Share of fruit, vegetables and legumes in percent, needed for the
+-- Nutri-Score. Recipes without a value derive it from their components.
+
+alter table public.items
+  add column if not exists fruit_vegetable_share numeric
+    check (fruit_vegetable_share between 0 and 100);
@@ -0,0 +1,57 @@
+-- Usable yield after peeling or trimming, cooking loss or gain of recipes
+-- and the recipe yield as numbers for costing and nutrition. yield_info and
+-- yield_volume stay as the text from the datasheet; the numeric yield is
+-- filled from it where the text starts with an amount and a unit.
+
+alter table public.items
+  add column if not exists usable_yield_percent numeric
+    check (usable_yield_percent > 0 and usable_yield_percent <= 100),
+  add column if not exists cooking_factor numeric
+    check (cooking_factor > 0),
+  add column if not exists yield_weight_grams numeric
+    check (yield_weight_grams > 0),
+  add column if not exists yield_volume_ml numeric
+    check (yield_volume_ml > 0);
+
+with parsed as (
+  select
+    id,
+    regexp_match(
+      lower(trim(split_part(split_part(yield_info, '|', 1), E'\n', 1))),
+      '^(?:ca\.?\s*)?([0-9]+(?:[.,][0-9]+)?)\s*(kg|kilogramm|gramm|gr|g|mg)\M'
+    ) as weight,
+    regexp_match(
+      lower(trim(coalesce(
+        nullif(trim(yield_volume), ''),
+        split_part(yield_info, '|', 2)
+      ))),
+      '^(?:ca\.?\s*)?([0-9]+(?:[.,][0-9]+)?)\s*(ml|cl|dl|liter|ltr|lt|l)\M'
+    ) as volume
+  from public.items
+  where yield_weight_grams is null and yield_volume_ml is null
+)
+update public.items as items
+set
+  yield_weight_grams = nullif(
+    replace(parsed.weight[1], ',', '.')::numeric
+      * case parsed.weight[2]
+          when 'kg' then 1000
+          when 'kilogramm' then 1000
+          when 'mg' then 0.001
+          else 1
+        end,
+    0
+  ),
+  yield_volume_ml = nullif(
+    replace(parsed.volume[1], ',', '.')::numeric
+      * case parsed.volume[2]
+          when 'ml' then 1
+          when 'cl' then 10
+          when 'dl' then 100
+          else 1000
+        end,
+    0
+  )
+from parsed
+where items.id = parsed.id
+  and (parsed.weight is not null or parsed.volume is not null);
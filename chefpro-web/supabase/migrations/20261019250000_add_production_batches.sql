@@ -0,0 +1,43 @@
+-- Production batches: a recipe scaled to a number of portions or a batch
+-- weight. The scaled components are stored as a snapshot, so the batch
+-- stays as planned when the master recipe changes later.
+
+create table if not exists public.production_batches (
+  id uuid primary key default gen_random_uuid(),
+  kitchen_id uuid not null references public.kitchens(id) on delete cascade,
+  item_id uuid not null references public.items(id) on delete cascade,
+  scale_mode text not null check (scale_mode in ('portions', 'weight')),
+  target_value numeric not null check (target_value > 0),
+  scale_factor numeric not null check (scale_factor > 0),
+  portions numeric,
+  output_grams numeric,
+  estimated_cost numeric,
+  components jsonb not null default '[]'::jsonb,
+  note text,
+  created_by uuid references auth.users(id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists production_batches_kitchen_id_item_id_idx
+  on public.production_batches (kitchen_id, item_id, created_at desc);
+
+alter table public.production_batches enable row level security;
+
+-- Batches are snapshots, so they can be added and removed but not changed
+drop policy if exists "Kitchen members read production batches" on public.production_batches;
+create policy "Kitchen members read production batches"
+  on public.production_batches for select
+  to authenticated
+  using (public.is_kitchen_member(kitchen_id));
+
+drop policy if exists "Kitchen members add production batches" on public.production_batches;
+create policy "Kitchen members add production batches"
+  on public.production_batches for insert
+  to authenticated
+  with check (public.is_kitchen_member(kitchen_id));
+
+drop policy if exists "Kitchen members delete production batches" on public.production_batches;
+create policy "Kitchen members delete production batches"
+  on public.production_batches for delete
+  to authenticated
+  using (public.is_kitchen_member(kitchen_id));
@@ -0,0 +1,64 @@
+-- Invoices, data sheets, web snapshots and recipe images are kitchen data.
+-- Both buckets become private; files are served through
+-- /api/storage-file/<bucket>/<path>, which redirects to a short-lived signed
+-- URL. Signing needs select access on the object, scoped like the tables.
+
+update storage.buckets
+set public = false
+where id in ('recipe-images', 'product-documents');
+
+drop policy if exists "Kitchen members read kitchen files" on storage.objects;
+create policy "Kitchen members read kitchen files"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id in ('recipe-images', 'product-documents')
+    and (
+      (storage.foldername(name))[1] in (
+        select kitchen_id::text
+        from public.kitchen_members
+        where user_id = auth.uid()
+      )
+      -- Uploads from before kitchens were stored without a kitchen folder;
+      -- they are readable by the kitchens whose items reference them
+      or (
+        coalesce(array_length(storage.foldername(name), 1), 0) = 0
+        and exists (
+          select 1
+          from public.items
+          where public.is_kitchen_member(items.kitchen_id)
+            and '/api/storage-file/' || storage.objects.bucket_id || '/' || storage.objects.name
+              in (
+                split_part(items.file_url, '?', 1),
+                split_part(items.image_url, '?', 1)
+              )
+        )
+      )
+    )
+  );
+
+-- Stored public bucket URLs no longer resolve, point them at the file route
+update public.items
+set
+  file_url = regexp_replace(
+    file_url,
+    '^https?://[^/]+/storage/v1/object/public/(recipe-images|product-documents)/',
+    '/api/storage-file/\1/'
+  ),
+  image_url = regexp_replace(
+    image_url,
+    '^https?://[^/]+/storage/v1/object/public/(recipe-images|product-documents)/',
+    '/api/storage-file/\1/'
+  )
+where file_url ~ '/storage/v1/object/public/(recipe-images|product-documents)/'
+   or image_url ~ '/storage/v1/object/public/(recipe-images|product-documents)/';
+
+-- Same for revision snapshots, so restoring an old version keeps its files
+update public.item_revisions
+set snapshot = regexp_replace(
+  snapshot::text,
+  'https?://[^/"]+/storage/v1/object/public/(recipe-images|product-documents)/',
+  '/api/storage-file/\1/',
+  'g'
+)::jsonb
+where snapshot::text ~ '/storage/v1/object/public/(recipe-images|product-documents)/';
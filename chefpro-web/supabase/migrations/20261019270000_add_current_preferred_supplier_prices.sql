@@ -0,0 +1,26 @@
+-- Price of each item's preferred supplier that is in effect today. Costing
+-- reads it at query time, so a price with a future valid_from takes over
+-- on its date and replaces the older one without a write to items.
+-- items.purchase_price stays the fallback for items without such a price.
+
+create or replace view public.current_preferred_supplier_prices
+with (security_invoker = true) as
+select distinct on (items.id)
+  items.id as item_id,
+  items.kitchen_id,
+  supplier_prices.supplier_id,
+  supplier_prices.price,
+  supplier_prices.pack_unit,
+  supplier_prices.valid_from
+from public.items
+join public.supplier_prices
+  on supplier_prices.item_id = items.id
+  and supplier_prices.supplier_id = items.preferred_supplier_id
+  and supplier_prices.kitchen_id = items.kitchen_id
+where supplier_prices.valid_from <= current_date
+order by
+  items.id,
+  supplier_prices.valid_from desc,
+  supplier_prices.created_at desc;
+
+grant select on public.current_preferred_supplier_prices to authenticated;